@@ -0,0 +1,252 @@
+/**
+ * Add Japanese move names (nameJa) into character JSON files.
+ *
+ * Usage:
+ *   pnpm data:move-ja          # all characters
+ *   pnpm data:move-ja ryu      # single character
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const CHAR_DIR = path.join(__dirname, '../src/data/characters');
+
+type Move = Record<string, any> & { name: string; nameJa?: string; input?: string; category?: string };
+
+const BUTTON_JA: Record<string, string> = {
+  LP: '弱P',
+  MP: '中P',
+  HP: '強P',
+  LK: '弱K',
+  MK: '中K',
+  HK: '強K',
+};
+
+const NORMAL_PREFIX_JA: Record<string, string> = {
+  Stand: '立ち',
+  Crouch: 'しゃがみ',
+  Jump: 'ジャンプ',
+  'Neutral Jump': '垂直ジャンプ',
+};
+
+// In-game names of the moves (Japanese version); names missing here keep the English fallback.
+const EXACT_NAME_JA: Record<string, string> = {
+  // System
+  'Drive Parry': 'ドライブパリィ',
+  'Parry Drive Rush': 'ドライブラッシュ',
+  'Drive Rush Cancel': 'キャンセルドライブラッシュ',
+
+  // Ryu / Ken / Akuma
+  Hadoken: '波動拳',
+  Shoryuken: '昇龍拳',
+  'Tatsumaki Senpu-kyaku': '竜巻旋風脚',
+  'Aerial Tatsumaki Senpu-kyaku': '空中竜巻旋風脚',
+  Hashogeki: '波掌撃',
+  'Denjin Charge': '電刃練気',
+  'Denjin Charge Hadoken': '電刃波動拳',
+  'Shinku Hadoken': '真空波動拳',
+  'Denjin Hadoken': '電刃波動拳',
+  'Shin Shoryuken': '真・昇龍拳',
+  'Shin Shoryuken (CA)': '真・昇龍拳（CA）',
+  'Shin Hashogeki Lv.1': '真・波掌撃 Lv.1',
+  'Shin Hashogeki Lv.2': '真・波掌撃 Lv.2',
+  'Shin Hashogeki Lv.3': '真・波掌撃 Lv.3',
+  'Jinrai Kick': '迅雷脚',
+  'Dragonlash Kick': '龍尾脚',
+  'Gou Hadoken': '豪波動拳',
+  'Gou Shoryuken': '豪昇龍拳',
+  'Tatsumaki Zanku-Kyaku': '竜巻斬空脚',
+
+  // Chun-Li
+  Kikoken: '気功拳',
+  'Hundred Lightning Kicks': '百裂脚',
+  'Aerial Hundred Lightning Kicks': '空中百裂脚',
+  'Spinning Bird Kick': 'スピニングバードキック',
+  Hazanshu: '覇山蹴',
+  'Tensho Kicks': '天昇脚',
+
+  // Guile
+  'Sonic Boom': 'ソニックブーム',
+  'Somersault Kick': 'サマーソルトキック',
+
+  // Cammy
+  'Spiral Arrow': 'スパイラルアロー',
+  'Cannon Spike': 'キャノンスパイク',
+
+  // Dhalsim
+  'Yoga Flame': 'ヨガフレイム',
+  'Yoga Blast': 'ヨガブラスト',
+  'Yoga Inferno': 'ヨガインフェルノ',
+
+  // E.Honda
+  'Hundred Hand Slap': '百裂張り手',
+  'Sumo Headbutt': 'スーパー頭突き',
+  'Sumo Smash': 'スーパー百貫落とし',
+  'Oicho Throw': '大銀杏投げ',
+
+  // Zangief
+  'Screw Piledriver': 'スクリューパイルドライバー',
+  'Siberian Express': 'シベリアンエクスプレス',
+
+  // Juri
+  Fuhajin: '風破刃',
+  Saihasho: '歳破衝',
+  Ankensatsu: '暗剣殺',
+
+  // Rashid
+  'Spinning Mixer': 'スピニングミキサー',
+  'Eagle Spike': 'イーグルスパイク',
+  'Arabian Cyclone': 'アラビアンサイクロン',
+  'Arabian Skyhigh': 'アラビアンスカイハイ',
+
+  // M.Bison
+  'Psycho Crusher Attack': 'サイコクラッシャーアタック',
+
+  // Terry
+  'Power Wave': 'パワーウェイブ',
+  'Burning Knuckle': 'バーンナックル',
+  'Crack Shoot': 'クラックシュート',
+  'Rising Tackle': 'ライジングタックル',
+  'Power Charge': 'パワーチャージ',
+
+  // Mai
+  Kachousen: '花蝶扇',
+  Ryuuenbu: '龍炎舞',
+  'Hissatsu Shinobi Bachi': '必殺忍蜂',
+  'Hishou Ryuuenjin': '飛翔龍炎陣',
+
+  // Sagat
+  'Tiger Uppercut': 'タイガーアッパーカット',
+  'Tiger Knee Crush': 'タイガーニークラッシュ',
+
+  // Dee Jay
+  'Air Slasher': 'エアスラッシャー',
+  'Jackknife Maximum': 'ジャックナイフマキシマム',
+  'Machine Gun Uppercut': 'マシンガンアッパー',
+};
+
+function translateDirectionalTaunt(name: string): string | undefined {
+  if (!name.endsWith(' Taunt')) return undefined;
+  const prefix = name.replace(/ Taunt$/, '').trim();
+  const parts = prefix.split('~').map(p => p.trim()).filter(Boolean);
+  if (parts.length === 0) return undefined;
+
+  const dirMap: Record<string, string> = {
+    Neutral: 'ニュートラル',
+    Down: '下',
+    Forward: '前',
+    Back: '後ろ',
+  };
+
+  const mapped = parts.map(p => dirMap[p] ?? p);
+  return `${mapped.join('~')}アピール`;
+}
+
+function translateNormalButtonName(name: string): string | undefined {
+  // e.g. "Stand LP", "Stand HP (hold)", "Neutral Jump HK"
+  const m = name.match(/^(Stand|Crouch|Jump|Neutral Jump) (LP|MP|HP|LK|MK|HK)(?: \(([^)]+)\))?$/);
+  if (!m) return undefined;
+  const prefix = m[1]!;
+  const btn = m[2]!;
+  const suffixRaw = m[3];
+
+  const prefixJa = NORMAL_PREFIX_JA[prefix] ?? prefix;
+  const btnJa = BUTTON_JA[btn] ?? btn;
+
+  let suffix = '';
+  if (suffixRaw) {
+    const s = suffixRaw.trim().toLowerCase();
+    if (s === 'hold') suffix = '（ホールド）';
+    else suffix = `（${suffixRaw}）`;
+  }
+
+  return `${prefixJa}${btnJa}${suffix}`;
+}
+
+// OD versions share the English name; the input ends in two punches or two kicks.
+function isOverdrive(move: Move): boolean {
+  return move.category === 'special' && /(?:PP|KK)$/.test(move.input ?? '');
+}
+
+function getMoveNameJa(move: Move): string | undefined {
+  // Input-based universal mappings
+  if (move.input === 'HPHK') return 'ドライブインパクト';
+  if (move.input === '6HPHK') return 'ドライブリバーサル';
+
+  const tauntJa = translateDirectionalTaunt(move.name);
+  if (tauntJa) return tauntJa;
+
+  const exactJa = EXACT_NAME_JA[move.name];
+  if (exactJa) return isOverdrive(move) ? `OD${exactJa}` : exactJa;
+
+  const normalJa = translateNormalButtonName(move.name);
+  if (normalJa) return normalJa;
+
+  // No best-effort / token-based translation here on purpose.
+  return undefined;
+}
+
+function listTargetFiles(characterId?: string): string[] {
+  const all = fs.readdirSync(CHAR_DIR).filter(f => f.endsWith('.json'));
+  if (!characterId) return all.map(f => path.join(CHAR_DIR, f));
+  const target = `${characterId}.json`;
+  if (!all.includes(target)) {
+    throw new Error(`Character file not found: ${target}`);
+  }
+  return [path.join(CHAR_DIR, target)];
+}
+
+function main() {
+  const arg = process.argv[2];
+  const files = listTargetFiles(arg);
+
+  let touchedFiles = 0;
+  let added = 0;
+  let updated = 0;
+  let removed = 0;
+
+  for (const filePath of files) {
+    const raw = fs.readFileSync(filePath, 'utf8');
+    const data = JSON.parse(raw);
+
+    if (!Array.isArray(data.moves)) continue;
+
+    let changed = false;
+    for (const move of data.moves as Move[]) {
+      const desired = getMoveNameJa(move);
+
+      if (!desired) {
+        if (move.nameJa !== undefined) {
+          delete move.nameJa;
+          removed++;
+          changed = true;
+        }
+        continue;
+      }
+
+      if (move.nameJa === desired) continue;
+
+      if (move.nameJa === undefined) added++;
+      else updated++;
+
+      move.nameJa = desired;
+      changed = true;
+    }
+
+    // New keys land after nameZh, which the scrapers write last; no reordering keeps the diff to nameJa.
+    if (!changed) continue;
+
+    fs.writeFileSync(filePath, JSON.stringify(data, null, 2) + '\n', 'utf8');
+    touchedFiles++;
+  }
+
+  console.log(
+    `Done. Files updated: ${touchedFiles}. nameJa added: ${added}, updated: ${updated}, removed: ${removed}.`,
+  );
+}
+
+main();
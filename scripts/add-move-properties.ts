@@ -0,0 +1,80 @@
+/**
+ * Backfill invuln / armor / airborne frame ranges on character files scraped before the
+ * scrapers read those columns. Ranges come from the move notes. Reversals whose frames the
+ * source does not state keep their estimate in the reversal catalog only, never in `invuln`.
+ *
+ * Usage:
+ *   pnpm exec tsx scripts/add-move-properties.ts [characterId...]
+ *
+ * Rewrites src/data/characters/<characterId>.json in place; re-run `pnpm data:reversals` afterwards.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { FrameData, Move } from '../src/types';
+import { buildMoveProperties, getReversalInvulnRange, type MovePropertyFields } from '../src/utils/moveProperties';
+import { buildReversalCatalog } from '../src/utils/reversals';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const CHARACTERS_DIR = path.join(__dirname, '../src/data/characters');
+
+const PROPERTY_KEYS: (keyof MovePropertyFields)[] = ['invuln', 'armor', 'airborne'];
+
+function pickProperties(move: MovePropertyFields): MovePropertyFields {
+    return Object.fromEntries(PROPERTY_KEYS.filter(key => move[key]).map(key => [key, move[key]]));
+}
+
+// Keep the key order of types/index.ts: the ranges sit right before notes / raw.
+function withProperties(move: Move, properties: MovePropertyFields): Move {
+    const rest = Object.entries(move).filter(([key]) => !PROPERTY_KEYS.includes(key as keyof MovePropertyFields));
+    const insertAt = rest.findIndex(([key]) => key === 'notes' || key === 'raw');
+    rest.splice(insertAt === -1 ? rest.length : insertAt, 0, ...Object.entries(pickProperties(properties)));
+    return Object.fromEntries(rest) as Move;
+}
+
+function main() {
+    const only = process.argv.slice(2);
+    const files = fs.readdirSync(CHARACTERS_DIR)
+        .filter(file => file.endsWith('.json'))
+        .filter(file => only.length === 0 || only.includes(path.basename(file, '.json')))
+        .sort();
+
+    for (const file of files) {
+        const filePath = path.join(CHARACTERS_DIR, file);
+        const frameData = JSON.parse(fs.readFileSync(filePath, 'utf8')) as FrameData;
+
+        let moves = frameData.moves.map(move => {
+            const properties: MovePropertyFields = {
+                ...buildMoveProperties({ notes: move.notes }),
+                // Columns read by a newer scrape are kept as they are.
+                ...pickProperties(move),
+            };
+            return withProperties(move, properties);
+        });
+
+        let unstated = 0;
+        for (const entry of buildReversalCatalog(moves)) {
+            if (!entry.invincible) continue;
+            if (entry.invincibleSource === 'estimated') {
+                unstated++;
+                continue;
+            }
+            const index = moves.findIndex(move => move.input === entry.moveInput);
+            const move = moves[index]!;
+            if (getReversalInvulnRange(move)) continue;
+            const invuln = [...(move.invuln ?? []), { ...entry.invincible, types: ['full' as const] }];
+            moves = moves.map((current, i) => (i === index ? withProperties(current, { ...current, invuln }) : current));
+        }
+
+        fs.writeFileSync(filePath, JSON.stringify({ ...frameData, moves }, null, 2) + '\n');
+        const withRanges = moves.filter(move => PROPERTY_KEYS.some(key => move[key])).length;
+        console.log(`${frameData.character.id}: ${withRanges} moves with frame ranges (${unstated} reversals without stated invincibility)`);
+    }
+
+    console.log(`✓ Updated ${files.length} character files`);
+}
+
+main();
@@ -132,6 +132,7 @@ function reorderMove(move) {
   const orderedKeys = [
     'name',
     'nameZh',
+    'nameJa',
     'input',
     'damage',
     'startup',
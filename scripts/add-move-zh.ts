@@ -135,6 +135,7 @@ function reorderMove(move: Move): Move {
   const orderedKeys = [
     'name',
     'nameZh',
+    'nameJa',
     'input',
     'damage',
     'startup',
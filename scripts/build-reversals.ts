@@ -0,0 +1,46 @@
+/**
+ * Derive each character's reversal catalog (OD DP, SA1/SA2/SA3, command grabs) from the frame data.
+ * Re-run after scraping new frame data; the oki calculator reads the generated files.
+ *
+ * Usage:
+ *   pnpm exec tsx scripts/build-reversals.ts [characterId...]
+ *
+ * Writes src/data/reversals/<characterId>.json.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { FrameData } from '../src/types';
+import { buildReversalData, REVERSAL_KIND_LABELS } from '../src/utils/reversals';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const CHARACTERS_DIR = path.join(__dirname, '../src/data/characters');
+const REVERSALS_DIR = path.join(__dirname, '../src/data/reversals');
+
+function main() {
+    const only = process.argv.slice(2);
+    fs.mkdirSync(REVERSALS_DIR, { recursive: true });
+
+    const files = fs.readdirSync(CHARACTERS_DIR)
+        .filter(file => file.endsWith('.json'))
+        .filter(file => only.length === 0 || only.includes(path.basename(file, '.json')))
+        .sort();
+
+    for (const file of files) {
+        const frameData = JSON.parse(fs.readFileSync(path.join(CHARACTERS_DIR, file), 'utf8')) as FrameData;
+        const data = buildReversalData(frameData);
+        fs.writeFileSync(path.join(REVERSALS_DIR, file), JSON.stringify(data, null, 2) + '\n');
+
+        const summary = data.reversals
+            .map(entry => `${REVERSAL_KIND_LABELS[entry.kind]} ${entry.moveInput} ${entry.startup}F`)
+            .join(', ');
+        console.log(`${data.characterId}: ${summary || '(none)'}`);
+    }
+
+    console.log(`✓ Wrote ${files.length} reversal catalogs -> src/data/reversals/`);
+}
+
+main();
@@ -4,12 +4,17 @@
  * Usage:
  *   pnpm exec tsx scripts/download-fat-data.ts
  *   pnpm exec tsx scripts/download-fat-data.ts ryu   # Download specific character only
+ *
+ * This overwrites src/data/characters. Before pulling a balance patch, keep the old values with
+ *   pnpm data:snapshot <patchId>
  */
 
 import axios from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { buildMoveProperties, type MovePropertyFields } from '../src/utils/moveProperties';
+import { findRosterEntryBySource } from '../src/utils/roster';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -17,68 +22,6 @@ const __dirname = path.dirname(__filename);
 const FAT_DATA_URL = 'https://raw.githubusercontent.com/D4RKONION/FAT/master/src/js/constants/framedata/SF6FrameData.json';
 const OUTPUT_DIR = path.join(__dirname, '../src/data/characters');
 
-// Character ID mapping from FAT names to our IDs
-const CHARACTER_ID_MAP: Record<string, string> = {
-    'Ryu': 'ryu',
-    'Ken': 'ken',
-    'Luke': 'luke',
-    'Jamie': 'jamie',
-    'Chun-Li': 'chun-li',
-    'Guile': 'guile',
-    'Kimberly': 'kimberly',
-    'Juri': 'juri',
-    'Manon': 'manon',
-    'Marisa': 'marisa',
-    'Dee Jay': 'dee-jay',
-    'Cammy': 'cammy',
-    'Lily': 'lily',
-    'Zangief': 'zangief',
-    'JP': 'jp',
-    'Dhalsim': 'dhalsim',
-    'E.Honda': 'honda',
-    'Blanka': 'blanka',
-    'Rashid': 'rashid',
-    'A.K.I.': 'aki',
-    'Ed': 'ed',
-    'Akuma': 'akuma',
-    'M.Bison': 'mbison',
-    'Terry': 'terry',
-    'Mai': 'mai',
-    'Elena': 'elena',
-    'Ingrid': 'ingrid',
-};
-
-// Japanese name mapping
-const NAME_JP_MAP: Record<string, string> = {
-    'ryu': 'リュウ',
-    'ken': 'ケン',
-    'luke': 'ルーク',
-    'jamie': 'ジェイミー',
-    'chun-li': '春麗',
-    'guile': 'ガイル',
-    'kimberly': 'キンバリー',
-    'juri': 'ジュリ',
-    'manon': 'マノン',
-    'marisa': 'マリーザ',
-    'dee-jay': 'ディージェイ',
-    'cammy': 'キャミィ',
-    'lily': 'リリー',
-    'zangief': 'ザンギエフ',
-    'jp': 'JP',
-    'dhalsim': 'ダルシム',
-    'honda': 'エドモンド本田',
-    'blanka': 'ブランカ',
-    'rashid': 'ラシード',
-    'aki': 'アキ',
-    'ed': 'エド',
-    'akuma': '豪鬼',
-    'mbison': 'ベガ',
-    'terry': 'テリー',
-    'mai': '不知火舞',
-    'elena': 'エレナ',
-    'ingrid': 'イングリッド',
-};
-
 // Cancel type display names
 const CANCEL_TYPE_MAP: Record<string, string> = {
     'sp': 'Special',
@@ -129,7 +72,7 @@ interface FATCharacter {
 
 type MoveCategory = 'normal' | 'unique' | 'special' | 'super' | 'throw';
 
-interface ConvertedMove {
+interface ConvertedMove extends MovePropertyFields {
     name: string;
     input: string;
     damage: string;
@@ -209,6 +152,10 @@ function parseCancelTypes(xx?: string[]): string[] | undefined {
     return xx.map(cancel => CANCEL_TYPE_MAP[cancel] || cancel).filter(Boolean);
 }
 
+function readTextField(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() !== '' ? value : undefined;
+}
+
 function convertFATMove(fatMove: FATMove): ConvertedMove {
     const onHit = fatMove.onHit !== undefined ? String(fatMove.onHit) : '-';
     const cancels = parseCancelTypes(fatMove.xx);
@@ -225,6 +172,13 @@ function convertFATMove(fatMove: FATMove): ConvertedMove {
         category: determineMoveCategory(fatMove),
         cancels: cancels,
         knockdown: parseKnockdown(fatMove.onHit),
+        // FAT keeps one fact per extraInfo line; all of them may state frame ranges.
+        ...buildMoveProperties({
+            invuln: readTextField(fatMove.invuln),
+            armor: readTextField(fatMove.armor),
+            airborne: readTextField(fatMove.airborne),
+            notes: fatMove.extraInfo?.join('; '),
+        }),
         notes: fatMove.extraInfo ? fatMove.extraInfo[0] : undefined,
         raw: fatMove,
     };
@@ -241,9 +195,9 @@ function parseStats(stats?: FATStats): CharacterStats {
 }
 
 function convertCharacter(name: string, fatChar: FATCharacter): FrameData | null {
-    const id = CHARACTER_ID_MAP[name];
-    if (!id) {
-        console.log(`  Skipping unknown character: ${name}`);
+    const entry = findRosterEntryBySource('fat', name);
+    if (!entry) {
+        console.log(`  Skipping unknown character: ${name} (add it with pnpm data:new-character)`);
         return null;
     }
 
@@ -269,9 +223,9 @@ function convertCharacter(name: string, fatChar: FATCharacter): FrameData | null
 
     return {
         character: {
-            id,
-            name,
-            nameJp: NAME_JP_MAP[id] || name,
+            id: entry.id,
+            name: entry.names.en,
+            nameJp: entry.names.ja,
         },
         stats: parseStats(fatChar.stats),
         moves,
@@ -306,7 +260,7 @@ async function main() {
         let savedCount = 0;
 
         for (const charName of Object.keys(fatData)) {
-            const id = CHARACTER_ID_MAP[charName];
+            const id = findRosterEntryBySource('fat', charName)?.id;
 
             // Skip if targeting specific character and this isn't it
             if (targetCharacter && id !== targetCharacter) continue;
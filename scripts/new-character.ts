@@ -0,0 +1,137 @@
+/**
+ * Scaffold a newly released character: a roster registry entry plus empty frame data, combo and
+ * key move files, so the character shows up in every view and script before its data is scraped.
+ *
+ * Usage:
+ *   pnpm data:new-character <id> --name "C. Viper" [--ja "C. ヴァイパー"] [--zh "C.维珀"]
+ *     [--alias Viper --alias ...] [--season 3] [--fat "C.Viper"] [--supercombo "C.Viper"]
+ *
+ * --season defaults to the latest season in the registry; --fat and --supercombo are only needed
+ * when the source spells the name differently from --name. Existing files are never overwritten,
+ * so the command can be re-run after a partial scaffold. Fill in the frame data afterwards with
+ *   pnpm exec tsx scripts/download-fat-data.ts <id>
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { ROSTER } from '../src/data/roster';
+import type { ComboData, FrameData, KeyMoveData, RosterEntry } from '../src/types';
+import { findRosterEntry } from '../src/utils/roster';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DATA_DIR = path.join(__dirname, '../src/data');
+const ROSTER_PATH = path.join(DATA_DIR, 'roster.ts');
+
+function readOption(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+}
+
+function readOptions(args: string[], name: string): string[] {
+    return args.flatMap((arg, index) => (arg === name && args[index + 1] ? [args[index + 1]!] : []));
+}
+
+function quote(text: string): string {
+    return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+// Same layout as the hand-written entries: one line, or one field per line when sources are set.
+function formatRosterEntry(entry: RosterEntry): string {
+    const fields = [
+        `id: ${quote(entry.id)}`,
+        `names: { en: ${quote(entry.names.en)}, ja: ${quote(entry.names.ja)}, zh: ${quote(entry.names.zh)} }`,
+        `aliases: [${entry.aliases.map(quote).join(', ')}]`,
+        `season: ${entry.season}`,
+    ];
+    const sources = Object.entries(entry.sources ?? {}).map(([key, value]) => `${key}: ${quote(value)}`);
+    if (sources.length === 0) return `  { ${fields.join(', ')} },`;
+    fields.push(`sources: { ${sources.join(', ')} }`);
+    return `  {\n${fields.map(field => `    ${field},`).join('\n')}\n  },`;
+}
+
+function writeIfMissing(filePath: string, content: string) {
+    const relative = path.relative(path.join(__dirname, '..'), filePath);
+    if (fs.existsSync(filePath)) {
+        console.log(`- Kept existing ${relative}`);
+        return;
+    }
+    fs.writeFileSync(filePath, content);
+    console.log(`✓ Created ${relative}`);
+}
+
+function main() {
+    const args = process.argv.slice(2);
+    const id = args[0];
+    const name = readOption(args, '--name');
+
+    if (!id || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(id) || !name) {
+        console.error('Usage: pnpm data:new-character <id> --name "Name" [--ja "..."] [--zh "..."] [--alias ...] [--season N] [--fat "..."] [--supercombo "..."]');
+        console.error('id must be lowercase letters and digits separated by "-", e.g. "c-viper".');
+        process.exit(1);
+    }
+
+    const sources: NonNullable<RosterEntry['sources']> = {};
+    const fatName = readOption(args, '--fat');
+    const supercomboName = readOption(args, '--supercombo');
+    if (fatName) sources.fat = fatName;
+    if (supercomboName) sources.supercombo = supercomboName;
+
+    const season = Number(readOption(args, '--season') ?? Math.max(...ROSTER.map(entry => entry.season)));
+    if (!Number.isInteger(season) || season < 0) {
+        console.error('--season must be 0 (launch roster) or a character pass year.');
+        process.exit(1);
+    }
+
+    const entry: RosterEntry = {
+        id,
+        names: { en: name, ja: readOption(args, '--ja') ?? name, zh: readOption(args, '--zh') ?? name },
+        aliases: readOptions(args, '--alias'),
+        season,
+        ...(Object.keys(sources).length > 0 ? { sources } : {}),
+    };
+
+    const existing = ROSTER.find(other => other.id === id);
+    if (existing) {
+        console.log(`- ${id} is already in the roster registry`);
+    } else {
+        const conflicts = [...new Set([...Object.values(entry.names), ...entry.aliases])]
+            .map(key => ({ key, owner: findRosterEntry(key) }))
+            .filter(({ owner }) => owner !== null);
+        if (conflicts.length > 0) {
+            for (const { key, owner } of conflicts) console.error(`"${key}" already refers to ${owner!.id}`);
+            process.exit(1);
+        }
+
+        const source = fs.readFileSync(ROSTER_PATH, 'utf8');
+        const end = source.lastIndexOf('\n];');
+        if (end < 0) {
+            console.error(`Could not find the end of ROSTER in ${ROSTER_PATH}`);
+            process.exit(1);
+        }
+        fs.writeFileSync(ROSTER_PATH, `${source.slice(0, end)}\n${formatRosterEntry(entry)}${source.slice(end)}`);
+        console.log(`✓ Added ${id} to src/data/roster.ts`);
+    }
+
+    const character = existing ?? entry;
+    const lastUpdated = new Date().toISOString().split('T')[0]!;
+
+    // Dash frames stay 0 until the frame data is downloaded, like a FAT entry without stats.
+    const frameData: FrameData = {
+        character: { id, name: character.names.en, nameJp: character.names.ja },
+        stats: { health: 10000, forwardDash: 0, backDash: 0 },
+        moves: [],
+        lastUpdated,
+    };
+    const comboData: ComboData = { characterId: id, combos: [], lastUpdated };
+    // An empty manual list falls back to the generated key moves (see buildKeyMoveData).
+    const keyMoveData: KeyMoveData = { characterId: id, source: 'manual', lastUpdated, keyMoves: [] };
+
+    writeIfMissing(path.join(DATA_DIR, 'characters', `${id}.json`), JSON.stringify(frameData, null, 2));
+    writeIfMissing(path.join(DATA_DIR, 'combos', `${id}.json`), JSON.stringify(comboData, null, 2));
+    writeIfMissing(path.join(DATA_DIR, 'key-moves', `${id}.json`), JSON.stringify(keyMoveData, null, 2) + '\n');
+}
+
+main();
@@ -0,0 +1,371 @@
+/**
+ * Headless oki setup search (same meaty results as the /oki route).
+ *
+ * Usage:
+ *   pnpm exec tsx scripts/oki-cli.ts <attacker> --kd <input|name> [options]
+ *   pnpm exec tsx scripts/oki-cli.ts <attacker> --kd-adv <frames> [options]
+ *
+ * Options:
+ *   --kd <input|name>       Knockdown move (e.g. 2HK, "Shoryuken (Corner)")
+ *   --kd-adv <frames>       Custom knockdown advantage instead of a move
+ *   --reversal <frames>     Opponent reversal startup (default 4)
+ *   --prefix <actions>      Comma separated prefix: dash, empty-jump, dr. Dashes and empty jumps
+ *                           are done first and come off the knockdown advantage; dr keeps the
+ *                           setups that Drive Rush into the button
+ *   --sort <key>            block | hit | startup | tolerance | trade (default block)
+ *   --order <asc|desc>      Sort order (default desc, startup defaults to asc)
+ *   --limit <n>             Max rows (default 50)
+ *   --only-covered          Hide trade-only results
+ *   --format <table|json|csv>
+ *
+ * Examples:
+ *   pnpm exec tsx scripts/oki-cli.ts ryu --kd 2HK
+ *   pnpm exec tsx scripts/oki-cli.ts ken --kd-adv 38 --prefix dash --format csv > ken-38.csv
+ *   pnpm exec tsx scripts/oki-cli.ts ryu --kd-adv 50 --prefix empty-jump
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { FrameData } from '../src/types';
+import { translate, type LocalizedText } from '../src/i18n';
+import { defaultCustomMoves } from '../src/data/defaultCustomMoves';
+import { defaultExcludedMoves } from '../src/data/defaultExcludedMoves';
+import { PARRY_DRIVE_RUSH_ATTACK_CANCEL_FRAME } from '../src/utils/driveRush';
+import { calculateMoveTotalFrames } from '../src/utils/frameTotals';
+import {
+  createOkiTiming,
+  EMPTY_JUMP_TOTAL_FRAMES,
+  filterOkiResults,
+  generateMeatyOkiResults,
+  getComboActionDisplayName,
+  getOkiPrefixPartLabel,
+  OKI_RESULT_LIMIT,
+  parseKnockdownAdvantage,
+  type ComboAction,
+  type ExtendedOkiResult,
+  type OkiSortKey,
+  type SortOrder,
+} from '../src/utils/oki';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const CHAR_DIR = path.join(__dirname, '../src/data/characters');
+
+const SORT_KEYS: OkiSortKey[] = ['block', 'hit', 'startup', 'tolerance', 'trade'];
+const FORMATS = ['table', 'json', 'csv'] as const;
+type OutputFormat = typeof FORMATS[number];
+
+type CliOptions = {
+  attackerId: string;
+  knockdown?: string;
+  knockdownAdvantage?: number;
+  reversalStartup: number;
+  prefixActions: string[];
+  sortKey: OkiSortKey;
+  sortOrder: SortOrder;
+  limit: number;
+  onlyCovered: boolean;
+  format: OutputFormat;
+};
+
+type KnockdownSelection = {
+  label: string;
+  advantage: number;
+};
+
+type OkiCliRow = {
+  prefix: string;
+  prefixFrames: number;
+  move: string;
+  input: string;
+  startup: number;
+  activeStart: number;
+  activeEnd: number;
+  tolerance: number | null;
+  covers: boolean;
+  trade: boolean;
+  safeVsDriveReversal: boolean;
+  onBlock: number | string | null;
+  onHit: number | string | null;
+  tradeAdvantage: number | null;
+  moveTotalFrames: number | null;
+  tags: string;
+};
+
+const CSV_COLUMNS: (keyof OkiCliRow)[] = [
+  'prefix',
+  'prefixFrames',
+  'move',
+  'input',
+  'startup',
+  'activeStart',
+  'activeEnd',
+  'tolerance',
+  'covers',
+  'trade',
+  'safeVsDriveReversal',
+  'onBlock',
+  'onHit',
+  'tradeAdvantage',
+  'moveTotalFrames',
+  'tags',
+];
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  if (value === undefined || value.startsWith('--')) {
+    fail(`Missing value for ${name}`);
+  }
+  return value;
+}
+
+function readIntFlag(args: string[], name: string): number | undefined {
+  const value = readFlag(args, name);
+  if (value === undefined) return undefined;
+  const parsed = parseInt(value, 10);
+  if (Number.isNaN(parsed)) fail(`${name} expects a number, got "${value}"`);
+  return parsed;
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const attackerId = args[0];
+  if (!attackerId || attackerId.startsWith('--')) {
+    fail('Usage: pnpm exec tsx scripts/oki-cli.ts <attacker> (--kd <input> | --kd-adv <frames>) [--prefix dash,dr] [--format table|json|csv]');
+  }
+
+  const knockdown = readFlag(args, '--kd');
+  const knockdownAdvantage = readIntFlag(args, '--kd-adv');
+  if (!knockdown && knockdownAdvantage === undefined) {
+    fail('Either --kd <input> or --kd-adv <frames> is required');
+  }
+
+  const sortKey = (readFlag(args, '--sort') ?? 'block') as OkiSortKey;
+  if (!SORT_KEYS.includes(sortKey)) fail(`Unknown sort key "${sortKey}" (expected ${SORT_KEYS.join(', ')})`);
+
+  const order = readFlag(args, '--order');
+  if (order && order !== 'asc' && order !== 'desc') fail(`Unknown sort order "${order}"`);
+
+  const format = (readFlag(args, '--format') ?? 'table') as OutputFormat;
+  if (!FORMATS.includes(format)) fail(`Unknown format "${format}" (expected ${FORMATS.join(', ')})`);
+
+  const prefix = readFlag(args, '--prefix');
+
+  return {
+    attackerId: attackerId.toLowerCase(),
+    knockdown,
+    knockdownAdvantage,
+    reversalStartup: readIntFlag(args, '--reversal') ?? 4,
+    prefixActions: prefix ? prefix.split(',').map(action => action.trim().toLowerCase()).filter(Boolean) : [],
+    sortKey,
+    // Same default as the /oki table: startup ascending, everything else descending.
+    sortOrder: (order as SortOrder | undefined) ?? (sortKey === 'startup' ? 'asc' : 'desc'),
+    limit: readIntFlag(args, '--limit') ?? OKI_RESULT_LIMIT,
+    onlyCovered: args.includes('--only-covered'),
+    format,
+  };
+}
+
+function loadFrameData(characterId: string): FrameData {
+  const filePath = path.join(CHAR_DIR, `${characterId}.json`);
+  if (!fs.existsSync(filePath)) {
+    const available = fs.readdirSync(CHAR_DIR)
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.replace(/\.json$/, ''));
+    fail(`Unknown character "${characterId}". Available: ${available.join(', ')}`);
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as FrameData;
+}
+
+// Mirrors the knockdown picker: every knockdown move plus its alternative (corner, etc.) advantages.
+function listKnockdownOptions(frameData: FrameData): KnockdownSelection[] {
+  const options: KnockdownSelection[] = [];
+  for (const move of frameData.moves) {
+    if (!move.knockdown || move.knockdown.type === 'none') continue;
+    options.push({ label: `${move.name} (${move.input})`, advantage: parseKnockdownAdvantage(move) });
+    for (const alt of move.knockdown.alternativeAdvantages ?? []) {
+      options.push({ label: `${move.name} (${alt.condition}) (${move.input})`, advantage: alt.advantage });
+    }
+  }
+  for (const custom of defaultCustomMoves) {
+    if (custom.characterId !== frameData.character.id) continue;
+    options.push({ label: `${custom.name} (${custom.input})`, advantage: custom.frames });
+  }
+  return options;
+}
+
+function resolveKnockdown(frameData: FrameData, options: CliOptions): KnockdownSelection {
+  if (options.knockdownAdvantage !== undefined) {
+    return { label: 'Custom', advantage: options.knockdownAdvantage };
+  }
+
+  const query = (options.knockdown ?? '').toLowerCase();
+  const knockdownOptions = listKnockdownOptions(frameData);
+  const match = knockdownOptions.find(option => option.label.toLowerCase() === query)
+    ?? knockdownOptions.find(option => option.label.toLowerCase().endsWith(`(${query})`))
+    ?? knockdownOptions.find(option => option.label.toLowerCase().startsWith(query));
+
+  if (!match) {
+    const list = knockdownOptions.map(option => `  ${option.label} +${option.advantage}`).join('\n');
+    fail(`No knockdown move matches "${options.knockdown}". Options:\n${list}`);
+  }
+  return match;
+}
+
+// Same actions as the combo chain buttons on /oki.
+function buildComboChain(actions: string[], forwardDash: number): ComboAction[] {
+  return actions.map((action): ComboAction => {
+    if (action === 'dash') return { type: 'dash', frames: forwardDash };
+    if (action === 'dr' || action === 'drive-rush') {
+      return { type: 'driveRush', frames: PARRY_DRIVE_RUSH_ATTACK_CANCEL_FRAME };
+    }
+    if (action === 'jump' || action === 'empty-jump') return { type: 'emptyJump', frames: EMPTY_JUMP_TOTAL_FRAMES };
+    return fail(`Unknown prefix action "${action}" (expected dash, empty-jump, dr)`);
+  });
+}
+
+// Drive Rush buttons get their own frame advantage, so those stay with the meaty search (as a
+// filter); everything else in the chain is done before the setup and uses up knockdown advantage.
+function isChainedBeforeSetup(action: ComboAction): boolean {
+  return action.type !== 'driveRush';
+}
+
+function toEnglish(text: LocalizedText): string {
+  return typeof text === 'string' ? text : translate('en', text.key, text.params);
+}
+
+function toRow(result: ExtendedOkiResult, chain: ComboAction[], chainFrames: number): OkiCliRow {
+  const prefixFrames = chainFrames + result.prefixFrames;
+  return {
+    prefix: [
+      ...chain.map(action => toEnglish(getComboActionDisplayName(action))),
+      ...result.prefix.map(part => toEnglish(getOkiPrefixPartLabel(part))),
+    ].join(' + '),
+    prefixFrames,
+    move: result.move.name,
+    input: result.move.input,
+    startup: prefixFrames + (parseInt(result.move.startup) || 0),
+    activeStart: chainFrames + result.ourActiveStart,
+    activeEnd: chainFrames + result.ourActiveEnd,
+    tolerance: result.toleranceFrames ?? null,
+    covers: result.coversOpponent,
+    trade: result.isTrade,
+    safeVsDriveReversal: !!result.safeAgainstWakeupDriveReversal,
+    onBlock: result.calculatedOnBlock ?? null,
+    onHit: result.calculatedOnHit ?? null,
+    tradeAdvantage: result.tradeAdvantage ?? null,
+    moveTotalFrames: calculateMoveTotalFrames(result.move),
+    tags: (result.tags ?? []).map(tag => toEnglish({ key: tag })).join('; '),
+  };
+}
+
+function formatFrame(val: number | string | null): string {
+  if (val === null) return '-';
+  if (typeof val === 'number') return val > 0 ? `+${val}` : `${val}`;
+  return val;
+}
+
+function printTable(rows: OkiCliRow[]) {
+  const header = ['Setup', 'Startup', 'Active', 'Tol', 'Safe DR', 'Block', 'Hit', 'Trade'];
+  const body = rows.map(row => [
+    `${row.covers ? '' : '[trade] '}${row.prefix ? `${row.prefix} + ` : ''}${row.move} (${row.input})`,
+    `${row.startup}F`,
+    `${row.activeStart}~${row.activeEnd}F`,
+    row.tolerance === null ? '-' : `${row.tolerance}F`,
+    row.safeVsDriveReversal ? 'yes' : '-',
+    formatFrame(row.onBlock),
+    formatFrame(row.onHit),
+    formatFrame(row.tradeAdvantage),
+  ]);
+  // CJK prefixes are double width in most terminals.
+  const width = (text: string) => [...text].reduce((sum, ch) => sum + (/[　-鿿＀-￯]/.test(ch) ? 2 : 1), 0);
+  const widths = header.map((title, col) => Math.max(width(title), ...body.map(cells => width(cells[col] ?? ''))));
+  const line = (cells: string[]) => cells.map((cell, col) => cell + ' '.repeat((widths[col] ?? 0) - width(cell))).join('  ');
+
+  console.log(line(header));
+  console.log(widths.map(w => '-'.repeat(w)).join('  '));
+  for (const cells of body) console.log(line(cells));
+}
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function printCsv(rows: OkiCliRow[]) {
+  console.log(CSV_COLUMNS.join(','));
+  for (const row of rows) {
+    console.log(CSV_COLUMNS.map(column => csvCell(row[column])).join(','));
+  }
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const frameData = loadFrameData(options.attackerId);
+  const knockdown = resolveKnockdown(frameData, options);
+  if (knockdown.advantage <= 0) fail(`Knockdown "${knockdown.label}" has no usable advantage`);
+
+  const comboChain = buildComboChain(options.prefixActions, frameData.stats.forwardDash);
+  const chain = comboChain.filter(isChainedBeforeSetup);
+  const chainFrames = chain.reduce((sum, action) => sum + action.frames, 0);
+  if (chainFrames >= knockdown.advantage) {
+    fail(`The prefix takes ${chainFrames}F but "${knockdown.label}" only gives +${knockdown.advantage}F`);
+  }
+
+  // The search starts once the chained prefix has recovered.
+  const timing = createOkiTiming({
+    knockdownAdvantage: knockdown.advantage - chainFrames,
+    opponentReversalStartup: options.reversalStartup,
+  });
+  const allResults = generateMeatyOkiResults({
+    attackerId: frameData.character.id,
+    moves: frameData.moves,
+    stats: frameData.stats,
+    timing,
+  });
+  const results = filterOkiResults(
+    options.onlyCovered ? allResults.filter(result => result.coversOpponent) : allResults,
+    {
+      characterId: frameData.character.id,
+      comboChain: comboChain.filter(action => !isChainedBeforeSetup(action)),
+      excludedMoves: defaultExcludedMoves,
+      sortKey: options.sortKey,
+      sortOrder: options.sortOrder,
+      limit: options.limit,
+    },
+  );
+  const rows = results.map(result => toRow(result, chain, chainFrames));
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify({
+      attacker: frameData.character.id,
+      knockdown: knockdown.label,
+      knockdownAdvantage: knockdown.advantage,
+      prefixFrames: chainFrames,
+      opponentWakeupFrame: chainFrames + timing.opponentWakeupFrame,
+      opponentReversalFirstActiveFrame: chainFrames + timing.opponentFirstActiveFrame,
+      total: allResults.length,
+      results: rows,
+    }, null, 2));
+    return;
+  }
+
+  if (options.format === 'csv') {
+    printCsv(rows);
+    return;
+  }
+
+  console.log(`${frameData.character.name} | ${knockdown.label} +${knockdown.advantage}F | wakeup ${chainFrames + timing.opponentWakeupFrame}F | reversal ${chainFrames + timing.opponentFirstActiveFrame}F`);
+  console.log(`${rows.length} / ${allResults.length} results\n`);
+  printTable(rows);
+}
+
+main();
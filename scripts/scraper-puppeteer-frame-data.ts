@@ -21,6 +21,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import { CHARACTERS, type CharacterConfig } from './characters';
+import { buildMoveProperties, type MovePropertyFields } from '../src/utils/moveProperties';
 
 // Add stealth plugin
 puppeteer.use(StealthPlugin());
@@ -35,9 +36,10 @@ interface KnockdownData {
     advantage: number;
 }
 
-interface Move {
+interface Move extends MovePropertyFields {
     name: string;
     nameZh?: string;
+    nameJa?: string;
     input: string;
     damage: string;
     startup: string;
@@ -84,6 +86,9 @@ interface ScrapedMove {
     cancelText?: string;
     section?: string;
     variant?: string;
+    invuln?: string;
+    armor?: string;
+    airborne?: string;
     notes?: string;
 }
 
@@ -445,8 +450,8 @@ function loadExistingStats(filePath: string): CharacterStats | undefined {
     return undefined;
 }
 
-function loadExistingMoveExtras(filePath: string): Map<string, { nameZh?: string; noMeaty?: boolean }> {
-    const extras = new Map<string, { nameZh?: string; noMeaty?: boolean }>();
+function loadExistingMoveExtras(filePath: string): Map<string, { nameZh?: string; nameJa?: string; noMeaty?: boolean }> {
+    const extras = new Map<string, { nameZh?: string; nameJa?: string; noMeaty?: boolean }>();
     if (!fs.existsSync(filePath)) return extras;
     try {
         const content = fs.readFileSync(filePath, 'utf-8');
@@ -454,9 +459,9 @@ function loadExistingMoveExtras(filePath: string): Map<string, { nameZh?: string
         const moves = Array.isArray(parsed?.moves) ? parsed.moves : [];
         for (const move of moves) {
             if (!move || !move.name || !move.input) continue;
-            if (move.nameZh === undefined && move.noMeaty === undefined) continue;
+            if (move.nameZh === undefined && move.nameJa === undefined && move.noMeaty === undefined) continue;
             const key = `${move.name}||${move.input}`;
-            extras.set(key, { nameZh: move.nameZh, noMeaty: move.noMeaty });
+            extras.set(key, { nameZh: move.nameZh, nameJa: move.nameJa, noMeaty: move.noMeaty });
         }
     } catch {
         return extras;
@@ -486,6 +491,13 @@ function loadExistingMoveNameByInput(filePath: string): Map<string, string> {
     return names;
 }
 
+// Invuln / Armor / Airborne cells are "-" when the move has none.
+function readPropertyCell(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    const text = normalizeFrameText(value);
+    return text && text !== '-' ? text : undefined;
+}
+
 function normalizeScrapedMove(scraped: ScrapedMove): Move {
     const rawName = normalizeFrameText(scraped.name);
     const variant = normalizeVariantLabel(scraped.variant);
@@ -523,6 +535,12 @@ function normalizeScrapedMove(scraped: ScrapedMove): Move {
         category,
         cancels,
         knockdown,
+        ...buildMoveProperties({
+            invuln: readPropertyCell(scraped.invuln),
+            armor: readPropertyCell(scraped.armor),
+            airborne: readPropertyCell(scraped.airborne),
+            notes: scraped.notes,
+        }),
         notes: scraped.notes ? normalizeFrameText(scraped.notes) : undefined
     };
 
@@ -795,6 +813,9 @@ async function scrapeCharacter(browser: any, config: CharacterConfig): Promise<F
         onBlock: headers.findIndex(h => h.includes('on block') || h.includes('block adv') || (h.includes('block') && !h.includes('guard'))),
         onHit: headers.findIndex(h => h.includes('on hit') || h.includes('hit adv') || (h.includes('hit') && !h.includes('hitstop'))),
         cancel: headers.findIndex(h => h.includes('cancel')),
+        invuln: headers.findIndex(h => h.includes('invuln') || h.includes('invincib')),
+        armor: headers.findIndex(h => h.includes('armor')),
+        airborne: headers.findIndex(h => h.includes('airborne')),
         variant: headers.findIndex(h =>
           h.includes('input') ||
           h.includes('button') ||
@@ -841,6 +862,9 @@ async function scrapeCharacter(browser: any, config: CharacterConfig): Promise<F
           onBlock: getCell(idx.onBlock),
           onHit: getCell(idx.onHit),
           cancelText: getCell(idx.cancel),
+          invuln: getCell(idx.invuln),
+          armor: getCell(idx.armor),
+          airborne: getCell(idx.airborne),
           section,
           variant
         });
@@ -947,6 +971,9 @@ async function scrapeCharacter(browser: any, config: CharacterConfig): Promise<F
       const idxOnBlock = headers.findIndex(h => h.includes('on block') || h.includes('block adv') || (h.includes('block') && !h.includes('guard')));
       const idxOnHit = headers.findIndex(h => h.includes('on hit') || h.includes('hit adv') || (h.includes('hit') && !h.includes('hitstop')));
       const idxCancel = headers.findIndex(h => h.includes('cancel'));
+      const idxInvuln = headers.findIndex(h => h.includes('invuln') || h.includes('invincib'));
+      const idxArmor = headers.findIndex(h => h.includes('armor'));
+      const idxAirborne = headers.findIndex(h => h.includes('airborne'));
 
       const isCore = idxInput !== -1 && idxStartup !== -1 && idxActive !== -1 && idxRecovery !== -1;
       if (!isCore) continue;
@@ -976,6 +1003,9 @@ async function scrapeCharacter(browser: any, config: CharacterConfig): Promise<F
           onBlock: getCell(idxOnBlock),
           onHit: getCell(idxOnHit),
           cancelText: getCell(idxCancel),
+          invuln: getCell(idxInvuln),
+          armor: getCell(idxArmor),
+          airborne: getCell(idxAirborne),
           section,
           notes: notesByInput[input] || ''
         });
@@ -1115,6 +1145,7 @@ async function scrapeCharacter(browser: any, config: CharacterConfig): Promise<F
                 const extras = existingMoveExtras.get(key);
                 if (!extras) continue;
                 if (extras.nameZh !== undefined) move.nameZh = extras.nameZh;
+                if (extras.nameJa !== undefined) move.nameJa = extras.nameJa;
                 if (extras.noMeaty !== undefined) move.noMeaty = extras.noMeaty;
             }
         }
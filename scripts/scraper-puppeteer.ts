@@ -36,6 +36,7 @@ interface KnockdownData {
 interface Move {
     name: string;
     nameZh?: string;
+    nameJa?: string;
     input: string;
     damage: string;
     startup: string;
@@ -415,8 +416,8 @@ function loadExistingStats(filePath: string): CharacterStats | undefined {
     return undefined;
 }
 
-function loadExistingMoveExtras(filePath: string): Map<string, { nameZh?: string; noMeaty?: boolean }> {
-    const extras = new Map<string, { nameZh?: string; noMeaty?: boolean }>();
+function loadExistingMoveExtras(filePath: string): Map<string, { nameZh?: string; nameJa?: string; noMeaty?: boolean }> {
+    const extras = new Map<string, { nameZh?: string; nameJa?: string; noMeaty?: boolean }>();
     if (!fs.existsSync(filePath)) return extras;
     try {
         const content = fs.readFileSync(filePath, 'utf-8');
@@ -424,9 +425,9 @@ function loadExistingMoveExtras(filePath: string): Map<string, { nameZh?: string
         const moves = Array.isArray(parsed?.moves) ? parsed.moves : [];
         for (const move of moves) {
             if (!move || !move.name || !move.input) continue;
-            if (move.nameZh === undefined && move.noMeaty === undefined) continue;
+            if (move.nameZh === undefined && move.nameJa === undefined && move.noMeaty === undefined) continue;
             const key = `${move.name}||${move.input}`;
-            extras.set(key, { nameZh: move.nameZh, noMeaty: move.noMeaty });
+            extras.set(key, { nameZh: move.nameZh, nameJa: move.nameJa, noMeaty: move.noMeaty });
         }
     } catch {
         return extras;
@@ -803,6 +804,7 @@ async function scrapeCharacter(browser: any, config: CharacterConfig): Promise<F
                 const extras = existingMoveExtras.get(key);
                 if (!extras) continue;
                 if (extras.nameZh !== undefined) move.nameZh = extras.nameZh;
+                if (extras.nameJa !== undefined) move.nameJa = extras.nameJa;
                 if (extras.noMeaty !== undefined) move.noMeaty = extras.noMeaty;
             }
         }
@@ -0,0 +1,70 @@
+/**
+ * Save the current frame data as a dated snapshot for a game patch, for the /patch-notes diff.
+ * Run it before scraping a balance update, so the pre-patch values are kept.
+ *
+ * Usage:
+ *   pnpm exec tsx scripts/snapshot-frame-data.ts <patchId> [--label "Season 3.1"] [--date 2026-06-03]
+ *
+ * Writes src/data/patches/<patchId>/<characterId>.json and adds the patch to
+ * src/data/patches/index.json (re-running with the same id replaces that snapshot).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { CharacterSnapshot, FrameData, FrameDataSnapshotInfo } from '../src/types';
+import { CURRENT_SNAPSHOT_ID, toSnapshotMove } from '../src/utils/patchDiff';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const CHARACTERS_DIR = path.join(__dirname, '../src/data/characters');
+const PATCHES_DIR = path.join(__dirname, '../src/data/patches');
+const INDEX_PATH = path.join(PATCHES_DIR, 'index.json');
+
+function readOption(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+}
+
+function main() {
+    const args = process.argv.slice(2);
+    const patchId = args[0];
+
+    if (!patchId || patchId.startsWith('--') || !/^[\w.-]+$/.test(patchId) || patchId === CURRENT_SNAPSHOT_ID) {
+        console.error('Usage: pnpm exec tsx scripts/snapshot-frame-data.ts <patchId> [--label "..."] [--date YYYY-MM-DD]');
+        console.error(`patchId may only contain letters, digits, ".", "-" and "_", and cannot be "${CURRENT_SNAPSHOT_ID}".`);
+        process.exit(1);
+    }
+
+    const info: FrameDataSnapshotInfo = {
+        id: patchId,
+        label: readOption(args, '--label') ?? patchId,
+        date: readOption(args, '--date') ?? new Date().toISOString().split('T')[0]!,
+    };
+
+    const snapshotDir = path.join(PATCHES_DIR, patchId);
+    fs.mkdirSync(snapshotDir, { recursive: true });
+
+    const files = fs.readdirSync(CHARACTERS_DIR).filter(file => file.endsWith('.json')).sort();
+    for (const file of files) {
+        const frameData = JSON.parse(fs.readFileSync(path.join(CHARACTERS_DIR, file), 'utf8')) as FrameData;
+        const snapshot: CharacterSnapshot = {
+            characterId: frameData.character.id,
+            lastUpdated: frameData.lastUpdated,
+            moves: frameData.moves.map(toSnapshotMove),
+        };
+        fs.writeFileSync(path.join(snapshotDir, file), JSON.stringify(snapshot, null, 2) + '\n');
+    }
+
+    const index: FrameDataSnapshotInfo[] = fs.existsSync(INDEX_PATH)
+        ? JSON.parse(fs.readFileSync(INDEX_PATH, 'utf8'))
+        : [];
+    const nextIndex = [...index.filter(entry => entry.id !== patchId), info]
+        .sort((a, b) => a.date.localeCompare(b.date));
+    fs.writeFileSync(INDEX_PATH, JSON.stringify(nextIndex, null, 2) + '\n');
+
+    console.log(`✓ Saved snapshot "${info.label}" (${info.date}) for ${files.length} characters -> src/data/patches/${patchId}/`);
+}
+
+main();
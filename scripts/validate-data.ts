@@ -0,0 +1,92 @@
+/**
+ * Validate the character frame data in src/data/characters.
+ *
+ * Usage:
+ *   pnpm exec tsx scripts/validate-data.ts                     # JSON report on stdout
+ *   pnpm exec tsx scripts/validate-data.ts ryu                 # Single character
+ *   pnpm exec tsx scripts/validate-data.ts --out report.json   # Write the report to a file
+ *
+ * A summary goes to stderr. Exits with code 1 when any error-level issue is found;
+ * warnings (missing nameZh, raw.total / raw.blockstun mismatches, ...) do not fail the run.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { validateFrameData, type DataIssue } from '../src/utils/dataValidation';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const CHARACTERS_DIR = path.join(__dirname, '../src/data/characters');
+
+type ValidationReport = {
+    checkedAt: string;
+    files: number;
+    errors: number;
+    warnings: number;
+    issues: DataIssue[];
+};
+
+function main() {
+    const args = process.argv.slice(2);
+    const outIndex = args.indexOf('--out');
+    const outPath = outIndex >= 0 ? args[outIndex + 1] : undefined;
+    const targetCharacter = args.find((arg, index) => !arg.startsWith('--') && (outIndex < 0 || index !== outIndex + 1));
+
+    const files = fs.readdirSync(CHARACTERS_DIR)
+        .filter(file => file.endsWith('.json'))
+        .filter(file => !targetCharacter || file === `${targetCharacter}.json`)
+        .sort();
+
+    if (files.length === 0) {
+        console.error(`No character data found${targetCharacter ? ` for "${targetCharacter}"` : ''} in ${CHARACTERS_DIR}`);
+        process.exit(1);
+    }
+
+    const issues: DataIssue[] = [];
+    for (const file of files) {
+        const fallbackId = path.basename(file, '.json');
+        try {
+            const data = JSON.parse(fs.readFileSync(path.join(CHARACTERS_DIR, file), 'utf8'));
+            issues.push(...validateFrameData(data, fallbackId));
+        } catch (error: any) {
+            issues.push({
+                severity: 'error',
+                code: 'invalid-frame-data',
+                characterId: fallbackId,
+                message: `invalid JSON: ${error.message}`,
+            });
+        }
+    }
+
+    const report: ValidationReport = {
+        checkedAt: new Date().toISOString(),
+        files: files.length,
+        errors: issues.filter(issue => issue.severity === 'error').length,
+        warnings: issues.filter(issue => issue.severity === 'warning').length,
+        issues,
+    };
+
+    const json = JSON.stringify(report, null, 2);
+    if (outPath) {
+        fs.writeFileSync(outPath, json + '\n');
+    } else {
+        console.log(json);
+    }
+
+    const byCode = new Map<string, number>();
+    for (const issue of issues) {
+        const key = `${issue.severity} ${issue.code}`;
+        byCode.set(key, (byCode.get(key) ?? 0) + 1);
+    }
+    for (const [key, count] of [...byCode].sort()) console.error(`  ${key}: ${count}`);
+    for (const issue of issues.filter(issue => issue.severity === 'error')) {
+        console.error(`✗ ${issue.characterId}${issue.input !== undefined ? ` [${issue.input}]` : ''}: ${issue.message}`);
+    }
+    console.error(`\n${report.errors} error(s), ${report.warnings} warning(s) in ${report.files} file(s)`);
+
+    if (report.errors > 0) process.exit(1);
+}
+
+main();
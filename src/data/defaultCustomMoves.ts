@@ -1,4 +1,4 @@
-import type { CustomMove } from '../views/OkiCalculatorView.vue';
+import type { CustomMove } from '../utils/oki';
 
 // Copy localStorage 'sf6_oki_custom_moves' content here
 // Value should be an array of CustomMove objects
@@ -1,4 +1,4 @@
-import type { ExcludedMove } from '../views/OkiCalculatorView.vue';
+import type { ExcludedMove } from '../utils/oki';
 
 // Copy localStorage 'sf6_oki_excluded_moves' content here
 // Value should be an array of ExcludedMove objects
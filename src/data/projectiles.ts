@@ -0,0 +1,70 @@
+import type { ProjectileProfile } from '../utils/projectileOki';
+
+// Travel data for projectile oki, keyed by character id and move input.
+// Only Ryu's LP Hadoken is labbed. Every other entry is an unverified guess at the speed relative
+// to it and stays `estimated` until it is labbed.
+const SPAWN_OFFSET = 0.55;
+const OVERLAP = 0.5;
+// Roughly the widest distance the camera allows between the two characters.
+const SCREEN_WIDTH = 4.9;
+
+function profile(speed: number, overrides: Partial<ProjectileProfile> = {}): ProjectileProfile {
+  return { speed, spawnOffset: SPAWN_OFFSET, overlap: OVERLAP, estimated: true, ...overrides };
+}
+
+const HADOKEN = {
+  '236LP': profile(0.1), // Unverified guess
+  '236MP': profile(0.125), // Unverified guess
+  '236HP': profile(0.15), // Unverified guess
+  '236PP': profile(0.2), // Unverified guess
+};
+
+export const PROJECTILE_PROFILES: Record<string, Record<string, ProjectileProfile>> = {
+  ryu: {
+    ...HADOKEN,
+    '236LP': profile(0.1, { estimated: false }), // Labbed: corner block at input+21F to input+25F
+  },
+  ken: HADOKEN,
+  akuma: {
+    '236LP': profile(0.09), // Unverified guess
+    '236MP': profile(0.12), // Unverified guess
+    '236HP': profile(0.15), // Unverified guess
+    '236PP': profile(0.2), // Unverified guess
+  },
+  guile: {
+    '6LP': profile(0.13), // Unverified guess
+    '6PP': profile(0.18), // Unverified guess
+  },
+  sagat: {
+    '236LP': profile(0.17), // Unverified guess
+    '236MP': profile(0.14), // Unverified guess
+    '236HP': profile(0.17), // Unverified guess
+  },
+  dhalsim: {
+    '236P': profile(0.06), // Unverified guess
+    '236PP': profile(0.09), // Unverified guess
+  },
+  jp: {
+    // Stribog's second hit is the projectile; the first is a strike hitbox in front of JP.
+    '236LP': profile(0.11, { spawnOffset: 0.8 }), // Unverified guess
+    '236MP': profile(0.13, { spawnOffset: 0.8 }), // Unverified guess
+    '236HP': profile(0.15, { spawnOffset: 0.8 }), // Unverified guess
+    '236PP': profile(0.17, { spawnOffset: 0.8 }), // Unverified guess
+  },
+  luke: {
+    '236LP': profile(0.11, { maxTravel: SCREEN_WIDTH * 0.48 }), // Unverified guess
+    '236MP': profile(0.11, { maxTravel: SCREEN_WIDTH * 0.66 }), // Unverified guess
+    '236HP': profile(0.11, { maxTravel: SCREEN_WIDTH * 0.91 }), // Unverified guess
+    '236PP': profile(0.14), // Unverified guess
+  },
+  terry: {
+    '236LP': profile(0.08), // Unverified guess
+    '236PP': profile(0.1), // Unverified guess
+  },
+  mai: {
+    '236LP': profile(0.07), // Unverified guess
+    '236MP': profile(0.09), // Unverified guess
+    '236HP': profile(0.11), // Unverified guess
+    '236PP': profile(0.12), // Unverified guess
+  },
+};
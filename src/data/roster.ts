@@ -0,0 +1,42 @@
+import type { RosterEntry } from '../types';
+
+// Single source of the SF6 roster, used by the app and by every data script.
+// Add DLC characters with `pnpm data:new-character`, which appends an entry here.
+export const ROSTER: RosterEntry[] = [
+  { id: 'ryu', names: { en: 'Ryu', ja: 'リュウ', zh: '隆' }, aliases: [], season: 0 },
+  { id: 'ken', names: { en: 'Ken', ja: 'ケン', zh: '肯' }, aliases: [], season: 0 },
+  { id: 'luke', names: { en: 'Luke', ja: 'ルーク', zh: '卢克' }, aliases: [], season: 0 },
+  { id: 'jamie', names: { en: 'Jamie', ja: 'ジェイミー', zh: '杰米' }, aliases: [], season: 0 },
+  { id: 'chun-li', names: { en: 'Chun-Li', ja: '春麗', zh: '春丽' }, aliases: ['Chun'], season: 0 },
+  { id: 'guile', names: { en: 'Guile', ja: 'ガイル', zh: '古烈' }, aliases: [], season: 0 },
+  { id: 'kimberly', names: { en: 'Kimberly', ja: 'キンバリー', zh: '金伯莉' }, aliases: ['Kim'], season: 0 },
+  { id: 'juri', names: { en: 'Juri', ja: 'ジュリ', zh: '蛛俐' }, aliases: [], season: 0 },
+  { id: 'manon', names: { en: 'Manon', ja: 'マノン', zh: '曼侬' }, aliases: [], season: 0 },
+  { id: 'marisa', names: { en: 'Marisa', ja: 'マリーザ', zh: '玛丽莎' }, aliases: [], season: 0 },
+  { id: 'dee-jay', names: { en: 'Dee Jay', ja: 'ディージェイ', zh: '迪杰' }, aliases: ['DJ'], season: 0 },
+  { id: 'cammy', names: { en: 'Cammy', ja: 'キャミィ', zh: '嘉米' }, aliases: [], season: 0 },
+  { id: 'lily', names: { en: 'Lily', ja: 'リリー', zh: '莉莉' }, aliases: [], season: 0 },
+  { id: 'zangief', names: { en: 'Zangief', ja: 'ザンギエフ', zh: '桑吉尔夫' }, aliases: ['Gief', '桑吉'], season: 0 },
+  { id: 'jp', names: { en: 'JP', ja: 'JP', zh: 'JP' }, aliases: [], season: 0 },
+  { id: 'dhalsim', names: { en: 'Dhalsim', ja: 'ダルシム', zh: '达尔锡' }, aliases: ['Sim'], season: 0 },
+  { id: 'honda', names: { en: 'E.Honda', ja: 'エドモンド本田', zh: '本田' }, aliases: ['Honda'], season: 0 },
+  { id: 'blanka', names: { en: 'Blanka', ja: 'ブランカ', zh: '布兰卡' }, aliases: [], season: 0 },
+  { id: 'rashid', names: { en: 'Rashid', ja: 'ラシード', zh: '拉希德' }, aliases: [], season: 1 },
+  { id: 'aki', names: { en: 'A.K.I.', ja: 'アキ', zh: 'A.K.I.' }, aliases: ['AKI'], season: 1 },
+  { id: 'ed', names: { en: 'Ed', ja: 'エド', zh: '艾德' }, aliases: [], season: 1 },
+  { id: 'akuma', names: { en: 'Akuma', ja: '豪鬼', zh: '豪鬼' }, aliases: ['Gouki'], season: 1 },
+  { id: 'mbison', names: { en: 'M.Bison', ja: 'ベガ', zh: '维加' }, aliases: ['Bison', 'Vega', 'Dictator'], season: 2 },
+  { id: 'terry', names: { en: 'Terry', ja: 'テリー', zh: '特瑞' }, aliases: [], season: 2 },
+  { id: 'mai', names: { en: 'Mai', ja: '不知火舞', zh: '不知火舞' }, aliases: [], season: 2 },
+  { id: 'elena', names: { en: 'Elena', ja: 'エレナ', zh: '艾琳娜' }, aliases: [], season: 2 },
+  {
+    id: 'c-viper',
+    names: { en: 'C. Viper', ja: 'C. ヴァイパー', zh: 'C.维珀' },
+    aliases: ['Viper'],
+    season: 3,
+    sources: { supercombo: 'C.Viper' },
+  },
+  { id: 'sagat', names: { en: 'Sagat', ja: 'サガト', zh: '沙加特' }, aliases: [], season: 3 },
+  { id: 'alex', names: { en: 'Alex', ja: 'アレックス', zh: '亚历克斯' }, aliases: [], season: 3 },
+  { id: 'ingrid', names: { en: 'Ingrid', ja: 'イングリッド', zh: '英格丽德' }, aliases: [], season: 3 },
+];
@@ -0,0 +1,104 @@
+import { ref } from 'vue';
+import { en } from './messages/en';
+import { ja } from './messages/ja';
+import { zhCN, type MessageKey } from './messages/zh-CN';
+
+export type Locale = 'zh-CN' | 'en' | 'ja';
+export type { MessageKey };
+
+export const LOCALES: Locale[] = ['zh-CN', 'en', 'ja'];
+
+// "{count} 招" style placeholders; plural messages pick a form from params.count.
+// A message param (e.g. a reversal kind inside a coverage label) is translated in the same locale.
+export type MessageParams = Record<string, string | number | LocalizedMessage>;
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+export type MessageCatalog = Record<MessageKey, Message>;
+
+// What calculators return instead of prose, so the view can render it in the current locale.
+export interface LocalizedMessage {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+// Authored data (manual key moves, notes) stays a plain string; generated text is a message.
+export type LocalizedText = string | LocalizedMessage;
+
+export const MESSAGES: Record<Locale, MessageCatalog> = {
+  'zh-CN': zhCN,
+  en,
+  ja,
+};
+
+const STORAGE_KEY = 'sf6frame:locale';
+
+function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+function loadInitialLocale(): Locale {
+  if (typeof window === 'undefined') return 'zh-CN';
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // ignore
+  }
+  return 'zh-CN';
+}
+
+export const locale = ref<Locale>(loadInitialLocale());
+
+export function setLocale(next: Locale) {
+  locale.value = next;
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, next);
+  } catch {
+    // ignore
+  }
+}
+
+export function useLocale() {
+  return { locale, setLocale };
+}
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+function selectPluralForm(targetLocale: Locale, entry: PluralMessage, count: number): string {
+  if (!pluralRules.has(targetLocale)) pluralRules.set(targetLocale, new Intl.PluralRules(targetLocale));
+  if (count === 0 && entry.zero !== undefined) return entry.zero;
+  return entry[pluralRules.get(targetLocale)!.select(count)] ?? entry.other;
+}
+
+/** Message of `key` in `targetLocale` with `{name}` placeholders filled in; unknown placeholders are kept. */
+export function translate(targetLocale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const entry = MESSAGES[targetLocale][key] ?? MESSAGES['zh-CN'][key] ?? key;
+  const template = typeof entry === 'string' ? entry : selectPluralForm(targetLocale, entry, Number(params.count ?? 0));
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'object' ? translate(targetLocale, value.key, value.params) : String(value);
+  });
+}
+
+/** Message in the current locale; reactive inside templates and computeds. */
+export function t(key: MessageKey, params?: MessageParams): string {
+  return translate(locale.value, key, params);
+}
+
+export function formatText(text: LocalizedText | null | undefined): string {
+  if (!text) return '';
+  return typeof text === 'string' ? text : t(text.key, text.params);
+}
+
+// Localized move name, falling back to the English name from the frame data.
+export function getMoveDisplayName(move: { name: string; nameZh?: string; nameJa?: string }): string {
+  if (locale.value === 'zh-CN') return move.nameZh ?? move.name;
+  if (locale.value === 'ja') return move.nameJa ?? move.name;
+  return move.name;
+}
+
+export function getCharacterDisplayName(character: { name: string; nameJp?: string }): string {
+  return locale.value === 'ja' ? character.nameJp ?? character.name : character.name;
+}
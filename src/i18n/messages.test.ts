@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getMoveDisplayName, LOCALES, MESSAGES, setLocale, translate, type Message, type MessageKey } from './index';
+
+function placeholders(message: Message): string[] {
+  const templates = typeof message === 'string' ? [message] : Object.values(message);
+  const names = templates.flatMap(template => [...(template ?? '').matchAll(/\{(\w+)\}/g)].map(match => match[1]!));
+  return [...new Set(names)].sort();
+}
+
+describe('message catalogs', () => {
+  const keys = Object.keys(MESSAGES['zh-CN']).sort();
+
+  it('has the zh-CN key set in every locale', () => {
+    for (const locale of LOCALES) {
+      expect(Object.keys(MESSAGES[locale]).sort()).toEqual(keys);
+    }
+  });
+
+  it('uses the same placeholders in every locale', () => {
+    for (const locale of LOCALES) {
+      for (const key of keys as MessageKey[]) {
+        expect({ key, names: placeholders(MESSAGES[locale][key]) }).toEqual({
+          key,
+          names: placeholders(MESSAGES['zh-CN'][key]),
+        });
+      }
+    }
+  });
+
+  it('gives every plural message an other form', () => {
+    for (const locale of LOCALES) {
+      for (const [key, message] of Object.entries(MESSAGES[locale])) {
+        if (typeof message === 'string') continue;
+        expect({ key, other: typeof message.other }).toEqual({ key, other: 'string' });
+      }
+    }
+  });
+});
+
+describe('translate', () => {
+  it('picks plural forms from params.count', () => {
+    expect(translate('en', 'comboList.sectionCount', { count: 1 })).toBe('1 combo');
+    expect(translate('en', 'comboList.sectionCount', { count: 3 })).toBe('3 combos');
+  });
+
+  it('translates message params in the same locale', () => {
+    const params = { kind: { key: 'reversal.kind.odDp' as const }, input: '623PP' };
+    expect(translate('en', 'oki.coverage.option.reversal', params)).toBe('OD DP 623PP');
+    expect(translate('zh-CN', 'oki.coverage.option.reversal', params)).toBe('OD 升龙 623PP');
+  });
+
+  it('keeps unknown placeholders', () => {
+    expect(translate('en', 'oki.coverage.option.reversal', { input: '623PP' })).toBe('{kind} 623PP');
+  });
+});
+
+describe('getMoveDisplayName', () => {
+  afterEach(() => setLocale('zh-CN'));
+
+  it('uses the current locale and falls back to the English name', () => {
+    const hadoken = { name: 'Hadoken', nameZh: '波动拳', nameJa: '波動拳' };
+    const unnamed = { name: 'Collarbone Breaker' };
+
+    setLocale('ja');
+    expect(getMoveDisplayName(hadoken)).toBe('波動拳');
+    expect(getMoveDisplayName(unnamed)).toBe('Collarbone Breaker');
+    setLocale('en');
+    expect(getMoveDisplayName(hadoken)).toBe('Hadoken');
+    setLocale('zh-CN');
+    expect(getMoveDisplayName(hadoken)).toBe('波动拳');
+    expect(getMoveDisplayName(unnamed)).toBe('Collarbone Breaker');
+  });
+});
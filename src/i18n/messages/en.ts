@@ -0,0 +1,949 @@
+import type { MessageCatalog } from '..';
+
+export const en: MessageCatalog = {
+  // App shell
+  'nav.characters': 'Characters',
+  'nav.oki': 'Oki Calculator',
+  'nav.gap': 'Gap Calculator',
+  'nav.trade': 'Trade Calculator',
+  'nav.punish': 'Punish Finder',
+  'nav.matchup': 'Matchup Sheet',
+  'nav.compare': 'Roster Compare',
+  'nav.patchNotes': 'Patch Notes',
+  'footer.source': 'Data source: Supercombo Wiki',
+
+  // Home
+  'home.titleMain': 'Street Fighter 6',
+  'home.titleSub': 'Frame Data',
+  'home.description': 'Browse every character\'s frame data, learn the strengths of each move and level up your game',
+  'home.selectCharacter': 'Select a Character',
+  'home.okiDescription': 'Find the best meaty timing after a knockdown',
+  'home.gapDescription': 'Analyze combo gaps and frame traps',
+  'home.assistantTitle': 'Counterplay Assistant',
+  'home.assistantDescription': 'Analyze the opponent\'s strings and suggest counters',
+  'home.tradeDescription': 'Frame advantage after two moves trade',
+
+  // Gap calculator results
+  'gap.label.gap': 'Gap',
+  'gap.label.surplus': 'Surplus',
+  'gap.label.missing': 'Missing',
+  'gap.status.combo': 'Combo',
+  'gap.status.noCombo': 'No Combo',
+  'gap.status.trueBlockstring': 'True Blockstring',
+  'gap.status.frameTrap': 'Frame Trap',
+  'gap.status.interruptible': 'Interruptible',
+  'gap.status.highRisk': 'High Risk',
+  'gap.description.combo': 'The follow-up connects.',
+  'gap.description.noCombo': { one: '{count} frame short.', other: '{count} frames short.' },
+  'gap.description.trueBlockstring': 'A true blockstring: the opponent is still in blockstun and cannot act.',
+  'gap.description.frameTrap': 'Normal buttons get counter-hit, but an invincible OD DP or SA1/2/3 goes through.',
+  'gap.description.interruptible': 'The gap is wide enough for a 4F jab or an invincible reversal.',
+  'gap.description.highRisk': 'The gap is so wide the opponent can jump out or hit a big punish.',
+  'gap.error.invalidFrames': 'No usable frame data for these moves',
+
+  // Generated key moves
+  'keyMoves.generatedNotes': 'These key moves are picked from the frame data by rules and make a starting point; check spacing and hitboxes against character guides and real matches.',
+  'keyMoves.role.fastCheck': 'Fastest Button',
+  'keyMoves.role.plusFrame': 'Plus Pressure',
+  'keyMoves.role.confirm': 'Hit Confirm',
+  'keyMoves.role.poke': 'Mid-Range Poke',
+  'keyMoves.role.antiAir': 'Anti-Air',
+  'keyMoves.role.punish': 'Big Punish',
+  'keyMoves.reason.fastCheck': '{startup}F startup, {onBlock} on block: good for close-range checks and interrupting pressure.',
+  'keyMoves.reason.plusFrame': '{onBlock} on block and {onHit} on hit: the go-to button to keep your turn.',
+  'keyMoves.reason.confirm': '{startup}F startup, cancelable, {damage} damage: the main starter for hit confirms and whiff punishes.',
+  'keyMoves.reason.poke': '{startup}F startup, {onBlock} on block: a grounded poke for mid range.',
+  'keyMoves.reason.antiAir': '{startup}F startup, {damage} damage: the first choice to stop jump-ins.',
+  'keyMoves.reason.punish': 'The highest damage among moves up to {maxStartup}F: use it for punishes and Punish Counter starters.',
+  'keyMoves.tag.close': 'Close',
+  'keyMoves.tag.starter': 'Starter',
+  'keyMoves.tag.pressure': 'Pressure',
+  'keyMoves.tag.plus': 'Plus',
+  'keyMoves.tag.confirm': 'Confirm',
+  'keyMoves.tag.cancelable': 'Cancelable',
+  'keyMoves.tag.poke': 'Poke',
+  'keyMoves.tag.grounded': 'Grounded',
+  'keyMoves.tag.antiAir': 'Anti-Air',
+  'keyMoves.tag.special': 'Special',
+  'keyMoves.tag.normal': 'Normal',
+  'keyMoves.tag.punish': 'Punish',
+  'keyMoves.tag.highReward': 'High Reward',
+
+  // Counter moves
+  'counter.gap.trueBlockstring': 'True blockstring - only invincible moves go through',
+  'counter.gap.fastInterrupt': '{gap}F gap - fast buttons interrupt',
+  'counter.gap.easyInterrupt': '{gap}F gap - easy to interrupt',
+
+  // Shared labels
+  'common.all': 'All',
+  'common.back': '← Back',
+  'common.loading': 'Loading...',
+  'common.loadingData': 'Loading data...',
+  'common.none': 'None',
+  'common.unmatched': 'Unmatched',
+  'common.listSeparator': ', ',
+  'category.normal': 'Normal',
+  'category.unique': 'Command Normal',
+  'category.special': 'Special',
+  'category.super': 'Super',
+  'category.throw': 'Throw',
+  'category.short.normal': 'Normal',
+  'category.short.unique': 'Unique',
+  'category.short.special': 'Special',
+  'category.short.super': 'Super',
+  'category.short.throw': 'Throw',
+  'frame.move': 'Move',
+  'frame.input': 'Input',
+  'frame.startup': 'Startup',
+  'frame.active': 'Active',
+  'frame.recovery': 'Recovery',
+  'frame.total': 'Total',
+  'frame.onBlock': 'On Block',
+  'frame.onHit': 'On Hit',
+  'frame.damage': 'Damage',
+  'frame.blockstun': 'Blockstun',
+  'frame.hitstun': 'Hitstun',
+  'frame.cancels': 'Cancels',
+  'frame.forwardDash': 'Forward Dash',
+  'frame.backDash': 'Back Dash',
+  'frame.health': 'Health',
+
+  // Key move panel
+  'keyMovePanel.title': 'Key Moves',
+  'keyMovePanel.source.manual': 'Curated',
+  'keyMovePanel.source.generated': 'Generated',
+  'keyMovePanel.startup': 'Startup {value}F',
+  'keyMovePanel.onBlock': 'On block {value}',
+  'keyMovePanel.onHit': 'On hit {value}',
+  'keyMovePanel.damage': 'Damage {value}',
+  'keyMovePanel.empty': 'No key moves for this character yet.',
+
+  // Move table
+  'moveTable.empty': 'No matching moves',
+
+  // Combo list
+  'comboList.title': 'Combos',
+  'comboList.count': { one: '{filtered} / {count} combo', other: '{filtered} / {count} combos' },
+  'comboList.sectionCount': { one: '{count} combo', other: '{count} combos' },
+  'comboList.searchPlaceholder': 'Search notation, notes, starter...',
+  'comboList.allSections': 'All sections',
+  'comboList.allDifficulties': 'All difficulties',
+  'comboList.allPositions': 'All positions',
+  'comboList.verifyTitle': 'Open in the gap calculator to check each link',
+  'comboList.verify': 'Check frames',
+  'comboList.damage': 'Damage {value}',
+  'comboList.calculatedDamage': 'Calculated damage {value}',
+  'comboList.meter': 'Meter cost {value}',
+  'comboList.driveBars': { one: 'Drive {count} bar', other: 'Drive {count} bars' },
+  'comboList.superBars': { one: 'SA {count} bar', other: 'SA {count} bars' },
+  'comboList.burnout': 'enters Burnout',
+  'comboList.unresolved': 'Unrecognized inputs: {tokens}',
+  'comboList.empty': 'No combos match these filters.',
+  'comboList.lastUpdated': 'Combo data updated {date}',
+  'comboList.missing': 'No combo data has been scraped for this character yet.',
+
+  // Character view
+  'character.stat.moves': 'Moves',
+  'character.stat.keyMoves': 'Key moves',
+  'character.stat.combos': 'Combos',
+  'character.noData': 'No frame data for {name} yet. Run the scraper first.',
+  'character.loading': 'Loading character data...',
+  'character.overviewTitle': 'At a glance',
+  'character.overviewDescription': 'Start with the key moves and combos, then dig into the full frame table below.',
+  'character.frameTitle': 'Frame data',
+  'character.frameDescription': 'Filter by startup, category, advantage or keyword.',
+  'character.searchPlaceholder': 'Search moves...',
+  'character.startupFilter': 'Startup ≤',
+  'character.lastUpdated': 'Frame data updated {date}',
+
+  // Gap calculator view
+  'gapView.title': 'Gap Calculator',
+  'gapView.subtitle': 'Frame gap between two attacks: frame trap or true blockstring.',
+  'gapView.explainer.title': 'Why can any gap be interrupted?',
+  'gapView.explainer.bufferLead': 'SF6 lets you buffer an invincible reversal (OD DP / invincible super) up to',
+  'gapView.explainer.bufferTail': 'before blockstun ends, and it comes out on the first actionable frame. (Wakeup buffers are longer, up to 7F.)',
+  'gapView.explainer.conclusion': 'In short:',
+  'gapView.explainer.anyGap': 'If the opponent has any actionable frame between two hits (even one), they can start an OD DP on that first frame.',
+  'gapView.explainer.invincible': 'Because it is invincible from frame 1, it goes through your next attack.',
+  'gapView.explainer.simplyPut': 'Put simply: ',
+  'gapView.explainer.rule': 'unless your attack covers the last frame of the opponent\'s blockstun, they can reversal on the first frame they recover.',
+  'gapView.explainer.gapZero': 'Gap 0 below means there is no black block on the SF6 frame meter: your second attack\'s first frame lands on the opponent\'s first actionable frame, so they can reversal.',
+  'gapView.explainer.gapMinusOne': 'Gap -1 below means your second attack\'s first frame lands on the last frame of the opponent\'s blockstun, so they cannot act.',
+  'gapView.selectCharacter': 'Character',
+  'gapView.type.block': '🛡️ Pressure gap (Block)',
+  'gapView.type.hit': '👊 Combo check (Link)',
+  'gapView.mode.link': 'Link',
+  'gapView.mode.cancel': 'Cancel',
+  'gapView.firstMove.block': 'Move 1 (blocked)',
+  'gapView.firstMove.hit': 'Move 1 (hit)',
+  'gapView.secondMove': 'Move 2 (follow-up)',
+  'gapView.searchPlaceholder': 'Search moves (e.g. {example})',
+  'gapView.stat.onBlock': 'On Block:',
+  'gapView.stat.onHit': 'On Hit:',
+  'gapView.stat.startup': 'Startup:',
+  'gapView.stat.active': 'Active:',
+  'gapView.stat.recovery': 'Recovery:',
+  'gapView.stat.hitstun': 'Hitstun:',
+  'gapView.stat.blockstun': 'Blockstun:',
+  'gapView.stat.startup2': 'Startup:',
+  'gapView.stat.active2': 'Active:',
+  'gapView.hitState': 'Hit state:',
+  'gapView.blockState': 'Block state:',
+  'gapView.opponentBurnout': 'Opponent in Burnout (+4 on block)',
+  'gapView.driveRush': 'Drive Rush (+4 on hit/block)',
+  'gapView.cancelFrame': 'Cancel on active frame:',
+  'gapView.cancelFrameHint': 'Cancel on active frame {frame}',
+  'gapView.recommend.cancel': 'Suggested cancels',
+  'gapView.recommend.link': 'Suggested links',
+  'gapView.recommend.pressure': 'Safe pressure',
+  'gapView.recommend.onBlock': 'On block ({value})',
+  'gapView.formula': 'Formula ({mode})',
+  'gapView.outOfRange': '📏 After pushback the second move never reaches',
+  'gapView.maxDistance': '📏 After pushback, only works within {distance} units',
+  'gapView.followUps': 'Moves that fit the window (+{gap}F)',
+  'gapView.followUpsHint': 'Follow-ups that combo',
+  'gapView.cannotCalculate': 'Cannot calculate',
+  'gapView.builder.title': 'Custom combo frame advantage',
+  'gapView.builder.description': 'Add steps one by one to see each link\'s window and the advantage left for the next.',
+  'gapView.builder.importPlaceholder': 'Paste combo notation, e.g. CH 2LK ~ 2LP ~ 5LP > 214LK',
+  'gapView.builder.import': 'Import',
+  'gapView.builder.clear': 'Clear',
+  'gapView.builder.starter': 'Starter',
+  'gapView.builder.normalHit': 'Normal hit',
+  'gapView.builder.unresolved': 'Unrecognized: {tokens} (skipped)',
+  'gapView.builder.stepType': 'Type',
+  'gapView.builder.stepType.move': 'Move',
+  'gapView.builder.stepType.custom': 'Custom',
+  'gapView.builder.transition': 'Connection',
+  'gapView.builder.transition.link': 'Link',
+  'gapView.builder.transition.cancel': 'Cancel',
+  'gapView.builder.outcome': 'Outcome',
+  'gapView.builder.outcome.hit': 'Hit',
+  'gapView.builder.outcome.block': 'Blocked',
+  'gapView.builder.outcome.buff': 'Buff (Drive Rush cancel)',
+  'gapView.builder.noContext': 'No previous step yet; the first move needs no advantage check.',
+  'gapView.builder.lastStep': 'Last step: {move} ({outcome})',
+  'gapView.builder.after.hit': 'on hit',
+  'gapView.builder.after.block': 'on block',
+  'gapView.builder.after.buff': 'after buff',
+  'gapView.builder.context': 'Connection: {mode} | Advantage: {advantage}',
+  'gapView.builder.gap': 'Gap {gap}F',
+  'gapView.builder.gapSafe': 'Gap {gap}F, moves up to {startup}F are safe',
+  'gapView.builder.searchPlaceholder': 'Search a move to add',
+  'gapView.builder.customName': 'Custom action',
+  'gapView.builder.customNumbered': 'Custom {id}',
+  'gapView.builder.customNamePlaceholder': 'Custom action name',
+  'gapView.builder.customStartupPlaceholder': 'Startup',
+  'gapView.builder.customOnHitPlaceholder': 'On hit',
+  'gapView.builder.customOnBlockPlaceholder': 'On block',
+  'gapView.builder.add': 'Add',
+  'gapView.builder.cancelFrame': 'Cancel frame',
+  'gapView.builder.dropsHere': 'Drops here',
+  'gapView.builder.remove': 'Remove',
+  'gapView.builder.replacePlaceholder': 'Search a replacement',
+  'gapView.builder.result': 'Result',
+  'gapView.builder.resultRow': '{label}: {value}',
+  'gapView.builder.nextAdvantage.hit': 'Advantage on hit: {value}',
+  'gapView.builder.nextAdvantage.block': 'Advantage on block: {value}',
+  'gapView.builder.nextAdvantage.buff': 'Advantage after buff: {value}',
+  'gapView.builder.details': 'Details: {formula} = {gap}',
+  'gapView.builder.chainedNoCombo': { one: '{count} frame short; the opponent can block.', other: '{count} frames short; the opponent can block.' },
+
+  // AI assistant view
+  'assistant.title': '🤖 Counter Assistant',
+  'assistant.subtitle': 'Find the gaps in the opponent\'s strings and the moves that beat them',
+  'assistant.opponent': 'Opponent',
+  'assistant.me': 'My character',
+  'assistant.opponentString': 'Opponent string',
+  'assistant.move': 'Move {index}',
+  'assistant.searchPlaceholder': 'Search moves...',
+  'assistant.analyze': '🔍 Analyze gap',
+  'assistant.gapLabel': 'Gap',
+  'assistant.counters': '🎯 Interrupts ({character})',
+  'assistant.invuln': 'Invuln {start}-{end}F',
+  'assistant.trueBlockstring': '⚠️ True blockstring',
+  'assistant.trueBlockstringHint': 'This is a true blockstring: only an invincible reversal (OD DP / super) beats it, otherwise keep blocking.',
+
+  // Matchup view
+  'matchup.title': 'Matchup sheet: {attacker} vs {defender}',
+  'matchup.description': '{defender}\'s punishable moves, pressure gaps, reversals and anti-airs from {attacker}\'s side. Ready to print.',
+  'matchup.attacker': 'My character',
+  'matchup.defender': 'Opponent',
+  'matchup.print': 'Print',
+  'matchup.noData': 'Frame data is missing for one side. Run the scraper first.',
+  'matchup.punishes': 'Punishable moves',
+  'matchup.punishesHint': 'Opponent moves that are minus on block and your highest-damage punish (Punish Counter, ignoring pushback).',
+  'matchup.opponentMove': 'Opponent move',
+  'matchup.onBlock': 'On block',
+  'matchup.punish': 'Punish',
+  'matchup.pressure': 'Opponent pressure',
+  'matchup.pressureHint': 'Opponent moves that are safe on block, the gap into each grounded normal, and your interrupts.',
+  'matchup.noPressure': 'The opponent has no grounded move that is safe on block.',
+  'matchup.reversals': 'Opponent reversals',
+  'matchup.reversalsHint': 'How late your meaty can hit after their wakeup and still beat the reversal.',
+  'matchup.reversalEstimated': '(invincibility estimated)',
+  'matchup.move': 'Move',
+  'matchup.startup': 'Startup',
+  'matchup.meatyWindow': 'Meaty window',
+  'matchup.antiAirs': 'Opponent\'s fastest anti-airs',
+  'matchup.noAntiAirs': 'No anti-air moves found.',
+  'matchup.projectiles': 'Opponent projectiles',
+  'matchup.keyMoves': 'Opponent key moves',
+
+  // Trade calculator view
+  'trade.title': 'Trade Calculator',
+  'trade.description': 'Pick both characters and moves to see the frame advantage after a trade.',
+  'trade.side': 'Player {side}',
+  'trade.selectCharacter': 'Player {side} character',
+  'trade.selectMove': 'Player {side} move',
+  'trade.searchPlaceholder': 'Pick or search player {side}\'s move...',
+  'trade.noMatch': 'No matching moves',
+  'trade.result': 'Trade result',
+  'trade.sideMove': 'Player {side} ({move})',
+  'trade.effectiveHitstun': 'Effective hitstun: {value}F',
+  'trade.blockstunFallback': 'Falls back to blockstun',
+  'trade.steps': 'Calculation',
+  'trade.step': 'Player {side} {move}: {source} {base} + 2(CH) = {value}F',
+  'trade.finalStep': 'Trade advantage = {a} - {b} = {value}F',
+  'trade.pickMoves': 'Pick a move for both sides',
+  'trade.even': 'Even after the trade (0F)',
+  'trade.advantage': 'Player {side} is {value}F after the trade',
+  'trade.protection.invuln': 'strike invincible',
+  'trade.protection.armor': 'armored',
+  'trade.interruption': 'Player {side} is {protection} on frame {frame}F (when player {other}\'s move hits), so the moves do not trade',
+
+  // Punish finder view
+  'punish.title': 'Punish Finder',
+  'punish.description': 'Pick the opponent\'s blocked move to list every move fast enough to punish it, ranked by expected Punish Counter combo damage.',
+  'punish.descriptionSpacing': 'When both sides have range and pushback data, the furthest punish distance is shown.',
+  'punish.opponent': 'Opponent',
+  'punish.opponentCharacter': 'Opponent character',
+  'punish.blockedMove': 'Blocked move',
+  'punish.searchPlaceholder': 'Pick or search the opponent\'s move...',
+  'punish.noMatch': 'No matching moves',
+  'punish.manualOnBlock': 'Or enter the on-block value',
+  'punish.me': 'Me',
+  'punish.myCharacter': 'My character',
+  'punish.window': 'Punish window: ',
+  'punish.windowMove': ' ({move})',
+  'punish.noCombos': 'No combo data for this character; ranked by single-hit damage.',
+  'punish.results': 'Punishes',
+  'punish.safe': 'This move is not minus on block and cannot be punished.',
+  'punish.none': 'No move is fast enough to punish.',
+  'punish.startup': '{value}F startup',
+  'punish.margin': '{value}F to spare',
+  'punish.outOfRange': 'Out of range after pushback',
+  'punish.maxDistance': 'Within {distance} units',
+  'punish.comboCount': { one: '{count} combo', other: '{count} combos' },
+
+  // Compare view
+  'compare.title': 'Roster Move Compare',
+  'compare.description': 'Compare one move slot (e.g. 5LP, 2MK) across the roster: startup, on block, on hit, total frames and cancels, with filters and sorting.',
+  'compare.move': 'Move',
+  'compare.slotPlaceholder': 'e.g. 2MK / 6HP',
+  'compare.maxStartup': 'Startup ≤',
+  'compare.minOnBlock': 'On block ≥',
+  'compare.minOnHit': 'On hit ≥',
+  'compare.cancelable': 'Cancels into',
+  'compare.resetFilters': 'Reset filters',
+  'compare.rowCount': { one: '{count} move', other: '{count} moves' },
+  'compare.missing': { one: ' ({count} character has no {slot})', other: ' ({count} characters have no {slot})' },
+  'compare.empty': 'No moves match these filters.',
+  'compare.character': 'Character',
+  'compare.column.startup': 'Startup',
+  'compare.column.onBlock': 'On block',
+  'compare.column.onHit': 'On hit',
+  'compare.column.total': 'Total',
+  'compare.column.cancels': 'Cancels',
+
+  // Patch notes view
+  'patchNotes.title': 'Patch changes: {character}',
+  'patchNotes.description': 'Move-by-move comparison of startup, on block, on hit, damage, cancels and knockdown between two frame data snapshots.',
+  'patchNotes.character': 'Character',
+  'patchNotes.from': 'From',
+  'patchNotes.to': 'To',
+  'patchNotes.current': 'Current data',
+  'patchNotes.noSnapshotsLead': 'No earlier snapshot to compare with. Run',
+  'patchNotes.noSnapshotsTail': 'to save the current data before scraping the new version.',
+  'patchNotes.versionArg': 'version',
+  'patchNotes.noCharacter': 'The selected versions have no data for this character.',
+  'patchNotes.noChanges': 'No frame data changes between these versions.',
+  'patchNotes.summary.changed': '{count} changed',
+  'patchNotes.summary.added': '{count} added',
+  'patchNotes.summary.removed': '{count} removed',
+  'patchNotes.move': 'Move',
+  'patchNotes.type': 'Type',
+  'patchNotes.changes': 'Changes',
+  'patchNotes.status.added': 'Added',
+  'patchNotes.status.removed': 'Removed',
+  'patchNotes.status.changed': 'Changed',
+  'patchNotes.field.startup': 'Startup',
+  'patchNotes.field.onBlock': 'On block',
+  'patchNotes.field.onHit': 'On hit',
+  'patchNotes.field.damage': 'Damage',
+  'patchNotes.field.cancels': 'Cancels',
+  'patchNotes.field.knockdown': 'Knockdown',
+
+  // Reversal kinds
+  'reversal.kind.odDp': 'OD DP',
+  'reversal.kind.sa1': 'SA1',
+  'reversal.kind.sa2': 'SA2',
+  'reversal.kind.sa3': 'SA3 / CA',
+  'reversal.kind.commandGrab': 'Command grab',
+
+  // Oki wakeup coverage
+  'oki.coverage.option.block': 'Block',
+  'oki.coverage.option.jab': '{startup}F jab',
+  'oki.coverage.option.throwTech': 'Throw / tech',
+  'oki.coverage.option.backdash': 'Backdash',
+  'oki.coverage.option.neutralJump': 'Neutral jump',
+  'oki.coverage.option.driveReversal': 'Wakeup Drive Reversal',
+  'oki.coverage.option.reversal': '{kind} {input}',
+  'oki.coverage.option.driveImpact': 'Drive Impact',
+  'oki.coverage.block.unknown': '{onBlock} on block, depends on the situation',
+  'oki.coverage.block.plus': '{onBlock}F on block, keep pressuring',
+  'oki.coverage.block.punishable': '{onBlock}F on block, punishable by a {startup}F button',
+  'oki.coverage.block.minus': '{onBlock}F on block, turn passes to the opponent',
+  'oki.coverage.grab.beaten': 'Hits before the {startup}F command grab (active on {firstActive}F)',
+  'oki.coverage.grab.loses': '{startup}F command grab (active on {firstActive}F) cannot be blocked',
+  'oki.coverage.reversal.exposed': 'Invuln {start}-{end}F, hittable on {exposedStart}~{exposedEnd}F',
+  'oki.coverage.reversal.blocked': '{startup}F startup (active on {firstActive}F), you recover on {recover}F and block',
+  'oki.coverage.reversal.hit': '{startup}F startup (active on {firstActive}F), you only recover on {recover}F',
+  'oki.coverage.jab': 'Jab active on {firstActive}F, your active frames {activeStart}~{activeEnd}F, recovery on {recover}F',
+  'oki.coverage.throwTech': 'Throw active on {firstActive}F; the strike must hit before it',
+  'oki.coverage.backdash.hit': 'Already active on the first wakeup frame ({wakeup}F), hits the backdash',
+  'oki.coverage.backdash.escaped': 'Backdash escapes: it ends on {backdashEnd}F, you recover on {recover}F',
+  'oki.coverage.jump.hit': 'Hits during prejump ({start}~{end}F)',
+  'oki.coverage.jump.escaped': 'Jump lands on {landing}F, you recover on {recover}F',
+  'oki.coverage.driveReversal.safe': 'Recover on {recover}F, block the {impact}F Drive Reversal and punish',
+  'oki.coverage.driveReversal.hit': 'Recover only on {recover}F, too late to block the {impact}F Drive Reversal',
+  'oki.coverage.driveImpact.counter': 'Recover on {recover}F, in time to counter Drive Impact (active on {impact}F)',
+  'oki.coverage.driveImpact.blocked': 'Recover on {recover}F, block the {impact}F Drive Impact',
+  'oki.coverage.driveImpact.hit': 'Recover only on {recover}F, eat the {impact}F Drive Impact',
+
+  // Oki blockstring bait
+  'oki.bait.defaultThrow': 'Throw / tech',
+  'oki.bait.action.jump': 'Neutral jump',
+  'oki.bait.action.backdash': 'Backdash',
+  'oki.bait.jump.airborne': 'Fully safe: the opponent\'s move is active on frame {grabActive} and you are airborne from frame {airborne}, so the throw whiffs.',
+  'oki.bait.jump.preJump': 'Throw safe: the throw is active on frame {grabActive} while you are in prejump (frames {start} to {end}), which is throw invincible, so it whiffs.',
+  'oki.bait.jump.tooLate': 'Unsafe: you recover too late; the throw connects on frame {grabActive} before your jump starts on frame {baitStart}.',
+  'oki.bait.backdash.safe': 'Backdash safe: the throw is active on frame {grabActive} during your backdash throw invincibility (frames {start} to {end}), so it whiffs.',
+  'oki.bait.backdash.tooLate': 'Unsafe: you recover too late; the throw connects before your backdash starts.',
+  'oki.bait.backdash.tooEarly': 'Possibly unsafe: the opponent\'s move is active on frame {grabActive}, after your backdash throw invincibility ends.',
+
+  // Oki result tags
+  'oki.tag.corner': 'Corner',
+  'oki.tag.projectile': 'Projectile formula',
+  'oki.tag.projectileEstimate': 'Estimated projectile speed',
+  'oki.tag.dashWhiff': 'Whiffs after dash',
+  'oki.tag.outOfRange': 'Out of range',
+
+  // Oki setup prefixes
+  'oki.prefix.dash': 'Dash',
+  'oki.prefix.dashRepeat': 'Dash x{count}',
+  'oki.prefix.chainCancel': '{input}×{count} (Chain Cancel)',
+  'oki.prefix.driveRush': 'Drive Rush',
+  'oki.prefix.driveRushMove': 'Drive Rush {move}',
+  'oki.prefix.emptyJump': 'Empty jump',
+  'oki.prefix.jumpAction': 'Jump + action',
+
+  // Oki profile import
+  'oki.profile.error.invalidJson': 'Not a valid JSON file',
+  'oki.profile.error.notProfile': 'Not an oki profile file',
+  'oki.profile.error.newerVersion': 'Profile version v{version} is newer than the supported v{supported}; reload the page and try again',
+
+  // Oki calculator view
+  'oki.profile.list.customMoves': 'Custom moves',
+  'oki.profile.list.excludedMoves': 'Excluded moves',
+  'oki.profile.list.preferredMoves': 'Preferred moves',
+  'oki.profile.result.added': '{count} added',
+  'oki.profile.result.updated': '{count} overwritten',
+  'oki.profile.result.unchanged': '{count} already present',
+  'oki.profile.result.conflicts': { one: '{count} conflict', other: '{count} conflicts' },
+  'oki.profile.result.dropped': '{count} invalid skipped',
+  'oki.profile.result.separator': ', ',
+  'oki.safeJump.safe': 'Safe (up to {frames}F late)',
+  'oki.safeJump.safeExact': 'Safe (frame perfect)',
+  'oki.safeJump.delay': 'Delay {frames}F',
+  'oki.safeJump.unsafe': 'Hit',
+  'oki.safeJump.late': 'Too late',
+  'oki.safeJump.title.reversal': '{startup}F reversal active on {firstActive}F',
+  'oki.safeJump.title.stuffs': '; its anti-air invincibility ends on {frame}F, so the jump-in beats it',
+  'oki.safeJump.title.unsafe': '{reversal}, hits before landing recovery ends{stuff}',
+  'oki.safeJump.title.late': '{reversal}, setup too long: the reversal is out before you land{stuff}',
+  'oki.safeJump.title.safe': '{reversal}, land on {landing}F, block from {recover}F{stuff}',
+  'oki.coverage.outcome.wins': 'Win',
+  'oki.coverage.outcome.loses': 'Lose',
+  'oki.coverage.outcome.trades': 'Trade',
+  'oki.coverage.outcome.resets': 'Reset',
+  'oki.safeBait.currentDefenderMove': 'Current defender move',
+  'oki.reversal.notInvincible': 'Not invincible, unblockable',
+  'oki.reversal.invincible': 'Invuln {start}~{end}F',
+  'oki.reversal.invincibleEstimated': 'Invuln {start}~{end}F (estimated: not listed in the frame data)',
+  'oki.trade.selectMove': 'Select a move',
+  'okiView.title': 'Oki Calculator',
+  'okiView.description': 'Chain calculation: dash + dash + move A + ...',
+  'okiView.step.character': 'Select characters',
+  'okiView.attacker': 'Attacker',
+  'okiView.defender': 'Defender',
+  'okiView.selectCharacter': '-- Select character --',
+  'okiView.step.knockdown': 'Knockdown',
+  'okiView.custom.title': 'Custom moves',
+  'okiView.custom.namePlaceholder': 'Name (e.g. 2MP)',
+  'okiView.custom.inputPlaceholder': 'Input (e.g. 236P)',
+  'okiView.custom.save': 'Save',
+  'okiView.custom.saved': 'Saved:',
+  'okiView.presets.title': 'Presets',
+  'okiView.presets.searchPlaceholder': 'Search knockdown move / input / frames...',
+  'okiView.presets.clear': 'Clear',
+  'okiView.presets.quickCustom': 'Quick custom (number)',
+  'okiView.presets.knockdownFrames': 'Knockdown frames:',
+  'okiView.presets.knockdownDistance': 'Wakeup distance:',
+  'okiView.presets.knockdownDistanceCorner': 'Corner',
+  'okiView.presets.empty': 'No matching knockdown presets',
+  'okiView.presets.showMore': 'Show {count} more presets',
+  'okiView.presets.showLess': 'Show fewer presets',
+  'okiView.step.routing': 'Oki routing',
+  'okiView.opponent.firstActive': 'Opponent reversal first active frame:',
+  'okiView.opponent.firstActiveFormula': '{knockdown} (knockdown) + {startup} (startup) =',
+  'okiView.opponent.driveReversal': 'Wakeup Drive Reversal:',
+  'okiView.opponent.driveReversalDetail': 'active on {startup}F, invincible {invulStart}~{invulEnd}F; safe pressure must recover by',
+  'okiView.opponent.startup': 'Opponent wakeup startup',
+  'okiView.opponent.tradeNeedsMove': 'Trades need a selected move',
+  'okiView.opponent.searchPlaceholder': 'Select or search opponent move...',
+  'okiView.opponent.selectDefender': 'Select a defender to pick moves',
+  'okiView.opponent.reversals': 'Opponent reversals:',
+  'okiView.opponent.hitWindow': 'Hittable window:',
+  'okiView.chain.title': 'Filter actions',
+  'okiView.chain.empty': 'Add filter actions below',
+  'okiView.chain.importPlaceholder': 'Import notation, e.g. dash, 2LP DR 5MP',
+  'okiView.chain.import': 'Import',
+  'okiView.chain.unresolved': 'Unrecognized: {tokens}',
+  'okiView.chain.driveSpent': 'Drive cost {count} bars (at least {left}/{total} left, gains not counted)',
+  'okiView.chain.superSpent': 'SA cost {count} bars',
+  'okiView.action.emptyJump': 'Empty jump',
+  'okiView.action.jumpAction': 'Jump + action',
+  'okiView.action.driveRush': 'Drive Rush',
+  'okiView.searchMove': 'Search moves...',
+  'okiView.chain.clear': 'Clear',
+  'okiView.exclude.title': 'Exclude last hit (preference)',
+  'okiView.exclude.description': 'Moves you don\'t want as the last hit of an oki setup (e.g. 5HK whiffs on crouchers).',
+  'okiView.exclude.empty': 'No excluded moves yet; search below to add one',
+  'okiView.exclude.quick': 'Quick exclude:',
+  'okiView.exclude.searchPlaceholder': 'Search moves (e.g. 5HK)...',
+  'okiView.exclude.notePlaceholder': 'Note (optional, e.g. whiffs on crouchers)',
+  'okiView.manualAdd': 'Add manually',
+  'okiView.prefer.title': 'Preferred moves (preference)',
+  'okiView.prefer.description': 'Setups containing any of these moves are listed first. For example: 2MK, 236MK.',
+  'okiView.prefer.empty': 'No preferred moves yet; search below to add one',
+  'okiView.prefer.quick': 'Quick prefer:',
+  'okiView.prefer.searchPlaceholder': 'Search moves (e.g. 2MK)...',
+  'okiView.prefer.notePlaceholder': 'Note (optional, e.g. main combo)',
+  'okiView.prefer.onlyPreferred': 'Only show setups with a preferred move',
+  'okiView.profile.title': 'Setup pack (import / export)',
+  'okiView.profile.description': 'Bundle custom, excluded and preferred moves into one JSON file to share with others.',
+  'okiView.profile.exportCurrent': 'Export current character',
+  'okiView.profile.exportAll': 'Export all characters',
+  'okiView.profile.import': 'Import setup pack',
+  'okiView.profile.onConflict': 'On conflict:',
+  'okiView.profile.keepLocal': 'Keep local',
+  'okiView.profile.useImported': 'Use imported',
+  'okiView.profile.conflict': 'local {local} / imported {imported}',
+  'okiView.profile.noNote': '(no note)',
+  'okiView.results.title': 'Auto match ({total} results, showing the first {shown})',
+  'okiView.results.filteredHint': 'Results are filtered by the actions above',
+  'okiView.results.filtered': 'Action filter on',
+  'okiView.notes.sort': 'Sorting: plus on block first, then faster startup.',
+  'okiView.notes.tolerance': 'Tolerance: how many frames the move can be delayed and still hit meaty (0 means frame-perfect).',
+  'okiView.notes.driveReversal': 'DR safe: we recover no later than the wakeup Drive Reversal active frame ({frame}F).',
+  'okiView.notes.limit': 'Only the best 50 results are shown.',
+  'okiView.column.combo': 'Setup',
+  'okiView.column.startup': 'Startup',
+  'okiView.column.active': 'Active',
+  'okiView.column.tolerance': 'Tolerance',
+  'okiView.column.safe': 'Safe',
+  'okiView.column.onBlock': 'On block',
+  'okiView.column.onHit': 'On hit (CH +2)',
+  'okiView.column.trade': 'Trade',
+  'okiView.badge.preferred': '★ Preferred',
+  'okiView.badge.covers': 'Covers',
+  'okiView.badge.trade': 'Trade',
+  'okiView.badge.chainCancel': 'Chain Cancel',
+  'okiView.badge.driveReversalSafe': 'DR safe',
+  'okiView.detail.title': 'Frame details',
+  'okiView.detail.sequence': 'Sequence:',
+  'okiView.detail.effectiveOffset': 'effective offset',
+  'okiView.detail.chainCancelFormula': 'Chain cancel formula:',
+  'okiView.detail.chainCancelFirst': '({input} first)',
+  'okiView.detail.chainCancelFull': 'First move in full {frames}F',
+  'okiView.detail.chainCancelSteps': '+ {offset}F × ({steps} − 1) steps',
+  'okiView.detail.chainCancelNote': '(startup skipped, recovery cut by 1 frame)',
+  'okiView.detail.driveRushFrom': 'Drive Rush from:',
+  'okiView.detail.noPrefix': 'no prefix',
+  'okiView.detail.actionStart': 'Action starts:',
+  'okiView.detail.moveStartup': 'Move startup:',
+  'okiView.detail.moveActive': 'Move active:',
+  'okiView.detail.activeTotal': '({count} frames total)',
+  'okiView.detail.calculation': 'Calculation:',
+  'okiView.detail.lastActiveRange': 'Last hit active range:',
+  'okiView.detail.activeRange': 'Active range:',
+  'okiView.detail.opponentFirstActive': 'Opponent first active frame:',
+  'okiView.detail.hitWindow': 'Hittable window:',
+  'okiView.detail.driveReversal': 'Drive Reversal:',
+  'okiView.detail.projectileRecover': 'Character recovers on {frame}F',
+  'okiView.detail.projectileTotal': '(projectile move total)',
+  'okiView.detail.recover': 'Recovers on {frame}F',
+  'okiView.detail.driveReversalActive': '; Drive Reversal active on {frame}F',
+  'okiView.detail.driveReversalSafe': 'blockable, {margin} margin',
+  'okiView.detail.driveReversalUnsafe': 'not blockable, short by {margin}',
+  'okiView.detail.projectileContact': 'Projectile contact:',
+  'okiView.detail.projectileContactWindow': '{min}~{max}F after input (distance {distance})',
+  'okiView.detail.onBlockCalc': 'On-block calculation:',
+  'okiView.detail.inputToBlock': '(input to block)',
+  'okiView.detail.blockstun': '(blockstun)',
+  'okiView.detail.moveTotal': '(move total)',
+  'okiView.detail.base': '(base)',
+  'okiView.detail.driveRushBonus': '(Drive Rush)',
+  'okiView.detail.meatyBonus': '(Meaty: hits on {hit}F - starts on {start}F)',
+  'okiView.detail.onHitCalc': 'On-hit calculation:',
+  'okiView.detail.counterHit': '(counter hit)',
+  'okiView.detail.tradeAdvantage': 'Trade advantage:',
+  'okiView.detail.tradeCalc': 'Trade calculation:',
+  'okiView.detail.verdict': 'Verdict:',
+  'okiView.detail.covers': '✓ Covers: {range} overlaps {window}',
+  'okiView.detail.lastHit': 'last hit ',
+  'okiView.detail.trades': '⚠ Trade: lands on the opponent\'s first active frame ({frame}F)',
+  'okiView.coverage.title': 'Wakeup option coverage',
+  'okiView.timeline.show': 'Show timeline',
+  'okiView.timeline.hide': 'Hide timeline',
+  'okiView.timeline.prefix': 'Prefix',
+  'okiView.timeline.startup': 'Startup',
+  'okiView.timeline.active': 'Active',
+  'okiView.timeline.recovery': 'Recovery',
+  'okiView.timeline.down': 'Knockdown',
+  'okiView.timeline.vulnerable': 'Vulnerable',
+  'okiView.timeline.hitstun': 'Hitstun',
+  'okiView.timeline.blockstun': 'Blockstun',
+  'okiView.timeline.attacker': 'Attacker (self)',
+  'okiView.timeline.defenderHit': 'Opponent - hit',
+  'okiView.timeline.defenderBlock': 'Opponent - block',
+  'okiView.badge.coversSuccess': 'Covers',
+  'okiView.mobile.startup': 'Startup: {frames}F',
+  'okiView.mobile.active': 'Active: {range}F',
+  'okiView.mobile.tolerance': 'Tolerance: {value}',
+  'okiView.mobile.onBlock': 'On block: {value}',
+  'okiView.mobile.onHit': 'On CH: {value}',
+  'okiView.steps.title': 'Frame calculation',
+  'okiView.steps.prefix': 'Prefix:',
+  'okiView.steps.moveStartup': 'Move startup ({name}):',
+  'okiView.steps.totalStartup': 'Total startup:',
+  'okiView.steps.active': 'Active frames:',
+  'okiView.steps.opponentFirstActive': 'Opponent first active:',
+  'okiView.steps.opponentVulnerable': 'Defender vulnerable:',
+  'okiView.advantage.title': 'Advantage',
+  'okiView.advantage.onBlock': '🛡️ On block',
+  'okiView.advantage.onHit': '🎯 On hit (counter hit)',
+  'okiView.advantage.trade': 'Trade advantage:',
+  'okiView.timeline.title': 'Timeline',
+  'okiView.timeline.opponentHit': 'Opponent (hit)',
+  'okiView.results.showMore': 'Show {count} more',
+  'okiView.results.showLess': 'Show fewer',
+  'okiView.results.empty': 'No matching oki setups',
+  'okiView.section.collapse': 'Collapse',
+  'okiView.section.expand': 'Expand',
+  'okiView.step.throwLoop': 'Throw loop calculator',
+  'okiView.throw.collapsedHint': 'Timing for meaty throws and strike/throw mixups. Collapsed by default to keep the main results short.',
+  'okiView.throw.goalLead': 'Goal: land the throw\'s ',
+  'okiView.throw.goalFirstActive': 'first active frame',
+  'okiView.throw.goalTail': ' on the first frame the opponent can be thrown after waking up.',
+  'okiView.throw.knockdown': 'Knockdown advantage N',
+  'okiView.throw.wakeupInvul': 'Wakeup throw invuln I',
+  'okiView.throw.startup': 'Throw startup T',
+  'okiView.throw.active': 'Throw active A',
+  'okiView.throw.abare': 'Defender mash',
+  'okiView.throw.extraDelay': 'Extra delay',
+  'okiView.throw.extraDelayE': 'Extra delay E:',
+  'okiView.throw.earliest': 'Earliest throwable frame:',
+  'okiView.throw.latest': 'Latest throwable frame:',
+  'okiView.throw.idealDelay': 'Ideal throw delay:',
+  'okiView.throw.relaxed': '({frames}F extra leeway)',
+  'okiView.throw.firstActiveRange': 'Allowed first active range:',
+  'okiView.throw.tooShort': 'Knockdown advantage is too short to start the throw before the opponent becomes throwable (needs a negative delay).',
+  'okiView.throw.resultsTitle': 'Throw loops ({total} results, showing the first {shown})',
+  'okiView.throw.tipCore': 'The mixup',
+  'okiView.throw.tipReplace': ': the throw here can be swapped for ',
+  'okiView.throw.tip2LK': '2LK (crouching light kick)',
+  'okiView.throw.tip5LP': '5LP (standing light punch)',
+  'okiView.throw.tipOr': 'or',
+  'okiView.throw.tipJump': 'neutral/forward jump',
+  'okiView.throw.tipSameDelay': 'With the same delay, switch from throw to strike or jump for the core SF6 guessing game: ',
+  'okiView.throw.tipMixup': 'the strike/throw mixup',
+  'okiView.throw.filteredLead': 'Showing throw loops that contain',
+  'okiView.throw.filteredTail': '',
+  'okiView.throw.delay': 'Delay S',
+  'okiView.throw.firstActive': 'First active',
+  'okiView.throw.label': 'Throw',
+  'okiView.throw.filler': 'Whiffed move:',
+  'okiView.throw.rawTotal': '(frame data)',
+  'okiView.throw.delayS': 'Delay S:',
+  'okiView.throw.firstFrame': 'First frame:',
+  'okiView.throw.firstActiveLabel': 'First active:',
+  'okiView.throw.window': 'Allowed window:',
+  'okiView.timeline.recoveryWhiff': 'Recovery / whiff',
+  'okiView.timeline.thrown': 'Thrown',
+  'okiView.timeline.wakeup': 'Wakeup',
+  'okiView.timeline.throwHit': 'Throw connects',
+  'okiView.timeline.defender': 'Opponent',
+  'okiView.throw.mobileDelay': 'Delay S: {frames}F',
+  'okiView.throw.mobileFirstActive': 'First active: {frames}F',
+  'okiView.throw.empty': 'No matching throw loops',
+  'okiView.step.altOki': 'Alternative oki',
+  'okiView.alt.globalDelay': 'Global extra delay',
+  'okiView.alt.collapsedHint': 'Advanced setups: Drive Rush, Drive Impact, frame traps and safe baits. Expand when needed.',
+  'okiView.alt.tab.driveRush': '🚗 Drive Rush',
+  'okiView.alt.tab.driveImpact': '💥 Drive Impact',
+  'okiView.alt.tab.frameTrap': '🎯 Frame trap',
+  'okiView.alt.tab.safeBait': '🛡️ Safe bait',
+  'okiView.alt.tab.baitThrow': '🤼 Bait throw',
+  'okiView.driveRush.title': 'Drive Rush + move oki',
+  'okiView.driveRush.description': 'Timed from frame 1 of the Drive Rush; Parry Drive Rush can cancel into an attack on frame 11. Fastest hit = move startup + 11.',
+  'okiView.flow.knockdown': 'Knockdown advantage (N)',
+  'okiView.flow.driveRushCancel': 'Drive Rush cancel',
+  'okiView.flow.moveStartup': 'Move startup',
+  'okiView.flow.startupF': 'Startup F',
+  'okiView.flow.fastestHit': 'Fastest hit frame',
+  'okiView.flow.startupPlus11': 'Startup + 11F',
+  'okiView.window.title': 'Opponent hittable window:',
+  'okiView.window.range': 'From wakeup frame {start} to {end} before their move is active ({count}-frame window)',
+  'okiView.window.none': 'None (the opponent\'s wakeup move is already active)',
+  'okiView.driveRush.resultsTitle': 'Drive Rush results ({count})',
+  'okiView.driveRush.fastestHit': 'Fastest hit',
+  'okiView.driveRush.activeFrames': 'Active frames',
+  'okiView.driveRush.wakeupOffset': 'Wakeup offset',
+  'okiView.driveRush.detailTitle': '📖 Drive Rush oki frame details',
+  'okiView.driveRush.stepsTitle': '1. Frame calculation',
+  'okiView.driveRush.prefixSequence': 'Prefix sequence:',
+  'okiView.driveRush.globalDelay': 'Global extra delay:',
+  'okiView.driveRush.startDelay': 'Drive Rush start:',
+  'okiView.driveRush.attackCancel': 'Drive Rush attack cancel:',
+  'okiView.driveRush.followUpStartup': 'Follow-up startup ({name}):',
+  'okiView.driveRush.fastestHitFrame': 'Fastest hit frame:',
+  'okiView.driveRush.activeRange': 'Active range:',
+  'okiView.driveRush.wakeupOffsetLabel': 'Wakeup offset:',
+  'okiView.driveRush.advantageTitle': '2. Advantage',
+  'okiView.bonus.base': '(base)',
+  'okiView.bonus.driveRush': '(Drive Rush)',
+  'okiView.bonus.meaty': '(meaty)',
+  'okiView.bonus.counterHit': '(counter hit)',
+  'okiView.driveRush.covers': '✓ Covers: the active frames fully overlap the wakeup window',
+  'okiView.driveRush.trades': '⚠️ Trade: meets the opponent\'s fastest wakeup move on {frame}F',
+  'okiView.driveRush.mobileFastestHit': 'Fastest hit: {frames}F',
+  'okiView.driveRush.mobileOffset': 'Offset: {frames}F',
+  'okiView.mobileStep.prefix': 'Prefix:',
+  'okiView.mobileStep.globalDelay': 'Global delay:',
+  'okiView.mobileStep.driveRushStart': 'Drive Rush start:',
+  'okiView.mobileStep.attackCancel': 'Attack cancel:',
+  'okiView.mobileStep.moveStartup': 'Move startup:',
+  'okiView.mobileStep.fastestHit': 'Fastest hit:',
+  'okiView.mobileStep.active': 'Active:',
+  'okiView.advantage.final': 'Final advantage',
+  'okiView.advantage.mobileOnBlock': '🛡️ On block:',
+  'okiView.advantage.mobileOnHit': '🎯 On counter hit:',
+  'okiView.advantage.counterHit2': 'CH 2',
+  'okiView.driveRush.mobileCovers': '✓ Covers: hits the frames right after wakeup invincibility',
+  'okiView.driveRush.mobileTrades': '⚠️ Trade: meets the opponent\'s fastest wakeup move on {frame}F',
+  'okiView.driveRush.empty': 'No matching Drive Rush oki setups',
+  'okiView.driveImpact.title': 'Drive Impact oki',
+  'okiView.driveImpact.description': '26F startup, active on 26~27F. Set the target wakeup offset to line up the active frames.',
+  'okiView.driveImpact.target': 'Target wakeup offset',
+  'okiView.driveImpact.targetHint': 'Where Drive Impact\'s first active frame lands relative to wakeup. 1F means the tightest meaty.',
+  'okiView.flow.targetFirstActive': 'Target first active',
+  'okiView.flow.requiredDelay': 'Required delay',
+  'okiView.flow.driveImpactStartup': 'Drive Impact startup',
+  'okiView.flow.targetActive': 'Target active range',
+  'okiView.driveImpact.negativeDelay': '⚠️ This target offset needs a negative delay ({frames}F) and cannot happen in a real match. Lower the target offset.',
+  'okiView.driveImpact.resultsTitle': 'Drive Impact results ({count})',
+  'okiView.driveImpact.prefixCombo': 'Prefix',
+  'okiView.driveImpact.prefixTotal': 'Prefix total',
+  'okiView.driveImpact.activeFrames': 'Active frames',
+  'okiView.action.driveImpact': 'Drive Impact',
+  'okiView.driveImpact.detailTitle': '📖 Drive Impact oki frame details',
+  'okiView.driveImpact.prefixSequence': 'Prefix sequence:',
+  'okiView.driveImpact.filler': 'Follow-up ({name}):',
+  'okiView.driveImpact.rawTotal': 'frame data total',
+  'okiView.driveImpact.summedTotal': 'sum of phases',
+  'okiView.driveImpact.extraDelay': 'Extra idle delay:',
+  'okiView.driveImpact.delay': 'Total delay:',
+  'okiView.driveImpact.startup': 'Drive Impact startup:',
+  'okiView.driveImpact.activeRange': 'Drive Impact active range:',
+  'okiView.driveImpact.wakeupOffset': 'Wakeup offset:',
+  'okiView.driveImpact.opponentWakeup': 'Opponent wakeup frame 1:',
+  'okiView.driveImpact.exact': 'Exact meaty',
+  'okiView.driveImpact.mobilePrefixTotal': 'Prefix total: {frames}F',
+  'okiView.driveImpact.mobileOffset': 'Offset: +{frames}F',
+  'okiView.mobileStep.fillerPrefix': 'Follow-up:',
+  'okiView.mobileStep.extraDelay': 'Extra delay:',
+  'okiView.mobileStep.prefixTotal': 'Prefix total:',
+  'okiView.mobileStep.driveImpactStartup': 'Drive Impact startup:',
+  'okiView.mobileStep.activeRange': 'Active range:',
+  'okiView.mobileStep.alignment': 'Alignment:',
+  'okiView.mobileStep.alignmentValue': 'meaty on frame {frame}',
+  'okiView.driveImpact.empty': 'No matching Drive Impact oki setups',
+  'okiView.frameTrap.title': 'Routes for a target advantage',
+  'okiView.frameTrap.description': 'Works backwards from the advantage you want to keep to find combo / whiff routes that reach it.',
+  'okiView.frameTrap.target': 'Target advantage',
+  'okiView.frameTrap.targetHint': 'The frame advantage you want after the opponent wakes up (positive: you act first; negative: they act first).',
+  'okiView.flow.comboTotal': 'Route total',
+  'okiView.flow.comboTotalF': 'Route F',
+  'okiView.flow.resultAdvantage': 'Resulting advantage',
+  'okiView.frameTrap.resultsTitle': 'Target advantage results ({count})',
+  'okiView.frameTrap.route': 'Route',
+  'okiView.frameTrap.routeTotal': 'Route total',
+  'okiView.frameTrap.resultAdvantage': 'Advantage',
+  'okiView.frameTrap.targetDiff': 'Diff from target',
+  'okiView.frameTrap.detailTitle': '📖 Route frame details',
+  'okiView.frameTrap.firstPrefix': 'First prefix:',
+  'okiView.frameTrap.filler': 'Follow-up whiff / movement:',
+  'okiView.frameTrap.rawTotal': 'move total',
+  'okiView.frameTrap.summedTotal': 'startup + active + recovery',
+  'okiView.frameTrap.cost': 'Route cost:',
+  'okiView.frameTrap.knockdown': 'Knockdown advantage:',
+  'okiView.frameTrap.finalAdvantage': 'Resulting advantage:',
+  'okiView.frameTrap.targetAdvantage': 'Target advantage:',
+  'okiView.frameTrap.delta': 'Diff from target:',
+  'okiView.frameTrap.matched': 'Match',
+  'okiView.frameTrap.mobileTotal': 'Route total: {frames}F',
+  'okiView.frameTrap.mobileAdvantage': 'Advantage: {value}',
+  'okiView.mobileStep.prefixCost': 'Prefix:',
+  'okiView.mobileStep.whiff': 'Whiff:',
+  'okiView.mobileStep.routeCost': 'Route cost:',
+  'okiView.mobileStep.knockdown': 'Knockdown:',
+  'okiView.mobileStep.resultAdvantage': 'Advantage:',
+  'okiView.mobileStep.targetDiff': 'Diff from target:',
+  'okiView.frameTrap.empty': 'No matching routes',
+  'okiView.safeBait.title': 'Safe bait setup',
+  'okiView.safeBait.description': 'Whiff something to bait a wakeup reversal, finishing before the reversal is active so you can block it.',
+  'okiView.safeBait.reversalStartup': 'Opponent reversal startup',
+  'okiView.safeBait.searchLabel': 'Or pick an opponent move',
+  'okiView.safeBait.searchPlaceholder': 'Search defender specials / reversals...',
+  'okiView.flow.opponentWakeup': 'Opponent wakeup',
+  'okiView.flow.reversalStartup': 'Reversal startup',
+  'okiView.flow.reversalFirstActive': 'Reversal first active',
+  'okiView.flow.maxSafeTotal': 'Max safe total',
+  'okiView.safeBait.formulaTitle': '🛡️ Safe bait rule:',
+  'okiView.safeBait.formulaLead': 'Route total',
+  'okiView.safeBait.formulaLimit': '< opponent reversal first active ({frame}F)',
+  'okiView.safeBait.formulaMax': '. Max allowed total is',
+  'okiView.safeBait.resultsTitle': 'Safe bait results ({count})',
+  'okiView.safeBait.route': 'Bait route',
+  'okiView.safeBait.opponentActive': 'Opponent active',
+  'okiView.safeBait.blockMargin': 'Block margin',
+  'okiView.safeBait.badge': 'Safe bait',
+  'okiView.safeBait.detailTitle': '📖 Safe bait frame details',
+  'okiView.safeBait.firstPrefix': 'First prefix:',
+  'okiView.safeBait.filler': 'Bait whiff:',
+  'okiView.safeBait.recovery': 'move recovery',
+  'okiView.safeBait.extraDelay': 'Extra delay:',
+  'okiView.safeBait.total': 'Our total frames:',
+  'okiView.safeBait.opponentWakeup': 'Defender wakeup frame 1:',
+  'okiView.safeBait.opponentMove': 'Opponent move ({name}):',
+  'okiView.safeBait.startupValue': '{frames}F startup',
+  'okiView.safeBait.strictLimit': 'Opponent hit lands on:',
+  'okiView.safeBait.verdict': 'Verdict:',
+  'okiView.safeBait.verdictSafe': '✓ Safe bait: we recover ({total}F) {margin} frames before the reversal lands ({limit}F), so we can block straight away!',
+  'okiView.safeBait.safeBlock': 'Safe block',
+  'okiView.safeBait.mobileTotal': 'Total: {frames}F',
+  'okiView.safeBait.mobileMargin': 'Block margin: +{frames}F',
+  'okiView.mobileStep.actionPrefix': 'Prefix:',
+  'okiView.mobileStep.followUp': 'Follow-up:',
+  'okiView.mobileStep.actionTotal': 'Total:',
+  'okiView.mobileStep.opponentActive': 'Opponent active:',
+  'okiView.mobileStep.opponentActiveValue': 'active on {frame}F',
+  'okiView.mobileStep.blockMargin': 'Block margin:',
+  'okiView.safeBait.mobileVerdict': '✓ Bait works: we recover before the reversal is active on {frame}F and can block it.',
+  'okiView.safeBait.empty': 'No matching safe bait setups',
+  'okiView.baitThrow.title': 'Bait throw / grab reversal',
+  'okiView.baitThrow.description': 'Neutral jump or backdash to avoid the opponent\'s throw or command grab (e.g. Zangief SA3) right after blockstun, and work out the punish.',
+  'okiView.baitThrow.attacker': 'Attacker',
+  'okiView.baitThrow.initiator': 'Pressure move',
+  'okiView.baitThrow.initiatorPlaceholder': 'Search attacker move...',
+  'okiView.baitThrow.onBlock': '(on block: {frames}F)',
+  'okiView.baitThrow.drc': 'Drive Rush cancel (DRC)',
+  'okiView.baitThrow.drcToggle': 'Drive Rush cancel (3 Drive bars)',
+  'okiView.baitThrow.action': 'Avoidance',
+  'okiView.baitThrow.jump': 'Neutral jump (45F)',
+  'okiView.baitThrow.backdash': 'Backdash ({frames}F)',
+  'okiView.baitThrow.defender': 'Defender',
+  'okiView.baitThrow.reactionType': 'Defender option',
+  'okiView.baitThrow.throw': 'Normal throw',
+  'okiView.baitThrow.invincibleGrab': 'Invincible grab / special / SA3',
+  'okiView.baitThrow.throwStartup': 'Throw startup',
+  'okiView.baitThrow.throwRecovery': 'Throw whiff recovery',
+  'okiView.baitThrow.selectGrab': 'Defender command grab / super',
+  'okiView.baitThrow.grabPlaceholder': 'Search defender specials / supers...',
+  'okiView.baitThrow.selectDefender': 'Select a defender above to search moves',
+  'okiView.baitThrow.safe': '🟢 Safe bait',
+  'okiView.baitThrow.caught': '🔴 Caught / punished',
+  'okiView.baitThrow.punishAdvantage': 'Punish advantage on landing: +{frames}F',
+  'okiView.baitThrow.flow.defenderAct': 'Defender wakes up / recovers',
+  'okiView.baitThrow.flow.grabActive': 'Grab / super active',
+  'okiView.baitThrow.flow.baitStart': 'Our avoidance starts',
+  'okiView.baitThrow.frameValue': 'Frame {frame}',
+  'okiView.baitThrow.timelineTitle': '📊 Bait timeline',
+  'okiView.baitThrow.axis': 'Frame',
+  'okiView.baitThrow.defenderRecovers': '0F (defender recovers)',
+  'okiView.baitThrow.attackerRow': 'Attacker',
+  'okiView.baitThrow.blocked': '{name} (blocked)',
+  'okiView.baitThrow.drcBlock': 'Drive Rush cancel',
+  'okiView.baitThrow.baitDuration': '{name} ({frames}F)',
+  'okiView.baitThrow.blockstun': 'Blockstun ({frames}F)',
+  'okiView.baitThrow.grabStartup': 'Grab startup ({frames}F)',
+  'okiView.baitThrow.grabWhiff': 'Whiff recovery ({frames}F)',
+  'okiView.baitThrow.legend.blocked': 'Blocked move',
+  'okiView.baitThrow.legend.drc': 'Drive Rush cancel (11F)',
+  'okiView.baitThrow.legend.safe': 'Safe avoidance',
+  'okiView.baitThrow.legend.unsafe': 'Unsafe / hit',
+  'okiView.baitThrow.legend.blockstun': 'Opponent blockstun',
+  'okiView.baitThrow.legend.grabStartup': 'Grab startup',
+  'okiView.baitThrow.legend.grabWhiff': 'Grab whiff / recovery',
+  'okiView.baitThrow.detailTitle': '📖 Bait throw punish details',
+  'okiView.baitThrow.step.initiator': 'Our pressure move:',
+  'okiView.baitThrow.step.initiatorValue': '{name} = {frames}F (on block)',
+  'okiView.baitThrow.step.blockstun': 'Opponent blockstun:',
+  'okiView.baitThrow.step.drc': 'Drive Rush cancel:',
+  'okiView.baitThrow.step.drcOn': 'Yes (the rush takes 11 frames; act on frame 12)',
+  'okiView.baitThrow.step.baitStart': 'Our avoidance starts (relative to defender recovery frame 1):',
+  'okiView.baitThrow.step.grab': 'Opponent move:',
+  'okiView.baitThrow.step.grabValue': '{name} (startup {startup}F, recovery {recovery}F, total {total}F)',
+  'okiView.baitThrow.step.grabActive': 'Opponent move active:',
+  'okiView.baitThrow.step.attackerRecover': 'We recover / land:',
+  'okiView.baitThrow.step.defenderRecover': 'Opponent recovers:',
+  'okiView.baitThrow.step.punishAdvantage': 'Punish advantage:',
+  'okiView.step.safeJump': 'Safe jump',
+  'okiView.safeJump.collapsedHint': 'Check whether a jump-in can hit meaty and still land and block before the opponent\'s invincible reversal.',
+  'okiView.safeJump.explainLead': 'The jump-in hits on the last airborne frame; ',
+  'okiView.safeJump.explainRule': 'landing recovery ends ≤ reversal active frame',
+  'okiView.safeJump.explainTail': ' means a safe jump. Delay is how long to wait after the pre-jump action.',
+  'okiView.safeJump.setup': 'Pre-jump action',
+  'okiView.safeJump.jumpTotal': 'Jump total',
+  'okiView.safeJump.reversal': 'Opponent reversal',
+  'okiView.safeJump.jumpIn': 'Jump-in',
+  'okiView.safeJump.landingRecovery': 'Landing recovery',
+  'okiView.safeJump.opponentColumn': 'Opponent {frames}F',
+  'okiView.safeJump.reversalColumn': '{frames}F reversal',
+  'okiView.safeJump.latestPress': 'Press by airborne frame {frame} at the latest',
+  'okiView.safeJump.stuffs': '· stuffs it',
+  'okiView.safeJump.empty': 'No jump-in attacks available',
+  'okiView.timeline.exportSvg': 'Export SVG',
+  'okiView.timeline.exportPng': 'Export PNG',
+  'okiView.timeline.exportFailed': 'Image export failed, please try again',
+  'okiView.timeline.image.title': '{attacker} vs {defender}',
+  'okiView.timeline.image.setup': 'Knockdown: {knockdown} · Setup: {setup}',
+  'okiView.timeline.image.knockdown': 'Knockdown +{frames}F',
+  'okiView.timeline.image.wakeup': 'Wakeup {frame}F',
+  'okiView.timeline.image.reversal': 'Reversal active {frame}F',
+  'okiView.timeline.image.hit': 'Hit / block',
+  'okiView.driveImpact.direct': 'Direct Drive Impact',
+  'okiView.filler.none': 'No extra action',
+};
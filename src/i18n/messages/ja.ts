@@ -0,0 +1,949 @@
+import type { MessageCatalog } from '..';
+
+export const ja: MessageCatalog = {
+  // App shell
+  'nav.characters': 'キャラクター',
+  'nav.oki': '起き攻め計算',
+  'nav.gap': '隙間計算',
+  'nav.trade': '相打ち計算',
+  'nav.punish': '確定反撃',
+  'nav.matchup': '対策シート',
+  'nav.compare': 'キャラ比較',
+  'nav.patchNotes': '調整履歴',
+  'footer.source': 'データ出典: Supercombo Wiki',
+
+  // Home
+  'home.titleMain': 'ストリートファイター6',
+  'home.titleSub': 'フレームデータ',
+  'home.description': '全キャラクターのフレームデータを確認して、技の性能を把握し、実力を伸ばしましょう',
+  'home.selectCharacter': 'キャラクター選択',
+  'home.okiDescription': 'ダウン後の最適な重ねタイミングを計算',
+  'home.gapDescription': 'コンボの繋がりと連係の隙間を分析',
+  'home.assistantTitle': '対策アシスタント',
+  'home.assistantDescription': '相手の連係を分析して対策を提案',
+  'home.tradeDescription': '2つの技が相打ちしたときの有利フレーム',
+
+  // Gap calculator results
+  'gap.label.gap': '隙間',
+  'gap.label.surplus': '猶予',
+  'gap.label.missing': '不足',
+  'gap.status.combo': '繋がる',
+  'gap.status.noCombo': '繋がらない',
+  'gap.status.trueBlockstring': '連続ガード',
+  'gap.status.frameTrap': '暴れ潰し',
+  'gap.status.interruptible': '割り込み可能',
+  'gap.status.highRisk': '高リスク',
+  'gap.description.combo': '後続の技が繋がります。',
+  'gap.description.noCombo': '{count}F 足りません。',
+  'gap.description.trueBlockstring': '連続ガード: 相手はガード硬直中で行動できません。',
+  'gap.description.frameTrap': '通常技の暴れにはカウンターが取れますが、無敵のOD昇龍やSA1/2/3には割り込まれます。',
+  'gap.description.interruptible': '4F技や無敵技で割り込める隙間があります。',
+  'gap.description.highRisk': '隙間が大きく、ジャンプで逃げられたり大きな反撃を受けたりします。',
+  'gap.error.invalidFrames': 'この技の組み合わせに使えるフレームデータがありません',
+
+  // Generated key moves
+  'keyMoves.generatedNotes': 'この主力技はフレームデータからルールで選んだ目安です。間合いや判定はキャラ攻略や実戦で確認してください。',
+  'keyMoves.role.fastCheck': '最速技',
+  'keyMoves.role.plusFrame': '有利連係',
+  'keyMoves.role.confirm': 'ヒット確認',
+  'keyMoves.role.poke': '中距離牽制',
+  'keyMoves.role.antiAir': '対空',
+  'keyMoves.role.punish': '確定反撃',
+  'keyMoves.reason.fastCheck': '発生{startup}F、ガード時{onBlock}: 近距離の暴れ潰しや割り込みに。',
+  'keyMoves.reason.plusFrame': 'ガード時{onBlock}、ヒット時{onHit}: 攻めを継続する主力技。',
+  'keyMoves.reason.confirm': '発生{startup}F、キャンセル可、ダメージ{damage}: ヒット確認と差し返しの始動技。',
+  'keyMoves.reason.poke': '発生{startup}F、ガード時{onBlock}: 中距離の地上牽制。',
+  'keyMoves.reason.antiAir': '発生{startup}F、ダメージ{damage}: 飛び込みを落とす第一候補。',
+  'keyMoves.reason.punish': '発生{maxStartup}F以内で最大ダメージ: 確定反撃やパニッシュカウンター始動に。',
+  'keyMoves.tag.close': '近距離',
+  'keyMoves.tag.starter': '始動',
+  'keyMoves.tag.pressure': '攻め',
+  'keyMoves.tag.plus': '有利',
+  'keyMoves.tag.confirm': 'ヒット確認',
+  'keyMoves.tag.cancelable': 'キャンセル可',
+  'keyMoves.tag.poke': '牽制',
+  'keyMoves.tag.grounded': '地上',
+  'keyMoves.tag.antiAir': '対空',
+  'keyMoves.tag.special': '必殺技',
+  'keyMoves.tag.normal': '通常技',
+  'keyMoves.tag.punish': '確反',
+  'keyMoves.tag.highReward': '高リターン',
+
+  // Counter moves
+  'counter.gap.trueBlockstring': '連続ガード - 無敵技のみ割り込み可能',
+  'counter.gap.fastInterrupt': '{gap}F の隙間 - 発生の早い技で割り込み可能',
+  'counter.gap.easyInterrupt': '{gap}F の隙間 - 簡単に割り込める',
+
+  // Shared labels
+  'common.all': 'すべて',
+  'common.back': '← 戻る',
+  'common.loading': '読み込み中...',
+  'common.loadingData': 'データを読み込み中...',
+  'common.none': 'なし',
+  'common.unmatched': '該当なし',
+  'common.listSeparator': '、',
+  'category.normal': '通常技',
+  'category.unique': '特殊技',
+  'category.special': '必殺技',
+  'category.super': 'スーパーアーツ',
+  'category.throw': '投げ',
+  'category.short.normal': '通常',
+  'category.short.unique': '特殊',
+  'category.short.special': '必殺',
+  'category.short.super': 'SA',
+  'category.short.throw': '投げ',
+  'frame.move': '技',
+  'frame.input': 'コマンド',
+  'frame.startup': '発生',
+  'frame.active': '持続',
+  'frame.recovery': '硬直',
+  'frame.total': '全体',
+  'frame.onBlock': 'ガード時',
+  'frame.onHit': 'ヒット時',
+  'frame.damage': 'ダメージ',
+  'frame.blockstun': 'ガード硬直',
+  'frame.hitstun': 'ヒット硬直',
+  'frame.cancels': 'キャンセル',
+  'frame.forwardDash': '前ステップ',
+  'frame.backDash': '後ろステップ',
+  'frame.health': '体力',
+
+  // Key move panel
+  'keyMovePanel.title': '主力技',
+  'keyMovePanel.source.manual': '手動選定',
+  'keyMovePanel.source.generated': '自動生成',
+  'keyMovePanel.startup': '発生 {value}F',
+  'keyMovePanel.onBlock': 'ガード時 {value}',
+  'keyMovePanel.onHit': 'ヒット時 {value}',
+  'keyMovePanel.damage': 'ダメージ {value}',
+  'keyMovePanel.empty': 'このキャラクターの主力技はまだありません。',
+
+  // Move table
+  'moveTable.empty': '該当する技がありません',
+
+  // Combo list
+  'comboList.title': 'コンボ',
+  'comboList.count': '{filtered} / {count} 件',
+  'comboList.sectionCount': '{count} 件',
+  'comboList.searchPlaceholder': 'レシピ、メモ、始動技で検索...',
+  'comboList.allSections': 'すべての分類',
+  'comboList.allDifficulties': 'すべての難易度',
+  'comboList.allPositions': 'すべての位置',
+  'comboList.verifyTitle': '隙間計算で各繋ぎを確認',
+  'comboList.verify': 'フレーム確認',
+  'comboList.damage': 'ダメージ {value}',
+  'comboList.calculatedDamage': '計算ダメージ {value}',
+  'comboList.meter': 'ゲージ消費 {value}',
+  'comboList.driveBars': 'ドライブ {count} 本',
+  'comboList.superBars': 'SA {count} 本',
+  'comboList.burnout': 'バーンアウトになる',
+  'comboList.unresolved': '認識できない入力: {tokens}',
+  'comboList.empty': '条件に合うコンボがありません。',
+  'comboList.lastUpdated': 'コンボデータ更新日 {date}',
+  'comboList.missing': 'このキャラクターのコンボデータはまだ取得されていません。',
+
+  // Character view
+  'character.stat.moves': '技数',
+  'character.stat.keyMoves': '主力技',
+  'character.stat.combos': 'コンボ',
+  'character.noData': '{name} のフレームデータはまだありません。先にスクレイパーを実行してください。',
+  'character.loading': 'キャラクターデータを読み込み中...',
+  'character.overviewTitle': '概要',
+  'character.overviewDescription': 'まず主力技とコンボを確認し、下のフレーム表で詳細を調べましょう。',
+  'character.frameTitle': 'フレームデータ',
+  'character.frameDescription': '発生、分類、有利フレーム、キーワードで絞り込めます。',
+  'character.searchPlaceholder': '技を検索...',
+  'character.startupFilter': '発生 ≤',
+  'character.lastUpdated': 'フレームデータ更新日 {date}',
+
+  // Gap calculator view
+  'gapView.title': '隙間計算',
+  'gapView.subtitle': '2つの攻撃の間の隙間: 暴れ潰しか連続ガードか。',
+  'gapView.explainer.title': 'なぜ隙間があると割り込まれるのか?',
+  'gapView.explainer.bufferLead': 'SF6では無敵技(OD昇龍 / 無敵SA)をガード硬直が解ける',
+  'gapView.explainer.bufferTail': '前から先行入力でき、行動可能になった最初のフレームで出ます。(起き上がりの先行入力はさらに長く、最大7Fです。)',
+  'gapView.explainer.conclusion': 'つまり:',
+  'gapView.explainer.anyGap': '2つの攻撃の間に相手が行動できるフレームが1Fでもあれば、そのフレームでOD昇龍を出せます。',
+  'gapView.explainer.invincible': '1F目から無敵なので、次の攻撃をすり抜けて勝ちます。',
+  'gapView.explainer.simplyPut': '簡単に言うと: ',
+  'gapView.explainer.rule': '相手のガード硬直の最後のフレームを攻撃で埋めない限り、硬直が解けた瞬間に無敵技で割り込まれます。',
+  'gapView.explainer.gapZero': '下の隙間 0 はSF6のフレームメーターに黒い部分がない状態です。2発目の1F目が相手の行動可能な最初のフレームに重なるため、無敵技で割り込まれます。',
+  'gapView.explainer.gapMinusOne': '下の隙間 -1 は2発目の1F目が相手のガード硬直の最後のフレームに重なる状態で、相手は行動できません。',
+  'gapView.selectCharacter': 'キャラクター',
+  'gapView.type.block': '🛡️ 連係の隙間 (ガード)',
+  'gapView.type.hit': '👊 コンボ確認 (目押し)',
+  'gapView.mode.link': '目押し',
+  'gapView.mode.cancel': 'キャンセル',
+  'gapView.firstMove.block': '技1 (ガードされた)',
+  'gapView.firstMove.hit': '技1 (ヒット)',
+  'gapView.secondMove': '技2 (後続)',
+  'gapView.searchPlaceholder': '技を検索 (例: {example})',
+  'gapView.stat.onBlock': 'ガード時:',
+  'gapView.stat.onHit': 'ヒット時:',
+  'gapView.stat.startup': '発生:',
+  'gapView.stat.active': '持続:',
+  'gapView.stat.recovery': '硬直:',
+  'gapView.stat.hitstun': 'ヒット硬直:',
+  'gapView.stat.blockstun': 'ガード硬直:',
+  'gapView.stat.startup2': '発生:',
+  'gapView.stat.active2': '持続:',
+  'gapView.hitState': 'ヒット状態:',
+  'gapView.blockState': 'ガード状態:',
+  'gapView.opponentBurnout': '相手がバーンアウト (ガード時 +4)',
+  'gapView.driveRush': 'ドライブラッシュ (ヒット/ガード時 +4)',
+  'gapView.cancelFrame': 'キャンセルする持続フレーム:',
+  'gapView.cancelFrameHint': '持続 {frame}F 目でキャンセル',
+  'gapView.recommend.cancel': 'おすすめのキャンセル先',
+  'gapView.recommend.link': 'おすすめの目押し',
+  'gapView.recommend.pressure': '安全な連係',
+  'gapView.recommend.onBlock': 'ガード時 ({value})',
+  'gapView.formula': '計算式 ({mode})',
+  'gapView.outOfRange': '📏 ノックバック後は2発目が届きません',
+  'gapView.maxDistance': '📏 ノックバック後は {distance} 以内でのみ成立',
+  'gapView.followUps': '隙間に収まる技 (+{gap}F)',
+  'gapView.followUpsHint': '繋がる後続技',
+  'gapView.cannotCalculate': '計算できません',
+  'gapView.builder.title': 'カスタムコンボの有利フレーム',
+  'gapView.builder.description': '1段ずつ追加して、各繋ぎの猶予と次の技への有利フレームを確認します。',
+  'gapView.builder.importPlaceholder': 'コンボ表記を貼り付け 例: CH 2LK ~ 2LP ~ 5LP > 214LK',
+  'gapView.builder.import': '読み込む',
+  'gapView.builder.clear': 'クリア',
+  'gapView.builder.starter': '始動',
+  'gapView.builder.normalHit': '通常ヒット',
+  'gapView.builder.unresolved': '認識できない入力: {tokens} (スキップ)',
+  'gapView.builder.stepType': '種類',
+  'gapView.builder.stepType.move': '技',
+  'gapView.builder.stepType.custom': 'カスタム',
+  'gapView.builder.transition': '繋ぎ',
+  'gapView.builder.transition.link': '目押し',
+  'gapView.builder.transition.cancel': 'キャンセル',
+  'gapView.builder.outcome': '結果',
+  'gapView.builder.outcome.hit': 'ヒット',
+  'gapView.builder.outcome.block': 'ガード',
+  'gapView.builder.outcome.buff': '強化 (キャンセルドライブラッシュ)',
+  'gapView.builder.noContext': '前の段がありません。最初の技は有利フレームの確認が不要です。',
+  'gapView.builder.lastStep': '前の段: {move} ({outcome})',
+  'gapView.builder.after.hit': 'ヒット時',
+  'gapView.builder.after.block': 'ガード時',
+  'gapView.builder.after.buff': '強化後',
+  'gapView.builder.context': '繋ぎ: {mode} | 有利: {advantage}',
+  'gapView.builder.gap': '隙間 {gap}F',
+  'gapView.builder.gapSafe': '隙間 {gap}F、発生 {startup}F 以内の技なら安全',
+  'gapView.builder.searchPlaceholder': '追加する技を検索',
+  'gapView.builder.customName': 'カスタム動作',
+  'gapView.builder.customNumbered': 'カスタム {id}',
+  'gapView.builder.customNamePlaceholder': 'カスタム動作の名前',
+  'gapView.builder.customStartupPlaceholder': '発生',
+  'gapView.builder.customOnHitPlaceholder': 'ヒット時',
+  'gapView.builder.customOnBlockPlaceholder': 'ガード時',
+  'gapView.builder.add': '追加',
+  'gapView.builder.cancelFrame': 'キャンセルフレーム',
+  'gapView.builder.dropsHere': 'ここで途切れる',
+  'gapView.builder.remove': '削除',
+  'gapView.builder.replacePlaceholder': '置き換える技を検索',
+  'gapView.builder.result': '結果',
+  'gapView.builder.resultRow': '{label}: {value}',
+  'gapView.builder.nextAdvantage.hit': 'ヒット時の有利: {value}',
+  'gapView.builder.nextAdvantage.block': 'ガード時の有利: {value}',
+  'gapView.builder.nextAdvantage.buff': '強化後の有利: {value}',
+  'gapView.builder.details': '詳細: {formula} = {gap}',
+  'gapView.builder.chainedNoCombo': '{count}F 足りず、相手はガードできます。',
+
+  // AI assistant view
+  'assistant.title': '🤖 対策アシスタント',
+  'assistant.subtitle': '相手の連係の隙間と、それに勝てる技を探します',
+  'assistant.opponent': '相手',
+  'assistant.me': '自キャラ',
+  'assistant.opponentString': '相手の連係',
+  'assistant.move': '技 {index}',
+  'assistant.searchPlaceholder': '技を検索...',
+  'assistant.analyze': '🔍 隙間を分析',
+  'assistant.gapLabel': '隙間',
+  'assistant.counters': '🎯 割り込み技 ({character})',
+  'assistant.invuln': '無敵 {start}-{end}F',
+  'assistant.trueBlockstring': '⚠️ 連続ガード',
+  'assistant.trueBlockstringHint': '連続ガードです。無敵技(OD昇龍 / SA)でしか割り込めないので、それ以外はガードを続けましょう。',
+
+  // Matchup view
+  'matchup.title': '対策シート: {attacker} vs {defender}',
+  'matchup.description': '{attacker} 側から見た {defender} の反撃できる技、連係の隙間、無敵技、対空。印刷にも対応。',
+  'matchup.attacker': '自キャラ',
+  'matchup.defender': '相手',
+  'matchup.print': '印刷',
+  'matchup.noData': 'どちらかのフレームデータがありません。先にスクレイパーを実行してください。',
+  'matchup.punishes': '反撃できる技',
+  'matchup.punishesHint': 'ガードで不利になる相手の技と、最大ダメージの確定反撃 (パニッシュカウンター、ノックバックは考慮しない)。',
+  'matchup.opponentMove': '相手の技',
+  'matchup.onBlock': 'ガード時',
+  'matchup.punish': '確定反撃',
+  'matchup.pressure': '相手の攻め',
+  'matchup.pressureHint': 'ガードされても安全な相手の技、各地上通常技までの隙間、割り込み技。',
+  'matchup.noPressure': '相手にはガードされて安全な地上技がありません。',
+  'matchup.reversals': '相手の無敵技',
+  'matchup.reversalsHint': '起き上がり後どこまで遅く重ねても無敵技に勝てるか。',
+  'matchup.reversalEstimated': '（無敵フレームは推定値）',
+  'matchup.move': '技',
+  'matchup.startup': '発生',
+  'matchup.meatyWindow': '重ね猶予',
+  'matchup.antiAirs': '相手の最速対空',
+  'matchup.noAntiAirs': '対空技が見つかりません。',
+  'matchup.projectiles': '相手の飛び道具',
+  'matchup.keyMoves': '相手の主力技',
+
+  // Trade calculator view
+  'trade.title': '相打ち計算',
+  'trade.description': '両者のキャラクターと技を選ぶと、相打ち後の有利フレームを表示します。',
+  'trade.side': 'プレイヤー{side}',
+  'trade.selectCharacter': 'プレイヤー{side}のキャラクター',
+  'trade.selectMove': 'プレイヤー{side}の技',
+  'trade.searchPlaceholder': 'プレイヤー{side}の技を選択・検索...',
+  'trade.noMatch': '該当する技がありません',
+  'trade.result': '相打ちの結果',
+  'trade.sideMove': 'プレイヤー{side} ({move})',
+  'trade.effectiveHitstun': '実効ヒット硬直: {value}F',
+  'trade.blockstunFallback': 'ガード硬直で代用',
+  'trade.steps': '計算過程',
+  'trade.step': 'プレイヤー{side} {move}: {source} {base} + 2(CH) = {value}F',
+  'trade.finalStep': '相打ち後の有利 = {a} - {b} = {value}F',
+  'trade.pickMoves': '両者の技を選んでください',
+  'trade.even': '相打ち後は五分 (0F)',
+  'trade.advantage': '相打ち後、プレイヤー{side}が {value}F',
+  'trade.protection.invuln': '打撃無敵',
+  'trade.protection.armor': 'アーマー',
+  'trade.interruption': 'プレイヤー{other}の技が当たる {frame}F にプレイヤー{side}は{protection}状態のため、相打ちになりません',
+
+  // Punish finder view
+  'punish.title': '確定反撃検索',
+  'punish.description': 'ガードした相手の技を選ぶと、反撃が間に合う技をすべて表示し、パニッシュカウンターコンボの期待ダメージ順に並べます。',
+  'punish.descriptionSpacing': '両者のリーチとノックバックのデータがあれば、反撃が届く最大距離も表示します。',
+  'punish.opponent': '相手',
+  'punish.opponentCharacter': '相手キャラクター',
+  'punish.blockedMove': 'ガードした技',
+  'punish.searchPlaceholder': '相手の技を選択・検索...',
+  'punish.noMatch': '該当する技がありません',
+  'punish.manualOnBlock': 'またはガード時フレームを入力',
+  'punish.me': '自分',
+  'punish.myCharacter': '自キャラ',
+  'punish.window': '反撃猶予: ',
+  'punish.windowMove': ' ({move})',
+  'punish.noCombos': 'このキャラクターのコンボデータがないため、単発ダメージ順に並べています。',
+  'punish.results': '確定反撃',
+  'punish.safe': 'この技はガードされても不利にならず、反撃できません。',
+  'punish.none': '反撃が間に合う技はありません。',
+  'punish.startup': '発生 {value}F',
+  'punish.margin': '猶予 {value}F',
+  'punish.outOfRange': 'ノックバック後は届かない',
+  'punish.maxDistance': '{distance} 以内',
+  'punish.comboCount': 'コンボ {count} 件',
+
+  // Compare view
+  'compare.title': 'キャラ別技比較',
+  'compare.description': '同じ技枠 (例: 5LP、2MK) を全キャラで比較: 発生、ガード時、ヒット時、全体フレーム、キャンセル。絞り込みと並べ替えに対応。',
+  'compare.move': '技',
+  'compare.slotPlaceholder': '例: 2MK / 6HP',
+  'compare.maxStartup': '発生 ≤',
+  'compare.minOnBlock': 'ガード時 ≥',
+  'compare.minOnHit': 'ヒット時 ≥',
+  'compare.cancelable': 'キャンセル先',
+  'compare.resetFilters': '絞り込みをリセット',
+  'compare.rowCount': '{count} 件',
+  'compare.missing': ' ({slot} がないキャラクター: {count} 人)',
+  'compare.empty': '条件に合う技がありません。',
+  'compare.character': 'キャラクター',
+  'compare.column.startup': '発生',
+  'compare.column.onBlock': 'ガード時',
+  'compare.column.onHit': 'ヒット時',
+  'compare.column.total': '全体',
+  'compare.column.cancels': 'キャンセル',
+
+  // Patch notes view
+  'patchNotes.title': '調整内容: {character}',
+  'patchNotes.description': '2つのフレームデータのスナップショット間で、発生、ガード時、ヒット時、ダメージ、キャンセル、ダウンを技ごとに比較します。',
+  'patchNotes.character': 'キャラクター',
+  'patchNotes.from': '比較元',
+  'patchNotes.to': '比較先',
+  'patchNotes.current': '現在のデータ',
+  'patchNotes.noSnapshotsLead': '比較できる過去のスナップショットがありません。新バージョンを取得する前に',
+  'patchNotes.noSnapshotsTail': 'を実行して現在のデータを保存してください。',
+  'patchNotes.versionArg': 'バージョン',
+  'patchNotes.noCharacter': '選択したバージョンにはこのキャラクターのデータがありません。',
+  'patchNotes.noChanges': 'この2つのバージョン間でフレームデータの変更はありません。',
+  'patchNotes.summary.changed': '変更 {count}',
+  'patchNotes.summary.added': '追加 {count}',
+  'patchNotes.summary.removed': '削除 {count}',
+  'patchNotes.move': '技',
+  'patchNotes.type': '種類',
+  'patchNotes.changes': '変更点',
+  'patchNotes.status.added': '追加',
+  'patchNotes.status.removed': '削除',
+  'patchNotes.status.changed': '変更',
+  'patchNotes.field.startup': '発生',
+  'patchNotes.field.onBlock': 'ガード時',
+  'patchNotes.field.onHit': 'ヒット時',
+  'patchNotes.field.damage': 'ダメージ',
+  'patchNotes.field.cancels': 'キャンセル',
+  'patchNotes.field.knockdown': 'ダウン',
+
+  // Reversal kinds
+  'reversal.kind.odDp': 'OD昇龍',
+  'reversal.kind.sa1': 'SA1',
+  'reversal.kind.sa2': 'SA2',
+  'reversal.kind.sa3': 'SA3 / CA',
+  'reversal.kind.commandGrab': 'コマンド投げ',
+
+  // Oki wakeup coverage
+  'oki.coverage.option.block': 'ガード',
+  'oki.coverage.option.jab': '{startup}F 小技',
+  'oki.coverage.option.throwTech': '投げ / 投げ抜け',
+  'oki.coverage.option.backdash': 'バックステップ',
+  'oki.coverage.option.neutralJump': '垂直ジャンプ',
+  'oki.coverage.option.driveReversal': '起き上がりドライブリバーサル',
+  'oki.coverage.option.reversal': '{kind} {input}',
+  'oki.coverage.option.driveImpact': 'ドライブインパクト',
+  'oki.coverage.block.unknown': 'ガード時 {onBlock}、状況次第',
+  'oki.coverage.block.plus': 'ガード時 {onBlock}F、攻めを継続',
+  'oki.coverage.block.punishable': 'ガード時 {onBlock}F、発生 {startup}F の技で反撃される',
+  'oki.coverage.block.minus': 'ガード時 {onBlock}F、相手のターンになる',
+  'oki.coverage.grab.beaten': '発生 {startup}F のコマンド投げ ({firstActive}F 目に判定) より先に当たる',
+  'oki.coverage.grab.loses': '発生 {startup}F のコマンド投げ ({firstActive}F 目に判定) はガードできない',
+  'oki.coverage.reversal.exposed': '無敵 {start}-{end}F、{exposedStart}~{exposedEnd}F に攻撃が当たる',
+  'oki.coverage.reversal.blocked': '発生 {startup}F ({firstActive}F 目に判定)、{recover}F に硬直が解けてガード可能',
+  'oki.coverage.reversal.hit': '発生 {startup}F ({firstActive}F 目に判定)、硬直が解けるのは {recover}F',
+  'oki.coverage.jab': '小技は {firstActive}F 目に判定、自分の持続 {activeStart}~{activeEnd}F、硬直が解けるのは {recover}F',
+  'oki.coverage.throwTech': '投げは {firstActive}F 目に判定。打撃はそれより前に当てる必要がある',
+  'oki.coverage.backdash.hit': '起き上がり最初のフレーム ({wakeup}F) に判定が出ており、バックステップに当たる',
+  'oki.coverage.backdash.escaped': 'バックステップで逃げられる: {backdashEnd}F に終了、自分の硬直が解けるのは {recover}F',
+  'oki.coverage.jump.hit': 'ジャンプ移行中 ({start}~{end}F) に当たる',
+  'oki.coverage.jump.escaped': 'ジャンプの着地は {landing}F、自分の硬直が解けるのは {recover}F',
+  'oki.coverage.driveReversal.safe': '{recover}F に硬直が解け、{impact}F のドライブリバーサルをガードして反撃',
+  'oki.coverage.driveReversal.hit': '硬直が解けるのは {recover}F で、{impact}F のドライブリバーサルのガードが間に合わない',
+  'oki.coverage.driveImpact.counter': '{recover}F に硬直が解け、ドライブインパクト ({impact}F 目に判定) に返しが間に合う',
+  'oki.coverage.driveImpact.blocked': '{recover}F に硬直が解け、{impact}F のドライブインパクトをガード',
+  'oki.coverage.driveImpact.hit': '硬直が解けるのは {recover}F で、{impact}F のドライブインパクトを受ける',
+
+  // Oki blockstring bait
+  'oki.bait.defaultThrow': '投げ / 投げ抜け',
+  'oki.bait.action.jump': '垂直ジャンプ',
+  'oki.bait.action.backdash': 'バックステップ',
+  'oki.bait.jump.airborne': '完全に安全: 相手の技は {grabActive}F 目に判定が出ますが、自分は {airborne}F 目から空中にいるため投げは空振りします。',
+  'oki.bait.jump.preJump': '投げに安全: 投げは {grabActive}F 目に判定が出ますが、自分はジャンプ移行中 ({start}~{end}F) で投げ無敵のため空振りします。',
+  'oki.bait.jump.tooLate': '危険: 硬直が解けるのが遅く、{baitStart}F 目のジャンプ開始前に {grabActive}F 目の投げが決まります。',
+  'oki.bait.backdash.safe': 'バックステップで安全: 投げは {grabActive}F 目に判定が出ますが、バックステップの投げ無敵 ({start}~{end}F) 中のため空振りします。',
+  'oki.bait.backdash.tooLate': '危険: 硬直が解けるのが遅く、バックステップ開始前に投げが決まります。',
+  'oki.bait.backdash.tooEarly': '危険な可能性あり: 相手の技は {grabActive}F 目に判定が出ますが、バックステップの投げ無敵はその前に切れています。',
+
+  // Oki result tags
+  'oki.tag.corner': '画面端',
+  'oki.tag.projectile': '飛び道具の計算式',
+  'oki.tag.projectileEstimate': '飛び道具の速度は推定値',
+  'oki.tag.dashWhiff': 'ステップ後に空振り',
+  'oki.tag.outOfRange': '届かない',
+
+  // Oki setup prefixes
+  'oki.prefix.dash': '前ステップ',
+  'oki.prefix.dashRepeat': '前ステップx{count}',
+  'oki.prefix.chainCancel': '{input}×{count}（連打キャンセル）',
+  'oki.prefix.driveRush': 'ドライブラッシュ',
+  'oki.prefix.driveRushMove': 'ドライブラッシュ{move}',
+  'oki.prefix.emptyJump': '空ジャンプ',
+  'oki.prefix.jumpAction': 'ジャンプ + 行動',
+
+  // Oki profile import
+  'oki.profile.error.invalidJson': '有効なJSONファイルではありません',
+  'oki.profile.error.notProfile': '起き攻め設定ファイルではありません',
+  'oki.profile.error.newerVersion': '設定のバージョン v{version} は対応している v{supported} より新しいため、ページを再読み込みしてからお試しください',
+
+  // Oki calculator view
+  'oki.profile.list.customMoves': 'カスタム技',
+  'oki.profile.list.excludedMoves': '除外した技',
+  'oki.profile.list.preferredMoves': '優先する技',
+  'oki.profile.result.added': '追加 {count}',
+  'oki.profile.result.updated': '上書き {count}',
+  'oki.profile.result.unchanged': '登録済み {count}',
+  'oki.profile.result.conflicts': '競合 {count}',
+  'oki.profile.result.dropped': '無効でスキップ {count}',
+  'oki.profile.result.separator': '、',
+  'oki.safeJump.safe': '安全 ({frames}F 遅れまで)',
+  'oki.safeJump.safeExact': '安全 (最速のみ)',
+  'oki.safeJump.delay': '{frames}F 遅らせる',
+  'oki.safeJump.unsafe': '被弾',
+  'oki.safeJump.late': '間に合わない',
+  'oki.safeJump.title.reversal': '発生 {startup}F の無敵技は {firstActive}F 目に判定',
+  'oki.safeJump.title.stuffs': '。対空無敵は {frame}F で切れるため、飛び込みが勝つ',
+  'oki.safeJump.title.unsafe': '{reversal}、着地硬直が終わる前に当たる{stuff}',
+  'oki.safeJump.title.late': '{reversal}、セットアップが長すぎて着地前に無敵技が出る{stuff}',
+  'oki.safeJump.title.safe': '{reversal}、{landing}F に着地し {recover}F からガード可能{stuff}',
+  'oki.coverage.outcome.wins': '勝ち',
+  'oki.coverage.outcome.loses': '負け',
+  'oki.coverage.outcome.trades': '相打ち',
+  'oki.coverage.outcome.resets': '仕切り直し',
+  'oki.safeBait.currentDefenderMove': '現在の相手の技',
+  'oki.reversal.notInvincible': '無敵なし、ガード不能',
+  'oki.reversal.invincible': '無敵 {start}~{end}F',
+  'oki.reversal.invincibleEstimated': '無敵 {start}~{end}F (推定: フレームデータに記載なし)',
+  'oki.trade.selectMove': '技を選択',
+  'okiView.title': '起き攻め計算',
+  'okiView.description': '連係計算: ステップ + ステップ + 技A + ...',
+  'okiView.step.character': 'キャラクター選択',
+  'okiView.attacker': '攻め側',
+  'okiView.defender': '守り側',
+  'okiView.selectCharacter': '-- キャラクターを選択 --',
+  'okiView.step.knockdown': 'ダウン技',
+  'okiView.custom.title': 'カスタム技',
+  'okiView.custom.namePlaceholder': '名前 (例: 2MP)',
+  'okiView.custom.inputPlaceholder': 'コマンド (例: 236P)',
+  'okiView.custom.save': '保存',
+  'okiView.custom.saved': '保存済み:',
+  'okiView.presets.title': 'プリセット',
+  'okiView.presets.searchPlaceholder': 'ダウン技 / コマンド / フレームで検索...',
+  'okiView.presets.clear': 'クリア',
+  'okiView.presets.quickCustom': 'クイック入力 (数値)',
+  'okiView.presets.knockdownFrames': 'ダウン有利:',
+  'okiView.presets.knockdownDistance': '起き上がり距離：',
+  'okiView.presets.knockdownDistanceCorner': '画面端',
+  'okiView.presets.empty': '該当するダウン技がありません',
+  'okiView.presets.showMore': 'さらに {count} 件表示',
+  'okiView.presets.showLess': '表示を減らす',
+  'okiView.step.routing': '起き攻めルート',
+  'okiView.opponent.firstActive': '相手の無敵技の判定発生フレーム:',
+  'okiView.opponent.firstActiveFormula': '{knockdown} (ダウン) + {startup} (発生) =',
+  'okiView.opponent.driveReversal': '起き上がりドライブリバーサル:',
+  'okiView.opponent.driveReversalDetail': '{startup}F 目に判定、無敵 {invulStart}~{invulEnd}F。安全な攻めの硬直解除の期限:',
+  'okiView.opponent.startup': '相手の起き上がり技の発生',
+  'okiView.opponent.tradeNeedsMove': '相打ちの計算には技の選択が必要です',
+  'okiView.opponent.searchPlaceholder': '相手の技を選択・検索...',
+  'okiView.opponent.selectDefender': '守り側を選ぶと技を選択できます',
+  'okiView.opponent.reversals': '相手の無敵技:',
+  'okiView.opponent.hitWindow': '攻撃が当たる範囲:',
+  'okiView.chain.title': '行動で絞り込み',
+  'okiView.chain.empty': '下から絞り込む行動を追加してください',
+  'okiView.chain.importPlaceholder': '表記を読み込む 例: dash, 2LP DR 5MP',
+  'okiView.chain.import': '読み込む',
+  'okiView.chain.unresolved': '認識できない入力: {tokens}',
+  'okiView.chain.driveSpent': 'ドライブ消費 {count} 本 (残り {left}/{total} 以上、ゲージ増加は含まない)',
+  'okiView.chain.superSpent': 'SA消費 {count} 本',
+  'okiView.action.emptyJump': '空ジャンプ',
+  'okiView.action.jumpAction': 'ジャンプ + 行動',
+  'okiView.action.driveRush': 'ドライブラッシュ',
+  'okiView.searchMove': '技を検索...',
+  'okiView.chain.clear': 'クリア',
+  'okiView.exclude.title': '最後の技から除外 (設定)',
+  'okiView.exclude.description': '起き攻めの最後の技にしたくない技 (例: しゃがみに空振りする5HK)。',
+  'okiView.exclude.empty': '除外した技はまだありません。下で検索して追加してください',
+  'okiView.exclude.quick': 'クイック除外:',
+  'okiView.exclude.searchPlaceholder': '技を検索 (例: 5HK)...',
+  'okiView.exclude.notePlaceholder': 'メモ (任意、例: しゃがみに空振り)',
+  'okiView.manualAdd': '手動で追加',
+  'okiView.prefer.title': '優先する技 (設定)',
+  'okiView.prefer.description': 'これらの技を含むセットアップを先頭に表示します。例: 2MK、236MK。',
+  'okiView.prefer.empty': '優先する技はまだありません。下で検索して追加してください',
+  'okiView.prefer.quick': 'クイック優先:',
+  'okiView.prefer.searchPlaceholder': '技を検索 (例: 2MK)...',
+  'okiView.prefer.notePlaceholder': 'メモ (任意、例: 主力コンボ)',
+  'okiView.prefer.onlyPreferred': '優先する技を含むセットアップのみ表示',
+  'okiView.profile.title': 'セットアップパック (読み込み / 書き出し)',
+  'okiView.profile.description': 'カスタム技、除外した技、優先する技を1つのJSONファイルにまとめて共有できます。',
+  'okiView.profile.exportCurrent': '現在のキャラクターを書き出す',
+  'okiView.profile.exportAll': '全キャラクターを書き出す',
+  'okiView.profile.import': 'セットアップパックを読み込む',
+  'okiView.profile.onConflict': '競合時:',
+  'okiView.profile.keepLocal': 'ローカルを残す',
+  'okiView.profile.useImported': '読み込んだ方を使う',
+  'okiView.profile.conflict': 'ローカル {local} / 読み込み {imported}',
+  'okiView.profile.noNote': '(メモなし)',
+  'okiView.results.title': '自動検索 ({total} 件中、先頭 {shown} 件を表示)',
+  'okiView.results.filteredHint': '上の行動で絞り込まれた結果です',
+  'okiView.results.filtered': '行動で絞り込み中',
+  'okiView.notes.sort': '並び順: ガード時有利を優先し、次に発生の早い順。',
+  'okiView.notes.tolerance': '猶予: 何フレーム遅らせても重ねが成立するか (0 は最速のみ)。',
+  'okiView.notes.driveReversal': 'DR安全: 起き上がりドライブリバーサルの判定発生 ({frame}F) までに硬直が解ける。',
+  'okiView.notes.limit': '上位50件のみ表示します。',
+  'okiView.column.combo': 'セットアップ',
+  'okiView.column.startup': '発生',
+  'okiView.column.active': '持続',
+  'okiView.column.tolerance': '猶予',
+  'okiView.column.safe': '安全',
+  'okiView.column.onBlock': 'ガード時',
+  'okiView.column.onHit': 'ヒット時 (CH +2)',
+  'okiView.column.trade': '相打ち',
+  'okiView.badge.preferred': '★ 優先',
+  'okiView.badge.covers': '重なる',
+  'okiView.badge.trade': '相打ち',
+  'okiView.badge.chainCancel': '連打キャンセル',
+  'okiView.badge.driveReversalSafe': 'DR安全',
+  'okiView.detail.title': 'フレーム詳細',
+  'okiView.detail.sequence': '順序:',
+  'okiView.detail.effectiveOffset': '実効オフセット',
+  'okiView.detail.chainCancelFormula': '連打キャンセルの計算式:',
+  'okiView.detail.chainCancelFirst': '(最初は {input})',
+  'okiView.detail.chainCancelFull': '最初の技は全体 {frames}F',
+  'okiView.detail.chainCancelSteps': '+ {offset}F × ({steps} − 1) 回',
+  'okiView.detail.chainCancelNote': '(発生を省略、硬直を1フレーム短縮)',
+  'okiView.detail.driveRushFrom': 'ドライブラッシュの元:',
+  'okiView.detail.noPrefix': '前置きなし',
+  'okiView.detail.actionStart': '行動開始:',
+  'okiView.detail.moveStartup': '技の発生:',
+  'okiView.detail.moveActive': '技の持続:',
+  'okiView.detail.activeTotal': '(合計 {count} フレーム)',
+  'okiView.detail.calculation': '計算:',
+  'okiView.detail.lastActiveRange': '最後の技の持続範囲:',
+  'okiView.detail.activeRange': '持続範囲:',
+  'okiView.detail.opponentFirstActive': '相手の判定発生フレーム:',
+  'okiView.detail.hitWindow': '攻撃が当たる範囲:',
+  'okiView.detail.driveReversal': 'ドライブリバーサル:',
+  'okiView.detail.projectileRecover': 'キャラクターの硬直が解けるのは {frame}F',
+  'okiView.detail.projectileTotal': '(飛び道具の全体フレーム)',
+  'okiView.detail.recover': '{frame}F に硬直が解ける',
+  'okiView.detail.driveReversalActive': '。ドライブリバーサルは {frame}F 目に判定',
+  'okiView.detail.driveReversalSafe': 'ガード可能、余裕 {margin}',
+  'okiView.detail.driveReversalUnsafe': 'ガード不可、{margin} 足りない',
+  'okiView.detail.projectileContact': '飛び道具の接触:',
+  'okiView.detail.projectileContactWindow': '入力から {min}~{max}F (距離 {distance})',
+  'okiView.detail.onBlockCalc': 'ガード時の計算:',
+  'okiView.detail.inputToBlock': '(入力からガードまで)',
+  'okiView.detail.blockstun': '(ガード硬直)',
+  'okiView.detail.moveTotal': '(技の全体)',
+  'okiView.detail.base': '(基本値)',
+  'okiView.detail.driveRushBonus': '(ドライブラッシュ)',
+  'okiView.detail.meatyBonus': '(重ね: {hit}F に当たり - {start}F に開始)',
+  'okiView.detail.onHitCalc': 'ヒット時の計算:',
+  'okiView.detail.counterHit': '(カウンターヒット)',
+  'okiView.detail.tradeAdvantage': '相打ち時の有利:',
+  'okiView.detail.tradeCalc': '相打ちの計算:',
+  'okiView.detail.verdict': '判定:',
+  'okiView.detail.covers': '✓ 重なる: {range} が {window} と重なる',
+  'okiView.detail.lastHit': '最後の技 ',
+  'okiView.detail.trades': '⚠ 相打ち: 相手の判定発生フレーム ({frame}F) に当たる',
+  'okiView.coverage.title': '起き上がり行動への対応',
+  'okiView.timeline.show': 'タイムラインを表示',
+  'okiView.timeline.hide': 'タイムラインを隠す',
+  'okiView.timeline.prefix': '前置き',
+  'okiView.timeline.startup': '発生',
+  'okiView.timeline.active': '持続',
+  'okiView.timeline.recovery': '硬直',
+  'okiView.timeline.down': 'ダウン',
+  'okiView.timeline.vulnerable': '被弾可能',
+  'okiView.timeline.hitstun': 'ヒット硬直',
+  'okiView.timeline.blockstun': 'ガード硬直',
+  'okiView.timeline.attacker': '攻め側 (自分)',
+  'okiView.timeline.defenderHit': '相手 - ヒット',
+  'okiView.timeline.defenderBlock': '相手 - ガード',
+  'okiView.badge.coversSuccess': '重なる',
+  'okiView.mobile.startup': '発生: {frames}F',
+  'okiView.mobile.active': '持続: {range}F',
+  'okiView.mobile.tolerance': '猶予: {value}',
+  'okiView.mobile.onBlock': 'ガード時: {value}',
+  'okiView.mobile.onHit': 'CH時: {value}',
+  'okiView.steps.title': 'フレーム計算',
+  'okiView.steps.prefix': '前置き:',
+  'okiView.steps.moveStartup': '技の発生 ({name}):',
+  'okiView.steps.totalStartup': '合計発生:',
+  'okiView.steps.active': '持続フレーム:',
+  'okiView.steps.opponentFirstActive': '相手の判定発生:',
+  'okiView.steps.opponentVulnerable': '相手の被弾可能:',
+  'okiView.advantage.title': '有利フレーム',
+  'okiView.advantage.onBlock': '🛡️ ガード時',
+  'okiView.advantage.onHit': '🎯 ヒット時 (カウンター)',
+  'okiView.advantage.trade': '相打ち時の有利:',
+  'okiView.timeline.title': 'タイムライン',
+  'okiView.timeline.opponentHit': '相手 (ヒット)',
+  'okiView.results.showMore': 'さらに {count} 件表示',
+  'okiView.results.showLess': '表示を減らす',
+  'okiView.results.empty': '該当する起き攻めセットアップがありません',
+  'okiView.section.collapse': '折りたたむ',
+  'okiView.section.expand': '展開する',
+  'okiView.step.throwLoop': '投げループ計算',
+  'okiView.throw.collapsedHint': '重ね投げと打撃/投げの二択のタイミング。メインの結果を短く保つため、初期状態では折りたたんでいます。',
+  'okiView.throw.goalLead': '目標: 投げの',
+  'okiView.throw.goalFirstActive': '判定発生フレーム',
+  'okiView.throw.goalTail': 'を、相手が起き上がって投げられるようになる最初のフレームに合わせる。',
+  'okiView.throw.knockdown': 'ダウン有利 N',
+  'okiView.throw.wakeupInvul': '起き上がり投げ無敵 I',
+  'okiView.throw.startup': '投げの発生 T',
+  'okiView.throw.active': '投げの持続 A',
+  'okiView.throw.abare': '相手の暴れ',
+  'okiView.throw.extraDelay': '追加ディレイ',
+  'okiView.throw.extraDelayE': '追加ディレイ E:',
+  'okiView.throw.earliest': '最速で投げられるフレーム:',
+  'okiView.throw.latest': '最遅で投げられるフレーム:',
+  'okiView.throw.idealDelay': '理想の投げディレイ:',
+  'okiView.throw.relaxed': '(猶予 +{frames}F)',
+  'okiView.throw.firstActiveRange': '判定発生の許容範囲:',
+  'okiView.throw.tooShort': 'ダウン有利が短すぎて、相手が投げられるようになる前に投げを始められません (負のディレイが必要)。',
+  'okiView.throw.resultsTitle': '投げループ ({total} 件中、先頭 {shown} 件を表示)',
+  'okiView.throw.tipCore': '二択',
+  'okiView.throw.tipReplace': ': ここの投げは次の技に置き換えられます: ',
+  'okiView.throw.tip2LK': '2LK (しゃがみ弱K)',
+  'okiView.throw.tip5LP': '5LP (立ち弱P)',
+  'okiView.throw.tipOr': 'または',
+  'okiView.throw.tipJump': '垂直/前ジャンプ',
+  'okiView.throw.tipSameDelay': '同じディレイで投げを打撃やジャンプに変えると、SF6の基本的な読み合いになります: ',
+  'okiView.throw.tipMixup': '打撃/投げの二択',
+  'okiView.throw.filteredLead': '',
+  'okiView.throw.filteredTail': 'を含む投げループを表示中',
+  'okiView.throw.delay': 'ディレイ S',
+  'okiView.throw.firstActive': '判定発生',
+  'okiView.throw.label': '投げ',
+  'okiView.throw.filler': '空振りする技:',
+  'okiView.throw.rawTotal': '(フレームデータ)',
+  'okiView.throw.delayS': 'ディレイ S:',
+  'okiView.throw.firstFrame': '最初のフレーム:',
+  'okiView.throw.firstActiveLabel': '判定発生:',
+  'okiView.throw.window': '許容範囲:',
+  'okiView.timeline.recoveryWhiff': '硬直 / 空振り',
+  'okiView.timeline.thrown': '投げられる',
+  'okiView.timeline.wakeup': '起き上がり',
+  'okiView.timeline.throwHit': '投げ成立',
+  'okiView.timeline.defender': '相手',
+  'okiView.throw.mobileDelay': 'ディレイ S: {frames}F',
+  'okiView.throw.mobileFirstActive': '判定発生: {frames}F',
+  'okiView.throw.empty': '該当する投げループがありません',
+  'okiView.step.altOki': 'その他の起き攻め',
+  'okiView.alt.globalDelay': '全体の追加ディレイ',
+  'okiView.alt.collapsedHint': '応用セットアップ: ドライブラッシュ、ドライブインパクト、暴れ潰し、安全なバクチ。必要なときに展開してください。',
+  'okiView.alt.tab.driveRush': '🚗 ドライブラッシュ',
+  'okiView.alt.tab.driveImpact': '💥 ドライブインパクト',
+  'okiView.alt.tab.frameTrap': '🎯 暴れ潰し',
+  'okiView.alt.tab.safeBait': '🛡️ 安全な様子見',
+  'okiView.alt.tab.baitThrow': '🤼 投げ釣り',
+  'okiView.driveRush.title': 'ドライブラッシュ + 技の起き攻め',
+  'okiView.driveRush.description': 'ドライブラッシュの1F目から計算します。パリィドライブラッシュは11F目から攻撃でキャンセルできます。最速ヒット = 技の発生 + 11。',
+  'okiView.flow.knockdown': 'ダウン有利 (N)',
+  'okiView.flow.driveRushCancel': 'ドライブラッシュキャンセル',
+  'okiView.flow.moveStartup': '技の発生',
+  'okiView.flow.startupF': '発生 F',
+  'okiView.flow.fastestHit': '最速ヒットフレーム',
+  'okiView.flow.startupPlus11': '発生 + 11F',
+  'okiView.window.title': '相手に攻撃が当たる範囲:',
+  'okiView.window.range': '起き上がり {start}F 目から、相手の技の判定が出る前の {end}F 目まで ({count}F の範囲)',
+  'okiView.window.none': 'なし (相手の起き上がり技の判定がすでに出ている)',
+  'okiView.driveRush.resultsTitle': 'ドライブラッシュの結果 ({count})',
+  'okiView.driveRush.fastestHit': '最速ヒット',
+  'okiView.driveRush.activeFrames': '持続フレーム',
+  'okiView.driveRush.wakeupOffset': '起き上がりとのずれ',
+  'okiView.driveRush.detailTitle': '📖 ドライブラッシュ起き攻めのフレーム詳細',
+  'okiView.driveRush.stepsTitle': '1. フレーム計算',
+  'okiView.driveRush.prefixSequence': '前置きの順序:',
+  'okiView.driveRush.globalDelay': '全体の追加ディレイ:',
+  'okiView.driveRush.startDelay': 'ドライブラッシュ開始:',
+  'okiView.driveRush.attackCancel': 'ドライブラッシュの攻撃キャンセル:',
+  'okiView.driveRush.followUpStartup': '後続技の発生 ({name}):',
+  'okiView.driveRush.fastestHitFrame': '最速ヒットフレーム:',
+  'okiView.driveRush.activeRange': '持続範囲:',
+  'okiView.driveRush.wakeupOffsetLabel': '起き上がりとのずれ:',
+  'okiView.driveRush.advantageTitle': '2. 有利フレーム',
+  'okiView.bonus.base': '(基本値)',
+  'okiView.bonus.driveRush': '(ドライブラッシュ)',
+  'okiView.bonus.meaty': '(重ね)',
+  'okiView.bonus.counterHit': '(カウンター)',
+  'okiView.driveRush.covers': '✓ 重なる: 持続が起き上がりの範囲を完全に覆う',
+  'okiView.driveRush.trades': '⚠️ 相打ち: {frame}F で相手の最速の起き上がり技とぶつかる',
+  'okiView.driveRush.mobileFastestHit': '最速ヒット: {frames}F',
+  'okiView.driveRush.mobileOffset': 'ずれ: {frames}F',
+  'okiView.mobileStep.prefix': '前置き:',
+  'okiView.mobileStep.globalDelay': '全体ディレイ:',
+  'okiView.mobileStep.driveRushStart': 'ドライブラッシュ開始:',
+  'okiView.mobileStep.attackCancel': '攻撃キャンセル:',
+  'okiView.mobileStep.moveStartup': '技の発生:',
+  'okiView.mobileStep.fastestHit': '最速ヒット:',
+  'okiView.mobileStep.active': '持続:',
+  'okiView.advantage.final': '最終的な有利',
+  'okiView.advantage.mobileOnBlock': '🛡️ ガード時:',
+  'okiView.advantage.mobileOnHit': '🎯 カウンター時:',
+  'okiView.advantage.counterHit2': 'CH 2',
+  'okiView.driveRush.mobileCovers': '✓ 重なる: 起き上がり無敵直後のフレームに当たる',
+  'okiView.driveRush.mobileTrades': '⚠️ 相打ち: {frame}F で相手の最速の起き上がり技とぶつかる',
+  'okiView.driveRush.empty': '該当するドライブラッシュ起き攻めがありません',
+  'okiView.driveImpact.title': 'ドライブインパクト起き攻め',
+  'okiView.driveImpact.description': '発生26F、持続26~27F。目標のずれを設定して持続を合わせます。',
+  'okiView.driveImpact.target': '起き上がりとの目標ずれ',
+  'okiView.driveImpact.targetHint': 'ドライブインパクトの判定発生が起き上がりに対してどこに来るか。1Fが最も厳しい重ねです。',
+  'okiView.flow.targetFirstActive': '目標の判定発生',
+  'okiView.flow.requiredDelay': '必要なディレイ',
+  'okiView.flow.driveImpactStartup': 'ドライブインパクトの発生',
+  'okiView.flow.targetActive': '目標の持続範囲',
+  'okiView.driveImpact.negativeDelay': '⚠️ この目標ずれには負のディレイ ({frames}F) が必要で、実戦では不可能です。目標ずれを下げてください。',
+  'okiView.driveImpact.resultsTitle': 'ドライブインパクトの結果 ({count})',
+  'okiView.driveImpact.prefixCombo': '前置き',
+  'okiView.driveImpact.prefixTotal': '前置きの合計',
+  'okiView.driveImpact.activeFrames': '持続フレーム',
+  'okiView.action.driveImpact': 'ドライブインパクト',
+  'okiView.driveImpact.detailTitle': '📖 ドライブインパクト起き攻めのフレーム詳細',
+  'okiView.driveImpact.prefixSequence': '前置きの順序:',
+  'okiView.driveImpact.filler': '後続 ({name}):',
+  'okiView.driveImpact.rawTotal': 'フレームデータの全体',
+  'okiView.driveImpact.summedTotal': '各段階の合計',
+  'okiView.driveImpact.extraDelay': '追加の待機ディレイ:',
+  'okiView.driveImpact.delay': '合計ディレイ:',
+  'okiView.driveImpact.startup': 'ドライブインパクトの発生:',
+  'okiView.driveImpact.activeRange': 'ドライブインパクトの持続範囲:',
+  'okiView.driveImpact.wakeupOffset': '起き上がりとのずれ:',
+  'okiView.driveImpact.opponentWakeup': '相手の起き上がり1F目:',
+  'okiView.driveImpact.exact': 'ぴったり重ね',
+  'okiView.driveImpact.mobilePrefixTotal': '前置きの合計: {frames}F',
+  'okiView.driveImpact.mobileOffset': 'ずれ: +{frames}F',
+  'okiView.mobileStep.fillerPrefix': '後続:',
+  'okiView.mobileStep.extraDelay': '追加ディレイ:',
+  'okiView.mobileStep.prefixTotal': '前置きの合計:',
+  'okiView.mobileStep.driveImpactStartup': 'ドライブインパクトの発生:',
+  'okiView.mobileStep.activeRange': '持続範囲:',
+  'okiView.mobileStep.alignment': '合わせ:',
+  'okiView.mobileStep.alignmentValue': '{frame}F 目に重ねる',
+  'okiView.driveImpact.empty': '該当するドライブインパクト起き攻めがありません',
+  'okiView.frameTrap.title': '目標の有利フレームへのルート',
+  'okiView.frameTrap.description': '維持したい有利フレームから逆算して、そこに届くコンボ / 空振りのルートを探します。',
+  'okiView.frameTrap.target': '目標の有利フレーム',
+  'okiView.frameTrap.targetHint': '相手の起き上がり後に欲しい有利フレーム (正: 自分が先に動ける、負: 相手が先に動ける)。',
+  'okiView.flow.comboTotal': 'ルートの合計',
+  'okiView.flow.comboTotalF': 'ルート F',
+  'okiView.flow.resultAdvantage': '結果の有利フレーム',
+  'okiView.frameTrap.resultsTitle': '目標の有利フレームの結果 ({count})',
+  'okiView.frameTrap.route': 'ルート',
+  'okiView.frameTrap.routeTotal': 'ルートの合計',
+  'okiView.frameTrap.resultAdvantage': '有利フレーム',
+  'okiView.frameTrap.targetDiff': '目標との差',
+  'okiView.frameTrap.detailTitle': '📖 ルートのフレーム詳細',
+  'okiView.frameTrap.firstPrefix': '最初の前置き:',
+  'okiView.frameTrap.filler': '後続の空振り / 移動:',
+  'okiView.frameTrap.rawTotal': '技の全体',
+  'okiView.frameTrap.summedTotal': '発生 + 持続 + 硬直',
+  'okiView.frameTrap.cost': 'ルートのコスト:',
+  'okiView.frameTrap.knockdown': 'ダウン有利:',
+  'okiView.frameTrap.finalAdvantage': '結果の有利フレーム:',
+  'okiView.frameTrap.targetAdvantage': '目標の有利フレーム:',
+  'okiView.frameTrap.delta': '目標との差:',
+  'okiView.frameTrap.matched': '一致',
+  'okiView.frameTrap.mobileTotal': 'ルートの合計: {frames}F',
+  'okiView.frameTrap.mobileAdvantage': '有利フレーム: {value}',
+  'okiView.mobileStep.prefixCost': '前置き:',
+  'okiView.mobileStep.whiff': '空振り:',
+  'okiView.mobileStep.routeCost': 'ルートのコスト:',
+  'okiView.mobileStep.knockdown': 'ダウン:',
+  'okiView.mobileStep.resultAdvantage': '有利フレーム:',
+  'okiView.mobileStep.targetDiff': '目標との差:',
+  'okiView.frameTrap.empty': '該当するルートがありません',
+  'okiView.safeBait.title': '安全な様子見セットアップ',
+  'okiView.safeBait.description': '何かを空振りして起き上がりの無敵技を誘い、無敵技の判定が出る前に硬直を解いてガードします。',
+  'okiView.safeBait.reversalStartup': '相手の無敵技の発生',
+  'okiView.safeBait.searchLabel': 'または相手の技を選択',
+  'okiView.safeBait.searchPlaceholder': '守り側の必殺技 / 無敵技を検索...',
+  'okiView.flow.opponentWakeup': '相手の起き上がり',
+  'okiView.flow.reversalStartup': '無敵技の発生',
+  'okiView.flow.reversalFirstActive': '無敵技の判定発生',
+  'okiView.flow.maxSafeTotal': '安全な最大合計',
+  'okiView.safeBait.formulaTitle': '🛡️ 安全な様子見の条件:',
+  'okiView.safeBait.formulaLead': 'ルートの合計',
+  'okiView.safeBait.formulaLimit': '< 相手の無敵技の判定発生 ({frame}F)',
+  'okiView.safeBait.formulaMax': '。許容される最大合計は',
+  'okiView.safeBait.resultsTitle': '安全な様子見の結果 ({count})',
+  'okiView.safeBait.route': '様子見ルート',
+  'okiView.safeBait.opponentActive': '相手の判定',
+  'okiView.safeBait.blockMargin': 'ガードの余裕',
+  'okiView.safeBait.badge': '安全な様子見',
+  'okiView.safeBait.detailTitle': '📖 安全な様子見のフレーム詳細',
+  'okiView.safeBait.firstPrefix': '最初の前置き:',
+  'okiView.safeBait.filler': '空振りする技:',
+  'okiView.safeBait.recovery': '技の硬直',
+  'okiView.safeBait.extraDelay': '追加ディレイ:',
+  'okiView.safeBait.total': '自分の合計フレーム:',
+  'okiView.safeBait.opponentWakeup': '守り側の起き上がり1F目:',
+  'okiView.safeBait.opponentMove': '相手の技 ({name}):',
+  'okiView.safeBait.startupValue': '発生 {frames}F',
+  'okiView.safeBait.strictLimit': '相手の攻撃が当たるフレーム:',
+  'okiView.safeBait.verdict': '判定:',
+  'okiView.safeBait.verdictSafe': '✓ 安全な様子見: 無敵技が当たる ({limit}F) より {margin} フレーム前に硬直が解ける ({total}F) ので、すぐにガードできます!',
+  'okiView.safeBait.safeBlock': '安全にガード',
+  'okiView.safeBait.mobileTotal': '合計: {frames}F',
+  'okiView.safeBait.mobileMargin': 'ガードの余裕: +{frames}F',
+  'okiView.mobileStep.actionPrefix': '前置き:',
+  'okiView.mobileStep.followUp': '後続:',
+  'okiView.mobileStep.actionTotal': '合計:',
+  'okiView.mobileStep.opponentActive': '相手の判定:',
+  'okiView.mobileStep.opponentActiveValue': '{frame}F 目に判定',
+  'okiView.mobileStep.blockMargin': 'ガードの余裕:',
+  'okiView.safeBait.mobileVerdict': '✓ 様子見成立: {frame}F 目に無敵技の判定が出る前に硬直が解け、ガードできます。',
+  'okiView.safeBait.empty': '該当する安全な様子見セットアップがありません',
+  'okiView.baitThrow.title': '投げ釣り / 投げ系無敵技',
+  'okiView.baitThrow.description': 'ガード硬直直後の相手の投げやコマンド投げ (例: ザンギエフのSA3) を垂直ジャンプやバックステップで避け、反撃を計算します。',
+  'okiView.baitThrow.attacker': '攻め側',
+  'okiView.baitThrow.initiator': '攻めの技',
+  'okiView.baitThrow.initiatorPlaceholder': '攻め側の技を検索...',
+  'okiView.baitThrow.onBlock': '(ガード時: {frames}F)',
+  'okiView.baitThrow.drc': 'キャンセルドライブラッシュ (DRC)',
+  'okiView.baitThrow.drcToggle': 'キャンセルドライブラッシュ (ドライブゲージ3本)',
+  'okiView.baitThrow.action': '回避行動',
+  'okiView.baitThrow.jump': '垂直ジャンプ (45F)',
+  'okiView.baitThrow.backdash': 'バックステップ ({frames}F)',
+  'okiView.baitThrow.defender': '守り側',
+  'okiView.baitThrow.reactionType': '守り側の行動',
+  'okiView.baitThrow.throw': '通常投げ',
+  'okiView.baitThrow.invincibleGrab': '無敵投げ / 必殺技 / SA3',
+  'okiView.baitThrow.throwStartup': '投げの発生',
+  'okiView.baitThrow.throwRecovery': '投げの空振り硬直',
+  'okiView.baitThrow.selectGrab': '守り側のコマンド投げ / SA',
+  'okiView.baitThrow.grabPlaceholder': '守り側の必殺技 / SA を検索...',
+  'okiView.baitThrow.selectDefender': '上で守り側を選ぶと技を検索できます',
+  'okiView.baitThrow.safe': '🟢 釣り成功',
+  'okiView.baitThrow.caught': '🔴 捕まる / 反撃される',
+  'okiView.baitThrow.punishAdvantage': '着地後の反撃猶予: +{frames}F',
+  'okiView.baitThrow.flow.defenderAct': '守り側が起き上がる / 硬直が解ける',
+  'okiView.baitThrow.flow.grabActive': '投げ / SA の判定発生',
+  'okiView.baitThrow.flow.baitStart': '自分の回避行動の開始',
+  'okiView.baitThrow.frameValue': '{frame}F 目',
+  'okiView.baitThrow.timelineTitle': '📊 投げ釣りのタイムライン',
+  'okiView.baitThrow.axis': 'フレーム',
+  'okiView.baitThrow.defenderRecovers': '0F (守り側の硬直が解ける)',
+  'okiView.baitThrow.attackerRow': '攻め側',
+  'okiView.baitThrow.blocked': '{name} (ガードされた)',
+  'okiView.baitThrow.drcBlock': 'キャンセルドライブラッシュ',
+  'okiView.baitThrow.baitDuration': '{name} ({frames}F)',
+  'okiView.baitThrow.blockstun': 'ガード硬直 ({frames}F)',
+  'okiView.baitThrow.grabStartup': '投げの発生 ({frames}F)',
+  'okiView.baitThrow.grabWhiff': '空振り硬直 ({frames}F)',
+  'okiView.baitThrow.legend.blocked': 'ガードされた技',
+  'okiView.baitThrow.legend.drc': 'キャンセルドライブラッシュ (11F)',
+  'okiView.baitThrow.legend.safe': '安全な回避',
+  'okiView.baitThrow.legend.unsafe': '危険 / 被弾',
+  'okiView.baitThrow.legend.blockstun': '相手のガード硬直',
+  'okiView.baitThrow.legend.grabStartup': '投げの発生',
+  'okiView.baitThrow.legend.grabWhiff': '投げの空振り / 硬直',
+  'okiView.baitThrow.detailTitle': '📖 投げ釣りの反撃詳細',
+  'okiView.baitThrow.step.initiator': '自分の攻めの技:',
+  'okiView.baitThrow.step.initiatorValue': '{name} = {frames}F (ガード時)',
+  'okiView.baitThrow.step.blockstun': '相手のガード硬直:',
+  'okiView.baitThrow.step.drc': 'キャンセルドライブラッシュ:',
+  'okiView.baitThrow.step.drcOn': 'あり (ラッシュは11フレーム、12F目から行動可能)',
+  'okiView.baitThrow.step.baitStart': '自分の回避行動の開始 (守り側の硬直が解けた1F目基準):',
+  'okiView.baitThrow.step.grab': '相手の技:',
+  'okiView.baitThrow.step.grabValue': '{name} (発生 {startup}F、硬直 {recovery}F、全体 {total}F)',
+  'okiView.baitThrow.step.grabActive': '相手の技の判定発生:',
+  'okiView.baitThrow.step.attackerRecover': '自分の硬直が解ける / 着地:',
+  'okiView.baitThrow.step.defenderRecover': '相手の硬直が解ける:',
+  'okiView.baitThrow.step.punishAdvantage': '反撃猶予:',
+  'okiView.step.safeJump': '詐欺飛び',
+  'okiView.safeJump.collapsedHint': '飛び込みを重ねつつ、相手の無敵技が出る前に着地してガードできるかを確認します。',
+  'okiView.safeJump.explainLead': '飛び込みは空中の最後のフレームで当たります。',
+  'okiView.safeJump.explainRule': '着地硬直の終了 ≤ 無敵技の判定発生',
+  'okiView.safeJump.explainTail': ' なら詐欺飛びです。ディレイはジャンプ前の行動の後に待つフレーム数です。',
+  'okiView.safeJump.setup': 'ジャンプ前の行動',
+  'okiView.safeJump.jumpTotal': 'ジャンプの全体',
+  'okiView.safeJump.reversal': '相手の無敵技',
+  'okiView.safeJump.jumpIn': '飛び込み',
+  'okiView.safeJump.landingRecovery': '着地硬直',
+  'okiView.safeJump.opponentColumn': '相手 {frames}F',
+  'okiView.safeJump.reversalColumn': '{frames}F 無敵技',
+  'okiView.safeJump.latestPress': '遅くとも空中 {frame}F 目までに入力',
+  'okiView.safeJump.stuffs': '· 潰せる',
+  'okiView.safeJump.empty': '使える飛び込み技がありません',
+  'okiView.timeline.exportSvg': 'SVGで保存',
+  'okiView.timeline.exportPng': 'PNGで保存',
+  'okiView.timeline.exportFailed': '画像の書き出しに失敗しました。もう一度お試しください',
+  'okiView.timeline.image.title': '{attacker} vs {defender}',
+  'okiView.timeline.image.setup': 'ダウン: {knockdown} · 起き攻め: {setup}',
+  'okiView.timeline.image.knockdown': 'ダウン +{frames}F',
+  'okiView.timeline.image.wakeup': '起き上がり {frame}F',
+  'okiView.timeline.image.reversal': '無敵技発生 {frame}F',
+  'okiView.timeline.image.hit': 'ヒット/ガード',
+  'okiView.driveImpact.direct': '直接ドライブインパクト',
+  'okiView.filler.none': '追加行動なし',
+};
@@ -0,0 +1,952 @@
+import type { Message } from '..';
+
+// Source catalog: keys are added here first and every other locale has to translate all of them.
+export const zhCN = {
+  // App shell
+  'nav.characters': '角色列表',
+  'nav.oki': '压起身计算器',
+  'nav.gap': '连招间隙计算器',
+  'nav.trade': '相杀计算器',
+  'nav.punish': '确反查询',
+  'nav.matchup': '对战表',
+  'nav.compare': '全角色对比',
+  'nav.patchNotes': '版本改动',
+  'footer.source': '数据来源: Supercombo Wiki',
+
+  // Home
+  'home.titleMain': '街霸6',
+  'home.titleSub': '帧数表',
+  'home.description': '查看所有角色的帧数据，了解招式优劣势，提升你的对战水平',
+  'home.selectCharacter': '选择角色',
+  'home.okiDescription': '计算击倒后最佳压起身时机',
+  'home.gapDescription': '分析连招空隙与伪连判断',
+  'home.assistantTitle': 'AI 对策助手',
+  'home.assistantDescription': '分析对手连招，推荐反制招式',
+  'home.tradeDescription': '实时计算双方招式相杀后的帧优势',
+
+  // Gap calculator results
+  'gap.label.gap': 'Gap (空隙)',
+  'gap.label.surplus': '目押窗口 (Surplus)',
+  'gap.label.missing': '缺失 (Missing)',
+  'gap.status.combo': '连招成立 (Combo)',
+  'gap.status.noCombo': '连招失败 (No Combo)',
+  'gap.status.trueBlockstring': '连防 (True Blockstring)',
+  'gap.status.frameTrap': 'Frame Trap (伪连/无敌技确反)',
+  'gap.status.interruptible': '可插动 (Interruptible)',
+  'gap.status.highRisk': '高风险 / 易被插 (High Risk)',
+  'gap.description.combo': '可以连上。',
+  'gap.description.noCombo': '差 {count} 帧。',
+  'gap.description.trueBlockstring': '真的连防，对手无法出任何招式，还处在防御硬直中。',
+  'gap.description.frameTrap': '正常出招会被打康，但无敌帧的OD升龙或SA1/2/3可以放出来。',
+  'gap.description.interruptible': '间隙较大，对手可以使用4帧抢动，或使用无敌技。',
+  'gap.description.highRisk': '间隙过大，容易被跳入、大伤害技确反。',
+  'gap.error.invalidFrames': '无法获取有效的帧数数据',
+
+  // Generated key moves
+  'keyMoves.generatedNotes': '以下核心招式由帧数据规则自动提炼，适合作为上手参考；具体站位和判定仍建议结合角色攻略与实战验证。',
+  'keyMoves.role.fastCheck': '最快小技',
+  'keyMoves.role.plusFrame': '有利压制',
+  'keyMoves.role.confirm': '稳定确认',
+  'keyMoves.role.poke': '中距离牵制',
+  'keyMoves.role.antiAir': '主力对空',
+  'keyMoves.role.punish': '高伤惩罚',
+  'keyMoves.reason.fastCheck': '{startup}F 发生，防御 {onBlock}，适合近距离试探和打断节奏。',
+  'keyMoves.reason.plusFrame': '防御 {onBlock}、命中 {onHit}，是保持回合主动权的优先按钮。',
+  'keyMoves.reason.confirm': '{startup}F 发生且可取消，伤害 {damage}，适合作为命中确认和差合转换的主力起手。',
+  'keyMoves.reason.poke': '{startup}F 发生，防御 {onBlock}，适合作为地面试探与中距离摸奖按钮。',
+  'keyMoves.reason.antiAir': '{startup}F 发生，伤害 {damage}，可优先作为常规空中拦截选项。',
+  'keyMoves.reason.punish': '在 {maxStartup}F 内的高回报候选里伤害更突出，适合确反和 Punish Counter 起手。',
+  'keyMoves.tag.close': '近身',
+  'keyMoves.tag.starter': '起手',
+  'keyMoves.tag.pressure': '压制',
+  'keyMoves.tag.plus': '优势帧',
+  'keyMoves.tag.confirm': '确认',
+  'keyMoves.tag.cancelable': '可取消',
+  'keyMoves.tag.poke': '牵制',
+  'keyMoves.tag.grounded': '地面',
+  'keyMoves.tag.antiAir': '对空',
+  'keyMoves.tag.special': '必杀',
+  'keyMoves.tag.normal': '通常技',
+  'keyMoves.tag.punish': '确反',
+  'keyMoves.tag.highReward': '高回报',
+
+  // Counter moves
+  'counter.gap.trueBlockstring': '真连防 - 只能用无敌技反击',
+  'counter.gap.fastInterrupt': '{gap}F 间隙 - 可被快速招打断',
+  'counter.gap.easyInterrupt': '{gap}F 间隙 - 容易被打断',
+
+  // Shared labels
+  'common.all': '全部',
+  'common.back': '← 返回',
+  'common.loading': '加载中...',
+  'common.loadingData': '加载数据中...',
+  'common.none': '无',
+  'common.unmatched': '未匹配',
+  'common.listSeparator': '、',
+  'category.normal': '通常技',
+  'category.unique': '特殊技',
+  'category.special': '必杀技',
+  'category.super': '超必杀',
+  'category.throw': '投技',
+  'category.short.normal': '通常',
+  'category.short.unique': '特殊',
+  'category.short.special': '必杀',
+  'category.short.super': '超必',
+  'category.short.throw': '投技',
+  'frame.move': '招式',
+  'frame.input': '指令',
+  'frame.startup': '发生',
+  'frame.active': '持续',
+  'frame.recovery': '硬直',
+  'frame.total': '总帧数',
+  'frame.onBlock': '防御',
+  'frame.onHit': '命中',
+  'frame.damage': '伤害',
+  'frame.blockstun': '防硬',
+  'frame.hitstun': '命硬',
+  'frame.cancels': '取消',
+  'frame.forwardDash': '前冲',
+  'frame.backDash': '后冲',
+  'frame.health': '体力',
+
+  // Key move panel
+  'keyMovePanel.title': '核心招式',
+  'keyMovePanel.source.manual': '手工整理',
+  'keyMovePanel.source.generated': '规则提炼',
+  'keyMovePanel.startup': '发生 {value}F',
+  'keyMovePanel.onBlock': '防御 {value}',
+  'keyMovePanel.onHit': '命中 {value}',
+  'keyMovePanel.damage': '伤害 {value}',
+  'keyMovePanel.empty': '当前角色还没有整理出核心招式。',
+
+  // Move table
+  'moveTable.empty': '没有找到匹配的招式',
+
+  // Combo list
+  'comboList.title': '常用连段',
+  'comboList.count': '{filtered} / {count} 条',
+  'comboList.sectionCount': '{count} 条',
+  'comboList.searchPlaceholder': '搜索指令、备注、Starter...',
+  'comboList.allSections': '全部分类',
+  'comboList.allDifficulties': '全部难度',
+  'comboList.allPositions': '全部位置',
+  'comboList.verifyTitle': '导入连招间隙计算器逐段验证',
+  'comboList.verify': '帧数验证',
+  'comboList.damage': '伤害 {value}',
+  'comboList.calculatedDamage': '计算伤害 {value}',
+  'comboList.meter': '资源消耗 {value}',
+  'comboList.driveBars': 'Drive {count} 格',
+  'comboList.superBars': 'SA {count} 格',
+  'comboList.burnout': '进入 Burnout',
+  'comboList.unresolved': '未识别指令：{tokens}',
+  'comboList.empty': '没有找到符合条件的连段。',
+  'comboList.lastUpdated': '连段数据更新于 {date}',
+  'comboList.missing': '当前角色还没有抓取连段数据。',
+
+  // Character view
+  'character.stat.moves': '已收录招式',
+  'character.stat.keyMoves': '核心招式',
+  'character.stat.combos': '常用连段',
+  'character.noData': '暂无 {name} 的帧数据，请先运行抓取脚本',
+  'character.loading': '加载角色数据中...',
+  'character.overviewTitle': '实战速览',
+  'character.overviewDescription': '先看核心招式和常用连段，再往下查完整帧表和具体数值。',
+  'character.frameTitle': '完整帧表',
+  'character.frameDescription': '支持按发生、类别、优势和关键字快速筛选。',
+  'character.searchPlaceholder': '搜索招式...',
+  'character.startupFilter': '发生 ≤',
+  'character.lastUpdated': '帧数数据更新于 {date}',
+
+  // Gap calculator view
+  'gapView.title': '连招间隙计算器 (Gap Calculator)',
+  'gapView.subtitle': '计算两个攻击动作之间的帧数空隙，判断是否为伪连或连防。',
+  'gapView.explainer.title': 'Gap 机制科普：为何有空隙就能插动？',
+  'gapView.explainer.bufferLead': 'SF6 允许你把无敌反击（OD 升龙/无敌超必）在 blockstun 结束前最多提前',
+  'gapView.explainer.bufferTail': '缓冲，一旦进入第一帧可动就会立刻启动。（起身场景缓冲更大，可达 7F）。',
+  'gapView.explainer.conclusion': '结论：',
+  'gapView.explainer.anyGap': '如果对手在两下之间有任何可动帧（哪怕只有 1 帧），他就能把 OD 升龙“卡在第一帧可动”启动。',
+  'gapView.explainer.invincible': '依靠“启动第 1 帧就有无敌”的性质，可以穿掉你的下一次攻击。',
+  'gapView.explainer.simplyPut': '简单来说：',
+  'gapView.explainer.rule': '只要你的攻击没有覆盖到对手防御硬直的最后一帧，对手就可以在恢复的第一帧使用无敌技反击。',
+  'gapView.explainer.gapZero': '下方的 Gap 0表示的是，参照街霸6帧数表，没有黑色的块，己方第二招攻击的第一帧落在了对手防御硬直完之后可动的第一帧，对方可以释放无敌技',
+  'gapView.explainer.gapMinusOne': '下方的 Gap -1 表示的是，己方第二招攻击的第一帧落在了对手防御硬直的最后一帧，对方无法做任何操作',
+  'gapView.selectCharacter': '选择角色',
+  'gapView.type.block': '🛡️ 压制空隙 (Gap/Block)',
+  'gapView.type.hit': '👊 连招确认 (Link/Combo)',
+  'gapView.mode.link': '普通链接 (Link)',
+  'gapView.mode.cancel': '必杀/连招取消 (Cancel)',
+  'gapView.firstMove.block': '第 1 招 (被防)',
+  'gapView.firstMove.hit': '第 1 招 (命中)',
+  'gapView.secondMove': '第 2 招 (后续)',
+  'gapView.searchPlaceholder': '搜索招式 (如: {example})',
+  'gapView.stat.onBlock': '被防帧数 (On Block):',
+  'gapView.stat.onHit': '命中帧数 (On Hit):',
+  'gapView.stat.startup': '发生 (Startup):',
+  'gapView.stat.active': '持续 (Active):',
+  'gapView.stat.recovery': '招数后硬直(Recovery):',
+  'gapView.stat.hitstun': '命中硬直 (Hitstun):',
+  'gapView.stat.blockstun': '防御硬直 (Blockstun):',
+  'gapView.stat.startup2': '发生帧数 (Startup):',
+  'gapView.stat.active2': '持续帧数 (Active):',
+  'gapView.hitState': '命中状态:',
+  'gapView.blockState': '防御状态:',
+  'gapView.opponentBurnout': '对方白了（仅防御 +4）',
+  'gapView.driveRush': '己方绿冲（命中/防御 +4）',
+  'gapView.cancelFrame': '取消位置 (Active Frame):',
+  'gapView.cancelFrameHint': '在第 {frame} 帧判定时取消',
+  'gapView.recommend.cancel': '推荐取消连招 (Cancel)',
+  'gapView.recommend.link': '推荐连招 (Link)',
+  'gapView.recommend.pressure': '安全压制 (Pressure/Gap)',
+  'gapView.recommend.onBlock': '被防({value})',
+  'gapView.formula': '计算公式 ({mode})',
+  'gapView.outOfRange': '📏 推距后第二招够不到对手，任何距离都不成立',
+  'gapView.maxDistance': '📏 推距后仅在 {distance} 单位内成立',
+  'gapView.followUps': '可在窗口内命中的招式 (+{gap}F)',
+  'gapView.followUpsHint': '后续可以连的招数列表',
+  'gapView.cannotCalculate': '无法计算',
+  'gapView.builder.title': '自定义连段帧优势',
+  'gapView.builder.description': '可持续追加动作，逐段计算每一步的窗口与下一步可用帧差。',
+  'gapView.builder.importPlaceholder': '粘贴连段指令，例如：CH 2LK ~ 2LP ~ 5LP > 214LK',
+  'gapView.builder.import': '解析导入',
+  'gapView.builder.clear': '清空',
+  'gapView.builder.starter': '起手',
+  'gapView.builder.normalHit': '普通命中',
+  'gapView.builder.unresolved': '未识别：{tokens}（已跳过）',
+  'gapView.builder.stepType': '类型',
+  'gapView.builder.stepType.move': '招数',
+  'gapView.builder.stepType.custom': '自定义',
+  'gapView.builder.transition': '连接方式',
+  'gapView.builder.transition.link': '普通 (Link)',
+  'gapView.builder.transition.cancel': '连招取消 (Cancel)',
+  'gapView.builder.outcome': '判定结果',
+  'gapView.builder.outcome.hit': '命中',
+  'gapView.builder.outcome.block': '被格挡',
+  'gapView.builder.outcome.buff': '特殊 Buff（绿冲取消）',
+  'gapView.builder.noContext': '暂无上一步动作，添加首招无需判断优势帧。',
+  'gapView.builder.lastStep': '当前最后一招：{move}（{outcome}）',
+  'gapView.builder.after.hit': '命中后',
+  'gapView.builder.after.block': '被防后',
+  'gapView.builder.after.buff': 'Buff 后',
+  'gapView.builder.context': '当前连接：{mode} ｜ 当前优势/帧差：{advantage}',
+  'gapView.builder.gap': '空隙{gap}F',
+  'gapView.builder.gapSafe': '空隙{gap}F，可以安全使用<={startup}F 招式',
+  'gapView.builder.searchPlaceholder': '搜索要添加的招式',
+  'gapView.builder.customName': '自定义动作',
+  'gapView.builder.customNumbered': '自定义{id}',
+  'gapView.builder.customNamePlaceholder': '自定义动作名称',
+  'gapView.builder.customStartupPlaceholder': '发生帧数',
+  'gapView.builder.customOnHitPlaceholder': '命中帧差',
+  'gapView.builder.customOnBlockPlaceholder': '被防帧差',
+  'gapView.builder.add': '添加',
+  'gapView.builder.cancelFrame': '取消帧',
+  'gapView.builder.dropsHere': '在此中断',
+  'gapView.builder.remove': '移除',
+  'gapView.builder.replacePlaceholder': '搜索替换招式',
+  'gapView.builder.result': '结果',
+  'gapView.builder.resultRow': '{label}：{value}',
+  'gapView.builder.nextAdvantage.hit': '当前招命中后帧差：{value}',
+  'gapView.builder.nextAdvantage.block': '当前招被防后帧差：{value}',
+  'gapView.builder.nextAdvantage.buff': '当前招特殊 Buff帧差：{value}',
+  'gapView.builder.details': '计算详情：{formula} = {gap}',
+  'gapView.builder.chainedNoCombo': '差 {count} 帧，对手可防御。',
+
+  // AI assistant view
+  'assistant.title': '🤖 AI 对策助手',
+  'assistant.subtitle': '分析对手连招的间隙，推荐反制招式',
+  'assistant.opponent': '对手角色',
+  'assistant.me': '我的角色',
+  'assistant.opponentString': '对手连招',
+  'assistant.move': '第{index}招',
+  'assistant.searchPlaceholder': '搜索招式...',
+  'assistant.analyze': '🔍 分析间隙',
+  'assistant.gapLabel': 'Gap (间隙)',
+  'assistant.counters': '🎯 可打断招式 ({character})',
+  'assistant.invuln': '无敌 {start}-{end}F',
+  'assistant.trueBlockstring': '⚠️ 真连防',
+  'assistant.trueBlockstringHint': '这是真的连防，只能用无敌技 (OD 升龙/超必) 反击，或老实防守。',
+
+  // Matchup view
+  'matchup.title': '对战表：{attacker} vs {defender}',
+  'matchup.description': '以我方（{attacker}）的视角汇总对手（{defender}）的可确反招式、压制间隙、无敌技与对空，可直接打印。',
+  'matchup.attacker': '我方角色',
+  'matchup.defender': '对手角色',
+  'matchup.print': '打印',
+  'matchup.noData': '暂无其中一方的帧数据，请先运行抓取脚本。',
+  'matchup.punishes': '可确反招式',
+  'matchup.punishesHint': '对手被防亏帧的招式与我方最高伤害的确反（Punish Counter，不考虑推距）。',
+  'matchup.opponentMove': '对手招式',
+  'matchup.onBlock': '被防',
+  'matchup.punish': '确反',
+  'matchup.pressure': '对手压制',
+  'matchup.pressureHint': '对手被防不亏帧的招式，衔接各地面通常技的间隙，以及我方可以插动的招式。',
+  'matchup.noPressure': '对手没有被防不亏帧的地面招式。',
+  'matchup.reversals': '对手无敌技 / 反击技',
+  'matchup.reversalsHint': '压起身时，持续帧最晚可以比对手起身晚多少帧仍先于反击技命中。',
+  'matchup.reversalEstimated': '（无敌帧为估算值）',
+  'matchup.move': '招式',
+  'matchup.startup': '发生',
+  'matchup.meatyWindow': '压起身余裕',
+  'matchup.antiAirs': '对手最快对空',
+  'matchup.noAntiAirs': '未识别到对空招式。',
+  'matchup.projectiles': '对手飞行道具',
+  'matchup.keyMoves': '对手核心招式',
+
+  // Trade calculator view
+  'trade.title': '相杀计算器',
+  'trade.description': '选择双方角色和招式后，实时计算相杀后的帧数优势。',
+  'trade.side': '角色 {side}',
+  'trade.selectCharacter': '选择角色 {side}',
+  'trade.selectMove': '选择角色 {side} 招式',
+  'trade.searchPlaceholder': '选择或搜索角色 {side} 招式...',
+  'trade.noMatch': '无匹配招式',
+  'trade.result': '相杀结果',
+  'trade.sideMove': '角色 {side}（{move}）',
+  'trade.effectiveHitstun': '有效硬直: {value}F',
+  'trade.blockstunFallback': '使用 blockstun 回退计算',
+  'trade.steps': '相杀计算步骤',
+  'trade.step': '角色{side} {move}: {source} {base} + 2(CH) = {value}F',
+  'trade.finalStep': '相杀有利 = {a} - {b} = {value}F',
+  'trade.pickMoves': '请选择双方招式',
+  'trade.even': '双方相杀后五五开 (0F)',
+  'trade.advantage': '角色{side} 相杀后有利 {value}F',
+  'trade.protection.invuln': '打击无敌',
+  'trade.protection.armor': '霸体',
+  'trade.interruption': '角色{side} 在第 {frame}F (角色{other} 招式生效时) 处于{protection}状态，同时出招不会相杀',
+
+  // Punish finder view
+  'punish.title': '确反查询',
+  'punish.description': '选择对手被防招式，列出我方所有发生帧不超过防御硬直差的招式，并按 Punish Counter 连段的期望伤害排序。',
+  'punish.descriptionSpacing': '双方有判定距离与推距数据时，会标出可确反的最远距离。',
+  'punish.opponent': '对手',
+  'punish.opponentCharacter': '对手角色',
+  'punish.blockedMove': '被防招式',
+  'punish.searchPlaceholder': '选择或搜索对手招式...',
+  'punish.noMatch': '无匹配招式',
+  'punish.manualOnBlock': '或手动输入被防帧数',
+  'punish.me': '我方',
+  'punish.myCharacter': '我方角色',
+  'punish.window': '确反窗口：',
+  'punish.windowMove': '（{move}）',
+  'punish.noCombos': '当前角色没有连段数据，只按单招伤害排序。',
+  'punish.results': '可确反招式',
+  'punish.safe': '该招式被防不亏帧，无法确反。',
+  'punish.none': '没有足够快的招式可以确反。',
+  'punish.startup': '{value}F 发生',
+  'punish.margin': '余裕 {value}F',
+  'punish.outOfRange': '推开后打不到',
+  'punish.maxDistance': '{distance} 单位内',
+  'punish.comboCount': '{count} 条连段',
+
+  // Compare view
+  'compare.title': '全角色招式对比',
+  'compare.description': '按招式位置（如 5LP、2MK）对比全部角色的发生、被防、命中、总帧与取消，可筛选和排序。',
+  'compare.move': '招式',
+  'compare.slotPlaceholder': '例如 2MK / 6HP',
+  'compare.maxStartup': '发生 ≤',
+  'compare.minOnBlock': '被防 ≥',
+  'compare.minOnHit': '命中 ≥',
+  'compare.cancelable': '可取消',
+  'compare.resetFilters': '清除筛选',
+  'compare.rowCount': '共 {count} 条',
+  'compare.missing': '（{count} 名角色没有 {slot}）',
+  'compare.empty': '没有符合条件的招式。',
+  'compare.character': '角色',
+  'compare.column.startup': '发生',
+  'compare.column.onBlock': '被防',
+  'compare.column.onHit': '命中',
+  'compare.column.total': '总帧',
+  'compare.column.cancels': '取消',
+
+  // Patch notes view
+  'patchNotes.title': '版本改动：{character}',
+  'patchNotes.description': '逐招对比两个帧数据快照的发生、被防、命中、伤害、取消与击倒数据。',
+  'patchNotes.character': '角色',
+  'patchNotes.from': '旧版本',
+  'patchNotes.to': '新版本',
+  'patchNotes.current': '当前数据',
+  'patchNotes.noSnapshotsLead': '没有更早的快照可供对比。运行',
+  'patchNotes.noSnapshotsTail': '保存当前数据后再抓取新版本。',
+  'patchNotes.versionArg': '版本号',
+  'patchNotes.noCharacter': '所选版本中没有该角色的数据。',
+  'patchNotes.noChanges': '两个版本之间没有帧数变化。',
+  'patchNotes.summary.changed': '调整 {count}',
+  'patchNotes.summary.added': '新增 {count}',
+  'patchNotes.summary.removed': '删除 {count}',
+  'patchNotes.move': '招式',
+  'patchNotes.type': '类型',
+  'patchNotes.changes': '改动',
+  'patchNotes.status.added': '新增',
+  'patchNotes.status.removed': '删除',
+  'patchNotes.status.changed': '调整',
+  'patchNotes.field.startup': '发生',
+  'patchNotes.field.onBlock': '被防',
+  'patchNotes.field.onHit': '命中',
+  'patchNotes.field.damage': '伤害',
+  'patchNotes.field.cancels': '取消',
+  'patchNotes.field.knockdown': '击倒',
+
+  // Reversal kinds
+  'reversal.kind.odDp': 'OD 升龙',
+  'reversal.kind.sa1': 'SA1',
+  'reversal.kind.sa2': 'SA2',
+  'reversal.kind.sa3': 'SA3 / CA',
+  'reversal.kind.commandGrab': '指令投',
+
+  // Oki wakeup coverage
+  'oki.coverage.option.block': '防御',
+  'oki.coverage.option.jab': '{startup}F 抢招',
+  'oki.coverage.option.throwTech': '起身投 / 拆投',
+  'oki.coverage.option.backdash': '后撤步',
+  'oki.coverage.option.neutralJump': '垂直跳',
+  'oki.coverage.option.driveReversal': '起身斗气反击',
+  'oki.coverage.option.reversal': '{kind} {input}',
+  'oki.coverage.option.driveImpact': '斗气迸放',
+  'oki.coverage.block.unknown': '被防 {onBlock}，按实际情况判断',
+  'oki.coverage.block.plus': '被防 {onBlock}F，继续压制',
+  'oki.coverage.block.punishable': '被防 {onBlock}F，会被 {startup}F 招确反',
+  'oki.coverage.block.minus': '被防 {onBlock}F，交出主动权',
+  'oki.coverage.grab.beaten': '{startup}F 指令投 ({firstActive}F 生效) 前已打中',
+  'oki.coverage.grab.loses': '{startup}F 指令投 ({firstActive}F 生效)，无法防御',
+  'oki.coverage.reversal.exposed': '无敌 {start}-{end}F，{exposedStart}~{exposedEnd}F 可被打中',
+  'oki.coverage.reversal.blocked': '{startup}F 发生 ({firstActive}F 生效)，我方 {recover}F 恢复可防',
+  'oki.coverage.reversal.hit': '{startup}F 发生 ({firstActive}F 生效)，我方 {recover}F 才恢复',
+  'oki.coverage.jab': '抢招 {firstActive}F 生效，我方持续 {activeStart}~{activeEnd}F，{recover}F 恢复',
+  'oki.coverage.throwTech': '投 {firstActive}F 生效，打击需在此前命中',
+  'oki.coverage.backdash.hit': '起身第 1 帧 ({wakeup}F) 已有判定，打中后撤步',
+  'oki.coverage.backdash.escaped': '后撤步拉开距离，对方 {backdashEnd}F 结束，我方 {recover}F 恢复',
+  'oki.coverage.jump.hit': '打中起跳前 ({start}~{end}F)',
+  'oki.coverage.jump.escaped': '起跳后落地 {landing}F，我方 {recover}F 恢复',
+  'oki.coverage.driveReversal.safe': '{recover}F 恢复，可防住 {impact}F 的斗气反击并确反',
+  'oki.coverage.driveReversal.hit': '{recover}F 才恢复，来不及防 {impact}F 的斗气反击',
+  'oki.coverage.driveImpact.counter': '{recover}F 恢复，来得及反迸放 ({impact}F 生效)',
+  'oki.coverage.driveImpact.blocked': '{recover}F 恢复，可防住 {impact}F 的迸放',
+  'oki.coverage.driveImpact.hit': '{recover}F 才恢复，吃 {impact}F 的迸放',
+
+  // Oki blockstring bait
+  'oki.bait.defaultThrow': '普通拆投',
+  'oki.bait.action.jump': '垂直跳',
+  'oki.bait.action.backdash': '后撤步',
+  'oki.bait.jump.airborne': '完全安全：对方在第 {grabActive} 帧出招，我方在第 {airborne} 帧已处于空中状态，投掷必定挥空。',
+  'oki.bait.jump.preJump': '投掷安全（防抢招）：对方在第 {grabActive} 帧投掷，我方正处于起跳预备帧（第 {start} 至 {end} 帧），享有完全的投无敌，投掷必定挥空。',
+  'oki.bait.jump.tooLate': '不安全被确反：我方收招过慢，起跳动作还未开始（第 {baitStart} 帧）就已经被对方投掷判定命中（第 {grabActive} 帧）。',
+  'oki.bait.backdash.safe': '后撤步安全：对方在第 {grabActive} 帧投掷，我方处于后撤步投无敌时间（第 {start} 至 {end} 帧），投掷必定挥空。',
+  'oki.bait.backdash.tooLate': '不安全被确反：我方收招过慢，后撤步动作还未开始就已经被对方投掷判定命中。',
+  'oki.bait.backdash.tooEarly': '可能不安全：对方判定在第 {grabActive} 帧生效，已超出后撤步的投无敌时间。',
+
+  // Oki result tags
+  'oki.tag.corner': '版边(Corner)',
+  'oki.tag.projectile': '飞行道具公式',
+  'oki.tag.projectileEstimate': '飞行道具速度为估算值',
+  'oki.tag.dashWhiff': '冲后打空',
+  'oki.tag.outOfRange': '距离不足',
+
+  // Oki setup prefixes
+  'oki.prefix.dash': '前冲',
+  'oki.prefix.dashRepeat': '前冲x{count}',
+  'oki.prefix.chainCancel': '{input}×{count} (Chain Cancel)',
+  'oki.prefix.driveRush': '绿冲',
+  'oki.prefix.driveRushMove': '绿冲{move}',
+  'oki.prefix.emptyJump': '空跳',
+  'oki.prefix.jumpAction': '跳跃 + 动作',
+
+  // Oki profile import
+  'oki.profile.error.invalidJson': '不是有效的 JSON 文件',
+  'oki.profile.error.notProfile': '不是 Oki 配置包文件',
+  'oki.profile.error.newerVersion': '配置包版本 v{version} 高于当前支持的 v{supported}，请刷新页面后重试',
+
+  // Oki calculator view
+  'oki.profile.list.customMoves': '自定义招式',
+  'oki.profile.list.excludedMoves': '排除招式',
+  'oki.profile.list.preferredMoves': '优先招式',
+  'oki.profile.result.added': '新增 {count} 条',
+  'oki.profile.result.updated': '覆盖 {count} 条',
+  'oki.profile.result.unchanged': '已存在 {count} 条',
+  'oki.profile.result.conflicts': '冲突 {count} 条',
+  'oki.profile.result.dropped': '跳过无效 {count} 条',
+  'oki.profile.result.separator': '，',
+  'oki.safeJump.safe': '安全 (可晚 {frames}F)',
+  'oki.safeJump.safeExact': '安全 (帧准)',
+  'oki.safeJump.delay': '延迟 {frames}F',
+  'oki.safeJump.unsafe': '被打',
+  'oki.safeJump.late': '来不及',
+  'oki.safeJump.title.reversal': '{startup}F 无敌技 {firstActive}F 生效',
+  'oki.safeJump.title.stuffs': '；对手第 {frame}F 对空无敌已结束，跳入可直接打掉',
+  'oki.safeJump.title.unsafe': '{reversal}，落地硬直结束前就会被打{stuff}',
+  'oki.safeJump.title.late': '{reversal}，跳前动作太长，落地前对手已经出招{stuff}',
+  'oki.safeJump.title.safe': '{reversal}，{landing}F 落地、{recover}F 可防{stuff}',
+  'oki.coverage.outcome.wins': '赢',
+  'oki.coverage.outcome.loses': '输',
+  'oki.coverage.outcome.trades': '相杀',
+  'oki.coverage.outcome.resets': '重置',
+  'oki.safeBait.currentDefenderMove': '当前对手招式',
+  'oki.reversal.notInvincible': '无无敌，不可防御',
+  'oki.reversal.invincible': '无敌 {start}~{end}F',
+  'oki.reversal.invincibleEstimated': '无敌 {start}~{end}F（估算：帧数表未注明）',
+  'oki.trade.selectMove': '需选择招式',
+  'okiView.title': '压起身计算器',
+  'okiView.description': '组合链计算: 前冲 + 前冲 + 招式A + ...',
+  'okiView.step.character': '选择角色',
+  'okiView.attacker': '攻击方 (Attacker)',
+  'okiView.defender': '防守方 (Defender)',
+  'okiView.selectCharacter': '-- 选择角色 --',
+  'okiView.step.knockdown': '击倒数据',
+  'okiView.custom.title': '自定义招式',
+  'okiView.custom.namePlaceholder': '名称 (e.g. 2MP)',
+  'okiView.custom.inputPlaceholder': '指令 (e.g. 236P)',
+  'okiView.custom.save': '保存',
+  'okiView.custom.saved': '已保存:',
+  'okiView.presets.title': '预设数据 (Presets)',
+  'okiView.presets.searchPlaceholder': '搜索击倒招式 / 指令 / 帧数...',
+  'okiView.presets.clear': '清除',
+  'okiView.presets.quickCustom': '快速自定义 (数字)',
+  'okiView.presets.knockdownFrames': '击倒帧:',
+  'okiView.presets.knockdownDistance': '起身距离：',
+  'okiView.presets.knockdownDistanceCorner': '版边',
+  'okiView.presets.empty': '没有匹配的击倒预设',
+  'okiView.presets.showMore': '展开其余 {count} 个预设',
+  'okiView.presets.showLess': '收起预设',
+  'okiView.step.routing': '动作过滤与匹配 (Oki Routing)',
+  'okiView.opponent.firstActive': '对手反击判定第一帧 (Reversal Active):',
+  'okiView.opponent.firstActiveFormula': '{knockdown} (击倒) + {startup} (发生) =',
+  'okiView.opponent.driveReversal': '起身斗反:',
+  'okiView.opponent.driveReversalDetail': '{startup}F 生效，{invulStart}~{invulEnd}F 无敌，安全压制需恢复帧 ≤',
+  'okiView.opponent.startup': '对手抢招发生帧 (Startup)',
+  'okiView.opponent.tradeNeedsMove': '计算相杀需要选择招式',
+  'okiView.opponent.searchPlaceholder': '选择或搜索对手招式...',
+  'okiView.opponent.selectDefender': '请选择防守方角色以启用招式选择',
+  'okiView.opponent.reversals': '对手反击技:',
+  'okiView.opponent.hitWindow': '可命中窗口:',
+  'okiView.chain.title': '过滤动作',
+  'okiView.chain.empty': '点击下方添加过滤动作',
+  'okiView.chain.importPlaceholder': '指令导入，例如：dash, 2LP DR 5MP',
+  'okiView.chain.import': '导入',
+  'okiView.chain.unresolved': '未识别：{tokens}',
+  'okiView.chain.driveSpent': 'Drive 消耗 {count} 格（至少剩余 {left}/{total}，未计入回复）',
+  'okiView.chain.superSpent': 'SA 消耗 {count} 格',
+  'okiView.action.emptyJump': '空跳',
+  'okiView.action.jumpAction': '跳跃 + 动作',
+  'okiView.action.driveRush': '绿冲',
+  'okiView.searchMove': '搜索招式...',
+  'okiView.chain.clear': '清空',
+  'okiView.exclude.title': '排除最后招式 (个人喜好)',
+  'okiView.exclude.description': '不想让某个招式作为 Oki 压制的最后一击（例如 5HK 不能打蹲防）。',
+  'okiView.exclude.empty': '暂无排除招式，在下方搜索添加',
+  'okiView.exclude.quick': '快速排除:',
+  'okiView.exclude.searchPlaceholder': '搜索招式（如 5HK）...',
+  'okiView.exclude.notePlaceholder': '备注（可选，如：不能打蹲防）',
+  'okiView.manualAdd': '手动添加',
+  'okiView.prefer.title': '优先展示招式 (个人喜好)',
+  'okiView.prefer.description': '若组合中包含以下任一喜好招式，会优先在结果顶部展示。比如添加：2MK、236MK。',
+  'okiView.prefer.empty': '暂无优先招式，在下方搜索添加',
+  'okiView.prefer.quick': '快速优先:',
+  'okiView.prefer.searchPlaceholder': '搜索招式（如 2MK）...',
+  'okiView.prefer.notePlaceholder': '备注（可选，如：核心连招）',
+  'okiView.prefer.onlyPreferred': '仅显示包含喜好招式的组合 (只筛选这种)',
+  'okiView.profile.title': '配置包 (导入 / 导出)',
+  'okiView.profile.description': '把自定义招式、排除招式和优先招式打包成一个 JSON 文件，方便分享给他人导入。',
+  'okiView.profile.exportCurrent': '导出当前角色',
+  'okiView.profile.exportAll': '导出全部角色',
+  'okiView.profile.import': '导入配置包',
+  'okiView.profile.onConflict': '冲突时:',
+  'okiView.profile.keepLocal': '保留本地',
+  'okiView.profile.useImported': '使用导入',
+  'okiView.profile.conflict': '本地 {local} / 导入 {imported}',
+  'okiView.profile.noNote': '(无备注)',
+  'okiView.results.title': '自动匹配 (共 {total} 个结果，显示前 {shown} 条)',
+  'okiView.results.filteredHint': '已根据上方的过滤动作筛选结果',
+  'okiView.results.filtered': '已启用动作筛选',
+  'okiView.notes.sort': '排序规则：优先显示被防有利 (On Block) 的压制，其次为发生更快（发生F 更小）。',
+  'okiView.notes.tolerance': '容错：当前招式“最晚可以延迟几帧”仍能压制（0 表示必须精准卡帧）。',
+  'okiView.notes.driveReversal': '防斗反：我方恢复帧不晚于起身斗反第 {frame}F 生效帧。',
+  'okiView.notes.limit': '仅显示前 50 条最优解。',
+  'okiView.column.combo': '组合',
+  'okiView.column.startup': '发生',
+  'okiView.column.active': '打击帧',
+  'okiView.column.tolerance': '容错',
+  'okiView.column.safe': '安全',
+  'okiView.column.onBlock': '被防',
+  'okiView.column.onHit': '被击打康加2',
+  'okiView.column.trade': '相杀',
+  'okiView.badge.preferred': '★ 喜好',
+  'okiView.badge.covers': '压制',
+  'okiView.badge.trade': '相杀',
+  'okiView.badge.chainCancel': '连锁取消 Chain Cancel',
+  'okiView.badge.driveReversalSafe': '防斗反',
+  'okiView.detail.title': '帧数详情',
+  'okiView.detail.sequence': '动作序列:',
+  'okiView.detail.effectiveOffset': '有效偏移',
+  'okiView.detail.chainCancelFormula': '连锁取消公式:',
+  'okiView.detail.chainCancelFirst': '({input}首招)',
+  'okiView.detail.chainCancelFull': '首招完整 {frames}F',
+  'okiView.detail.chainCancelSteps': '+ {offset}F × ({steps} − 1)步',
+  'okiView.detail.chainCancelNote': '（跳过发生帧, 截短收招 1 帧）',
+  'okiView.detail.driveRushFrom': '绿冲起点:',
+  'okiView.detail.noPrefix': '无前置',
+  'okiView.detail.actionStart': '动作开始:',
+  'okiView.detail.moveStartup': '招式发生:',
+  'okiView.detail.moveActive': '招式持续:',
+  'okiView.detail.activeTotal': '(共{count}帧)',
+  'okiView.detail.calculation': '计算:',
+  'okiView.detail.lastActiveRange': '最后段打击范围:',
+  'okiView.detail.activeRange': '打击范围:',
+  'okiView.detail.opponentFirstActive': '对手反击判定第一帧:',
+  'okiView.detail.hitWindow': '可命中窗口:',
+  'okiView.detail.driveReversal': '防斗反:',
+  'okiView.detail.projectileRecover': '本体恢复 {frame}F',
+  'okiView.detail.projectileTotal': '(飞行道具本体总帧)',
+  'okiView.detail.recover': '恢复 {frame}F',
+  'okiView.detail.driveReversalActive': '；斗反生效 {frame}F',
+  'okiView.detail.driveReversalSafe': '可防，余量 {margin}',
+  'okiView.detail.driveReversalUnsafe': '不可防，差 {margin}',
+  'okiView.detail.projectileContact': '飞行道具接触:',
+  'okiView.detail.projectileContactWindow': '输入后 {min}~{max}F（距离 {distance}）',
+  'okiView.detail.onBlockCalc': '被防计算:',
+  'okiView.detail.inputToBlock': '(输入到被防)',
+  'okiView.detail.blockstun': '(防御硬直)',
+  'okiView.detail.moveTotal': '(本体总帧)',
+  'okiView.detail.base': '(原始)',
+  'okiView.detail.driveRushBonus': '(绿冲)',
+  'okiView.detail.meatyBonus': '(Meaty: {hit}F击中 - {start}F发生)',
+  'okiView.detail.onHitCalc': '被击计算:',
+  'okiView.detail.counterHit': '(打康)',
+  'okiView.detail.tradeAdvantage': '相杀有利 (Trade):',
+  'okiView.detail.tradeCalc': '相杀计算:',
+  'okiView.detail.verdict': '判定:',
+  'okiView.detail.covers': '✓ 压制成功: {range} 与 {window} 有重叠',
+  'okiView.detail.lastHit': '最后段 ',
+  'okiView.detail.trades': '⚠ 相杀: 与对手判定第一帧重合 ({frame}F)',
+  'okiView.coverage.title': '起身选项对策表',
+  'okiView.timeline.show': '查看时序图',
+  'okiView.timeline.hide': '隐藏时序图',
+  'okiView.timeline.prefix': '前置',
+  'okiView.timeline.startup': '发生',
+  'okiView.timeline.active': '持续',
+  'okiView.timeline.recovery': '硬直',
+  'okiView.timeline.down': '倒地',
+  'okiView.timeline.vulnerable': '可被击',
+  'okiView.timeline.hitstun': '被击硬直',
+  'okiView.timeline.blockstun': '被防硬直',
+  'okiView.timeline.attacker': '进攻方 (Self)',
+  'okiView.timeline.defenderHit': '对手 - 被击 (Hit)',
+  'okiView.timeline.defenderBlock': '对手 - 被防 (Block)',
+  'okiView.badge.coversSuccess': '压制成功',
+  'okiView.mobile.startup': '发生: {frames}F',
+  'okiView.mobile.active': '打击: {range}F',
+  'okiView.mobile.tolerance': '容错: {value}',
+  'okiView.mobile.onBlock': '被防: {value}',
+  'okiView.mobile.onHit': '打康: {value}',
+  'okiView.steps.title': '帧数计算步骤',
+  'okiView.steps.prefix': '前置动作:',
+  'okiView.steps.moveStartup': '招式发生 ({name}):',
+  'okiView.steps.totalStartup': '总发生 (Start):',
+  'okiView.steps.active': '打击持续判定:',
+  'okiView.steps.opponentFirstActive': '对手判定第一帧:',
+  'okiView.steps.opponentVulnerable': '防守方起手脆弱:',
+  'okiView.advantage.title': '防御/命中有利帧 (Advantage)',
+  'okiView.advantage.onBlock': '🛡️ 被防帧优势',
+  'okiView.advantage.onHit': '🎯 命中(打康)帧优势',
+  'okiView.advantage.trade': '相杀有利:',
+  'okiView.timeline.title': '时序可视化',
+  'okiView.timeline.opponentHit': '对手 (Hit)',
+  'okiView.results.showMore': '显示其余 {count} 条',
+  'okiView.results.showLess': '收起结果',
+  'okiView.results.empty': '没有自动匹配的压制组合',
+  'okiView.section.collapse': '收起',
+  'okiView.section.expand': '展开',
+  'okiView.step.throwLoop': '循环投计算器',
+  'okiView.throw.collapsedHint': '计算投压起身与打投二择的前置帧。默认收起以减少主结果浏览长度。',
+  'okiView.throw.goalLead': '目标：让投的',
+  'okiView.throw.goalFirstActive': '第一帧判定',
+  'okiView.throw.goalTail': '压在对手起身后、刚能被投的那一帧。',
+  'okiView.throw.knockdown': '击倒优势 N',
+  'okiView.throw.wakeupInvul': '起身投无敌 I',
+  'okiView.throw.startup': '投起手 T',
+  'okiView.throw.active': '投判定 A',
+  'okiView.throw.abare': '防守抢招',
+  'okiView.throw.extraDelay': '额外延迟',
+  'okiView.throw.extraDelayE': '额外延迟 E:',
+  'okiView.throw.earliest': '最早可被投帧:',
+  'okiView.throw.latest': '最晚可被投帧:',
+  'okiView.throw.idealDelay': '理想按投延迟:',
+  'okiView.throw.relaxed': '(放宽了 {frames}F)',
+  'okiView.throw.firstActiveRange': '第一帧判定允许范围:',
+  'okiView.throw.tooShort': '当前击倒优势不足，无法在起身可投前完成投起手（需要负延迟）。',
+  'okiView.throw.resultsTitle': '循环投组合 (共 {total} 个结果，显示前 {shown} 条)',
+  'okiView.throw.tipCore': '核心博弈',
+  'okiView.throw.tipReplace': '：此处的“投”可以替换为 ',
+  'okiView.throw.tip2LK': '2LK (下轻脚)',
+  'okiView.throw.tip5LP': '5LP (站轻拳)',
+  'okiView.throw.tipOr': '或者',
+  'okiView.throw.tipJump': '垂直/前跳',
+  'okiView.throw.tipSameDelay': '利用相同的延迟帧数，从“投”变为“打”或“跳”，触发街霸6核心猜拳机制 —— ',
+  'okiView.throw.tipMixup': '打投二择 (Strike/Throw Mixup)',
+  'okiView.throw.filteredLead': '已筛选包含',
+  'okiView.throw.filteredTail': '的投组合',
+  'okiView.throw.delay': '延迟S',
+  'okiView.throw.firstActive': '第一帧判定',
+  'okiView.throw.label': '投',
+  'okiView.throw.filler': '空挥招式:',
+  'okiView.throw.rawTotal': '(原始数据)',
+  'okiView.throw.delayS': '延迟 S:',
+  'okiView.throw.firstFrame': '第一帧:',
+  'okiView.throw.firstActiveLabel': '第一帧判定:',
+  'okiView.throw.window': '允许窗口:',
+  'okiView.timeline.recoveryWhiff': '硬直/空挥',
+  'okiView.timeline.thrown': '被投',
+  'okiView.timeline.wakeup': '起身',
+  'okiView.timeline.throwHit': '投命中',
+  'okiView.timeline.defender': '对手 (Defender)',
+  'okiView.throw.mobileDelay': '延迟S: {frames}F',
+  'okiView.throw.mobileFirstActive': '第一帧: {frames}F',
+  'okiView.throw.empty': '没有自动匹配的循环投组合',
+  'okiView.step.altOki': '另类压起身',
+  'okiView.alt.globalDelay': '全局额外延迟',
+  'okiView.alt.collapsedHint': '绿冲、迸放、优势反算与安全骗压等进阶枚举。需要时展开查看。',
+  'okiView.alt.tab.driveRush': '🚗 绿冲压制',
+  'okiView.alt.tab.driveImpact': '💥 迸放对齐',
+  'okiView.alt.tab.frameTrap': '🎯 优势反算',
+  'okiView.alt.tab.safeBait': '🛡️ 安全骗压',
+  'okiView.alt.tab.baitThrow': '🤼 打拆投',
+  'okiView.driveRush.title': '绿冲 + 动作压起身',
+  'okiView.driveRush.description': '按绿冲动作第 1 帧计时，Parry Drive Rush 第 11 帧可取消进攻击。最速命中帧 = 招式发生 + 11。',
+  'okiView.flow.knockdown': '击倒优势 (N)',
+  'okiView.flow.driveRushCancel': '绿冲前置取消',
+  'okiView.flow.moveStartup': '招式发生',
+  'okiView.flow.startupF': '发生F',
+  'okiView.flow.fastestHit': '最速命中帧',
+  'okiView.flow.startupPlus11': '发生 + 11F',
+  'okiView.window.title': '对手可命中窗口：',
+  'okiView.window.range': '起身第 {start} 到 判定前 {end} (共 {count} 帧窗口)',
+  'okiView.window.none': '无 (对手直接凹招判定生效)',
+  'okiView.driveRush.resultsTitle': '绿冲匹配结果 (共 {count} 条)',
+  'okiView.driveRush.fastestHit': '最速命中',
+  'okiView.driveRush.activeFrames': '打击持续帧',
+  'okiView.driveRush.wakeupOffset': '压制帧',
+  'okiView.driveRush.detailTitle': '📖 绿冲压制帧数详情',
+  'okiView.driveRush.stepsTitle': '1. 帧数计算步骤 (Steps)',
+  'okiView.driveRush.prefixSequence': '前置动作序列:',
+  'okiView.driveRush.globalDelay': '全局额外延迟:',
+  'okiView.driveRush.startDelay': '绿冲起点延迟:',
+  'okiView.driveRush.attackCancel': '绿冲攻击取消前置:',
+  'okiView.driveRush.followUpStartup': '派生动作发生 ({name}):',
+  'okiView.driveRush.fastestHitFrame': '最速命中帧 (Fastest):',
+  'okiView.driveRush.activeRange': '打击持续判定范围:',
+  'okiView.driveRush.wakeupOffsetLabel': '压制帧 (Wakeup Offset):',
+  'okiView.driveRush.advantageTitle': '2. 命中/防御判定结果 (Advantage)',
+  'okiView.bonus.base': '(基准)',
+  'okiView.bonus.driveRush': '(绿冲)',
+  'okiView.bonus.meaty': '(持续)',
+  'okiView.bonus.counterHit': '(打康)',
+  'okiView.driveRush.covers': '✓ 压制成功: 持续判定与起身的脆弱窗口完全重合',
+  'okiView.driveRush.trades': '⚠️ 相杀: 与对手最速凹招判定帧在第 {frame}F 重合',
+  'okiView.driveRush.mobileFastestHit': '最速命中: {frames}F',
+  'okiView.driveRush.mobileOffset': '压制: {frames}F',
+  'okiView.mobileStep.prefix': '前置动作:',
+  'okiView.mobileStep.globalDelay': '全局延迟:',
+  'okiView.mobileStep.driveRushStart': '绿冲起点:',
+  'okiView.mobileStep.attackCancel': '攻击取消:',
+  'okiView.mobileStep.moveStartup': '招式发生:',
+  'okiView.mobileStep.fastestHit': '最速命中:',
+  'okiView.mobileStep.active': '持续时间:',
+  'okiView.advantage.final': '最终优势',
+  'okiView.advantage.mobileOnBlock': '🛡️ 被防优势:',
+  'okiView.advantage.mobileOnHit': '🎯 打康优势:',
+  'okiView.advantage.counterHit2': '打康2',
+  'okiView.driveRush.mobileCovers': '✓ 压制成功: 覆盖对手起身无敌后脆弱帧',
+  'okiView.driveRush.mobileTrades': '⚠️ 相杀: 与对手最速凹招在第 {frame}F 发生重合',
+  'okiView.driveRush.empty': '没有找到自动匹配的绿冲压起身组合',
+  'okiView.driveImpact.title': '斗气迸放压起身 (Drive Impact)',
+  'okiView.driveImpact.description': '固定 26F 发生，26~27F 持续。通过配置目标“压制帧”来精确对齐判定位置。',
+  'okiView.driveImpact.target': '目标压制帧 (Wakeup Offset Target)',
+  'okiView.driveImpact.targetHint': '定义迸放第一段判定相对起身的对齐帧数。例如 1F 代表最速压起身。',
+  'okiView.flow.targetFirstActive': '目标第一帧',
+  'okiView.flow.requiredDelay': '需要前置',
+  'okiView.flow.driveImpactStartup': '迸放发生',
+  'okiView.flow.targetActive': '目标判定范围',
+  'okiView.driveImpact.negativeDelay': '⚠️ 当前设定的目标压制帧需要负的前置帧数（{frames}F），该方案无法在实际对局中成立！请减小目标压制帧。',
+  'okiView.driveImpact.resultsTitle': '斗气迸放匹配 (共 {count} 条)',
+  'okiView.driveImpact.prefixCombo': '前置组合',
+  'okiView.driveImpact.prefixTotal': '前置总帧',
+  'okiView.driveImpact.activeFrames': '判定帧',
+  'okiView.action.driveImpact': '迸放',
+  'okiView.driveImpact.detailTitle': '📖 斗气迸放压制帧数详情',
+  'okiView.driveImpact.prefixSequence': '动作序列前置:',
+  'okiView.driveImpact.filler': '追加动作 ({name}):',
+  'okiView.driveImpact.rawTotal': '原始总帧',
+  'okiView.driveImpact.summedTotal': '各阶段累加',
+  'okiView.driveImpact.extraDelay': '额外空盘延迟:',
+  'okiView.driveImpact.delay': '实际前置总帧 (Delay):',
+  'okiView.driveImpact.startup': '迸放启动时间 (Burst Startup):',
+  'okiView.driveImpact.activeRange': '迸放判定生效范围:',
+  'okiView.driveImpact.wakeupOffset': '对应对手起身压制帧:',
+  'okiView.driveImpact.opponentWakeup': '对手起身第1帧:',
+  'okiView.driveImpact.exact': '精确压制',
+  'okiView.driveImpact.mobilePrefixTotal': '前置总帧: {frames}F',
+  'okiView.driveImpact.mobileOffset': '压制: +{frames}F',
+  'okiView.mobileStep.fillerPrefix': '追加前置:',
+  'okiView.mobileStep.extraDelay': '追加延迟:',
+  'okiView.mobileStep.prefixTotal': '前置总帧:',
+  'okiView.mobileStep.driveImpactStartup': '迸放启动:',
+  'okiView.mobileStep.activeRange': '判定范围:',
+  'okiView.mobileStep.alignment': '压制对齐:',
+  'okiView.mobileStep.alignmentValue': '第 {frame} 帧压制',
+  'okiView.driveImpact.empty': '没有找到自动匹配的迸放压起身组合',
+  'okiView.frameTrap.title': '目标优势帧反算组合',
+  'okiView.frameTrap.description': '根据您期望保留的特定目标优势帧，自动反向计算出可行的连段/前置空挥路线。',
+  'okiView.frameTrap.target': '期望目标优势帧 (Target Advantage Frame)',
+  'okiView.frameTrap.targetHint': '输入您想在对手起床后获得的帧数优势（正值表示我方先动，负值表示对手先动）。',
+  'okiView.flow.comboTotal': '组合总帧数',
+  'okiView.flow.comboTotalF': '组合总F',
+  'okiView.flow.resultAdvantage': '结果优势帧',
+  'okiView.frameTrap.resultsTitle': '优势反算匹配 (共 {count} 条)',
+  'okiView.frameTrap.route': '组合路线',
+  'okiView.frameTrap.routeTotal': '组合总帧',
+  'okiView.frameTrap.resultAdvantage': '结果优势',
+  'okiView.frameTrap.targetDiff': '目标差值',
+  'okiView.frameTrap.detailTitle': '📖 连段前置反算帧数详情',
+  'okiView.frameTrap.firstPrefix': '第一段动作前置:',
+  'okiView.frameTrap.filler': '追加空挥/移动动作:',
+  'okiView.frameTrap.rawTotal': '动作总帧',
+  'okiView.frameTrap.summedTotal': '启动+持续+恢复',
+  'okiView.frameTrap.cost': '组合总消耗帧 (Cost):',
+  'okiView.frameTrap.knockdown': '原始击倒优势:',
+  'okiView.frameTrap.finalAdvantage': '最终生成帧优势 (Advantage):',
+  'okiView.frameTrap.targetAdvantage': '设定目标优势:',
+  'okiView.frameTrap.delta': '与目标差值 (Delta):',
+  'okiView.frameTrap.matched': '反算成功',
+  'okiView.frameTrap.mobileTotal': '组合总帧: {frames}F',
+  'okiView.frameTrap.mobileAdvantage': '优势: {value}',
+  'okiView.mobileStep.prefixCost': '前置消耗:',
+  'okiView.mobileStep.whiff': '动作空挥:',
+  'okiView.mobileStep.routeCost': '组合消耗:',
+  'okiView.mobileStep.knockdown': '击倒帧数:',
+  'okiView.mobileStep.resultAdvantage': '结果优势:',
+  'okiView.mobileStep.targetDiff': '目标差值:',
+  'okiView.frameTrap.empty': '没有找到自动匹配的反算前置组合',
+  'okiView.safeBait.title': '安全骗压 (Safe Bait Setup)',
+  'okiView.safeBait.description': '使用空挥前置动作欺骗对手起身凹招，保证整套动作在对手凹招判定发生前完成，从而能够完美防御。',
+  'okiView.safeBait.reversalStartup': '对手凹招发生帧',
+  'okiView.safeBait.searchLabel': '或搜索对手动作快速设定',
+  'okiView.safeBait.searchPlaceholder': '搜索防守方必杀技/凹招...',
+  'okiView.flow.opponentWakeup': '对手起身',
+  'okiView.flow.reversalStartup': '凹招发生',
+  'okiView.flow.reversalFirstActive': '凹招判定第1帧',
+  'okiView.flow.maxSafeTotal': '最大安全组合帧',
+  'okiView.safeBait.formulaTitle': '🛡️ 安全骗压安全公式：',
+  'okiView.safeBait.formulaLead': '组合总帧数',
+  'okiView.safeBait.formulaLimit': '< 对手凹招第一帧 ({frame}F)',
+  'okiView.safeBait.formulaMax': '。最大允许动作总帧数为',
+  'okiView.safeBait.resultsTitle': '安全骗压结果 (共 {count} 条)',
+  'okiView.safeBait.route': '前置骗凹组合',
+  'okiView.safeBait.opponentActive': '对手判定帧',
+  'okiView.safeBait.blockMargin': '防御余量',
+  'okiView.safeBait.badge': '安全诱骗',
+  'okiView.safeBait.detailTitle': '📖 安全骗凹帧数计算详情',
+  'okiView.safeBait.firstPrefix': '第一段前置动作:',
+  'okiView.safeBait.filler': '欺骗用追加挥空动作:',
+  'okiView.safeBait.recovery': '动作收招',
+  'okiView.safeBait.extraDelay': '连段额外延迟:',
+  'okiView.safeBait.total': '我方动作链消耗总帧:',
+  'okiView.safeBait.opponentWakeup': '防守方起身第1帧:',
+  'okiView.safeBait.opponentMove': '对手防守招式 ({name}):',
+  'okiView.safeBait.startupValue': '{frames}F 发生',
+  'okiView.safeBait.strictLimit': '对方攻击伤害生效帧 (Strict Limit):',
+  'okiView.safeBait.verdict': '判定结果 (Verdict):',
+  'okiView.safeBait.verdictSafe': '✓ 安全诱骗成立：我方整套动作收招（{total}F）比对手凹招攻击生效（{limit}F）快了 {margin} 帧，支持起身后直接拉防！',
+  'okiView.safeBait.safeBlock': '安全防御',
+  'okiView.safeBait.mobileTotal': '总帧: {frames}F',
+  'okiView.safeBait.mobileMargin': '防守余量: +{frames}F',
+  'okiView.mobileStep.actionPrefix': '动作前置:',
+  'okiView.mobileStep.followUp': '追加动作:',
+  'okiView.mobileStep.actionTotal': '动作总耗:',
+  'okiView.mobileStep.opponentActive': '对手判定:',
+  'okiView.mobileStep.opponentActiveValue': '第 {frame}F 生效',
+  'okiView.mobileStep.blockMargin': '防御余量:',
+  'okiView.safeBait.mobileVerdict': '✓ 诱骗成立：我方在对手凹招判定第 {frame}F 前已收招，可完防对方动作。',
+  'okiView.safeBait.empty': '没有找到自动匹配的安全骗压组合',
+  'okiView.baitThrow.title': '打拆投 / 骗大招 (Bait Throw / Grab Reversal)',
+  'okiView.baitThrow.description': '通过垂直跳或后撤步，躲避对方在防守硬直结束后的即时拆投或指令投（如老桑 SA3），并计算确反优势。',
+  'okiView.baitThrow.attacker': '攻方设定 (Attacker)',
+  'okiView.baitThrow.initiator': '起手压制招式',
+  'okiView.baitThrow.initiatorPlaceholder': '搜索攻方起手招式...',
+  'okiView.baitThrow.onBlock': '(被防: {frames}F)',
+  'okiView.baitThrow.drc': '是否取消绿冲 (DRC)',
+  'okiView.baitThrow.drcToggle': '取消绿冲 (耗3格斗气)',
+  'okiView.baitThrow.action': '攻方回避动作',
+  'okiView.baitThrow.jump': '垂直跳 (45F)',
+  'okiView.baitThrow.backdash': '后撤步 ({frames}F)',
+  'okiView.baitThrow.defender': '防守方抢招设定 (Defender)',
+  'okiView.baitThrow.reactionType': '防守方抢招类型',
+  'okiView.baitThrow.throw': '普通拆投',
+  'okiView.baitThrow.invincibleGrab': '无敌投 / 必杀 / SA3',
+  'okiView.baitThrow.throwStartup': '投掷发生帧 (Startup)',
+  'okiView.baitThrow.throwRecovery': '投掷空挥总硬直 (Recovery)',
+  'okiView.baitThrow.selectGrab': '选择防守方指令投/大招',
+  'okiView.baitThrow.grabPlaceholder': '搜索防守方必杀技/超杀...',
+  'okiView.baitThrow.selectDefender': '请在上方选择防守方角色以启用招式搜索',
+  'okiView.baitThrow.safe': '🟢 诱骗成立 (Safe Bait)',
+  'okiView.baitThrow.caught': '🔴 诱骗失败 (Caught / Punished)',
+  'okiView.baitThrow.punishAdvantage': '落地确反优势: +{frames}F',
+  'okiView.baitThrow.flow.defenderAct': '防守方起身/恢复动作',
+  'okiView.baitThrow.flow.grabActive': '抢招/超杀生效',
+  'okiView.baitThrow.flow.baitStart': '我方回避动作开始',
+  'okiView.baitThrow.frameValue': '第 {frame}F',
+  'okiView.baitThrow.timelineTitle': '📊 骗招对齐时间线 (Timeline Alignment)',
+  'okiView.baitThrow.axis': '轴/帧数 (Frame)',
+  'okiView.baitThrow.defenderRecovers': '0F (防守方恢复)',
+  'okiView.baitThrow.attackerRow': '我方 (Attacker)',
+  'okiView.baitThrow.blocked': '{name} (被防)',
+  'okiView.baitThrow.drcBlock': '绿冲取消',
+  'okiView.baitThrow.baitDuration': '{name} (持续 {frames}F)',
+  'okiView.baitThrow.blockstun': '防御硬直 ({frames}F)',
+  'okiView.baitThrow.grabStartup': '抢招发生 ({frames}F)',
+  'okiView.baitThrow.grabWhiff': '空挥硬直 ({frames}F)',
+  'okiView.baitThrow.legend.blocked': '被防招式',
+  'okiView.baitThrow.legend.drc': '绿冲取消 (11F)',
+  'okiView.baitThrow.legend.safe': '安全回避',
+  'okiView.baitThrow.legend.unsafe': '不安全/被命中',
+  'okiView.baitThrow.legend.blockstun': '对手防御硬直',
+  'okiView.baitThrow.legend.grabStartup': '抢招发生',
+  'okiView.baitThrow.legend.grabWhiff': '抢招空挥/收招',
+  'okiView.baitThrow.detailTitle': '📖 骗拆投确反帧数计算详情',
+  'okiView.baitThrow.step.initiator': '我方起手压制招式:',
+  'okiView.baitThrow.step.initiatorValue': '{name} = {frames}F (被防)',
+  'okiView.baitThrow.step.blockstun': '对手防御硬直 (Blockstun):',
+  'okiView.baitThrow.step.drc': '绿冲动作状态:',
+  'okiView.baitThrow.step.drcOn': '有 (前冲占用 11 帧，第 12 帧可行动)',
+  'okiView.baitThrow.step.baitStart': '我方回避动作起始帧 (相对于对手恢复第1帧):',
+  'okiView.baitThrow.step.grab': '对手出招动作:',
+  'okiView.baitThrow.step.grabValue': '{name} (发生: {startup}F, 硬直: {recovery}F, 总共: {total}F)',
+  'okiView.baitThrow.step.grabActive': '对手出招判定生效帧:',
+  'okiView.baitThrow.step.attackerRecover': '我方动作完成/落地帧:',
+  'okiView.baitThrow.step.defenderRecover': '对手空挥/出招完成恢复帧:',
+  'okiView.baitThrow.step.punishAdvantage': '判定确反帧优势 (Punish Advantage):',
+  'okiView.step.safeJump': '安全跳',
+  'okiView.safeJump.collapsedHint': '检查跳入攻击能否压在起身上，同时在对手无敌技生效前落地防御。',
+  'okiView.safeJump.explainLead': '跳入攻击在落地前最后一帧命中起身；',
+  'okiView.safeJump.explainRule': '落地硬直结束 ≤ 无敌技生效帧',
+  'okiView.safeJump.explainTail': '即为安全跳。延迟指跳前动作结束后还需等待的帧数。',
+  'okiView.safeJump.setup': '跳前动作',
+  'okiView.safeJump.jumpTotal': '跳跃总帧',
+  'okiView.safeJump.reversal': '对手反击技',
+  'okiView.safeJump.jumpIn': '跳入攻击',
+  'okiView.safeJump.landingRecovery': '落地硬直',
+  'okiView.safeJump.opponentColumn': '对手 {frames}F',
+  'okiView.safeJump.reversalColumn': '{frames}F 无敌技',
+  'okiView.safeJump.latestPress': '最晚在空中第 {frame} 帧出招',
+  'okiView.safeJump.stuffs': '· 可打掉',
+  'okiView.safeJump.empty': '没有可用的跳入攻击',
+  'okiView.timeline.exportSvg': '导出 SVG',
+  'okiView.timeline.exportPng': '导出 PNG',
+  'okiView.timeline.exportFailed': '图片导出失败，请重试',
+  'okiView.timeline.image.title': '{attacker} vs {defender}',
+  'okiView.timeline.image.setup': '击倒: {knockdown} · 起攻: {setup}',
+  'okiView.timeline.image.knockdown': '击倒 +{frames}F',
+  'okiView.timeline.image.wakeup': '起身 {frame}F',
+  'okiView.timeline.image.reversal': '无敌技发生 {frame}F',
+  'okiView.timeline.image.hit': '命中/被防',
+  'okiView.driveImpact.direct': '直接迸放',
+  'okiView.filler.none': '无追加动作',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof zhCN;
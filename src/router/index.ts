@@ -26,6 +26,26 @@ const router = createRouter({
             name: 'trade-calculator',
             component: () => import('../views/TradeCalculatorView.vue'),
         },
+        {
+            path: '/punish-finder',
+            name: 'punish-finder',
+            component: () => import('../views/PunishFinderView.vue'),
+        },
+        {
+            path: '/matchup/:a/:b',
+            name: 'matchup',
+            component: () => import('../views/MatchupView.vue'),
+        },
+        {
+            path: '/compare',
+            name: 'compare',
+            component: () => import('../views/CompareView.vue'),
+        },
+        {
+            path: '/patch-notes/:id',
+            name: 'patch-notes',
+            component: () => import('../views/PatchNotesView.vue'),
+        },
         {
             path: '/gap-calculator',
             name: 'gap-calculator',
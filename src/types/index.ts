@@ -1,5 +1,7 @@
 // SF6 Frame Data Types
 
+import type { LocalizedText } from '../i18n';
+
 export interface Character {
     id: string;
     name: string;
@@ -14,6 +16,7 @@ export interface CharacterStats {
     backDash: number;     // Back dash total frames
     forwardWalk?: number; // Forward walk speed
     backWalk?: number;    // Back walk speed
+    forwardDashDistance?: number; // Forward dash travel distance in units
 }
 
 export type MoveCategory = 'normal' | 'unique' | 'special' | 'super' | 'throw';
@@ -23,6 +26,7 @@ export interface KnockdownData {
     type: KnockdownType;
     advantage: number; // frames of advantage on knockdown
     backRiseAdvantage?: number; // frames if opponent back rises
+    distance?: number; // distance between the characters when the opponent wakes up (units)
     alternativeAdvantages?: {
         condition: string; // description of the condition (e.g., "Wall Splat")
         advantage: number;
@@ -32,6 +36,7 @@ export interface KnockdownData {
 export interface Move {
     name: string;
     nameZh?: string;
+    nameJa?: string;
     input: string;
     damage: string;
     startup: string;
@@ -43,8 +48,48 @@ export interface Move {
     cancels?: string[];  // What the move can cancel into (Special, Super, Chain, etc.)
     knockdown?: KnockdownData;
     noMeaty?: boolean; // If true, Meaty bonus is always 0
+    range?: number; // Hitbox reach in units, measured from the attacker's position
+    pushback?: MovePushback; // Distance the attacker is pushed away on hit / block (units)
+    invuln?: InvulnRange[];   // Invincible frames, counted from the first frame of the move
+    armor?: ArmorRange[];
+    airborne?: FrameRange[];  // Frames where the character is airborne (immune to throws, counts as air hit)
     notes?: string;
     raw?: any;
+    frames?: ParsedMoveFrames; // Parsed frame cells, attached when the character data is loaded
+}
+
+// Structured form of one frame cell, built by utils/frameValue.ts
+export interface FrameSegment {
+    value: number;
+    max: number | null;      // Upper bound of a range like "13~17"
+    parenthesized: boolean;  // Gap between active segments, or a whiff / alternate value
+}
+
+export interface ParsedFrameValue {
+    text: string;            // Normalized cell text
+    empty: boolean;          // "-", "n/a" or blank
+    leading: number | null;  // Signed value the cell starts with: "-3(-5)" → -3, "KD +40" → null
+    first: number | null;    // First number anywhere: "KD +40" → 40, "(10~12)+3" → 10
+    segments: FrameSegment[];
+    variants: number[];      // Bare parenthesized values: "14(16)" → [16], "-3(-5)" → [-5]
+    range: { min: number; max: number | null } | null; // First range; max is null for "12~"
+    total: number | null;    // Explicit total: "4x6,7,3(34 total)" → 34
+    whiff: number | null;    // Value labelled as whiff: "(Whiff: 20)", "-24 (whiff)"
+    knockdown: { type: 'KD' | 'HKD'; advantage: number | null } | null;
+    sum: number | null;      // Whole cell as a frame count (ranges at their minimum, "AxB" multiplied)
+}
+
+export interface ParsedMoveFrames {
+    startup: ParsedFrameValue;
+    active: ParsedFrameValue;
+    recovery: ParsedFrameValue;
+    onBlock: ParsedFrameValue;
+    onHit: ParsedFrameValue;
+}
+
+export interface MovePushback {
+    hit?: number;
+    block?: number;
 }
 
 export interface FrameData {
@@ -54,6 +99,22 @@ export interface FrameData {
     lastUpdated: string;
 }
 
+// Frame data snapshots (src/data/patches), one per game patch
+// Only the move's names and the fields compared by the patch diff are kept.
+export type SnapshotMove = Pick<Move, 'name' | 'nameZh' | 'nameJa' | 'input' | 'damage' | 'startup' | 'onBlock' | 'onHit' | 'cancels' | 'knockdown'>;
+
+export interface FrameDataSnapshotInfo {
+    id: string;          // Patch id, also the snapshot directory name (e.g. "2026-06-03")
+    label: string;       // Display name, e.g. "Season 3.1"
+    date: string;        // Snapshot date (YYYY-MM-DD)
+}
+
+export interface CharacterSnapshot {
+    characterId: string;
+    lastUpdated: string; // FrameData.lastUpdated at snapshot time
+    moves: SnapshotMove[];
+}
+
 // Combo Data Types
 export interface Combo {
     combo: string;           // Notation string, e.g. "2LP, 5MP~MP>214HP~6P"
@@ -75,22 +136,57 @@ export interface ComboData {
     lastUpdated: string;
 }
 
+// Manual key move files hold plain strings; generated key moves use message keys.
 export interface KeyMove {
-    role: string;            // Short label, e.g. "Pressure", "Anti-Air"
+    role: LocalizedText;     // Short label, e.g. "Pressure", "Anti-Air"
     moveInput: string;       // Stable move reference using input notation
     moveName?: string;       // Optional fallback move name
-    reason: string;          // Why this move is important
-    tags?: string[];         // Optional UI tags
+    reason: LocalizedText;   // Why this move is important
+    tags?: LocalizedText[];  // Optional UI tags
 }
 
 export interface KeyMoveData {
     characterId: string;
     keyMoves: KeyMove[];
     source: 'manual' | 'generated';
-    notes?: string;
+    notes?: LocalizedText;
     lastUpdated?: string;
 }
 
+export type ReversalKind = 'odDp' | 'sa1' | 'sa2' | 'sa3' | 'commandGrab';
+
+export interface FrameRange {
+    start: number;
+    end: number;
+}
+
+export type InvulnType = 'full' | 'strike' | 'throw' | 'projectile' | 'air';
+
+export interface InvulnRange extends FrameRange {
+    types: InvulnType[];
+    partial?: boolean; // Only part of the hurtbox (head, legs) is invincible
+}
+
+export interface ArmorRange extends FrameRange {
+    hits: number | null; // Hits absorbed, null when the source does not say
+}
+
+export interface ReversalEntry {
+    kind: ReversalKind;
+    moveInput: string;       // Stable move reference using input notation
+    moveName: string;
+    startup: number;
+    invincible: FrameRange | null;  // Strike/throw invincible frames; null for command grabs
+    invincibleSource: 'frameData' | 'notes' | 'estimated' | null; // "frameData" = Move.invuln; "estimated" = frame 1 through the first active frame
+}
+
+export interface ReversalData {
+    characterId: string;
+    source: 'generated';
+    lastUpdated: string;
+    reversals: ReversalEntry[];
+}
+
 export interface OkiResult {
     move: Move;
     timing: number; // frames to wait before executing
@@ -99,36 +195,19 @@ export interface OkiResult {
     notes?: string;
 }
 
-// Character list configuration
-export const SF6_CHARACTERS: Character[] = [
-    { id: 'ryu', name: 'Ryu', nameJp: 'リュウ', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Ryu' },
-    { id: 'ken', name: 'Ken', nameJp: 'ケン', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Ken' },
-    { id: 'luke', name: 'Luke', nameJp: 'ルーク', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Luke' },
-    { id: 'jamie', name: 'Jamie', nameJp: 'ジェイミー', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Jamie' },
-    { id: 'chun-li', name: 'Chun-Li', nameJp: '春麗', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Chun-Li' },
-    { id: 'guile', name: 'Guile', nameJp: 'ガイル', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Guile' },
-    { id: 'kimberly', name: 'Kimberly', nameJp: 'キンバリー', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Kimberly' },
-    { id: 'juri', name: 'Juri', nameJp: 'ジュリ', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Juri' },
-    { id: 'manon', name: 'Manon', nameJp: 'マノン', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Manon' },
-    { id: 'marisa', name: 'Marisa', nameJp: 'マリーザ', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Marisa' },
-    { id: 'dee-jay', name: 'Dee Jay', nameJp: 'ディージェイ', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Dee_Jay' },
-    { id: 'cammy', name: 'Cammy', nameJp: 'キャミィ', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Cammy' },
-    { id: 'lily', name: 'Lily', nameJp: 'リリー', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Lily' },
-    { id: 'zangief', name: 'Zangief', nameJp: 'ザンギエフ', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Zangief' },
-    { id: 'jp', name: 'JP', nameJp: 'JP', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/JP' },
-    { id: 'dhalsim', name: 'Dhalsim', nameJp: 'ダルシム', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Dhalsim' },
-    { id: 'honda', name: 'E.Honda', nameJp: 'エドモンド本田', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/E._Honda' },
-    { id: 'blanka', name: 'Blanka', nameJp: 'ブランカ', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Blanka' },
-    { id: 'rashid', name: 'Rashid', nameJp: 'ラシード', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Rashid' },
-    { id: 'aki', name: 'A.K.I.', nameJp: 'アキ', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/A.K.I.' },
-    { id: 'ed', name: 'Ed', nameJp: 'エド', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Ed' },
-    { id: 'akuma', name: 'Akuma', nameJp: '豪鬼', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Akuma' },
-    { id: 'mbison', name: 'M.Bison', nameJp: 'ベガ', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/M._Bison' },
-    { id: 'terry', name: 'Terry', nameJp: 'テリー', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Terry' },
-    { id: 'mai', name: 'Mai', nameJp: '不知火舞', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Mai' },
-    { id: 'elena', name: 'Elena', nameJp: 'エレナ', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Elena' },
-    { id: 'c-viper', name: 'C. Viper', nameJp: 'C. ヴァイパー', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/C.Viper' },
-    { id: 'sagat', name: 'Sagat', nameJp: 'サガト', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Sagat' },
-    { id: 'alex', name: 'Alex', nameJp: 'アレックス', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Alex' },
-    { id: 'ingrid', name: 'Ingrid', nameJp: 'イングリッド', wikiUrl: 'https://wiki.supercombo.gg/w/Street_Fighter_6/Ingrid' },
-];
+// Roster registry entry (src/data/roster.ts)
+export type RosterLocale = 'zh' | 'en' | 'ja';
+
+export interface RosterEntry {
+    id: string;
+    names: Record<RosterLocale, string>;
+    // Nicknames accepted by lookups, e.g. "Gief"; names and the id always match
+    aliases: string[];
+    // 0 = launch roster, then the Year N character pass
+    season: number;
+    // Names used by external sources when they differ from names.en
+    sources?: {
+        fat?: string; // FAT SF6FrameData.json key
+        supercombo?: string; // wiki page under Street_Fighter_6/
+    };
+}
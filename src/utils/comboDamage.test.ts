@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import type { ComboData, FrameData, Move } from '../types';
+import {
+  calculateComboDamage,
+  checkComboDamage,
+  parseComboDamageValues,
+  parseMoveHitDamages,
+} from './comboDamage';
+import { flattenComboNotation, parseComboNotation } from './comboNotation';
+
+const buildMove = (input: string, damage: string, overrides: Partial<Move> = {}): Move => ({
+  name: input,
+  input,
+  damage,
+  startup: '5',
+  active: '3',
+  recovery: '10',
+  onBlock: '-2',
+  onHit: '+3',
+  category: 'normal',
+  ...overrides,
+});
+
+const moves: Move[] = [
+  buildMove('2LK', '200', { cancels: ['Chn', 'Sp'] }),
+  buildMove('2LP', '300', { cancels: ['Chn', 'Sp'] }),
+  buildMove('5LP', '300', { cancels: ['Chn', 'Sp'] }),
+  buildMove('5MP', '600', { cancels: ['Sp'] }),
+  buildMove('2MP', '600', { cancels: ['Sp'] }),
+  buildMove('6HP', '400x2'),
+  buildMove('5HP', '800'),
+  buildMove('214LK', '900', { category: 'special' }),
+  buildMove('214MK', '1000', { category: 'special' }),
+  buildMove('214KK', '200x5', { category: 'special' }),
+  buildMove('623HP', '1400(800)', { category: 'special' }),
+  buildMove('MPMK or 66', '-', { name: 'Drive Rush Cancel', category: 'throw' }),
+  buildMove('HPHK', '800', { name: 'Drive Impact', category: 'special' }),
+  buildMove('236236P', '400x5 (2000)', { name: 'Shinku Hadoken', category: 'super' }),
+];
+
+const calculate = (notation: string) => calculateComboDamage(
+  flattenComboNotation(parseComboNotation(notation, moves).sequence),
+  moves,
+);
+
+describe('parseMoveHitDamages', () => {
+  it('splits multi-hit damage strings and ignores parenthesized totals', () => {
+    expect(parseMoveHitDamages('800')).toEqual([800]);
+    expect(parseMoveHitDamages('400x2')).toEqual([400, 400]);
+    expect(parseMoveHitDamages('300,200x3,600 (1500)')).toEqual([300, 200, 200, 200, 600]);
+    expect(parseMoveHitDamages('-')).toEqual([]);
+  });
+});
+
+describe('parseComboDamageValues', () => {
+  it('reads slash separated route damage', () => {
+    expect(parseComboDamageValues('1190/1490')).toEqual([1190, 1490]);
+    expect(parseComboDamageValues('-')).toEqual([]);
+  });
+});
+
+describe('calculateComboDamage', () => {
+  it('scales per move and starts light normal combos at 80% on the second move', () => {
+    expect(calculate('2LK ~ 2LP ~ 5LP > 214LK').total).toBe(1190);
+    expect(calculate('5MP, 2MP > 214MK').total).toBe(2000);
+    // Multi-hit moves keep one scaling value for every hit.
+    expect(calculate('2LK ~ 2LP ~ 5LP > 214KK, 623HP').total).toBe(1950);
+  });
+
+  it('adds the counter hit bonus to the starter only', () => {
+    const result = calculate('CH 5MP, 5HP > 214MK');
+
+    expect(result.starter).toBe('ch');
+    expect(result.hits.map(hit => hit.damage)).toEqual([720, 800, 800]);
+  });
+
+  it('applies the drive rush multiplier and super minimum scaling', () => {
+    const result = calculate('5MP, 2MP > DR 5HP, 5HP, 5HP, 5HP, 5HP, 5HP > 236236P');
+
+    expect(result.hits.slice(2, 4).map(hit => hit.scaling)).toEqual([68, 59]);
+    expect(result.hits.at(-1)?.scaling).toBe(30);
+  });
+
+  it('starts Drive Impact combos at 80% on the second move', () => {
+    const result = calculate('PC DI, 5HP > 214MK');
+
+    expect(result.hits.map(hit => [hit.scaling, hit.damage])).toEqual([[100, 960], [80, 640], [70, 700]]);
+  });
+
+  it('ignores a Drive Rush before the first hit', () => {
+    expect(calculate('DR 5MP, 2MP > 214MK').total).toBe(calculate('5MP, 2MP > 214MK').total);
+  });
+
+  it('reports moves it cannot resolve', () => {
+    expect(calculate('5MP > Denjin 214MK').unresolved).toEqual(['Denjin']);
+  });
+});
+
+describe('checkComboDamage', () => {
+  it('matches slash damage values to the route alternatives', () => {
+    const check = checkComboDamage({ combo: '2LK ~ 2LP ~ 5LP > 214LK/623HP', damage: '1190/1490', section: 'BnB' }, moves);
+
+    expect(check.routes.map(route => route.result.total)).toEqual([1190, 1490]);
+    expect(check.hasMismatch).toBe(false);
+  });
+
+  it('flags scraped damage that differs from the calculation', () => {
+    const check = checkComboDamage({ combo: '5MP, 2MP > 214MK', damage: '2400', section: 'BnB' }, moves);
+
+    expect(check.hasMismatch).toBe(true);
+    expect(check.routes[0]?.result.total).toBe(2000);
+  });
+
+  it('does not flag routes it cannot pair with the damage values', () => {
+    const check = checkComboDamage({ combo: '5MP, 2MP > 214MK/214LK', damage: '2400', section: 'BnB' }, moves);
+
+    expect(check.routes[0]?.ambiguous).toBe(true);
+    expect(check.hasMismatch).toBe(false);
+  });
+
+  it('does not flag routes with unresolved tokens', () => {
+    const check = checkComboDamage({ combo: '5MP > Denjin 214MK', damage: '9999', section: 'BnB' }, moves);
+
+    expect(check.hasMismatch).toBe(false);
+  });
+});
+
+const comboFiles = import.meta.glob<ComboData>('../data/combos/*.json', { eager: true, import: 'default' });
+const characterFiles = import.meta.glob<FrameData>('../data/characters/*.json', { eager: true, import: 'default' });
+
+describe('checkComboDamage on the scraped combo guides', () => {
+  // The guides quote older patches than the frame data, so most differences are damage changes
+  // rather than scaling errors; ComboList does not flag them until this is close to every route.
+  it('reproduces the damage of a stable share of the routes it can check', () => {
+    let checked = 0;
+    let matched = 0;
+    for (const [path, data] of Object.entries(comboFiles)) {
+      const moves = characterFiles[path.replace('/combos/', '/characters/')]?.moves;
+      if (!moves) continue;
+      for (const combo of data.combos) {
+        for (const route of checkComboDamage(combo, moves).routes) {
+          if (route.ambiguous || route.result.unresolved.length > 0 || route.result.hits.length === 0) continue;
+          checked++;
+          if (!route.mismatch) matched++;
+        }
+      }
+    }
+
+    expect(checked).toBeGreaterThan(400);
+    expect(matched / checked).toBeGreaterThanOrEqual(0.35);
+  });
+});
@@ -0,0 +1,232 @@
+import type { Combo, Move } from '../types';
+import {
+  flattenComboNotation,
+  getSuperArtLevel,
+  parseComboNotation,
+  type ComboNotationFlatStep,
+  type ComboNotationNode,
+  type ComboNotationSequence,
+} from './comboNotation';
+
+export type ComboDamageStarter = 'normal' | 'ch' | 'pc';
+
+export interface ComboDamageHit {
+  token: string;
+  move: Move;
+  baseDamage: number;
+  // Scaling percentage applied to this hit (after starter penalties and super minimums).
+  scaling: number;
+  damage: number;
+}
+
+export interface ComboDamageResult {
+  starter: ComboDamageStarter;
+  hits: ComboDamageHit[];
+  total: number;
+  // Move tokens without usable damage; the total is a lower bound when this is non-empty.
+  unresolved: string[];
+}
+
+export interface ComboDamageRoute {
+  expected: number;
+  result: ComboDamageResult;
+  mismatch: boolean;
+  // The notation has alternatives that can't be paired with the damage values one to one.
+  ambiguous: boolean;
+}
+
+export interface ComboDamageCheck {
+  routes: ComboDamageRoute[];
+  // True when at least one route is complete and differs from the scraped value.
+  hasMismatch: boolean;
+}
+
+// The first two moves are unscaled, then -10% per move down to 10%.
+const COMBO_SCALING_STEP = 10;
+const COMBO_SCALING_MIN = 10;
+// Counter Hit and Punish Counter both add 20% to the starter.
+const COUNTER_DAMAGE_BONUS = 1.2;
+// Throws on a Punish Counter deal 170% ("1200 (2040)" in the frame data).
+const PUNISH_COUNTER_THROW_BONUS = 1.7;
+// Once a Drive Rush is used after the first hit, every later move is scaled by a further 85%.
+const DRIVE_RUSH_SCALING_MULTIPLIER = 0.85;
+// Super arts never scale below this percentage.
+const SUPER_MINIMUM_SCALING: Record<number, number> = {
+  1: 30,
+  2: 40,
+  3: 50,
+};
+// Scraped values within this range are treated as rounding differences.
+const DAMAGE_MISMATCH_TOLERANCE = 10;
+
+/**
+ * Per-hit damage from a frame data `damage` string:
+ * "800" → [800], "400x2" → [400, 400], "300,200x3,600 (1500)" → [300, 200, 200, 200, 600].
+ * Values in parentheses (totals, alternate versions) are ignored.
+ */
+export function parseMoveHitDamages(damage: string | undefined): number[] {
+  if (!damage) return [];
+  const withoutNotes = damage.replace(/\([^)]*\)/g, '');
+  const hits: number[] = [];
+
+  for (const part of withoutNotes.split(/[,+]/)) {
+    const match = part.trim().match(/^(\d+)(?:\s*[x×]\s*(\d+))?/i);
+    if (!match) continue;
+    const value = parseInt(match[1]!, 10);
+    const count = match[2] ? parseInt(match[2], 10) : 1;
+    for (let i = 0; i < count; i++) hits.push(value);
+  }
+
+  return hits;
+}
+
+// "1190/1490" → [1190, 1490]; empty when the field has no numbers.
+export function parseComboDamageValues(damage: string | undefined): number[] {
+  if (!damage) return [];
+  return damage
+    .split('/')
+    .map(part => part.match(/\d+/)?.[0])
+    .filter((value): value is string => Boolean(value))
+    .map(value => parseInt(value, 10));
+}
+
+function isLightNormal(move: Move): boolean {
+  return move.category === 'normal' && /^(?:[1-9]|j\.)?L[PK]$/i.test(move.input.trim());
+}
+
+// Light normals and Drive Impact carry starter scaling: the second move is already at 80%.
+function hasStarterScaling(move: Move): boolean {
+  return isLightNormal(move) || move.input.replace(/\s+/g, '').toUpperCase() === 'HPHK';
+}
+
+function getComboScaling(moveIndex: number, starterScaling: boolean): number {
+  if (moveIndex === 0) return 100;
+  // Scaled starters skip the second unscaled hit: 100, 80, 70, ...
+  const step = starterScaling ? moveIndex + 1 : moveIndex < 2 ? 0 : moveIndex;
+  return Math.max(COMBO_SCALING_MIN, 100 - step * COMBO_SCALING_STEP);
+}
+
+// Follow-ups only list the damage of their last part, so "5MP~LK~HK" also includes the
+// "5MP" and "5MP~LK" hits when those moves exist.
+function expandTargetComboMoves(move: Move, moves: Move[]): Move[] {
+  const parts = move.input.split('~');
+  const chain: Move[] = [];
+  for (let i = 1; i < parts.length; i++) {
+    const prefix = parts.slice(0, i).join('~');
+    const prefixMove = moves.find(candidate => candidate.input === prefix);
+    if (prefixMove) chain.push(prefixMove);
+  }
+  return [...chain, move];
+}
+
+/**
+ * Computes combo damage with SF6 scaling:
+ * - 100% / 100% / 80% / 70% ... per move down to 10%, light normal and Drive Impact starters
+ *   start at 80% on the 2nd move;
+ * - CH / PC starters add 20% to the first move (70% for Punish Counter throws);
+ * - moves after a mid-combo Drive Rush are scaled by a further 85%; a Drive Rush before the
+ *   first hit is not part of the combo;
+ * - SA1 / SA2 / SA3 keep at least 30% / 40% / 50%.
+ */
+export function calculateComboDamage(steps: ComboNotationFlatStep[], moves: Move[]): ComboDamageResult {
+  let starter: ComboDamageStarter = 'normal';
+  const hits: ComboDamageHit[] = [];
+  const unresolved: string[] = [];
+  let hitMoveCount = 0;
+  let starterScaling = false;
+  let driveRushUsed = false;
+
+  for (const { node } of steps) {
+    if (node.kind === 'starter') {
+      if (hitMoveCount === 0) starter = node.hitState;
+      continue;
+    }
+    if (node.kind === 'driveRush') {
+      if (hitMoveCount > 0) driveRushUsed = true;
+      continue;
+    }
+    if (node.kind !== 'move') continue;
+    if (!node.move) {
+      unresolved.push(node.text);
+      continue;
+    }
+
+    const superLevel = getSuperArtLevel(moves, node.move);
+    for (const move of expandTargetComboMoves(node.move, moves)) {
+      const hitDamages = parseMoveHitDamages(move.damage);
+      if (hitDamages.length === 0) {
+        if (move.damage && move.damage !== '-') unresolved.push(node.text);
+        continue;
+      }
+
+      // Every hit of a multi-hit move shares the scaling of the move's first hit.
+      const moveIndex = hitMoveCount++;
+      if (moveIndex === 0) starterScaling = hasStarterScaling(move);
+
+      let scaling = getComboScaling(moveIndex, starterScaling);
+      if (driveRushUsed) scaling = Math.floor(scaling * DRIVE_RUSH_SCALING_MULTIPLIER);
+      if (superLevel) scaling = Math.max(scaling, SUPER_MINIMUM_SCALING[superLevel] ?? 0);
+      scaling = Math.max(COMBO_SCALING_MIN, scaling);
+
+      const counterBonus = moveIndex > 0 || starter === 'normal'
+        ? 1
+        : starter === 'pc' && move.category === 'throw' ? PUNISH_COUNTER_THROW_BONUS : COUNTER_DAMAGE_BONUS;
+      for (const baseDamage of hitDamages) {
+        hits.push({
+          token: node.text,
+          move,
+          baseDamage,
+          scaling,
+          damage: Math.floor(baseDamage * counterBonus * scaling / 100),
+        });
+      }
+    }
+  }
+
+  return {
+    starter,
+    hits,
+    total: hits.reduce((sum, hit) => sum + hit.damage, 0),
+    unresolved,
+  };
+}
+
+function countAlternativeOptions(sequence: ComboNotationSequence, out: number[] = []): number[] {
+  const visit = (node: ComboNotationNode) => {
+    if (node.kind === 'alternatives') {
+      out.push(node.options.length);
+      node.options.forEach(visit);
+    }
+    if (node.kind === 'group') countAlternativeOptions(node.sequence, out);
+    if (node.kind === 'repeat') visit(node.node);
+  };
+  sequence.forEach(step => visit(step.node));
+  return out;
+}
+
+/**
+ * Compares a scraped combo against the calculated damage. "a/b/c" damage values are matched
+ * to the route alternatives that have the same number of options ("214MK/236MK/623HP");
+ * routes that can't be paired that way are calculated but never flagged.
+ */
+export function checkComboDamage(combo: Combo, moves: Move[]): ComboDamageCheck {
+  const expectedValues = parseComboDamageValues(combo.damage);
+  if (expectedValues.length === 0) return { routes: [], hasMismatch: false };
+
+  const { sequence, unresolved } = parseComboNotation(combo.combo, moves);
+  const ambiguous = countAlternativeOptions(sequence).some(count => count !== expectedValues.length);
+  const routes = expectedValues.map((expected, routeIndex): ComboDamageRoute => {
+    const steps = flattenComboNotation(sequence, options => (
+      expectedValues.length > 1 && options.length === expectedValues.length ? routeIndex : 0
+    ));
+    const result = calculateComboDamage(steps, moves);
+    if (unresolved.length > 0) result.unresolved = [...new Set([...unresolved, ...result.unresolved])];
+    const mismatch = !ambiguous
+      && result.unresolved.length === 0
+      && result.hits.length > 0
+      && Math.abs(result.total - expected) > DAMAGE_MISMATCH_TOLERANCE;
+    return { expected, result, mismatch, ambiguous };
+  });
+
+  return { routes, hasMismatch: routes.some(route => route.mismatch) };
+}
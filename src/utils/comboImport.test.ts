@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { Move } from '../types';
+import { importComboNotation } from './comboImport';
+
+const buildMove = (input: string, overrides: Partial<Move> = {}): Move => ({
+  name: input,
+  input,
+  damage: '500',
+  startup: '5',
+  active: '3',
+  recovery: '10',
+  onBlock: '-2',
+  onHit: '+3',
+  category: 'normal',
+  ...overrides,
+});
+
+const moves: Move[] = [
+  buildMove('2LK', { cancels: ['Chn', 'Sp'] }),
+  buildMove('2LP', { cancels: ['Chn', 'Sp'] }),
+  buildMove('5LP', { cancels: ['Chn', 'Sp'] }),
+  buildMove('5MP', { cancels: ['Sp'] }),
+  buildMove('5MP~LK'),
+  buildMove('5MP~LK~HK'),
+  buildMove('214LK', { category: 'special' }),
+  buildMove('214MK', { category: 'special' }),
+  buildMove('623HP', { category: 'special' }),
+  buildMove('MPMK or 66', { name: 'Drive Rush Cancel', category: 'throw' }),
+];
+
+describe('importComboNotation', () => {
+  it('maps chain, link and cancel separators to step transitions', () => {
+    const result = importComboNotation('2LK ~ 2LP ~ 5LP > 214LK', moves);
+
+    expect(result.starterState).toBe('normal');
+    expect(result.unresolved).toEqual([]);
+    expect(result.steps.map(step => [step.move.input, step.separator, step.transitionMode])).toEqual([
+      ['2LK', 'link', 'link'],
+      ['2LP', 'chain', 'cancel'],
+      ['5LP', 'chain', 'cancel'],
+      ['214LK', 'cancel', 'cancel'],
+    ]);
+  });
+
+  it('reads the CH / PC starter and keeps the first alternative', () => {
+    const result = importComboNotation('PC 2LP/5LP, 5MP > 214MK/(623HP, 5LP)', moves);
+
+    expect(result.starterState).toBe('pc');
+    expect(result.steps.map(step => step.move.input)).toEqual(['2LP', '5MP', '214MK']);
+  });
+
+  it('merges target combos and resolves generic buttons', () => {
+    const result = importComboNotation('5MP~LK~HK > 214K', moves);
+
+    expect(result.steps.map(step => step.move.input)).toEqual(['5MP~LK~HK', '214LK']);
+  });
+
+  it('turns DR into a drive rush cancel buff step', () => {
+    const result = importComboNotation('5MP > DRC 5MP, 2LP', moves);
+
+    expect(result.steps.map(step => [step.move.input, step.outcomeType, step.transitionMode])).toEqual([
+      ['5MP', 'hit', 'link'],
+      ['MPMK or 66', 'buff', 'cancel'],
+      ['5MP', 'hit', 'link'],
+      ['2LP', 'hit', 'link'],
+    ]);
+  });
+
+  it('reports unresolved tokens without breaking the cancel that follows', () => {
+    const result = importComboNotation('5LP, meaty 5MP > Denjin 214LK', moves);
+
+    expect(result.unresolved).toEqual(['Denjin']);
+    expect(result.steps.map(step => [step.move.input, step.transitionMode])).toEqual([
+      ['5LP', 'link'],
+      ['5MP', 'link'],
+      ['214LK', 'cancel'],
+    ]);
+  });
+});
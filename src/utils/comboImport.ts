@@ -0,0 +1,88 @@
+import type { Move } from '../types';
+import type { CalculationMode, HitState } from './gapCalculator';
+import {
+  flattenComboNotation,
+  parseComboNotation,
+  type ComboNotationSeparator,
+} from './comboNotation';
+
+export type ComboSeparator = ComboNotationSeparator;
+
+export interface ImportedComboStep {
+  token: string;
+  move: Move;
+  transitionMode: CalculationMode;
+  separator: ComboSeparator;
+  outcomeType: 'hit' | 'buff';
+}
+
+export interface ComboImportResult {
+  starterState: HitState;
+  steps: ImportedComboStep[];
+  unresolved: string[];
+}
+
+const SEPARATOR_STRENGTH: Record<ComboSeparator, number> = {
+  link: 0,
+  chain: 1,
+  cancel: 2,
+};
+
+/**
+ * Builds gap-calculator combo steps from a notation string such as
+ * "CH 2LK ~ 2LP ~ 5LP > 214LK" or a `Combo.combo` from the combo list.
+ *
+ * - `,` is a link, `>` a cancel and `~` a chain (or target combo when the joined input exists).
+ * - A leading "CH" / "PC" sets the starter hit state.
+ * - DR / DRC becomes a Drive Rush Cancel step with the buff outcome.
+ * - Tokens that match no move are reported in `unresolved` and skipped.
+ */
+export function importComboNotation(notation: string, moves: Move[]): ComboImportResult {
+  const parsed = parseComboNotation(notation, moves);
+
+  let starterState: HitState = 'normal';
+  const steps: ImportedComboStep[] = [];
+  const unresolved: string[] = [];
+  let carriedSeparator: ComboSeparator | null = null;
+
+  for (const { node, separator: rawSeparator } of flattenComboNotation(parsed.sequence)) {
+    // A skipped token keeps its separator for the next step ("5MP > Denjin 214LK" stays a cancel).
+    const separator: ComboSeparator = carriedSeparator && SEPARATOR_STRENGTH[carriedSeparator] > SEPARATOR_STRENGTH[rawSeparator]
+      ? carriedSeparator
+      : rawSeparator;
+
+    if (node.kind === 'starter') {
+      if (steps.length === 0) starterState = node.hitState;
+      continue;
+    }
+
+    if (node.kind === 'driveRush' && node.move) {
+      steps.push({
+        token: node.text,
+        move: node.move,
+        transitionMode: 'cancel',
+        separator: 'cancel',
+        outcomeType: 'buff',
+      });
+      carriedSeparator = null;
+      continue;
+    }
+
+    if (node.kind !== 'move' || !node.move) {
+      if (node.kind !== 'modifier') unresolved.push(node.text);
+      carriedSeparator = separator;
+      continue;
+    }
+
+    steps.push({
+      token: node.text,
+      move: node.move,
+      transitionMode: separator === 'link' ? 'link' : 'cancel',
+      separator,
+      outcomeType: 'hit',
+    });
+    carriedSeparator = null;
+  }
+
+  return { starterState, steps, unresolved };
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import type { Combo, Move } from '../types';
+import {
+  flattenComboNotation,
+  parseComboNotation,
+  tokenizeComboNotation,
+  validateComboNotations,
+} from './comboNotation';
+
+const buildMove = (input: string, overrides: Partial<Move> = {}): Move => ({
+  name: input,
+  input,
+  damage: '500',
+  startup: '5',
+  active: '3',
+  recovery: '10',
+  onBlock: '-2',
+  onHit: '+3',
+  category: 'normal',
+  ...overrides,
+});
+
+const moves: Move[] = [
+  buildMove('2LP', { cancels: ['Chn', 'Sp'] }),
+  buildMove('5MP', { cancels: ['Sp'] }),
+  buildMove('5MP~MP'),
+  buildMove('214HP', { category: 'special' }),
+  buildMove('214HP~6P', { category: 'special' }),
+  buildMove('8HK', { category: 'special' }),
+  buildMove('j.HP'),
+  buildMove('MPMK or 66', { name: 'Drive Rush Cancel', category: 'throw' }),
+  buildMove('MPMK~66', { name: 'Parry Drive Rush', category: 'throw' }),
+  buildMove('236236P', { name: 'Shinku Hadoken', category: 'super' }),
+  buildMove('214214P', { name: 'Shin Hashogeki Lv.1', category: 'super' }),
+  buildMove('214214P (Hold Lv.2)', { name: 'Shin Hashogeki Lv.2', category: 'super' }),
+  buildMove('236236K', { name: 'Shin Shoryuken', category: 'super' }),
+  buildMove('5MK'),
+  buildMove('2MP'),
+  buildMove('4HK'),
+  buildMove('236LP', { category: 'special' }),
+  buildMove('236HP', { name: 'Gou Hadoken', category: 'special' }),
+  buildMove('236{P}', { name: 'Gou Hadoken Lv.2', category: 'special' }),
+  buildMove('236K', { name: 'Demon Raid', category: 'special' }),
+  buildMove('236K~K', { name: 'Demon Blade Kick', category: 'special' }),
+  buildMove('HPHK', { name: 'Drive Impact', category: 'special' }),
+];
+
+const flatInputs = (notation: string) => flattenComboNotation(parseComboNotation(notation, moves).sequence)
+  .map(step => ('move' in step.node ? step.node.move?.input : step.node.kind));
+
+describe('tokenizeComboNotation', () => {
+  it('splits separators, full-width punctuation and repeat suffixes', () => {
+    expect(tokenizeComboNotation('2LPx2，5MP xx 214HP（j.HP）')).toEqual([
+      '2LP', 'x2', ',', '5MP', '>', '214HP', '(', 'j.HP', ')',
+    ]);
+  });
+});
+
+describe('parseComboNotation', () => {
+  it('builds the token tree for the Combo.combo example', () => {
+    const parsed = parseComboNotation('2LP, 5MP~MP>214HP~6P', moves);
+
+    expect(parsed.unresolved).toEqual([]);
+    expect(parsed.sequence.map(step => [step.separator, step.node.kind, step.node.text])).toEqual([
+      ['link', 'move', '2LP'],
+      ['link', 'move', '5MP~MP'],
+      ['cancel', 'move', '214HP~6P'],
+    ]);
+  });
+
+  it('keeps alternatives, groups and repeats as nodes', () => {
+    const parsed = parseComboNotation('CH 2LPx2 > 214HP/(DR 5MP, SA1)', moves);
+    const [starter, repeat, alternatives] = parsed.sequence;
+
+    expect(starter?.node).toMatchObject({ kind: 'starter', hitState: 'ch' });
+    expect(repeat?.node).toMatchObject({ kind: 'repeat', count: 2 });
+    expect(alternatives?.separator).toBe('cancel');
+    expect(alternatives?.node.kind).toBe('alternatives');
+    if (alternatives?.node.kind !== 'alternatives') return;
+    expect(alternatives.node.options.map(option => option.kind)).toEqual(['move', 'group']);
+  });
+
+  it('resolves drive rush, super art levels and notation decorations', () => {
+    const parsed = parseComboNotation('PDR 9j.HP, [2]8HK, DRC dl.5MP > SA2', moves);
+    const inputs = flattenComboNotation(parsed.sequence).map(step => ('move' in step.node ? step.node.move?.input : step.node.kind));
+
+    expect(parsed.unresolved).toEqual([]);
+    expect(inputs).toEqual(['MPMK~66', 'j.HP', '8HK', 'MPMK or 66', '5MP', '214214P']);
+  });
+
+  it('merges target combos only across "~", onto the last alternative', () => {
+    const parsed = parseComboNotation('5MK/2MP/5MP~MP > DRC~6HP, 2HP', moves);
+    const alternatives = parsed.sequence[0]?.node;
+
+    expect(parsed.unresolved).toEqual(['6HP', '2HP']);
+    expect(alternatives?.kind).toBe('alternatives');
+    if (alternatives?.kind !== 'alternatives') return;
+    expect(alternatives.options.map(option => option.text)).toEqual(['5MK', '2MP', '5MP~MP']);
+    expect(parseComboNotation('2LP, 5MP > MP', moves).unresolved).toEqual(['MP']);
+  });
+
+  it('resolves strength-specific follow-ups, held buttons and charge levels', () => {
+    expect(flatInputs('4HK>236HK~K, 214HP')).toEqual(['4HK', '236K~K', '214HP']);
+    expect(flatInputs('214HP~6P,4HK>236[HP](lvl.2), 214HP')).toEqual(['214HP~6P', '4HK', '236{P}', '214HP']);
+  });
+
+  it('skips emphasis, delay and hit-state qualifiers', () => {
+    expect(flatInputs('DI (blocked) 2LP>236LP')).toEqual(['HPHK', 'modifier', '2LP', '236LP']);
+    expect(flatInputs('Drive Impact, dl 5MP > 236HP!')).toEqual(['HPHK', 'modifier', '5MP', '236HP']);
+  });
+
+  it('reads "Super" as the first super art unless a level follows', () => {
+    expect(flatInputs('PDR 2LP/5MP > 214HP/Super')).toEqual(['MPMK~66', '2LP', '214HP']);
+    expect(parseComboNotation('5MP > Super', moves).unresolved).toEqual([]);
+    expect(flatInputs('5MP > Super 3')).toEqual(['5MP', '236236K']);
+  });
+
+  it('reports unresolved move tokens only when moves are given', () => {
+    expect(parseComboNotation('5MP > Denjin 214HP', moves).unresolved).toEqual(['Denjin']);
+    expect(parseComboNotation('5MP > Denjin 214HP').unresolved).toEqual([]);
+  });
+});
+
+describe('flattenComboNotation', () => {
+  it('takes the first alternative, inlines groups and chains repeated light normals', () => {
+    const parsed = parseComboNotation('2LPx3 > (214HP, 5MP)/SA3, dash, 5MP', moves);
+
+    expect(flattenComboNotation(parsed.sequence).map(step => [step.separator, step.node.text])).toEqual([
+      ['link', '2LP'],
+      ['chain', '2LP'],
+      ['chain', '2LP'],
+      ['cancel', '214HP'],
+      ['link', '5MP'],
+      ['link', 'dash'],
+      ['link', '5MP'],
+    ]);
+  });
+});
+
+describe('validateComboNotations', () => {
+  it('lists combos with unresolved tokens', () => {
+    const combos: Combo[] = [
+      { combo: '2LP, 5MP > 214HP', section: 'BnB' },
+      { combo: '5MP > 623HP', section: 'BnB' },
+    ];
+
+    expect(validateComboNotations(combos, moves)).toEqual([
+      { combo: combos[1], unresolved: ['623HP'] },
+    ]);
+  });
+});
@@ -0,0 +1,433 @@
+import type { Combo, Move } from '../types';
+import { isDriveRushCancelMove } from './gapCalculator';
+
+export type ComboNotationSeparator = 'link' | 'cancel' | 'chain';
+
+export type ComboNotationNode =
+  | { kind: 'move'; text: string; move: Move | null }
+  | { kind: 'driveRush'; text: string; move: Move | null }
+  | { kind: 'jump'; text: string }
+  | { kind: 'dash'; text: string }
+  | { kind: 'starter'; text: string; hitState: 'ch' | 'pc' }
+  | { kind: 'modifier'; text: string }
+  | { kind: 'group'; text: string; sequence: ComboNotationSequence }
+  | { kind: 'alternatives'; text: string; options: ComboNotationNode[] }
+  | { kind: 'repeat'; text: string; count: number; node: ComboNotationNode };
+
+export type ComboNotationLeaf = Exclude<ComboNotationNode, { kind: 'group' | 'alternatives' | 'repeat' }>;
+
+export interface ComboNotationStep {
+  // How this step connects to the previous one (the first step is always 'link').
+  separator: ComboNotationSeparator;
+  node: ComboNotationNode;
+}
+
+export type ComboNotationSequence = ComboNotationStep[];
+
+export interface ComboNotationFlatStep {
+  separator: ComboNotationSeparator;
+  node: ComboNotationLeaf;
+}
+
+export interface ParsedComboNotation {
+  source: string;
+  sequence: ComboNotationSequence;
+  // Move tokens that matched nothing in the character's moves (empty when no moves were given).
+  unresolved: string[];
+}
+
+const SEPARATOR_TOKENS: Record<string, ComboNotationSeparator> = {
+  ',': 'link',
+  '>': 'cancel',
+  '~': 'chain',
+};
+
+const SEPARATOR_STRENGTH: Record<ComboNotationSeparator, number> = {
+  link: 0,
+  chain: 1,
+  cancel: 2,
+};
+
+const STARTER_WORDS: Record<string, 'ch' | 'pc'> = {
+  ch: 'ch',
+  pc: 'pc',
+  'counter hit': 'ch',
+  'punish counter': 'pc',
+};
+const DRIVE_RUSH_WORDS = new Set(['dr', 'drc', 'pdr', 'drive rush']);
+const DASH_WORDS = new Set(['dash', '66', 'microwalk']);
+const JUMP_WORDS = new Set(['jump', 'nj', 'sj', 'fj', 'bj', 'jump-in']);
+// Qualifiers that describe timing or the hit state but are not actions of their own.
+const MODIFIER_WORDS = new Set(['meaty', 'delay', 'delayed', 'dl', 'dl.', 'whiff', 'blocked']);
+// "Super" alone is the first super art; "Super 2" names the level.
+const SUPER_WORD = 'super';
+
+const REPEAT_PATTERN = /^[x×](\d+)$/i;
+const REPEAT_SUFFIX_PATTERN = /^(.+?)[x×](\d+)$/i;
+// Charge level of the previous move: "236[HP](lvl.2)" is tokenized as "236[HP]", "lvl.2".
+const LEVEL_PATTERN = /^lvl?\.?(\d)$/i;
+
+export function tokenizeComboNotation(notation: string): string[] {
+  return notation
+    .replace(/[，]/g, ',')
+    .replace(/[（]/g, '(')
+    .replace(/[）]/g, ')')
+    .replace(/[～]/g, '~')
+    .replace(/\bxx\b/gi, '>')
+    .replace(/\(\s*(lvl?\.?\s*\d)\s*\)/gi, (_, level: string) => ` ${level.replace(/\s+/g, '')} `)
+    .split(/([,>~/()])|\s+/)
+    .filter((token): token is string => Boolean(token && token.trim()))
+    .flatMap((token) => {
+      // "2LPx3" → "2LP", "x3"
+      const repeat = token.match(REPEAT_SUFFIX_PATTERN);
+      if (repeat && !REPEAT_PATTERN.test(token)) return [repeat[1]!, `x${repeat[2]}`];
+      return [token];
+    });
+}
+
+function normalizeInput(input: string): string {
+  return input.replace(/\s+/g, '').toUpperCase();
+}
+
+// Notation-only decorations: "dl." (delay), "[4]6MP" (charge), "236[HP]" (held button),
+// "9j.MP" (jump direction), "236HP!" (emphasis).
+function stripNotationDecorations(text: string): string {
+  return text
+    .replace(/^dl\./i, '')
+    .replace(/^\[\d\]/, '')
+    .replace(/\[((?:[LMH]?[PK])+)\]$/i, '$1')
+    .replace(/^[789](j\.)/i, '$1')
+    .replace(/!+$/, '');
+}
+
+function findMoveByInput(moves: Move[], text: string): Move | null {
+  const normalized = normalizeInput(text);
+  if (!normalized) return null;
+
+  const exact = moves.find(move => normalizeInput(move.input) === normalized);
+  if (exact) return exact;
+
+  // Generic button ("214K", "6P") resolves to the first strength that exists.
+  const generic = normalized.match(/^(.*?)([PK])$/);
+  if (generic && !/[LMH]$/.test(generic[1] ?? '')) {
+    for (const strength of ['L', 'M', 'H']) {
+      const match = moves.find(move => normalizeInput(move.input) === `${generic[1]}${strength}${generic[2]}`);
+      if (match) return match;
+    }
+  }
+
+  // A strength the frame data lists under one generic input ("236HK" → "236K").
+  const specific = normalized.match(/^(.*\d)[LMH]([PK])$/);
+  if (specific) return moves.find(move => normalizeInput(move.input) === `${specific[1]}${specific[2]}`) ?? null;
+
+  return null;
+}
+
+// SA1 / SA2 / SA3 follow the order supers appear in the frame data (Lv.2/Lv.3/CA variants share a level).
+function listSuperArtNames(moves: Move[]): string[] {
+  const names: string[] = [];
+  for (const move of moves) {
+    if (move.category !== 'super') continue;
+    const baseName = getSuperArtBaseName(move);
+    if (!names.includes(baseName)) names.push(baseName);
+  }
+  return names;
+}
+
+const LEVEL_NAME_PATTERN = /^(.*?)\s*\(?Lv\.(\d)\)?$/i;
+
+// "Gou Hadoken" at level 2 → "Gou Hadoken Lv.2"; the move itself when no such version exists.
+function findLevelVersion(moves: Move[], move: Move, level: number): Move {
+  return moves.find(candidate => {
+    const match = candidate.name.match(LEVEL_NAME_PATTERN);
+    return !!match && match[1] === move.name && parseInt(match[2]!, 10) === level;
+  }) ?? move;
+}
+
+function getSuperArtBaseName(move: Move): string {
+  return move.name.replace(/\s*(Lv\.\d|\(CA\))$/i, '').trim();
+}
+
+function findSuperArtMove(moves: Move[], level: number): Move | null {
+  const baseName = listSuperArtNames(moves)[level - 1];
+  if (!baseName) return null;
+  return moves.find(move => move.category === 'super' && getSuperArtBaseName(move) === baseName) ?? null;
+}
+
+// 1-3 for super arts, null for anything else.
+export function getSuperArtLevel(moves: Move[], move: Move): number | null {
+  if (move.category !== 'super') return null;
+  const index = listSuperArtNames(moves).indexOf(getSuperArtBaseName(move));
+  return index >= 0 ? index + 1 : null;
+}
+
+export function findMoveByNotation(moves: Move[], text: string): Move | null {
+  const stripped = stripNotationDecorations(text);
+  const byInput = findMoveByInput(moves, text) ?? (stripped !== text ? findMoveByInput(moves, stripped) : null);
+  if (byInput) return byInput;
+
+  const superArt = stripped.match(/^SA([123])$/i);
+  if (superArt) return findSuperArtMove(moves, parseInt(superArt[1]!, 10));
+
+  const lower = stripped.toLowerCase();
+  // Drive Impact is listed under each character's own name, but always on HPHK.
+  if (lower === 'di' || lower === 'drive impact') return moves.find(move => normalizeInput(move.input) === 'HPHK') ?? null;
+  return moves.find(move => move.name.toLowerCase() === lower) ?? null;
+}
+
+function findDriveRushMove(moves: Move[], text: string): Move | null {
+  const parryDriveRush = moves.find(move => move.name.toLowerCase() === 'parry drive rush') ?? null;
+  if (text.toLowerCase() === 'pdr') return parryDriveRush;
+  return moves.find(isDriveRushCancelMove) ?? parryDriveRush;
+}
+
+type ParserState = {
+  tokens: string[];
+  index: number;
+  moves: Move[] | null;
+};
+
+function parseSequence(state: ParserState): ComboNotationSequence {
+  const sequence: ComboNotationSequence = [];
+  let pending: ComboNotationSeparator = 'link';
+  let expectUnit = true;
+
+  while (state.index < state.tokens.length) {
+    const token = state.tokens[state.index]!;
+    if (token === ')') break;
+
+    const separator = SEPARATOR_TOKENS[token];
+    if (separator) {
+      // "~>" keeps the stronger separator.
+      pending = expectUnit && sequence.length > 0 && SEPARATOR_STRENGTH[pending] > SEPARATOR_STRENGTH[separator]
+        ? pending
+        : separator;
+      expectUnit = true;
+      state.index++;
+      continue;
+    }
+
+    const repeat = token.match(REPEAT_PATTERN);
+    const last = sequence[sequence.length - 1];
+    if (repeat && last) {
+      state.index++;
+      last.node = {
+        kind: 'repeat',
+        text: `${last.node.text}x${repeat[1]}`,
+        count: parseInt(repeat[1]!, 10),
+        node: last.node,
+      };
+      continue;
+    }
+
+    const level = token.match(LEVEL_PATTERN);
+    if (level && last) {
+      state.index++;
+      const node = last.node;
+      last.node = node.kind === 'move' && node.move && state.moves
+        ? { ...node, text: `${node.text}(${token})`, move: findLevelVersion(state.moves, node.move, parseInt(level[1]!, 10)) }
+        : { ...node, text: `${node.text}(${token})` };
+      continue;
+    }
+
+    if (token === '/') {
+      state.index++;
+      if (last) last.node = appendAlternative(last.node, parseUnit(state));
+      continue;
+    }
+
+    const node = parseUnit(state);
+    if (!mergeTargetCombo(state, last, node, pending)) {
+      sequence.push({ separator: sequence.length === 0 ? 'link' : pending, node });
+    }
+    pending = 'link';
+    expectUnit = false;
+  }
+
+  return sequence;
+}
+
+function appendAlternative(node: ComboNotationNode, option: ComboNotationNode): ComboNotationNode {
+  if (node.kind === 'alternatives') {
+    return { ...node, text: `${node.text}/${option.text}`, options: [...node.options, option] };
+  }
+  return { kind: 'alternatives', text: `${node.text}/${option.text}`, options: [node, option] };
+}
+
+function parseUnit(state: ParserState): ComboNotationNode {
+  const token = state.tokens[state.index++] ?? '';
+
+  if (token === '(') {
+    const sequence = parseSequence(state);
+    state.index++; // ')'
+    return {
+      kind: 'group',
+      text: `(${sequence.map(step => step.node.text).join(' ')})`,
+      sequence,
+    };
+  }
+
+  // Two-word keywords ("Drive Rush", "Counter Hit")
+  const next = state.tokens[state.index];
+  const twoWord = next ? `${token} ${next}`.toLowerCase() : '';
+  const lower = token.toLowerCase();
+
+  const twoWordStarter = STARTER_WORDS[twoWord];
+  if (twoWordStarter) {
+    state.index++;
+    return { kind: 'starter', text: `${token} ${next}`, hitState: twoWordStarter };
+  }
+  const starter = STARTER_WORDS[lower];
+  if (starter) return { kind: 'starter', text: token, hitState: starter };
+
+  if (DRIVE_RUSH_WORDS.has(twoWord)) {
+    state.index++;
+    let text = `${token} ${next}`;
+    if (state.tokens[state.index]?.toLowerCase() === 'cancel') {
+      text += ` ${state.tokens[state.index++]}`;
+    }
+    return { kind: 'driveRush', text, move: state.moves ? findDriveRushMove(state.moves, text) : null };
+  }
+  if (DRIVE_RUSH_WORDS.has(lower)) {
+    return { kind: 'driveRush', text: token, move: state.moves ? findDriveRushMove(state.moves, token) : null };
+  }
+
+  if (twoWord === 'drive impact') {
+    state.index++;
+    const text = `${token} ${next}`;
+    return { kind: 'move', text, move: state.moves ? findMoveByNotation(state.moves, text) : null };
+  }
+
+  if (lower === SUPER_WORD) {
+    const superLevel = next?.match(/^[123]$/) ? parseInt(next, 10) : 1;
+    const text = superLevel === 1 && next !== '1' ? token : `${token} ${state.tokens[state.index++]}`;
+    return { kind: 'move', text, move: state.moves ? findSuperArtMove(state.moves, superLevel) : null };
+  }
+
+  if (DASH_WORDS.has(lower)) return { kind: 'dash', text: token };
+  if (JUMP_WORDS.has(lower)) return { kind: 'jump', text: token };
+  if (MODIFIER_WORDS.has(lower)) return { kind: 'modifier', text: token };
+
+  const move = state.moves ? findMoveByNotation(state.moves, token) : null;
+  return { kind: 'move', text: token, move };
+}
+
+function findTargetCombo(moves: Move[], previous: ComboNotationNode, node: ComboNotationNode): ComboNotationNode | null {
+  if (previous.kind !== 'move' || !previous.move || node.kind !== 'move') return null;
+  const targetCombo = findMoveByNotation(moves, `${previous.move.input}~${node.text}`);
+  return targetCombo ? { kind: 'move', text: `${previous.text}~${node.text}`, move: targetCombo } : null;
+}
+
+// Target combos and follow-ups are stored with their full input ("5MP~LK~HK", "236K~K"). After
+// alternatives ("5MK/2MP/5MP~MP") the follow-up belongs to the last option.
+function mergeTargetCombo(
+  state: ParserState,
+  last: ComboNotationStep | undefined,
+  node: ComboNotationNode,
+  separator: ComboNotationSeparator,
+): boolean {
+  if (!state.moves || !last || separator !== 'chain') return false;
+
+  if (last.node.kind === 'alternatives') {
+    const options = last.node.options;
+    const merged = findTargetCombo(state.moves, options[options.length - 1]!, node);
+    if (!merged) return false;
+    last.node = { ...last.node, text: `${last.node.text}~${node.text}`, options: [...options.slice(0, -1), merged] };
+    return true;
+  }
+
+  const merged = findTargetCombo(state.moves, last.node, node);
+  if (!merged) return false;
+  last.node = merged;
+  return true;
+}
+
+function collectUnresolved(sequence: ComboNotationSequence, out: string[]) {
+  const visit = (node: ComboNotationNode) => {
+    if (node.kind === 'move' && !node.move) out.push(node.text);
+    if (node.kind === 'group') collectUnresolved(node.sequence, out);
+    if (node.kind === 'alternatives') node.options.forEach(visit);
+    if (node.kind === 'repeat') visit(node.node);
+  };
+  sequence.forEach(step => visit(step.node));
+}
+
+/**
+ * Parses a combo notation string (e.g. "2LP, 5MP~MP>214HP~6P") into a token tree.
+ *
+ * - `,` link, `>` (or `xx`) cancel, `~` chain / target combo
+ * - `/` alternatives bind to the unit on each side, `( … )` groups a sub-route
+ * - `xN` repeats the previous unit, `(lvl.N)` picks the charge level of the previous move
+ * - DR / DRC, dash, jump, CH / PC starters and timing qualifiers become their own nodes
+ *
+ * When `moves` is given, move tokens are resolved against the character's frame data and
+ * tokens that match nothing are listed in `unresolved`.
+ */
+export function parseComboNotation(notation: string, moves?: Move[]): ParsedComboNotation {
+  const state: ParserState = { tokens: tokenizeComboNotation(notation), index: 0, moves: moves ?? null };
+  const sequence = parseSequence(state);
+
+  // Stray ")" are skipped so the rest of the string still parses.
+  while (state.index < state.tokens.length) {
+    state.index++;
+    const rest = parseSequence(state);
+    if (rest[0] && sequence.length > 0) rest[0].separator = 'link';
+    sequence.push(...rest);
+  }
+
+  const unresolved: string[] = [];
+  if (moves) collectUnresolved(sequence, unresolved);
+  return { source: notation, sequence, unresolved };
+}
+
+function isChainRepeat(node: ComboNotationNode): boolean {
+  if (node.kind !== 'move' || !node.move?.cancels) return false;
+  return node.move.cancels.some(cancel => ['CHAIN', 'CHN'].includes(cancel.toUpperCase()));
+}
+
+/**
+ * Flattens the tree into the route that is actually performed: the first option of every
+ * alternative (or the one `pickOption` returns), groups inlined and repeats expanded
+ * (chained when the move chains into itself).
+ */
+export function flattenComboNotation(
+  sequence: ComboNotationSequence,
+  pickOption: (options: ComboNotationNode[]) => number = () => 0,
+): ComboNotationFlatStep[] {
+  const steps: ComboNotationFlatStep[] = [];
+
+  const visit = (node: ComboNotationNode, separator: ComboNotationSeparator) => {
+    switch (node.kind) {
+      case 'group':
+        node.sequence.forEach((step, index) => visit(step.node, index === 0 ? separator : step.separator));
+        return;
+      case 'alternatives': {
+        const option = node.options[pickOption(node.options)] ?? node.options[0];
+        if (option) visit(option, separator);
+        return;
+      }
+      case 'repeat': {
+        const repeatSeparator: ComboNotationSeparator = isChainRepeat(node.node) ? 'chain' : 'link';
+        for (let i = 0; i < node.count; i++) visit(node.node, i === 0 ? separator : repeatSeparator);
+        return;
+      }
+      default:
+        steps.push({ separator, node });
+    }
+  };
+
+  sequence.forEach(step => visit(step.node, step.separator));
+  return steps;
+}
+
+export interface ComboNotationIssue {
+  combo: Combo;
+  unresolved: string[];
+}
+
+// Scraped combos whose notation references inputs the character's frame data doesn't have.
+export function validateComboNotations(combos: Combo[], moves: Move[]): ComboNotationIssue[] {
+  return combos
+    .map(combo => ({ combo, unresolved: parseComboNotation(combo.combo, moves).unresolved }))
+    .filter(issue => issue.unresolved.length > 0);
+}
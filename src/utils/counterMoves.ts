@@ -0,0 +1,37 @@
+import type { LocalizedMessage } from '../i18n';
+import type { Move } from '../types';
+import { getMoveFrames } from './frameValue';
+import { hasReversalInvuln } from './moveProperties';
+
+export type GapStatus = {
+  message: LocalizedMessage;
+  className: 'status-danger' | 'status-warning' | 'status-safe';
+};
+
+/**
+ * My moves that beat the opponent's next button after a gap:
+ * gap >= 1 allows anything with startup <= gap, gap <= 0 (true blockstring) only moves
+ * strike invincible until they become active (Move.invuln).
+ * Sorted by startup, then damage.
+ */
+export function findCounterMoves(moves: Move[], gap: number, limit = 15): Move[] {
+  return moves
+    .filter(move => {
+      const startup = getMoveFrames(move).startup.first ?? 0;
+      if (startup <= 0) return false;
+      if (gap <= 0) return hasReversalInvuln(move);
+      return startup <= gap;
+    })
+    .sort((a, b) => {
+      const startupDiff = (getMoveFrames(a).startup.first ?? 0) - (getMoveFrames(b).startup.first ?? 0);
+      if (startupDiff !== 0) return startupDiff;
+      return (parseInt(b.damage) || 0) - (parseInt(a.damage) || 0);
+    })
+    .slice(0, limit);
+}
+
+export function getGapStatus(gap: number): GapStatus {
+  if (gap <= 0) return { message: { key: 'counter.gap.trueBlockstring' }, className: 'status-danger' };
+  if (gap < 4) return { message: { key: 'counter.gap.fastInterrupt', params: { gap } }, className: 'status-warning' };
+  return { message: { key: 'counter.gap.easyInterrupt', params: { gap } }, className: 'status-safe' };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { FrameData, Move } from '../types';
+import { validateFrameData } from './dataValidation';
+
+const buildMove = (input: string, overrides: Partial<Move> = {}): Move => ({
+  name: input,
+  nameZh: input,
+  input,
+  damage: '500',
+  startup: '5',
+  active: '3',
+  recovery: '10',
+  onBlock: '-2',
+  onHit: '+3',
+  category: 'normal',
+  ...overrides,
+});
+
+const buildFrameData = (moves: Move[]): FrameData => ({
+  character: { id: 'test', name: 'Test' },
+  stats: { health: 10000, forwardDash: 19, backDash: 23 },
+  moves,
+  lastUpdated: '2026-01-01',
+});
+
+const codesOf = (data: unknown) => validateFrameData(data, 'file').map(issue => [issue.severity, issue.code, issue.input]);
+
+describe('validateFrameData', () => {
+  it('accepts consistent moves', () => {
+    const data = buildFrameData([
+      // 4 + 3 + 10 = 17F total; 3 + 10 - 2 = 11F blockstun
+      buildMove('5MP', { raw: { total: 17, blockstun: 11 } }),
+      buildMove('2HK', { onHit: 'HKD +30', knockdown: { type: 'hard', advantage: 30 } }),
+      // A wall splat with frame advantage is not a knockdown
+      buildMove('8HP', { onHit: 'Wall Splat +1(+33)' }),
+    ]);
+
+    expect(validateFrameData(data, 'test')).toEqual([]);
+  });
+
+  it('cross-checks raw totals and blockstun against the derived values', () => {
+    const data = buildFrameData([
+      buildMove('5MP', { raw: { total: 20, blockstun: 12 } }),
+      // Multi-hit cells are not compared with the single-hit blockstun formula.
+      buildMove('4HK', { active: '5(5)3', recovery: '20(22)', raw: { blockstun: 30 } }),
+    ]);
+
+    expect(codesOf(data)).toEqual([
+      ['warning', 'total-mismatch', '5MP'],
+      ['warning', 'blockstun-mismatch', '5MP'],
+    ]);
+  });
+
+  it('flags schema errors, duplicates, missing nameZh and knockdowns without data', () => {
+    const data = buildFrameData([
+      buildMove('5LP'),
+      buildMove('5LP'),
+      buildMove('5LP', { name: 'Stand LP (far)' }),
+      buildMove('236HK', { nameZh: undefined, onHit: 'KD +40' }),
+      { ...buildMove('2LP'), category: 'kick' } as unknown as Move,
+      buildMove('2MK', { invuln: [{ start: 9, end: 4, types: ['full'] }] }),
+    ]);
+
+    expect(codesOf(data)).toEqual([
+      ['error', 'duplicate-input', '5LP'],
+      ['warning', 'duplicate-input', '5LP'],
+      ['warning', 'missing-name-zh', '236HK'],
+      ['error', 'missing-knockdown', '236HK'],
+      ['error', 'invalid-move', '2LP'],
+      ['error', 'invalid-move', '2MK'],
+    ]);
+  });
+
+  it('reports files that are not frame data', () => {
+    expect(codesOf({ character: { id: 'x' } })).toEqual([['error', 'invalid-frame-data', undefined]]);
+  });
+});
@@ -0,0 +1,211 @@
+import type { FrameData, KnockdownType, Move, MoveCategory } from '../types';
+import { calculateMoveTotalFrames } from './frameTotals';
+import { parseFrameCell } from './frameValue';
+import { calculateMoveStats } from './gapCalculator';
+
+// Checks scraped character JSON against what the calculators expect (scripts/validate-data.ts).
+
+export type DataIssueSeverity = 'error' | 'warning';
+
+export type DataIssueCode =
+  | 'invalid-frame-data'
+  | 'invalid-move'
+  | 'unparsable-startup'
+  | 'total-mismatch'
+  | 'blockstun-mismatch'
+  | 'duplicate-input'
+  | 'missing-name-zh'
+  | 'missing-knockdown';
+
+export type DataIssue = {
+  severity: DataIssueSeverity;
+  code: DataIssueCode;
+  characterId: string;
+  // Index in FrameData.moves; absent for character-level issues.
+  moveIndex?: number;
+  input?: string;
+  message: string;
+};
+
+const MOVE_CATEGORIES: MoveCategory[] = ['normal', 'unique', 'special', 'super', 'throw'];
+const KNOCKDOWN_TYPES: KnockdownType[] = ['soft', 'hard', 'none'];
+const REQUIRED_STRING_FIELDS = ['name', 'input', 'damage', 'startup', 'active', 'recovery', 'onBlock', 'onHit'] as const;
+// onHit text of a move that knocks down, e.g. "KD +40", "HKD +30", "Wall Splat KD +65".
+// A bare wall splat ("Wall Splat +1(+33)") leaves the opponent standing, so it does not count.
+const KNOCKDOWN_ON_HIT_PATTERN = /\b(?:h?kd|knockdown)\b/i;
+// Cells with no frame value
+const NO_FRAME_DATA_PATTERN = /^(?:-+|n\/a|)$/i;
+
+function isPlainFrameCell(value: string): boolean {
+  return /^[+-]?\d+$/.test(value.trim());
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isFrameRangeList(value: unknown): boolean {
+  return Array.isArray(value) && value.every(range => {
+    const { start, end } = (range ?? {}) as Record<string, unknown>;
+    return isFiniteNumber(start) && isFiniteNumber(end) && start >= 1 && start <= end;
+  });
+}
+
+// Schema problems of one move; an empty list means the move has the shape of `Move`.
+function getMoveSchemaErrors(move: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  for (const field of REQUIRED_STRING_FIELDS) {
+    if (typeof move[field] !== 'string') errors.push(`${field} should be a string`);
+  }
+  if (typeof move.name === 'string' && !move.name.trim()) errors.push('name is empty');
+  if (!MOVE_CATEGORIES.includes(move.category as MoveCategory)) errors.push(`unknown category "${String(move.category)}"`);
+  if (move.nameZh !== undefined && typeof move.nameZh !== 'string') errors.push('nameZh should be a string');
+  if (move.nameJa !== undefined && typeof move.nameJa !== 'string') errors.push('nameJa should be a string');
+  if (move.cancels !== undefined && (!Array.isArray(move.cancels) || move.cancels.some(c => typeof c !== 'string'))) {
+    errors.push('cancels should be an array of strings');
+  }
+  if (move.range !== undefined && !isFiniteNumber(move.range)) errors.push('range should be a number');
+  for (const field of ['invuln', 'armor', 'airborne'] as const) {
+    if (move[field] !== undefined && !isFrameRangeList(move[field])) errors.push(`${field} should be an array of { start, end } frame ranges (1 <= start <= end)`);
+  }
+
+  if (move.pushback !== undefined) {
+    const pushback = move.pushback as Record<string, unknown> | null;
+    if (!pushback || typeof pushback !== 'object'
+      || (pushback.hit !== undefined && !isFiniteNumber(pushback.hit))
+      || (pushback.block !== undefined && !isFiniteNumber(pushback.block))) {
+      errors.push('pushback should be { hit?: number, block?: number }');
+    }
+  }
+
+  if (move.knockdown !== undefined) {
+    const knockdown = move.knockdown as Record<string, unknown> | null;
+    if (!knockdown || typeof knockdown !== 'object'
+      || !KNOCKDOWN_TYPES.includes(knockdown.type as KnockdownType)
+      || !isFiniteNumber(knockdown.advantage)) {
+      errors.push('knockdown should be { type: soft|hard|none, advantage: number }');
+    }
+  }
+
+  return errors;
+}
+
+function withoutRaw(move: Move): Move {
+  const { raw: _raw, ...rest } = move;
+  return rest;
+}
+
+function validateMove(move: Move, index: number, characterId: string): DataIssue[] {
+  const issues: DataIssue[] = [];
+  const at = { characterId, moveIndex: index, input: move.input };
+
+  if (!NO_FRAME_DATA_PATTERN.test(move.startup.trim()) && parseFrameCell(move.startup).first === null) {
+    issues.push({ ...at, severity: 'warning', code: 'unparsable-startup', message: `cannot parse startup "${move.startup}"` });
+  }
+
+  // Cross-check the scraped totals with the values the calculators derive from the text cells.
+  const rawTotal = move.raw?.total;
+  if (isFiniteNumber(rawTotal)) {
+    const total = calculateMoveTotalFrames(withoutRaw(move));
+    if (total !== null && total !== rawTotal) {
+      issues.push({
+        ...at,
+        severity: 'warning',
+        code: 'total-mismatch',
+        message: `total ${total}F does not match raw.total ${rawTotal}F`,
+      });
+    }
+  }
+
+  // active + recovery + onBlock only holds for single-hit moves with plain frame cells.
+  const rawBlockstun = move.raw?.blockstun;
+  if (isFiniteNumber(rawBlockstun) && [move.active, move.recovery, move.onBlock].every(isPlainFrameCell)) {
+    const { blockstun } = calculateMoveStats(withoutRaw(move));
+    if (blockstun !== rawBlockstun) {
+      issues.push({
+        ...at,
+        severity: 'warning',
+        code: 'blockstun-mismatch',
+        message: `derived blockstun ${blockstun}F does not match raw.blockstun ${rawBlockstun}F`,
+      });
+    }
+  }
+
+  if (!move.nameZh) {
+    issues.push({ ...at, severity: 'warning', code: 'missing-name-zh', message: `missing nameZh (${move.name})` });
+  }
+
+  if (KNOCKDOWN_ON_HIT_PATTERN.test(move.onHit) && !move.knockdown) {
+    issues.push({
+      ...at,
+      severity: 'error',
+      code: 'missing-knockdown',
+      message: `onHit is "${move.onHit}" but there is no knockdown data`,
+    });
+  }
+
+  return issues;
+}
+
+/** All problems found in one character file; `characterId` falls back to the file name. */
+export function validateFrameData(data: unknown, fallbackId: string): DataIssue[] {
+  const frameData = data as Partial<FrameData> | null;
+  const characterId = typeof frameData?.character?.id === 'string' ? frameData.character.id : fallbackId;
+
+  if (!frameData || typeof frameData !== 'object' || !Array.isArray(frameData.moves)) {
+    return [{ severity: 'error', code: 'invalid-frame-data', characterId, message: 'missing moves array' }];
+  }
+
+  const issues: DataIssue[] = [];
+  if (!frameData.stats || !isFiniteNumber(frameData.stats.forwardDash) || !isFiniteNumber(frameData.stats.backDash)) {
+    issues.push({ severity: 'error', code: 'invalid-frame-data', characterId, message: 'stats is missing forwardDash / backDash' });
+  }
+  if (typeof frameData.lastUpdated !== 'string') {
+    issues.push({ severity: 'error', code: 'invalid-frame-data', characterId, message: 'missing lastUpdated' });
+  }
+
+  const moves = frameData.moves;
+  const seenInputs = new Map<string, number>();
+  moves.forEach((raw, index) => {
+    const schemaErrors = getMoveSchemaErrors(raw as unknown as Record<string, unknown>);
+    if (schemaErrors.length > 0) {
+      issues.push({
+        severity: 'error',
+        code: 'invalid-move',
+        characterId,
+        moveIndex: index,
+        input: typeof raw?.input === 'string' ? raw.input : undefined,
+        message: schemaErrors.join('; '),
+      });
+      return;
+    }
+
+    const firstIndex = seenInputs.get(raw.input);
+    if (firstIndex === undefined) {
+      seenInputs.set(raw.input, index);
+    } else if (moves[firstIndex]!.name === raw.name) {
+      issues.push({
+        severity: 'error',
+        code: 'duplicate-input',
+        characterId,
+        moveIndex: index,
+        input: raw.input,
+        message: `duplicate of move #${firstIndex} (${raw.name})`,
+      });
+    } else {
+      issues.push({
+        severity: 'warning',
+        code: 'duplicate-input',
+        characterId,
+        moveIndex: index,
+        input: raw.input,
+        message: `same input as move #${firstIndex} (${moves[firstIndex]!.name})`,
+      });
+    }
+
+    issues.push(...validateMove(raw, index, characterId));
+  });
+
+  return issues;
+}
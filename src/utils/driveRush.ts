@@ -1,5 +1,6 @@
 import type { Move } from '../types';
-import { calculateMoveTotalFrames, parseStartupFirstActiveFrame } from './frameTotals';
+import { calculateMoveTotalFrames } from './frameTotals';
+import { getMoveFrameValue } from './frameValue';
 import { isAirborneMove } from './moveFilters';
 
 /**
@@ -45,13 +46,13 @@ export function calculateDriveRushAttackTiming(params: {
   };
 }
 
-export function getDriveRushActionTotalFrames(move: Pick<Move, 'startup' | 'active' | 'recovery' | 'raw'>): number | null {
+export function getDriveRushActionTotalFrames(move: Pick<Move, 'startup' | 'active' | 'recovery' | 'raw' | 'frames'>): number | null {
   const moveTotalFrames = calculateMoveTotalFrames(move);
   return moveTotalFrames === null ? null : DRIVE_RUSH_EFFECTIVE_STARTUP_OFFSET + moveTotalFrames;
 }
 
-export function getDriveRushMoveStartup(move: Pick<Move, 'startup'>): number | null {
-  return parseStartupFirstActiveFrame(move.startup);
+export function getDriveRushMoveStartup(move: Pick<Move, 'startup' | 'frames'>): number | null {
+  return getMoveFrameValue(move, 'startup').first;
 }
 
 export function isDriveRushFollowUpMove(move: Move): boolean {
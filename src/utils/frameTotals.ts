@@ -1,147 +1,46 @@
 import type { Move } from '../types';
+import { getMoveFrameValue, getWhiffRecoveryFrames, parseFrameCell } from './frameValue';
 
-function normalizeFrameText(value: string): string {
-  return value
-    .replace(/[−–—]/g, '-')
-    .replace(/[＋]/g, '+')
-    .replace(/[×✕✖]/g, 'x')
-    .replace(/\s+/g, ' ')
-    .trim();
-}
-
-function hasNoFrameData(value: string): boolean {
-  const lowered = value.toLowerCase();
-  return lowered === '-' || lowered === '--' || lowered === 'n/a';
-}
-
-function extractAllNumbers(value: string): number[] {
-  const matches = value.match(/\d+/g);
-  if (!matches) return [];
-  return matches.map(n => parseInt(n, 10));
-}
-
-function parseExplicitTotal(value: string): number | null {
-  const totalMatch = value.match(/(\d+)\s*total/i);
-  if (!totalMatch || !totalMatch[1]) return null;
-  return parseInt(totalMatch[1], 10);
-}
-
-function normalizeRanges(value: string): string {
-  return value
-    .replace(/(\d+)\s*~\s*(\d+)/g, '$1')
-    .replace(/(\d+)\s*~\s*/g, '$1');
-}
-
-function evaluateFrameExpression(value: string): number | null {
-  if (!value || hasNoFrameData(value)) return null;
-
-  const explicitTotal = parseExplicitTotal(value);
-  if (explicitTotal !== null) return explicitTotal;
-
-  let normalized = normalizeRanges(value);
-
-  // Resolve terms like "2x3" / "2*3" first, then sum remaining numbers.
-  const multPattern = /(\d+)\s*[x*]\s*(\d+)/i;
-  while (multPattern.test(normalized)) {
-    normalized = normalized.replace(multPattern, (_, a: string, b: string) => {
-      return String(parseInt(a, 10) * parseInt(b, 10));
-    });
-  }
-
-  const numbers = extractAllNumbers(normalized);
-  if (numbers.length === 0) return null;
-  return numbers.reduce((sum, n) => sum + n, 0);
-}
+// Number-valued readers of single frame cells, kept for callers holding raw text.
 
 export function parseStartupFirstActiveFrame(value: string | number | undefined): number | null {
-  if (value === undefined || value === null) return null;
-  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
-
-  const normalized = normalizeFrameText(value);
-  if (!normalized || hasNoFrameData(normalized)) return null;
+  return parseFrameCell(value).first;
+}
 
-  const numbers = extractAllNumbers(normalized);
-  return numbers.length > 0 ? numbers[0] ?? null : null;
+// Leading value of "-36(-38)" or "-3 / Wall Splat HKD +72"; "-" and text-only cells ("KD +40") are null.
+export function parseLeadingFrameAdvantage(value: string | number | undefined): number | null {
+  return parseFrameCell(value).leading;
 }
 
 export function parseActiveWindowFrames(value: string | number | undefined): number | null {
-  if (value === undefined || value === null) return null;
-  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
-
-  const normalized = normalizeFrameText(value);
-  return evaluateFrameExpression(normalized);
+  return parseFrameCell(value).sum;
 }
 
 export function parseRecoveryTotalFrames(value: string | number | undefined): number | null {
-  if (value === undefined || value === null) return null;
-  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
-
-  const normalized = normalizeFrameText(value);
-  if (!normalized || hasNoFrameData(normalized)) return null;
-
-  // Use the last "(N)" variant as whiff/landing recovery when present.
-  const parenthesized = Array.from(normalized.matchAll(/\((\d+)\)/g))
-    .map(match => parseInt(match[1] ?? '', 10))
-    .filter(n => !isNaN(n));
-  if (parenthesized.length > 0) {
-    return parenthesized[parenthesized.length - 1] ?? null;
-  }
-
-  return evaluateFrameExpression(normalized);
-}
-
-function parseStartupTotalOverride(value: string | number | undefined): number | null {
-  if (value === undefined || value === null || typeof value === 'number') return null;
-
-  const normalized = normalizeFrameText(value);
-  if (!normalized || hasNoFrameData(normalized)) return null;
-
-  const explicitTotal = parseExplicitTotal(normalized);
-  if (explicitTotal !== null) return explicitTotal;
-
-  // Fallback: values like "586~775 (total)" where "total" has no nearby number.
-  if (/\btotal\b/i.test(normalized)) {
-    const numbers = extractAllNumbers(normalized);
-    if (numbers.length > 0) {
-      return numbers[numbers.length - 1] ?? null;
-    }
-  }
-
-  return null;
+  return getWhiffRecoveryFrames(parseFrameCell(value));
 }
 
 function parseRawTotal(value: unknown): number | null {
   if (typeof value === 'number') return Number.isFinite(value) ? value : null;
   if (typeof value !== 'string') return null;
 
-  const normalized = normalizeFrameText(value);
-  if (!normalized || hasNoFrameData(normalized)) return null;
-
-  const explicitTotal = parseExplicitTotal(normalized);
-  if (explicitTotal !== null) return explicitTotal;
-
-  const parenthesized = Array.from(normalized.matchAll(/\((\d+)\)/g))
-    .map(match => parseInt(match[1] ?? '', 10))
-    .filter(n => !isNaN(n));
-  if (parenthesized.length > 0) {
-    return parenthesized[parenthesized.length - 1] ?? null;
-  }
-
-  const numbers = extractAllNumbers(normalized);
-  return numbers.length > 0 ? numbers[0] ?? null : null;
+  const parsed = parseFrameCell(value);
+  return parsed.total ?? parsed.variants[parsed.variants.length - 1] ?? parsed.first;
 }
 
-export function calculateMoveTotalFrames(move: Pick<Move, 'startup' | 'active' | 'recovery' | 'raw'>): number | null {
-  const startup = parseStartupFirstActiveFrame(move.startup);
-  const activeWindow = parseActiveWindowFrames(move.active);
-  const recovery = parseRecoveryTotalFrames(move.recovery);
+export function calculateMoveTotalFrames(
+  move: Pick<Move, 'startup' | 'active' | 'recovery' | 'raw' | 'frames'>,
+): number | null {
+  const startupValue = getMoveFrameValue(move, 'startup');
+  const startup = startupValue.first;
+  const activeWindow = getMoveFrameValue(move, 'active').sum;
+  const recovery = getWhiffRecoveryFrames(getMoveFrameValue(move, 'recovery'));
 
   if (startup !== null && activeWindow !== null && recovery !== null) {
     return Math.max(0, startup - 1) + activeWindow + recovery;
   }
 
-  const startupOverrideTotal = parseStartupTotalOverride(move.startup);
-  if (startupOverrideTotal !== null) return startupOverrideTotal;
+  if (startupValue.total !== null) return startupValue.total;
 
   return parseRawTotal(move.raw?.total);
 }
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { FrameData, Move } from '../types';
+import { getMoveFrames, getWhiffRecoveryFrames, parseFrameCell, withParsedFrames } from './frameValue';
+
+const buildMove = (input: string, overrides: Partial<Move> = {}): Move => ({
+  name: input,
+  input,
+  damage: '500',
+  startup: '5',
+  active: '3',
+  recovery: '10',
+  onBlock: '-2',
+  onHit: '+3',
+  category: 'normal',
+  ...overrides,
+});
+
+describe('parseFrameCell', () => {
+  it('reads leading advantage and parenthesized variants', () => {
+    const parsed = parseFrameCell('-3(-5)');
+    expect(parsed.leading).toBe(-3);
+    expect(parsed.variants).toEqual([-5]);
+    expect(parsed.segments.map(s => [s.value, s.parenthesized])).toEqual([[-3, false], [-5, true]]);
+  });
+
+  it('parses knockdowns without a leading value', () => {
+    const parsed = parseFrameCell('HKD +30(KD +25~28)');
+    expect(parsed.leading).toBeNull();
+    expect(parsed.first).toBe(30);
+    expect(parsed.knockdown).toEqual({ type: 'HKD', advantage: 30 });
+    expect(parsed.range).toEqual({ min: 25, max: 28 });
+  });
+
+  it('treats dashes and blanks as empty', () => {
+    for (const value of ['-', '--', 'n/a', '', undefined]) {
+      const parsed = parseFrameCell(value);
+      expect(parsed.empty).toBe(true);
+      expect(parsed.first).toBeNull();
+      expect(parsed.sum).toBeNull();
+    }
+  });
+
+  it('evaluates active windows with ranges, multipliers and total overrides', () => {
+    expect(parseFrameCell('2(3)4').sum).toBe(9);
+    expect(parseFrameCell('13~17').sum).toBe(13);
+    expect(parseFrameCell('4x6,7,3(34 total)').total).toBe(34);
+    expect(parseFrameCell('4x6,7,3(34 total)').segments.map(s => s.value)).toEqual([24, 7, 3]);
+  });
+
+  it('keeps "+" between frame counts unsigned', () => {
+    expect(parseFrameCell('10+2').segments.map(s => s.value)).toEqual([10, 2]);
+    expect(parseFrameCell('(10~12)+3').first).toBe(10);
+  });
+
+  it('finds labelled whiff values', () => {
+    expect(parseFrameCell('15+15 land(Whiff: 20)').whiff).toBe(20);
+    expect(parseFrameCell('-9* / -24 (whiff)').whiff).toBe(-24);
+    expect(parseFrameCell('-9* / -24 (whiff)').leading).toBe(-9);
+  });
+});
+
+describe('getWhiffRecoveryFrames', () => {
+  it('uses the last bare variant, else the whole cell', () => {
+    expect(getWhiffRecoveryFrames(parseFrameCell('20(24)(28)'))).toBe(28);
+    expect(getWhiffRecoveryFrames(parseFrameCell('26+4 land(Whiff: 25)'))).toBe(55);
+    expect(getWhiffRecoveryFrames(parseFrameCell('15+15 land'))).toBe(30);
+  });
+});
+
+describe('withParsedFrames', () => {
+  it('attaches parsed cells without touching the loaded data', () => {
+    const data: FrameData = {
+      character: { id: 'test', name: 'Test' },
+      stats: { health: 10000, forwardDash: 19, backDash: 23 },
+      moves: [buildMove('5MP', { onBlock: '+1(-1)' })],
+      lastUpdated: '2026-01-01',
+    };
+
+    const parsed = withParsedFrames(data);
+    expect(parsed.moves[0]!.frames?.onBlock.leading).toBe(1);
+    expect(data.moves[0]!.frames).toBeUndefined();
+    expect(getMoveFrames(parsed.moves[0]!)).toBe(parsed.moves[0]!.frames);
+    expect(getMoveFrames(data.moves[0]!).onBlock.leading).toBe(1);
+  });
+});
@@ -0,0 +1,202 @@
+import type { FrameData, FrameSegment, Move, ParsedFrameValue, ParsedMoveFrames } from '../types';
+
+// Single parser for the text frame cells of a Move; the calculators read the parsed form
+// (Move.frames, attached by withParsedFrames when a character file is loaded).
+
+export type FrameField = keyof ParsedMoveFrames;
+
+export const FRAME_FIELDS: FrameField[] = ['startup', 'active', 'recovery', 'onBlock', 'onHit'];
+
+// Signed numbers only where the sign starts a value: "-3(-5)", "KD +40", but "10+2" is 10 and 2.
+const NUMBER_TOKEN_PATTERN = /([+-]?)(\d+)(?:\s*~\s*(\d+)?|\s*x\s*(\d+))?/gi;
+
+export function normalizeFrameText(value: string): string {
+  return value
+    .replace(/[−–—]/g, '-')
+    .replace(/[＋]/g, '+')
+    .replace(/[×✕✖]/g, 'x')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function hasNoFrameData(value: string): boolean {
+  return /^(?:-+|n\/a|)$/i.test(value);
+}
+
+function extractAllNumbers(value: string): number[] {
+  const matches = value.match(/\d+/g);
+  if (!matches) return [];
+  return matches.map(n => parseInt(n, 10));
+}
+
+function parseExplicitTotal(value: string): number | null {
+  const totalMatch = value.match(/(\d+)\s*total/i);
+  if (!totalMatch || !totalMatch[1]) return null;
+  return parseInt(totalMatch[1], 10);
+}
+
+function evaluateFrameExpression(value: string): number | null {
+  if (hasNoFrameData(value)) return null;
+
+  const explicitTotal = parseExplicitTotal(value);
+  if (explicitTotal !== null) return explicitTotal;
+
+  let normalized = value
+    .replace(/(\d+)\s*~\s*(\d+)/g, '$1')
+    .replace(/(\d+)\s*~\s*/g, '$1');
+
+  // Resolve terms like "2x3" / "2*3" first, then sum remaining numbers.
+  const multPattern = /(\d+)\s*[x*]\s*(\d+)/i;
+  while (multPattern.test(normalized)) {
+    normalized = normalized.replace(multPattern, (_, a: string, b: string) => {
+      return String(parseInt(a, 10) * parseInt(b, 10));
+    });
+  }
+
+  const numbers = extractAllNumbers(normalized);
+  if (numbers.length === 0) return null;
+  return numbers.reduce((sum, n) => sum + n, 0);
+}
+
+function parseSegments(text: string): FrameSegment[] {
+  // "(34 total)" states the window length; it is not a gap.
+  const sanitized = text.replace(/\([^)]*total[^)]*\)/gi, '');
+  const segments: FrameSegment[] = [];
+
+  for (const match of sanitized.matchAll(NUMBER_TOKEN_PATTERN)) {
+    const [, sign, digits, rangeMax, multiplier] = match;
+    const before = sanitized.slice(0, match.index);
+    const depth = (before.match(/\(/g)?.length ?? 0) - (before.match(/\)/g)?.length ?? 0);
+    const magnitude = parseInt(digits!, 10) * (multiplier ? parseInt(multiplier, 10) : 1);
+    const startsValue = match.index === 0 || /[\s(/:,]/.test(before[before.length - 1]!);
+    const signed = sign === '-' && startsValue ? -magnitude : magnitude;
+
+    segments.push({
+      value: signed,
+      max: rangeMax ? parseInt(rangeMax, 10) : null,
+      parenthesized: depth > 0,
+    });
+  }
+
+  return segments;
+}
+
+function parseFirstNumber(text: string): number | null {
+  const match = text.match(/(?:^|[\s(/:,])([+-]?\d+)|(\d+)/);
+  if (!match) return null;
+  return parseInt(match[1] ?? match[2]!, 10);
+}
+
+function parseRange(text: string): ParsedFrameValue['range'] {
+  const match = text.match(/(\d+)\s*~\s*(\d+)?/);
+  if (!match) return null;
+  return { min: parseInt(match[1]!, 10), max: match[2] ? parseInt(match[2], 10) : null };
+}
+
+function parseTotal(text: string): number | null {
+  const explicitTotal = parseExplicitTotal(text);
+  if (explicitTotal !== null) return explicitTotal;
+
+  // Values like "586~775 (total)" where "total" has no number right before it.
+  if (/\btotal\b/i.test(text)) {
+    const numbers = extractAllNumbers(text);
+    return numbers[numbers.length - 1] ?? null;
+  }
+  return null;
+}
+
+function parseWhiff(text: string): number | null {
+  const match = text.match(/whiff:?\s*([+-]?\d+)/i)
+    ?? text.match(/([+-]?\d+)\)?\s*(?:land\s*)?\(?whiff\b/i);
+  return match ? parseInt(match[1]!, 10) : null;
+}
+
+function parseKnockdown(text: string): ParsedFrameValue['knockdown'] {
+  const match = text.match(/\b(H?KD)\b\s*(?:([+-])\s*(\d+))?/i);
+  if (!match) return null;
+  const advantage = match[3] ? parseInt(match[3], 10) * (match[2] === '-' ? -1 : 1) : null;
+  return { type: match[1]!.toUpperCase() as 'KD' | 'HKD', advantage };
+}
+
+function buildFrameValue(text: string): ParsedFrameValue {
+  if (hasNoFrameData(text)) {
+    return {
+      text,
+      empty: true,
+      leading: null,
+      first: null,
+      segments: [],
+      variants: [],
+      range: null,
+      total: null,
+      whiff: null,
+      knockdown: null,
+      sum: null,
+    };
+  }
+
+  const leading = text.match(/^[+-]?\d+/);
+  return {
+    text,
+    empty: false,
+    leading: leading ? parseInt(leading[0], 10) : null,
+    first: parseFirstNumber(text),
+    segments: parseSegments(text),
+    variants: Array.from(text.matchAll(/\(\s*([+-]?\d+)\s*\)/g), match => parseInt(match[1]!, 10)),
+    range: parseRange(text),
+    total: parseTotal(text),
+    whiff: parseWhiff(text),
+    knockdown: parseKnockdown(text),
+    sum: evaluateFrameExpression(text),
+  };
+}
+
+// Cells repeat a lot across the roster ("-2", "KD +40"), so parsed values are shared per text.
+// Treat the returned objects as read-only.
+const parsedCells = new Map<string, ParsedFrameValue>();
+
+export function parseFrameCell(value: string | number | undefined): ParsedFrameValue {
+  const text = value === undefined || value === null ? '' : normalizeFrameText(String(value));
+  let parsed = parsedCells.get(text);
+  if (!parsed) {
+    parsed = buildFrameValue(text);
+    parsedCells.set(text, parsed);
+  }
+  return parsed;
+}
+
+export function parseMoveFrames(move: Pick<Move, FrameField>): ParsedMoveFrames {
+  return {
+    startup: parseFrameCell(move.startup),
+    active: parseFrameCell(move.active),
+    recovery: parseFrameCell(move.recovery),
+    onBlock: parseFrameCell(move.onBlock),
+    onHit: parseFrameCell(move.onHit),
+  };
+}
+
+/** Parsed cells of a move; moves built outside the loaders (tests, custom presets) are parsed on demand. */
+export function getMoveFrames(move: Move): ParsedMoveFrames {
+  return move.frames ?? parseMoveFrames(move);
+}
+
+export function getMoveFrameValue<F extends FrameField>(
+  move: Pick<Move, F | 'frames'>,
+  field: F,
+): ParsedFrameValue {
+  return move.frames?.[field] ?? parseFrameCell(move[field]);
+}
+
+/** Copy of the character data with `frames` attached to every move. */
+export function withParsedFrames(frameData: FrameData): FrameData {
+  return {
+    ...frameData,
+    moves: frameData.moves.map(move => ({ ...move, frames: parseMoveFrames(move) })),
+  };
+}
+
+// Recovery used for frame kills / total frames: the bare "(N)" whiff variant of "14(16)",
+// else the whole cell. Labelled "(Whiff: N)" rows add to the landing recovery, so they are summed.
+export function getWhiffRecoveryFrames(recovery: ParsedFrameValue): number | null {
+  return recovery.variants[recovery.variants.length - 1] ?? recovery.sum;
+}
@@ -29,7 +29,7 @@ describe('calculateGap', () => {
                 cancelFrame: 1
             });
             expect(result.gap).toBe(6);
-            expect(result.status).toContain('可插动');
+            expect(result.status?.key).toBe('gap.status.interruptible');
             expect(result.valid).toBe(true);
         });
 
@@ -45,7 +45,7 @@ describe('calculateGap', () => {
                 cancelFrame: 1
             });
             expect(result.gap).toBe(0);
-            expect(result.status).toContain('连防');
+            expect(result.status?.key).toBe('gap.status.trueBlockstring');
         });
 
         it('should detect Frame Trap', () => {
@@ -60,7 +60,7 @@ describe('calculateGap', () => {
                 cancelFrame: 1
             });
             expect(result.gap).toBe(2);
-            expect(result.status).toContain('Frame Trap');
+            expect(result.status?.key).toBe('gap.status.frameTrap');
         });
 
         it('should apply opponent burnout only to block calculations', () => {
@@ -123,7 +123,7 @@ describe('calculateGap', () => {
             // Hit frame relative to cancel: 2 + 9 = 11.
             // 11 - 19 = -8.
             expect(result.gap).toBe(-8);
-            expect(result.status).toContain('连防');
+            expect(result.status?.key).toBe('gap.status.trueBlockstring');
             expect(result.blockstun).toBe(19);
         });
 
@@ -137,7 +137,7 @@ describe('calculateGap', () => {
                 cancelFrame: 1
             });
             expect(result.gap).toBe(0);
-            expect(result.status).toContain('连防');
+            expect(result.status?.key).toBe('gap.status.trueBlockstring');
         });
 
         it('should not apply drive rush cancel bonus in block gap formula when move2 is Drive Rush Cancel', () => {
@@ -163,7 +163,7 @@ describe('calculateGap', () => {
             // gap = 1 + (9 - 1) - 9 = 0.
             expect(result.blockstun).toBe(9);
             expect(result.gap).toBe(0);
-            expect(result.status).toContain('连防');
+            expect(result.status?.key).toBe('gap.status.trueBlockstring');
         });
     });
 
@@ -180,7 +180,7 @@ describe('calculateGap', () => {
                 cancelFrame: 1
             });
             expect(result.gap).toBe(1);
-            expect(result.status).toContain('连招成立');
+            expect(result.status?.key).toBe('gap.status.combo');
         });
 
         it('should fail link combo if not enough advantage', () => {
@@ -195,7 +195,7 @@ describe('calculateGap', () => {
                 cancelFrame: 1
             });
             expect(result.gap).toBe(-1);
-            expect(result.status).toContain('连招失败');
+            expect(result.status?.key).toBe('gap.status.noCombo');
         });
 
         it('should apply Counter Hit modifier', () => {
@@ -211,7 +211,7 @@ describe('calculateGap', () => {
                 cancelFrame: 1
             });
             expect(result.gap).toBe(0);
-            expect(result.status).toContain('连招成立');
+            expect(result.status?.key).toBe('gap.status.combo');
         });
 
         it('should apply Punish Counter modifier', () => {
@@ -227,7 +227,7 @@ describe('calculateGap', () => {
                 cancelFrame: 1
             });
             expect(result.gap).toBe(0);
-            expect(result.status).toContain('连招成立');
+            expect(result.status?.key).toBe('gap.status.combo');
         });
 
         it('should apply drive rush bonus on hit', () => {
@@ -241,7 +241,7 @@ describe('calculateGap', () => {
                 isDriveRush: true
             });
             expect(result.gap).toBe(0);
-            expect(result.status).toContain('连招成立');
+            expect(result.status?.key).toBe('gap.status.combo');
         });
 
         it('should treat Drive Rush Cancel move as +4 follow-up advantage', () => {
@@ -326,7 +326,7 @@ describe('calculateGap', () => {
             });
 
             expect(result.gap).toBe(13);
-            expect(result.status).toContain('连招成立');
+            expect(result.status?.key).toBe('gap.status.combo');
         });
 
         it('should calculate chain cancel combo success', () => {
@@ -339,7 +339,7 @@ describe('calculateGap', () => {
                 cancelFrame: 1
             });
             expect(result.gap).toBe(5);
-            expect(result.status).toContain('连招成立');
+            expect(result.status?.key).toBe('gap.status.combo');
         });
     });
 });
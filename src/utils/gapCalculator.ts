@@ -1,4 +1,7 @@
+import type { LocalizedMessage } from '../i18n';
 import type { Move } from '../types';
+import { getMoveFrames, parseFrameCell } from './frameValue';
+import { getFollowUpMaxDistance } from './spacing';
 
 export type CalculationType = 'block' | 'hit';
 export type CalculationMode = 'link' | 'cancel';
@@ -18,19 +21,21 @@ export interface CalculationInput {
 export interface CalculationResult {
     valid: boolean;
     gap: number;
-    // UI Display Fields
-    displayLabel: string;
+    // UI Display Fields (null when the frame data is unusable, see error)
+    displayLabel: LocalizedMessage | null;
     displayValue: string;
 
-    status: string;
+    status: LocalizedMessage | null;
     statusClass: string;
-    description: string;
+    description: LocalizedMessage | null;
     formulaDesc: string;
     adv1: number;
     startup2: number;
     blockstun?: number;
-    error?: string;
+    error?: LocalizedMessage;
     formulaNote?: string;
+    // Link only: furthest distance move1 can connect from with move2 still in range after pushback.
+    maxDistance?: number | null;
 }
 
 export interface DerivedMoveStats {
@@ -38,27 +43,17 @@ export interface DerivedMoveStats {
     hitstun: number;
 }
 
+// Leading signed value of a frame cell ("-3(-5)" → -3); cells without one count as 0.
 export function parseFrameValue(val: string | number | undefined): number {
-    if (typeof val === 'number') return val;
-    if (!val) return 0;
-
-    if (val.includes('*')) {
-        const parts = val.split('*');
-        const last = parts[parts.length - 1];
-        if (last) {
-            return parseInt(last) || 0;
-        }
-    }
-
-    const parsed = parseInt(val);
-    return isNaN(parsed) ? 0 : parsed;
+    return parseFrameCell(val).leading ?? 0;
 }
 
 export function calculateMoveStats(move: Move): DerivedMoveStats {
-    const active = parseFrameValue(move.active);
-    const recovery = parseFrameValue(move.recovery);
-    const onBlock = parseFrameValue(move.onBlock);
-    const onHit = parseFrameValue(move.onHit);
+    const frames = getMoveFrames(move);
+    const active = frames.active.leading ?? 0;
+    const recovery = frames.recovery.leading ?? 0;
+    const onBlock = frames.onBlock.leading ?? 0;
+    const onHit = frames.onHit.leading ?? 0;
 
     let blockstun = 0;
     if (move.raw && typeof move.raw.blockstun === 'number') {
@@ -80,9 +75,12 @@ export function calculateMoveStats(move: Move): DerivedMoveStats {
 export function calculateGap(input: CalculationInput): CalculationResult {
     const { move1, move2, type, mode, hitState, cancelFrame, isOpponentBurnout, isDriveRush } = input;
 
-    const adv1Block = parseFrameValue(move1.onBlock);
-    const adv1Hit = parseFrameValue(move1.onHit);
-    const startup2Num = parseFrameValue(move2.startup);
+    const frames1 = getMoveFrames(move1);
+    const adv1Block = frames1.onBlock.leading ?? 0;
+    const adv1Hit = frames1.onHit.leading ?? 0;
+    const active1 = frames1.active.leading ?? 0;
+    const recovery1 = frames1.recovery.leading ?? 0;
+    const startup2Num = getMoveFrames(move2).startup.first ?? 0;
     const startup2Frames = Math.max(0, startup2Num - 1);
     const isChain = mode === 'cancel' && isChainCancel(move1, move2);
 
@@ -91,15 +89,15 @@ export function calculateGap(input: CalculationInput): CalculationResult {
         return {
             valid: false,
             gap: 0,
-            displayLabel: '',
+            displayLabel: null,
             displayValue: '',
-            status: '',
+            status: null,
             statusClass: '',
-            description: '',
+            description: null,
             formulaDesc: '',
             adv1: 0,
             startup2: 0,
-            error: '无法获取有效的帧数数据'
+            error: { key: 'gap.error.invalidFrames' }
         };
     }
 
@@ -129,12 +127,12 @@ export function calculateGap(input: CalculationInput): CalculationResult {
     let gap = 0;
     let formulaDesc = '';
     let blockstun = 0;
-    let status = '';
+    let status: LocalizedMessage;
     let statusClass = '';
-    let description = '';
+    let description: LocalizedMessage;
 
     // Display fields
-    let displayLabel = 'Gap (空隙)';
+    let displayLabel: LocalizedMessage = { key: 'gap.label.gap' };
     let displayValue = '';
 
     // === COMBO MODE (HIT) ===
@@ -149,7 +147,7 @@ export function calculateGap(input: CalculationInput): CalculationResult {
             if (isChain) {
                 const timeToHit = getChainTimeToHit(move1);
                 gap = hitstun - timeToHit;
-                formulaDesc = `${hitstun} (Hitstun) - (${parseFrameValue(move1.active)} + ${parseFrameValue(move1.recovery)} - 1 Chain)`;
+                formulaDesc = `${hitstun} (Hitstun) - (${active1} + ${recovery1} - 1 Chain)`;
             } else {
                 const hitFrame = cancelFrame + startup2Num;
                 const surplus = hitstun - hitFrame;
@@ -162,26 +160,26 @@ export function calculateGap(input: CalculationInput): CalculationResult {
         }
 
         if (gap >= 0) {
-            status = '连招成立 (Combo)';
+            status = { key: 'gap.status.combo' };
             statusClass = 'status-safe';
-            description = '可以连上。';
+            description = { key: 'gap.description.combo' };
 
-            displayLabel = '目押窗口 (Surplus)';
+            displayLabel = { key: 'gap.label.surplus' };
             displayValue = `+${gap}F`;
         } else {
-            status = '连招失败 (No Combo)';
+            status = { key: 'gap.status.noCombo' };
             statusClass = 'status-danger';
-            description = `差 ${Math.abs(gap)} 帧。`;
+            description = { key: 'gap.description.noCombo', params: { count: Math.abs(gap) } };
 
             // For failed combo, it's a "Gap" or "Deficit"
-            displayLabel = '缺失 (Missing)';
+            displayLabel = { key: 'gap.label.missing' };
             displayValue = `${Math.abs(gap)}F`;
         }
 
     }
     // === BLOCK MODE (GAP) ===
     else {
-        displayLabel = 'Gap (空隙)';
+        displayLabel = { key: 'gap.label.gap' };
 
         if (mode === 'link') {
             gap = startup2Num - adv1Num - 1;
@@ -213,9 +211,9 @@ export function calculateGap(input: CalculationInput): CalculationResult {
                         isDriveRush ? '+ 4 Drive Rush' : '',
                         isOpponentBurnout ? '+ 4 Opponent Burnout' : ''
                     ].filter(Boolean).join(' ');
-                    formulaDesc = `${parseFrameValue(move1.active)} + ${parseFrameValue(move1.recovery)} - 1 (Chain) - (${baseBlockstun} ${modifiers})`;
+                    formulaDesc = `${active1} + ${recovery1} - 1 (Chain) - (${baseBlockstun} ${modifiers})`;
                 } else {
-                    formulaDesc = `${parseFrameValue(move1.active)} + ${parseFrameValue(move1.recovery)} - 1 (Chain) - ${blockstun} (Blockstun)`;
+                    formulaDesc = `${active1} + ${recovery1} - 1 (Chain) - ${blockstun} (Blockstun)`;
                 }
             } else {
                 gap = cancelFrame + startup2Frames - blockstun;
@@ -235,24 +233,24 @@ export function calculateGap(input: CalculationInput): CalculationResult {
             }
         }
         if (gap <= 0) {
-            status = '连防 (True Blockstring)';
+            status = { key: 'gap.status.trueBlockstring' };
             statusClass = 'status-safe';
-            description = '真的连防，对手无法出任何招式，还处在防御硬直中。';
+            description = { key: 'gap.description.trueBlockstring' };
         } else if (gap < 4) {
             // Gap 0, 1, 2, 3
-            status = 'Frame Trap (伪连/无敌技确反)';
+            status = { key: 'gap.status.frameTrap' };
             statusClass = 'status-trap';
-            description = '正常出招会被打康，但无敌帧的OD升龙或SA1/2/3可以放出来。';
+            description = { key: 'gap.description.frameTrap' };
         } else if (gap >= 4 && gap <= 9) {
             // Gap >= 4 and <= 9
-            status = '可插动 (Interruptible)';
+            status = { key: 'gap.status.interruptible' };
             statusClass = 'status-warning';
-            description = '间隙较大，对手可以使用4帧抢动，或使用无敌技。';
+            description = { key: 'gap.description.interruptible' };
         } else {
             // Gap > 9
-            status = '高风险 / 易被插 (High Risk)';
+            status = { key: 'gap.status.highRisk' };
             statusClass = 'status-danger';
-            description = '间隙过大，容易被跳入、大伤害技确反。';
+            description = { key: 'gap.description.highRisk' };
         }
 
         displayValue = `${gap}F`;
@@ -273,7 +271,8 @@ export function calculateGap(input: CalculationInput): CalculationResult {
         startup2: startup2Num,
         formulaDesc,
         // formulaNote, // Removed
-        blockstun: type === 'block' && mode === 'cancel' ? blockstun : undefined
+        blockstun: type === 'block' && mode === 'cancel' ? blockstun : undefined,
+        maxDistance: mode === 'link' ? getFollowUpMaxDistance(move1, move2, type) : undefined,
     };
 }
 
@@ -336,11 +335,8 @@ function isExcludedDriveInput(move: Move): boolean {
     return input === 'MPMK' || input === 'MPMK~66';
 }
 
-function parseOnBlockForSort(val: string | number | undefined): number {
-    if (val === undefined || val === null || val === '-') return -999;
-    if (typeof val === 'number') return val;
-    const match = String(val).match(/^[+-]?\d+/);
-    return match ? parseInt(match[0], 10) : -999;
+function getOnBlockForSort(move: Move): number {
+    return getMoveFrames(move).onBlock.leading ?? -999;
 }
 
 function getGapPenalty(gap: number): number {
@@ -363,8 +359,9 @@ function isChainCancel(sourceMove: Move, targetMove: Move): boolean {
 }
 
 function getChainTimeToHit(move: Move): number {
-    const active = parseFrameValue(move.active);
-    const recovery = parseFrameValue(move.recovery);
+    const frames = getMoveFrames(move);
+    const active = frames.active.leading ?? 0;
+    const recovery = frames.recovery.leading ?? 0;
     return active + Math.max(0, recovery - 1);
 }
 
@@ -506,8 +503,8 @@ export function findRecommendedMoves(
         if (!isDRCA && isDRCB) return 1;
 
         if (type === 'block') {
-            const onBlockA = parseOnBlockForSort(a.move.onBlock);
-            const onBlockB = parseOnBlockForSort(b.move.onBlock);
+            const onBlockA = getOnBlockForSort(a.move);
+            const onBlockB = getOnBlockForSort(b.move);
             const scoreA = getPressurePriorityScore(a.gap, onBlockA);
             const scoreB = getPressurePriorityScore(b.gap, onBlockB);
             if (scoreA !== scoreB) return scoreA - scoreB;
@@ -1,29 +1,28 @@
+import type { LocalizedMessage, MessageKey } from '../i18n';
 import type { FrameData, KeyMove, KeyMoveData, Move } from '../types';
-import { parseStartupFirstActiveFrame } from './frameTotals';
+import { parseMoveHitDamages } from './comboDamage';
+import { getMoveFrames } from './frameValue';
 
-function parseSignedFrameValue(value: string | number | undefined): number | null {
-  if (value === undefined || value === null) return null;
-  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+function getStartup(move: Move): number | null {
+  return getMoveFrames(move).startup.first;
+}
 
-  const normalized = value.replace(/[−–—]/g, '-').trim();
-  const match = normalized.match(/-?\d+/);
-  if (!match || !match[0]) return null;
+// First number of the cell, so "KD +40" on hit ranks as +40.
+function getOnBlock(move: Move): number | null {
+  return getMoveFrames(move).onBlock.first;
+}
 
-  const parsed = parseInt(match[0], 10);
-  return Number.isNaN(parsed) ? null : parsed;
+function getOnHit(move: Move): number | null {
+  return getMoveFrames(move).onHit.first;
 }
 
 function parseDamageValue(value: string | undefined): number {
-  if (!value) return 0;
-  const numbers = value.match(/\d+/g);
-  if (!numbers) return 0;
-  return numbers.reduce((sum, part) => sum + parseInt(part, 10), 0);
+  return parseMoveHitDamages(value).reduce((sum, damage) => sum + damage, 0);
 }
 
-function formatAdvantage(value: string | number | undefined): string {
-  const parsed = parseSignedFrameValue(value);
-  if (parsed === null) return '-';
-  return parsed > 0 ? `+${parsed}` : String(parsed);
+function formatAdvantage(value: number | null): string {
+  if (value === null) return '-';
+  return value > 0 ? `+${value}` : String(value);
 }
 
 function hasCancels(move: Move): boolean {
@@ -40,13 +39,13 @@ function byInputPriority(move: Move, priorities: string[]): number {
   return foundIndex === -1 ? priorities.length : foundIndex;
 }
 
-function buildKeyMove(role: string, move: Move, reason: string, tags: string[]): KeyMove {
+function buildKeyMove(role: MessageKey, move: Move, reason: LocalizedMessage, tags: MessageKey[]): KeyMove {
   return {
-    role,
+    role: { key: role },
     moveInput: move.input,
     moveName: move.name,
     reason,
-    tags,
+    tags: tags.map(key => ({ key })),
   };
 }
 
@@ -61,12 +60,19 @@ function pickFirstUnused(moves: Move[], usedInputs: Set<string>): Move | null {
 function getBaseCandidates(frameData: FrameData): Move[] {
   return frameData.moves.filter(move => {
     if (move.category === 'throw') return false;
-    return parseStartupFirstActiveFrame(move.startup) !== null;
+    return getStartup(move) !== null;
   });
 }
 
-function buildGeneratedNotes(): string {
-  return '以下核心招式由帧数据规则自动提炼，适合作为上手参考；具体站位和判定仍建议结合角色攻略与实战验证。';
+const ANTI_AIR_NAME_PATTERN = /upper|shoryu|dragon|somersault|flash kick|cannon spike|tensho|jackknife|headbutt|rising/i;
+const ANTI_AIR_PRIORITIES = ['623HP', '623MP', '623LP', '623HK', '623MK', '623LK', '2HP', '5HK', '4HK'];
+
+const MAX_PUNISH_STARTUP = 12;
+
+export function isAntiAirCandidate(move: Move): boolean {
+  return ANTI_AIR_NAME_PATTERN.test(move.name)
+    || move.input.startsWith('623')
+    || ANTI_AIR_PRIORITIES.includes(move.input.toUpperCase());
 }
 
 export function generateKeyMoveData(frameData: FrameData): KeyMoveData {
@@ -76,19 +82,19 @@ export function generateKeyMoveData(frameData: FrameData): KeyMoveData {
 
   const fastCheckMoves = rankMoves(
     candidates.filter(move => {
-      const startup = parseStartupFirstActiveFrame(move.startup);
-      const onBlock = parseSignedFrameValue(move.onBlock);
+      const startup = getStartup(move);
+      const onBlock = getOnBlock(move);
       return (move.category === 'normal' || move.category === 'unique')
         && startup !== null
         && startup <= 6
         && (onBlock ?? -99) >= -4;
     }),
     (a, b) => {
-      const startupDiff = (parseStartupFirstActiveFrame(a.startup) ?? 99) - (parseStartupFirstActiveFrame(b.startup) ?? 99);
+      const startupDiff = (getStartup(a) ?? 99) - (getStartup(b) ?? 99);
       if (startupDiff !== 0) return startupDiff;
       const cancelDiff = Number(hasCancels(b)) - Number(hasCancels(a));
       if (cancelDiff !== 0) return cancelDiff;
-      return (parseSignedFrameValue(b.onHit) ?? -99) - (parseSignedFrameValue(a.onHit) ?? -99);
+      return (getOnHit(b) ?? -99) - (getOnHit(a) ?? -99);
     },
   );
 
@@ -96,19 +102,22 @@ export function generateKeyMoveData(frameData: FrameData): KeyMoveData {
   if (fastCheck) {
     usedInputs.add(fastCheck.input);
     keyMoves.push(buildKeyMove(
-      '最快小技',
+      'keyMoves.role.fastCheck',
       fastCheck,
-      `${parseStartupFirstActiveFrame(fastCheck.startup)}F 发生，防御 ${formatAdvantage(fastCheck.onBlock)}，适合近距离试探和打断节奏。`,
-      ['近身', '起手'],
+      {
+        key: 'keyMoves.reason.fastCheck',
+        params: { startup: getStartup(fastCheck)!, onBlock: formatAdvantage(getOnBlock(fastCheck)) },
+      },
+      ['keyMoves.tag.close', 'keyMoves.tag.starter'],
     ));
   }
 
   const plusFrameMoves = rankMoves(
-    candidates.filter(move => (parseSignedFrameValue(move.onBlock) ?? -99) > 0),
+    candidates.filter(move => (getOnBlock(move) ?? -99) > 0),
     (a, b) => {
-      const plusDiff = (parseSignedFrameValue(b.onBlock) ?? -99) - (parseSignedFrameValue(a.onBlock) ?? -99);
+      const plusDiff = (getOnBlock(b) ?? -99) - (getOnBlock(a) ?? -99);
       if (plusDiff !== 0) return plusDiff;
-      const startupDiff = (parseStartupFirstActiveFrame(a.startup) ?? 99) - (parseStartupFirstActiveFrame(b.startup) ?? 99);
+      const startupDiff = (getStartup(a) ?? 99) - (getStartup(b) ?? 99);
       if (startupDiff !== 0) return startupDiff;
       return parseDamageValue(b.damage) - parseDamageValue(a.damage);
     },
@@ -118,16 +127,19 @@ export function generateKeyMoveData(frameData: FrameData): KeyMoveData {
   if (plusFrame) {
     usedInputs.add(plusFrame.input);
     keyMoves.push(buildKeyMove(
-      '有利压制',
+      'keyMoves.role.plusFrame',
       plusFrame,
-      `防御 ${formatAdvantage(plusFrame.onBlock)}、命中 ${formatAdvantage(plusFrame.onHit)}，是保持回合主动权的优先按钮。`,
-      ['压制', '优势帧'],
+      {
+        key: 'keyMoves.reason.plusFrame',
+        params: { onBlock: formatAdvantage(getOnBlock(plusFrame)), onHit: formatAdvantage(getOnHit(plusFrame)) },
+      },
+      ['keyMoves.tag.pressure', 'keyMoves.tag.plus'],
     ));
   }
 
   const confirmMoves = rankMoves(
     candidates.filter(move => {
-      const startup = parseStartupFirstActiveFrame(move.startup);
+      const startup = getStartup(move);
       return (move.category === 'normal' || move.category === 'unique')
         && startup !== null
         && startup <= 10
@@ -136,9 +148,9 @@ export function generateKeyMoveData(frameData: FrameData): KeyMoveData {
     (a, b) => {
       const damageDiff = parseDamageValue(b.damage) - parseDamageValue(a.damage);
       if (damageDiff !== 0) return damageDiff;
-      const hitDiff = (parseSignedFrameValue(b.onHit) ?? -99) - (parseSignedFrameValue(a.onHit) ?? -99);
+      const hitDiff = (getOnHit(b) ?? -99) - (getOnHit(a) ?? -99);
       if (hitDiff !== 0) return hitDiff;
-      return (parseStartupFirstActiveFrame(a.startup) ?? 99) - (parseStartupFirstActiveFrame(b.startup) ?? 99);
+      return (getStartup(a) ?? 99) - (getStartup(b) ?? 99);
     },
   );
 
@@ -146,18 +158,18 @@ export function generateKeyMoveData(frameData: FrameData): KeyMoveData {
   if (confirm) {
     usedInputs.add(confirm.input);
     keyMoves.push(buildKeyMove(
-      '稳定确认',
+      'keyMoves.role.confirm',
       confirm,
-      `${parseStartupFirstActiveFrame(confirm.startup)}F 发生且可取消，伤害 ${confirm.damage}，适合作为命中确认和差合转换的主力起手。`,
-      ['确认', '可取消'],
+      { key: 'keyMoves.reason.confirm', params: { startup: getStartup(confirm)!, damage: confirm.damage } },
+      ['keyMoves.tag.confirm', 'keyMoves.tag.cancelable'],
     ));
   }
 
   const pokePriorities = ['2MK', '5MK', '2MP', '5MP', '5HP', '2HP', '5HK'];
   const pokeMoves = rankMoves(
     candidates.filter(move => {
-      const startup = parseStartupFirstActiveFrame(move.startup);
-      const onBlock = parseSignedFrameValue(move.onBlock);
+      const startup = getStartup(move);
+      const onBlock = getOnBlock(move);
       return (move.category === 'normal' || move.category === 'unique')
         && startup !== null
         && startup <= 12
@@ -166,9 +178,9 @@ export function generateKeyMoveData(frameData: FrameData): KeyMoveData {
     (a, b) => {
       const priorityDiff = byInputPriority(a, pokePriorities) - byInputPriority(b, pokePriorities);
       if (priorityDiff !== 0) return priorityDiff;
-      const startupDiff = (parseStartupFirstActiveFrame(a.startup) ?? 99) - (parseStartupFirstActiveFrame(b.startup) ?? 99);
+      const startupDiff = (getStartup(a) ?? 99) - (getStartup(b) ?? 99);
       if (startupDiff !== 0) return startupDiff;
-      return (parseSignedFrameValue(b.onHit) ?? -99) - (parseSignedFrameValue(a.onHit) ?? -99);
+      return (getOnHit(b) ?? -99) - (getOnHit(a) ?? -99);
     },
   );
 
@@ -176,23 +188,21 @@ export function generateKeyMoveData(frameData: FrameData): KeyMoveData {
   if (poke) {
     usedInputs.add(poke.input);
     keyMoves.push(buildKeyMove(
-      '中距离牵制',
+      'keyMoves.role.poke',
       poke,
-      `${parseStartupFirstActiveFrame(poke.startup)}F 发生，防御 ${formatAdvantage(poke.onBlock)}，适合作为地面试探与中距离摸奖按钮。`,
-      ['牵制', '地面'],
+      { key: 'keyMoves.reason.poke', params: { startup: getStartup(poke)!, onBlock: formatAdvantage(getOnBlock(poke)) } },
+      ['keyMoves.tag.poke', 'keyMoves.tag.grounded'],
     ));
   }
 
-  const antiAirNamePattern = /upper|shoryu|dragon|somersault|flash kick|cannon spike|tensho|jackknife|headbutt|rising/i;
-  const antiAirPriorities = ['623HP', '623MP', '623LP', '623HK', '623MK', '623LK', '2HP', '5HK', '4HK'];
   const antiAirMoves = rankMoves(
     candidates.filter(move => {
-      return antiAirNamePattern.test(move.name) || move.input.startsWith('623') || antiAirPriorities.includes(move.input.toUpperCase());
+      return isAntiAirCandidate(move);
     }),
     (a, b) => {
-      const priorityDiff = byInputPriority(a, antiAirPriorities) - byInputPriority(b, antiAirPriorities);
+      const priorityDiff = byInputPriority(a, ANTI_AIR_PRIORITIES) - byInputPriority(b, ANTI_AIR_PRIORITIES);
       if (priorityDiff !== 0) return priorityDiff;
-      const startupDiff = (parseStartupFirstActiveFrame(a.startup) ?? 99) - (parseStartupFirstActiveFrame(b.startup) ?? 99);
+      const startupDiff = (getStartup(a) ?? 99) - (getStartup(b) ?? 99);
       if (startupDiff !== 0) return startupDiff;
       return parseDamageValue(b.damage) - parseDamageValue(a.damage);
     },
@@ -202,24 +212,24 @@ export function generateKeyMoveData(frameData: FrameData): KeyMoveData {
   if (antiAir) {
     usedInputs.add(antiAir.input);
     keyMoves.push(buildKeyMove(
-      '主力对空',
+      'keyMoves.role.antiAir',
       antiAir,
-      `${parseStartupFirstActiveFrame(antiAir.startup)}F 发生，伤害 ${antiAir.damage}，可优先作为常规空中拦截选项。`,
-      ['对空', antiAir.category === 'special' ? '必杀' : '通常技'],
+      { key: 'keyMoves.reason.antiAir', params: { startup: getStartup(antiAir)!, damage: antiAir.damage } },
+      ['keyMoves.tag.antiAir', antiAir.category === 'special' ? 'keyMoves.tag.special' : 'keyMoves.tag.normal'],
     ));
   }
 
   const punishMoves = rankMoves(
     candidates.filter(move => {
-      const startup = parseStartupFirstActiveFrame(move.startup);
-      return startup !== null && startup <= 12;
+      const startup = getStartup(move);
+      return startup !== null && startup <= MAX_PUNISH_STARTUP;
     }),
     (a, b) => {
       const damageDiff = parseDamageValue(b.damage) - parseDamageValue(a.damage);
       if (damageDiff !== 0) return damageDiff;
       const knockdownDiff = Number(hasKnockdown(b)) - Number(hasKnockdown(a));
       if (knockdownDiff !== 0) return knockdownDiff;
-      return (parseStartupFirstActiveFrame(a.startup) ?? 99) - (parseStartupFirstActiveFrame(b.startup) ?? 99);
+      return (getStartup(a) ?? 99) - (getStartup(b) ?? 99);
     },
   );
 
@@ -227,10 +237,10 @@ export function generateKeyMoveData(frameData: FrameData): KeyMoveData {
   if (punish) {
     usedInputs.add(punish.input);
     keyMoves.push(buildKeyMove(
-      '高伤惩罚',
+      'keyMoves.role.punish',
       punish,
-      `在 12F 内的高回报候选里伤害更突出，适合确反和 Punish Counter 起手。`,
-      ['确反', '高回报'],
+      { key: 'keyMoves.reason.punish', params: { maxStartup: MAX_PUNISH_STARTUP } },
+      ['keyMoves.tag.punish', 'keyMoves.tag.highReward'],
     ));
   }
 
@@ -238,7 +248,7 @@ export function generateKeyMoveData(frameData: FrameData): KeyMoveData {
     characterId: frameData.character.id,
     keyMoves: keyMoves.slice(0, 5),
     source: 'generated',
-    notes: buildGeneratedNotes(),
+    notes: { key: 'keyMoves.generatedNotes' },
   };
 }
 
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { FrameData, Move } from '../types';
+import { buildMatchupSheet } from './matchup';
+
+const buildMove = (input: string, overrides: Partial<Move> = {}): Move => ({
+  name: input,
+  input,
+  damage: '500',
+  startup: '5',
+  active: '3',
+  recovery: '10',
+  onBlock: '-2',
+  onHit: '+3',
+  category: 'normal',
+  ...overrides,
+});
+
+const buildFrameData = (id: string, moves: Move[]): FrameData => ({
+  character: { id, name: id },
+  stats: { health: 10000, forwardDash: 19, backDash: 23 },
+  moves,
+  lastUpdated: '2026-01-01',
+});
+
+const attacker = buildFrameData('a', [
+  buildMove('5LP', { damage: '300', startup: '4' }),
+  buildMove('5MP', { damage: '600', startup: '6' }),
+  buildMove('5HP', { damage: '800', startup: '10' }),
+  buildMove('MPMK', { name: 'Drive Parry', damage: '-', startup: '1', category: 'throw' }),
+]);
+
+const defender = buildFrameData('b', [
+  buildMove('5LP', { startup: '4', onBlock: '-1' }),
+  buildMove('2MK', { startup: '8', onBlock: '-6' }),
+  buildMove('5MK', { startup: '9', onBlock: '+2' }),
+  buildMove('j.HP', { startup: '9', onBlock: '+5' }),
+  buildMove('623HP', {
+    name: 'Shoryuken',
+    startup: '7',
+    onBlock: '-36(-38)',
+    category: 'special',
+    invuln: [{ start: 1, end: 6, types: ['full'] }],
+  }),
+  buildMove('236HP', { name: 'Hadoken', startup: '12', onBlock: '-2', category: 'special', notes: '1-hit projectile' }),
+]);
+
+describe('buildMatchupSheet', () => {
+  it('lists the attacker punishes for every minus move of the defender', () => {
+    const sheet = buildMatchupSheet({ attacker, defender });
+
+    expect(sheet.punishes.map(entry => [entry.move.input, entry.onBlock])).toEqual([
+      ['623HP', -36],
+      ['2MK', -6],
+      ['236HP', -2],
+      ['5LP', -1],
+    ]);
+    const twoMk = sheet.punishes.find(entry => entry.move.input === '2MK');
+    expect(twoMk?.options.map(option => [option.move.input, option.margin])).toEqual([['5MP', 0], ['5LP', 2]]);
+    expect(sheet.punishes.find(entry => entry.move.input === '5LP')?.options).toEqual([]);
+  });
+
+  it('computes pressure gaps and interrupts without Drive Parry', () => {
+    const sheet = buildMatchupSheet({ attacker, defender });
+
+    expect(sheet.pressure.map(entry => entry.move.input)).toEqual(['5MK']);
+    const followUps = sheet.pressure[0]?.followUps ?? [];
+    // +2 into a 4F button: 4 - 2 - 1 = 1F gap, too tight for the 4F jab.
+    expect(followUps[0]).toMatchObject({ gap: 1, counters: [] });
+    // +2 into the 9F 5MK leaves 6F, enough for both light and medium buttons.
+    const fiveMk = followUps.find(followUp => followUp.move.input === '5MK');
+    expect(fiveMk?.gap).toBe(6);
+    expect(fiveMk?.counters.map(move => move.input)).toEqual(['5LP', '5MP']);
+  });
+
+  it('collects reversals, anti-airs, projectiles and generated key moves', () => {
+    const sheet = buildMatchupSheet({ attacker, defender });
+
+    expect(sheet.reversals).toEqual([expect.objectContaining({ startup: 7, meatyLateFrames: 6 })]);
+    expect(sheet.antiAirs.map(entry => entry.move.input)).toEqual(['623HP']);
+    expect(sheet.projectiles.map(move => move.input)).toEqual(['236HP']);
+    expect(sheet.keyMoves.source).toBe('generated');
+  });
+
+  it('marks reversals whose invincibility the frame data does not state', () => {
+    const withSuper = buildFrameData('c', [
+      ...defender.moves,
+      buildMove('236236P', { name: 'Shin Hadoken', startup: '10', onBlock: '-30', category: 'super' }),
+    ]);
+    const sheet = buildMatchupSheet({ attacker, defender: withSuper });
+
+    expect(sheet.reversals.map(entry => [entry.move.input, entry.estimated])).toEqual([
+      ['623HP', undefined],
+      ['236236P', true],
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+import type { Combo, FrameData, KeyMoveData, Move } from '../types';
+import { findCounterMoves } from './counterMoves';
+import { getMoveFrames } from './frameValue';
+import { calculateGap } from './gapCalculator';
+import { buildKeyMoveData, isAntiAirCandidate } from './keyMoves';
+import { isJumpMove, isProjectileMove } from './moveFilters';
+import { hasReversalInvuln } from './moveProperties';
+import { findPunishOptions, isPunishCandidate, type PunishOption } from './punishFinder';
+import { buildReversalCatalog } from './reversals';
+import { getPunishMaxDistance } from './spacing';
+
+export interface MatchupPunish {
+  move: Move;
+  onBlock: number;
+  // Best punishes from the attacker's side, highest expected damage first.
+  options: PunishOption[];
+}
+
+export interface MatchupFollowUp {
+  move: Move;
+  // Frames between the plus move and the follow-up; <= 0 is a true blockstring.
+  gap: number;
+  counters: Move[];
+}
+
+// A move that leaves the defender at 0 or better on block.
+export interface MatchupPressure {
+  move: Move;
+  onBlock: number;
+  followUps: MatchupFollowUp[];
+}
+
+export interface MatchupReversal {
+  move: Move;
+  startup: number;
+  // How many frames late a meaty can land on wakeup and still be active before the reversal.
+  meatyLateFrames: number;
+  // The frame data does not state its invincibility; the reversal catalog assumes it.
+  estimated?: boolean;
+}
+
+export interface MatchupAntiAir {
+  move: Move;
+  startup: number;
+}
+
+export interface MatchupSheet {
+  attacker: FrameData;
+  defender: FrameData;
+  punishes: MatchupPunish[];
+  pressure: MatchupPressure[];
+  reversals: MatchupReversal[];
+  antiAirs: MatchupAntiAir[];
+  projectiles: Move[];
+  keyMoves: KeyMoveData;
+}
+
+const PUNISH_OPTION_LIMIT = 3;
+const FOLLOW_UP_LIMIT = 5;
+const COUNTER_MOVE_LIMIT = 3;
+const ANTI_AIR_LIMIT = 5;
+
+function getStartup(move: Move): number | null {
+  const startup = getMoveFrames(move).startup.first;
+  return startup !== null && startup > 0 ? startup : null;
+}
+
+function isGroundedNormal(move: Move): boolean {
+  return move.category === 'normal' && !move.input.includes('~') && !isJumpMove(move);
+}
+
+function buildPunishes(attacker: FrameData, defender: FrameData, attackerCombos: Combo[]): MatchupPunish[] {
+  const unsafe = defender.moves.flatMap(move => {
+    const onBlock = getMoveFrames(move).onBlock.leading;
+    return onBlock === null || onBlock >= 0 || isJumpMove(move) ? [] : [{ move, onBlock }];
+  });
+  if (unsafe.length === 0) return [];
+
+  // Resolving the combo list is the expensive part, so it runs once for the widest window
+  // and every other move keeps the options that still fit.
+  const widest = findPunishOptions({
+    onBlock: Math.min(...unsafe.map(entry => entry.onBlock)),
+    moves: attacker.moves,
+    combos: attackerCombos,
+  });
+
+  return unsafe
+    .map(({ move, onBlock }) => ({
+      move,
+      onBlock,
+      options: widest
+        .filter(option => option.startup <= -onBlock)
+        .slice(0, PUNISH_OPTION_LIMIT)
+        .map(option => ({
+          ...option,
+          margin: -onBlock - option.startup,
+          maxDistance: getPunishMaxDistance(move, option.move),
+        })),
+    }))
+    .sort((a, b) => a.onBlock - b.onBlock);
+}
+
+function buildPressure(attacker: FrameData, defender: FrameData): MatchupPressure[] {
+  // Parry and Parry Drive Rush don't interrupt anything; the rest is what findCounterMoves ranks.
+  const interrupts = attacker.moves.filter(isPunishCandidate);
+  const followUpMoves = defender.moves.filter(move => isGroundedNormal(move) && getStartup(move) !== null);
+  const pressure: MatchupPressure[] = [];
+
+  for (const move of defender.moves) {
+    const onBlock = getMoveFrames(move).onBlock.leading;
+    if (onBlock === null || onBlock < 0 || isJumpMove(move)) continue;
+
+    const followUps = followUpMoves
+      .map(followUp => {
+        const { gap } = calculateGap({
+          move1: move,
+          move2: followUp,
+          type: 'block',
+          mode: 'link',
+          hitState: 'normal',
+          cancelFrame: 1,
+        });
+        return { move: followUp, gap, counters: findCounterMoves(interrupts, gap, COUNTER_MOVE_LIMIT) };
+      })
+      .sort((a, b) => a.gap - b.gap || (getMoveFrames(a.move).startup.first ?? 0) - (getMoveFrames(b.move).startup.first ?? 0))
+      .slice(0, FOLLOW_UP_LIMIT);
+
+    pressure.push({ move, onBlock, followUps });
+  }
+
+  return pressure.sort((a, b) => b.onBlock - a.onBlock);
+}
+
+function buildReversals(defender: FrameData): MatchupReversal[] {
+  const stated = defender.moves
+    .filter(move => hasReversalInvuln(move) && !move.input.includes('~') && !isJumpMove(move))
+    .flatMap(move => {
+      const startup = getStartup(move);
+      return startup === null ? [] : [{ move, startup, meatyLateFrames: startup - 1 }];
+    });
+  const estimated = buildReversalCatalog(defender.moves)
+    .filter(entry => entry.invincibleSource === 'estimated')
+    .flatMap(entry => {
+      const move = defender.moves.find(candidate => candidate.input === entry.moveInput);
+      return move ? [{ move, startup: entry.startup, meatyLateFrames: entry.startup - 1, estimated: true }] : [];
+    });
+  return [...stated, ...estimated].sort((a, b) => a.startup - b.startup);
+}
+
+function buildAntiAirs(defender: FrameData): MatchupAntiAir[] {
+  return defender.moves
+    .filter(move => isAntiAirCandidate(move) && move.category !== 'super' && !move.input.includes('~'))
+    .flatMap(move => {
+      const startup = getStartup(move);
+      return startup === null ? [] : [{ move, startup }];
+    })
+    .sort((a, b) => a.startup - b.startup)
+    .slice(0, ANTI_AIR_LIMIT);
+}
+
+/**
+ * Builds the cross-character report for the attacker (A) facing the defender (B):
+ * what A punishes, where B's pressure can be interrupted, B's reversals and anti-airs.
+ */
+export function buildMatchupSheet(params: {
+  attacker: FrameData;
+  defender: FrameData;
+  attackerCombos?: Combo[];
+  defenderKeyMoves?: KeyMoveData | null;
+}): MatchupSheet {
+  const { attacker, defender } = params;
+  return {
+    attacker,
+    defender,
+    punishes: buildPunishes(attacker, defender, params.attackerCombos ?? []),
+    pressure: buildPressure(attacker, defender),
+    reversals: buildReversals(defender),
+    antiAirs: buildAntiAirs(defender),
+    projectiles: defender.moves.filter(isProjectileMove),
+    keyMoves: buildKeyMoveData(defender, params.defenderKeyMoves),
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { Move } from '../types';
+import { flattenComboNotation, parseComboNotation } from './comboNotation';
+import {
+  buildComboChainMeterActions,
+  buildComboMeterActions,
+  getMoveMeterAction,
+  simulateMeterCost,
+} from './meterResources';
+
+const buildMove = (input: string, overrides: Partial<Move> = {}): Move => ({
+  name: input,
+  input,
+  damage: '500',
+  startup: '5',
+  active: '3',
+  recovery: '10',
+  onBlock: '-2',
+  onHit: '+3',
+  category: 'normal',
+  ...overrides,
+});
+
+const moves: Move[] = [
+  buildMove('5MP', { cancels: ['Sp', 'Su'] }),
+  buildMove('5HP'),
+  buildMove('236PP', { category: 'special' }),
+  buildMove('214KK', { category: 'special' }),
+  buildMove('HPHK', { name: 'Shingeki', category: 'throw' }),
+  buildMove('6HPHK', { name: 'Chest Strike (Block)', category: 'throw' }),
+  buildMove('MPMK~66', { name: 'Parry Drive Rush', category: 'throw' }),
+  buildMove('MPMK or 66', { name: 'Drive Rush Cancel', category: 'throw' }),
+  buildMove('236236P', { name: 'Shinku Hadoken', category: 'super' }),
+  buildMove('214214P', { name: 'Shin Hashogeki Lv.1', category: 'super' }),
+  buildMove('236236K', { name: 'Shin Shoryuken', category: 'super' }),
+];
+
+const comboActions = (notation: string) => buildComboMeterActions(
+  flattenComboNotation(parseComboNotation(notation, moves).sequence),
+  moves,
+);
+
+describe('getMoveMeterAction', () => {
+  it('classifies drive system moves, OD specials and super arts', () => {
+    const byInput = (input: string) => getMoveMeterAction(moves.find(move => move.input === input)!, moves);
+
+    expect(byInput('236PP').drive).toBe('odSpecial');
+    expect(byInput('HPHK').drive).toBe('driveImpact');
+    expect(byInput('6HPHK').drive).toBe('driveReversal');
+    expect(byInput('MPMK~66').drive).toBe('parryDriveRush');
+    expect(byInput('214214P').superLevel).toBe(2);
+    expect(byInput('5MP')).toEqual({ label: '5MP' });
+  });
+});
+
+describe('simulateMeterCost', () => {
+  it('spends drive and super bars along a combo route', () => {
+    const simulation = simulateMeterCost(comboActions('5MP > DR 5HP, 5MP > 214KK > SA3'));
+
+    expect(simulation.driveSpent).toBe(5);
+    expect(simulation.superSpent).toBe(3);
+    expect(simulation.final).toEqual({ drive: 1, super: 0, burnout: false });
+    expect(simulation.burnoutStepIndex).toBeNull();
+  });
+
+  it('enters burnout when a drive action empties the gauge and blocks later drive actions', () => {
+    const simulation = simulateMeterCost(comboActions('5MP > DR 5HP > 236PP, DI'), { drive: 4 });
+
+    expect(simulation.burnoutStepIndex).toBe(3);
+    expect(simulation.steps[3]?.driveSpent).toBe(1);
+    expect(simulation.steps[4]?.blocked).toBe('burnout');
+    expect(simulation.final.burnout).toBe(true);
+  });
+
+  it('blocks super arts without enough bars and gains no meter from hits', () => {
+    const simulation = simulateMeterCost([
+      { label: '5MP' },
+      { label: '236236K', superLevel: 3 },
+    ], { drive: 5.5, super: 2 });
+
+    expect(simulation.final).toEqual({ drive: 5.5, super: 2, burnout: false });
+    expect(simulation.steps[1]?.blocked).toBe('superMeter');
+    expect(simulation.blocked).toBe(true);
+  });
+});
+
+describe('buildComboMeterActions', () => {
+  it('treats a drive rush before the first attack as a parry drive rush', () => {
+    expect(comboActions('DR 5HP, 5MP > DR 5HP').map(action => action.drive)).toEqual([
+      'parryDriveRush',
+      undefined,
+      undefined,
+      'driveRushCancel',
+      undefined,
+    ]);
+  });
+});
+
+describe('buildComboChainMeterActions', () => {
+  it('uses parry drive rush after a knockdown and drive rush cancel after an attack', () => {
+    const standMP = moves[0]!;
+    const actions = buildComboChainMeterActions([
+      { type: 'driveRush', frames: 11 },
+      { type: 'move', frames: 5, move: standMP },
+      { type: 'driveRush', frames: 16, move: moves[1] },
+    ], moves);
+
+    expect(actions.map(action => action.drive)).toEqual(['parryDriveRush', 'driveRushCancel']);
+  });
+});
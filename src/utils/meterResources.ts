@@ -0,0 +1,194 @@
+import type { Move } from '../types';
+import { getSuperArtLevel, type ComboNotationFlatStep } from './comboNotation';
+import { isDriveRushCancelMove } from './gapCalculator';
+import type { ComboAction } from './oki';
+import { WAKEUP_DRIVE_REVERSAL } from './wakeupDriveReversal';
+
+export const DRIVE_GAUGE_BARS = 6;
+export const SUPER_METER_BARS = 3;
+
+// Drive gauge cost in bars. Spending more than what is left still works but enters Burnout.
+export const DRIVE_COSTS = {
+  odSpecial: 2,
+  driveRushCancel: 3,
+  parryDriveRush: 1,
+  driveImpact: 1,
+  driveReversal: WAKEUP_DRIVE_REVERSAL.driveCost,
+} as const;
+
+export type DriveActionKind = keyof typeof DRIVE_COSTS;
+
+export type MeterAction = {
+  label: string;
+  drive?: DriveActionKind;
+  // 1-3, spends that many Super Art bars.
+  superLevel?: number;
+};
+
+export type MeterState = {
+  drive: number;
+  super: number;
+  burnout: boolean;
+};
+
+export type MeterStepResult = {
+  action: MeterAction;
+  before: MeterState;
+  after: MeterState;
+  driveSpent: number;
+  superSpent: number;
+  entersBurnout: boolean;
+  // Why the action can't be performed: no Drive gauge during Burnout or not enough Super Art bars.
+  blocked?: 'burnout' | 'superMeter';
+};
+
+export type MeterSimulation = {
+  steps: MeterStepResult[];
+  final: MeterState;
+  driveSpent: number;
+  superSpent: number;
+  // Index of the step that emptied the Drive gauge, null when the route never burns out.
+  burnoutStepIndex: number | null;
+  blocked: boolean;
+};
+
+export const FULL_METER_STATE: MeterState = {
+  drive: DRIVE_GAUGE_BARS,
+  super: SUPER_METER_BARS,
+  burnout: false,
+};
+
+function normalizeInput(input: string): string {
+  return input.replace(/\s+/g, '').toUpperCase();
+}
+
+export function isOverdriveMove(move: Move): boolean {
+  return move.category === 'special' && /\d(?:PP|KK)$/.test(normalizeInput(move.input));
+}
+
+export function isDriveImpactMove(move: Move): boolean {
+  return normalizeInput(move.input) === 'HPHK';
+}
+
+export function isDriveReversalMove(move: Move): boolean {
+  return normalizeInput(move.input) === '6HPHK';
+}
+
+export function isParryDriveRushMove(move: Move): boolean {
+  return move.name.toLowerCase() === 'parry drive rush';
+}
+
+// Which gauge a move spends; moves without a Drive or Super cost map to a plain action.
+export function getMoveMeterAction(move: Move, moves: Move[]): MeterAction {
+  const label = move.input;
+  const superLevel = getSuperArtLevel(moves, move);
+  if (superLevel) return { label, superLevel };
+  if (isParryDriveRushMove(move)) return { label, drive: 'parryDriveRush' };
+  if (isDriveRushCancelMove(move)) return { label, drive: 'driveRushCancel' };
+  if (isDriveImpactMove(move)) return { label, drive: 'driveImpact' };
+  if (isDriveReversalMove(move)) return { label, drive: 'driveReversal' };
+  if (isOverdriveMove(move)) return { label, drive: 'odSpecial' };
+  return { label };
+}
+
+/**
+ * Spends a sequence of actions from the Drive gauge (6 bars) and Super meter (3 bars).
+ * Cost only: the frame data has no gauge gain values, so the bars left are a lower bound.
+ * Burnout starts when a Drive action empties the gauge; Drive actions after that are blocked.
+ */
+export function simulateMeterCost(actions: MeterAction[], initial: Partial<MeterState> = {}): MeterSimulation {
+  let state: MeterState = { ...FULL_METER_STATE, ...initial };
+  const steps: MeterStepResult[] = [];
+  let burnoutStepIndex: number | null = null;
+
+  for (const action of actions) {
+    const before = state;
+    const driveCost = action.drive ? DRIVE_COSTS[action.drive] : 0;
+    const superCost = action.superLevel ?? 0;
+    let blocked: MeterStepResult['blocked'];
+    if (driveCost > 0 && before.burnout) blocked = 'burnout';
+    else if (superCost > before.super) blocked = 'superMeter';
+
+    if (blocked) {
+      steps.push({
+        action,
+        before,
+        after: before,
+        driveSpent: 0,
+        superSpent: 0,
+        entersBurnout: false,
+        blocked,
+      });
+      continue;
+    }
+
+    const driveSpent = Math.min(driveCost, before.drive);
+    const entersBurnout = driveCost > 0 && before.drive - driveCost <= 0;
+    state = {
+      drive: before.drive - driveSpent,
+      super: before.super - superCost,
+      burnout: before.burnout || entersBurnout,
+    };
+    if (entersBurnout && burnoutStepIndex === null) burnoutStepIndex = steps.length;
+
+    steps.push({
+      action,
+      before,
+      after: state,
+      driveSpent,
+      superSpent: superCost,
+      entersBurnout,
+    });
+  }
+
+  const sum = (pick: (step: MeterStepResult) => number) => steps.reduce((total, step) => total + pick(step), 0);
+  return {
+    steps,
+    final: state,
+    driveSpent: sum(step => step.driveSpent),
+    superSpent: sum(step => step.superSpent),
+    burnoutStepIndex,
+    blocked: steps.some(step => step.blocked !== undefined),
+  };
+}
+
+// Meter actions for a parsed combo route; unresolved tokens are skipped. A DR before the
+// first attack ("DR 5HP" from neutral) is a Parry Drive Rush.
+export function buildComboMeterActions(steps: ComboNotationFlatStep[], moves: Move[]): MeterAction[] {
+  const actions: MeterAction[] = [];
+  let afterAttack = false;
+
+  for (const { node } of steps) {
+    if (node.kind === 'driveRush' && node.move) {
+      actions.push(afterAttack ? getMoveMeterAction(node.move, moves) : { label: node.text, drive: 'parryDriveRush' });
+    }
+    if (node.kind === 'move' && node.move) {
+      actions.push(getMoveMeterAction(node.move, moves));
+      afterAttack = true;
+    }
+  }
+
+  return actions;
+}
+
+/**
+ * Meter actions for the oki filter chain. A Drive Rush after an attack is a Drive Rush Cancel;
+ * otherwise it starts from a parry (the knockdown leaves no attack to cancel).
+ */
+export function buildComboChainMeterActions(comboChain: ComboAction[], moves: Move[]): MeterAction[] {
+  const actions: MeterAction[] = [];
+  let afterAttack = false;
+
+  for (const action of comboChain) {
+    if (action.type === 'driveRush') {
+      actions.push({ label: 'DR', drive: afterAttack ? 'driveRushCancel' : 'parryDriveRush' });
+    }
+    if (action.move) {
+      const moveAction = getMoveMeterAction(action.move, moves);
+      if (moveAction.drive || moveAction.superLevel) actions.push(moveAction);
+    }
+    afterAttack = action.type === 'move' || (action.type === 'driveRush' && Boolean(action.move));
+  }
+
+  return actions;
+}
@@ -49,3 +49,16 @@ export function isAirborneMove(move: Move): boolean {
 
   return false;
 }
+
+// Jump-ins only; isAirborneMove also flags rising specials like DPs.
+export function isJumpMove(move: Move): boolean {
+  return /^(?:j\.|[789])/i.test(move.input.trim());
+}
+
+// "1-hit projectile", "projectile; ..." in the notes; "projectile invuln" and "projectiles" don't count.
+const PROJECTILE_NOTE_PATTERN = /\bprojectile\b(?!\s*(?:invuln|invinc|immun|hitbox is considered))/i;
+
+export function isProjectileMove(move: Move): boolean {
+  if (move.category !== 'special' && move.category !== 'super') return false;
+  return PROJECTILE_NOTE_PATTERN.test(move.notes ?? '');
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { Move } from '../types';
+import {
+  buildMoveProperties,
+  hasReversalInvuln,
+  isAirborneAt,
+  parseArmorText,
+  parseInvulnText,
+} from './moveProperties';
+
+const buildMove = (input: string, overrides: Partial<Move> = {}): Move => ({
+  name: input,
+  input,
+  damage: '1000',
+  startup: '6',
+  active: '10',
+  recovery: '30',
+  onBlock: '-30',
+  onHit: 'KD +30',
+  category: 'special',
+  ...overrides,
+});
+
+describe('parseInvulnText', () => {
+  it('labels each range with the words that follow it', () => {
+    expect(parseInvulnText('1-3 Strike/Throw, 4-20 Air')).toEqual([
+      { start: 1, end: 3, types: ['strike', 'throw'] },
+      { start: 4, end: 20, types: ['air'] },
+    ]);
+    expect(parseInvulnText('1-8')).toEqual([{ start: 1, end: 8, types: ['full'] }]);
+    expect(parseInvulnText('Full 1-8f')).toEqual([{ start: 1, end: 8, types: ['full'] }]);
+  });
+});
+
+describe('parseArmorText', () => {
+  it('reads the absorbed hit count next to the range', () => {
+    expect(parseArmorText('4-14 (2 hits)')).toEqual([{ start: 4, end: 14, hits: 2 }]);
+    expect(parseArmorText('5-20')).toEqual([{ start: 5, end: 20, hits: null }]);
+  });
+});
+
+describe('buildMoveProperties', () => {
+  it('prefers the wiki columns and falls back to ranges stated in the notes', () => {
+    expect(buildMoveProperties({ invuln: '1-9 Full', airborne: '4-30', notes: 'fully invincible 1-5f' })).toEqual({
+      invuln: [{ start: 1, end: 9, types: ['full'] }],
+      airborne: [{ start: 4, end: 30 }],
+    });
+    expect(buildMoveProperties({ notes: 'Cross-up; lower body projectile invuln 7-20f' })).toEqual({
+      invuln: [{ start: 7, end: 20, types: ['projectile'], partial: true }],
+    });
+  });
+
+  it('ignores frame counts that do not describe the keyword or only apply conditionally', () => {
+    expect(buildMoveProperties({ notes: 'reduced damage on active frames 3-10; invincible on hit' })).toEqual({});
+    expect(buildMoveProperties({ notes: 'if held, armor extends to frames 11-12' })).toEqual({});
+    expect(isAirborneAt(buildMoveProperties({ notes: 'airborne on frames 4-30' }), 10)).toBe(true);
+  });
+});
+
+describe('hasReversalInvuln', () => {
+  it('needs whole-body strike invincibility up to the first active frame', () => {
+    expect(hasReversalInvuln(buildMove('623PP', { invuln: [{ start: 1, end: 8, types: ['full'] }] }))).toBe(true);
+    expect(hasReversalInvuln(buildMove('623PP', { invuln: [{ start: 1, end: 3, types: ['full'] }] }))).toBe(false);
+    expect(hasReversalInvuln(buildMove('623HP', { invuln: [{ start: 1, end: 8, types: ['air'] }] }))).toBe(false);
+    expect(hasReversalInvuln(buildMove('2HP', { invuln: [{ start: 1, end: 8, types: ['strike'], partial: true }] }))).toBe(false);
+    expect(hasReversalInvuln(buildMove('623HP'))).toBe(false);
+  });
+});
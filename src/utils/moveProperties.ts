@@ -0,0 +1,181 @@
+import type { ArmorRange, FrameRange, InvulnRange, InvulnType, Move } from '../types';
+import { getMoveFrames } from './frameValue';
+
+// Invincibility / armor / airborne frame ranges, read from the wiki columns ("1-8 Full", "6-22 Air")
+// or, when a source only has prose, from the move notes ("fully invincible 1-9f").
+
+export type MovePropertyFields = Pick<Move, 'invuln' | 'armor' | 'airborne'>;
+
+export type MovePropertySource = {
+  invuln?: string;
+  armor?: string;
+  airborne?: string;
+  notes?: string;
+};
+
+const RANGE_PATTERN = /(\d+)\s*f?\s*[-~]\s*(\d+)\s*f?(?!\s*(?:land|~))|\b(\d+)\s*f\b/gi;
+// Prose mentions lone frame counts ("held up to 5f"), so notes only yield explicit ranges.
+const NOTES_RANGE_PATTERN = /(\d+)\s*f?\s*[-~]\s*(\d+)\s*f?(?!\s*(?:land|~))/gi;
+
+// Notes that only cover part of the hurtbox ("head hurtbox is anti-air invuln 5-12f").
+const PARTIAL_HURTBOX_PATTERN = /hurtbox|head|fist|arm\b|arms\b|leg\b|legs\b|foot|feet|upper body|lower body|low crush|kicking/i;
+
+// Invincibility that only applies after something happened first (on hit, after a parry, during recovery).
+const CONDITIONAL_PATTERN = /on hit|on successful|after absorbing|recovery|\bhold|\bheld|charge|feint|if canceled|cross-up version|extended/i;
+
+// A range in prose only describes the keyword it sits next to ("fully invincible 1-9f", "armor on frames 5-20").
+const KEYWORD_WINDOW = 30;
+
+function nearKeyword(text: string, range: RangeMatch, keyword: RegExp): boolean {
+  const start = Math.max(0, range.index - KEYWORD_WINDOW);
+  return keyword.test(text.slice(start, range.index + range.length + KEYWORD_WINDOW));
+}
+
+type RangeMatch = FrameRange & { index: number; length: number };
+
+function findRanges(text: string, pattern = RANGE_PATTERN): RangeMatch[] {
+  return Array.from(text.matchAll(pattern), match => {
+    const start = parseInt(match[1] ?? match[3]!, 10);
+    const end = match[2] ? parseInt(match[2], 10) : start;
+    return { start, end: Math.max(start, end), index: match.index!, length: match[0].length };
+  });
+}
+
+function readInvulnTypes(text: string): InvulnType[] {
+  const types: InvulnType[] = [];
+  if (/\bfull(?:y)?\b|\ball\b/i.test(text)) types.push('full');
+  if (/strike/i.test(text)) types.push('strike');
+  if (/throw/i.test(text)) types.push('throw');
+  if (/projectile|\bproj\b/i.test(text)) types.push('projectile');
+  if (/\bair\b|anti-air/i.test(text)) types.push('air');
+  return types;
+}
+
+// Words after a range describe it ("1-8 Full, 9-20 Air"); a leading label applies to every range ("Air: 5-20").
+function labelFor(text: string, ranges: RangeMatch[], i: number): string {
+  const range = ranges[i]!;
+  const next = ranges[i + 1];
+  const after = text.slice(range.index + range.length, next ? next.index : undefined);
+  if (/[a-z]/i.test(after)) return after;
+  const previous = ranges[i - 1];
+  return text.slice(previous ? previous.index + previous.length : 0, range.index);
+}
+
+/** Wiki "Invuln" column, e.g. "1-8 Full", "1-3 Strike/Throw, 4-20 Air". Unlabelled ranges are full invincibility. */
+export function parseInvulnText(text: string | undefined): InvulnRange[] {
+  if (!text) return [];
+  const ranges = findRanges(text);
+  return ranges.map((range, i) => {
+    const types = readInvulnTypes(labelFor(text, ranges, i));
+    return { start: range.start, end: range.end, types: types.length > 0 ? types : ['full'] };
+  });
+}
+
+/** Wiki "Armor" column, e.g. "5-20", "4-14 (2 hits)". */
+export function parseArmorText(text: string | undefined): ArmorRange[] {
+  if (!text) return [];
+  const hits = text.match(/(\d+)\s*-?\s*hits?\b/i);
+  const ranges = findRanges(text.replace(/\(?\d+\s*-?\s*hits?\)?/gi, ''));
+  return ranges.map(range => ({ start: range.start, end: range.end, hits: hits ? parseInt(hits[1]!, 10) : null }));
+}
+
+/** Wiki "Airborne" column, e.g. "4-30". */
+export function parseAirborneText(text: string | undefined): FrameRange[] {
+  if (!text) return [];
+  return findRanges(text).map(({ start, end }) => ({ start, end }));
+}
+
+function parseNotesInvuln(notes: string): InvulnRange[] {
+  const result: InvulnRange[] = [];
+  for (const clause of notes.split(';')) {
+    if (!/invinc|invuln/i.test(clause) || /\bno\b[^;]*(?:invinc|invuln)|not\b[^;]*(?:invinc|invuln)/i.test(clause)) continue;
+    if (CONDITIONAL_PATTERN.test(clause)) continue;
+    const ranges = findRanges(clause, NOTES_RANGE_PATTERN).filter(range => nearKeyword(clause, range, /invinc|invuln/i));
+    if (ranges.length === 0) continue;
+    const types = readInvulnTypes(clause);
+    const partial = PARTIAL_HURTBOX_PATTERN.test(clause);
+    for (const range of ranges) {
+      result.push({
+        start: range.start,
+        end: range.end,
+        types: types.length > 0 ? types : ['full'],
+        ...(partial ? { partial } : {}),
+      });
+    }
+  }
+  return result;
+}
+
+function parseNotesArmor(notes: string): ArmorRange[] {
+  const result: ArmorRange[] = [];
+  for (const clause of notes.split(';')) {
+    if (!/armor/i.test(clause) || CONDITIONAL_PATTERN.test(clause) || /hitstop|blockstun|vs\. armor|no armor|break/i.test(clause)) continue;
+    const hits = clause.match(/(\d+)-hit armor|absorbs? (\d+) hits?/i);
+    const text = clause.replace(/\d+-hit/gi, '');
+    for (const range of findRanges(text, NOTES_RANGE_PATTERN).filter(range => nearKeyword(text, range, /armor/i))) {
+      result.push({ start: range.start, end: range.end, hits: hits ? parseInt(hits[1] ?? hits[2]!, 10) : null });
+    }
+  }
+  return result;
+}
+
+function parseNotesAirborne(notes: string): FrameRange[] {
+  const result: FrameRange[] = [];
+  for (const clause of notes.split(';')) {
+    const match = clause.match(/\b(?:is |becomes |considered )?airborne (?:on |from )?(?:frames? )?(\d+)\s*[-~]\s*(\d+)/i);
+    if (!match || /not airborne|opponent|only on airborne/i.test(clause)) continue;
+    result.push({ start: parseInt(match[1]!, 10), end: parseInt(match[2]!, 10) });
+  }
+  return result;
+}
+
+/** Fields to set on a scraped move: explicit columns win, notes fill in the rest. Empty lists are left out. */
+export function buildMoveProperties(source: MovePropertySource): MovePropertyFields {
+  const notes = source.notes ?? '';
+  const invuln = source.invuln ? parseInvulnText(source.invuln) : parseNotesInvuln(notes);
+  const armor = source.armor ? parseArmorText(source.armor) : parseNotesArmor(notes);
+  const airborne = source.airborne ? parseAirborneText(source.airborne) : parseNotesAirborne(notes);
+  return {
+    ...(invuln.length > 0 ? { invuln } : {}),
+    ...(armor.length > 0 ? { armor } : {}),
+    ...(airborne.length > 0 ? { airborne } : {}),
+  };
+}
+
+function coversStrikes(range: InvulnRange): boolean {
+  return !range.partial && (range.types.includes('full') || range.types.includes('strike'));
+}
+
+/** Whether the whole hurtbox is strike invincible on the given frame of the move (1 = first frame). */
+export function isStrikeInvulnerableAt(move: Pick<Move, 'invuln'>, frame: number): boolean {
+  return (move.invuln ?? []).some(range => coversStrikes(range) && range.start <= frame && frame <= range.end);
+}
+
+/**
+ * Whether a jump-in whiffs on the given frame: whole-body strike invincibility, or anti-air
+ * invincibility even when it only covers the upper body, which is where jump-ins connect.
+ */
+export function isJumpInInvulnerableAt(move: Pick<Move, 'invuln'>, frame: number): boolean {
+  return (move.invuln ?? []).some(range =>
+    (coversStrikes(range) || range.types.includes('air')) && range.start <= frame && frame <= range.end);
+}
+
+export function hasArmorAt(move: Pick<Move, 'armor'>, frame: number): boolean {
+  return (move.armor ?? []).some(range => range.start <= frame && frame <= range.end);
+}
+
+export function isAirborneAt(move: Pick<Move, 'airborne'>, frame: number): boolean {
+  return (move.airborne ?? []).some(range => range.start <= frame && frame <= range.end);
+}
+
+/** Strike invincible from frame 1 up to its first active frame: beats a meaty or a true blockstring. */
+export function hasReversalInvuln(move: Move): boolean {
+  const startup = getMoveFrames(move).startup.first;
+  if (startup === null || startup <= 0) return false;
+  return isStrikeInvulnerableAt(move, 1) && isStrikeInvulnerableAt(move, startup - 1 || 1);
+}
+
+/** First strike-invincible range starting on frame 1, for display and wakeup timing. */
+export function getReversalInvulnRange(move: Pick<Move, 'invuln'>): InvulnRange | null {
+  return (move.invuln ?? []).find(range => coversStrikes(range) && range.start <= 1) ?? null;
+}
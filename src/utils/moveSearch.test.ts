@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { Move } from '../types';
+import { getPinyinInitials, searchMoves, toNumpadInput } from './moveSearch';
+
+const buildMove = (input: string, name: string, nameZh: string, overrides: Partial<Move> = {}): Move => ({
+  name,
+  nameZh,
+  input,
+  damage: '500',
+  startup: '6',
+  active: '3',
+  recovery: '12',
+  onBlock: '-2',
+  onHit: '+3',
+  category: 'normal',
+  ...overrides,
+});
+
+const moves: Move[] = [
+  buildMove('5HP', 'Stand HP', '站立重拳'),
+  buildMove('2MK', 'Crouch MK', '蹲下中脚'),
+  buildMove('2HK', 'Low Spinning Sweep', '下段回旋扫腿'),
+  buildMove('j.HP', 'Jump HP', '跳跃重拳'),
+  buildMove('LPLK', 'Shoulder Throw', '背负投', { category: 'throw' }),
+  buildMove('236LP', 'Hadoken', '波动拳', { category: 'special', notes: 'Projectile' }),
+  buildMove('623HP', 'Shoryuken', '升龙拳', { category: 'special' }),
+  buildMove('623PP', 'Shoryuken', 'OD升龙拳', { category: 'special' }),
+  buildMove('236236P', 'Shinku Hadoken', '真空波动拳', { category: 'super' }),
+  buildMove('214214K', 'Shin Shoryuken', '真·升龙拳', { category: 'super' }),
+];
+
+const inputsFor = (query: string) => searchMoves(moves, query).map(move => move.input);
+
+describe('toNumpadInput', () => {
+  it('reads English and Chinese stance notation', () => {
+    expect(toNumpadInput('cr.MK')).toBe('2MK');
+    expect(toNumpadInput('c.mk')).toBe('2MK');
+    expect(toNumpadInput('st HP')).toBe('5HP');
+    expect(toNumpadInput('蹲中脚')).toBe('2MK');
+    expect(toNumpadInput('跳跃重拳')).toBe('j.HP');
+    expect(toNumpadInput('Hadoken')).toBeNull();
+  });
+});
+
+describe('getPinyinInitials', () => {
+  it('maps Chinese characters to their pinyin initials', () => {
+    expect(getPinyinInitials('蹲下中脚')).toBe('dxzj');
+    expect(getPinyinInitials('OD升龙拳')).toBe('odslq');
+  });
+});
+
+describe('searchMoves', () => {
+  it('resolves notation, Chinese names and pinyin initials to the same move', () => {
+    for (const query of ['cr.MK', 'c.mk', '2MK', '蹲中脚', '蹲下中脚', 'dxzj']) {
+      expect(inputsFor(query)[0]).toBe('2MK');
+    }
+    expect(inputsFor('st.HP')[0]).toBe('5HP');
+    expect(inputsFor('jhp')[0]).toBe('j.HP');
+  });
+
+  it('understands common nicknames', () => {
+    expect(inputsFor('DP')).toEqual(['623HP', '623PP']);
+    expect(inputsFor('fireball')).toEqual(['236LP']);
+    expect(inputsFor('throw')).toEqual(['LPLK']);
+    expect(inputsFor('sa2')).toEqual(['214214K']);
+  });
+
+  it('ranks exact matches ahead of partial ones and honors the limit', () => {
+    expect(inputsFor('hadoken')).toEqual(['236LP', '236236P']);
+    expect(searchMoves(moves, '升龙', 1).map(move => move.input)).toEqual(['623HP']);
+    expect(searchMoves(moves, '  ', 2)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,153 @@
+import type { Move, ReversalKind } from '../types';
+import { isProjectileMove } from './moveFilters';
+import { getSuperLevels } from './reversals';
+
+// One resolver behind every move picker: numpad or "cr.MK" notation, Chinese shorthand ("蹲中脚"),
+// pinyin initials ("dxzj"), common nicknames ("DP", "fireball") and plain substrings, ranked.
+
+const MATCH_RANK = {
+  exactInput: 100,
+  exactName: 90,
+  nickname: 80,
+  inputPrefix: 70,
+  namePrefix: 60,
+  substring: 50,
+  pinyinInitials: 40,
+  subsequence: 20,
+};
+
+const BUTTON_PATTERN = '(lp|mp|hp|lk|mk|hk|pp|kk|p|k)';
+
+// English stance prefixes: "cr.MK", "c.mk", "st HP", "j.HK", "f.HP", "b.HK".
+const STANCE_PREFIXES: Array<[RegExp, string]> = [
+  [new RegExp(`^(?:crouching|crouch|cr|c)\\.?${BUTTON_PATTERN}$`), '2'],
+  [new RegExp(`^(?:standing|stand|st|s|cl|far)\\.?${BUTTON_PATTERN}$`), '5'],
+  [new RegExp(`^(?:jumping|jump|nj|j|air)\\.?${BUTTON_PATTERN}$`), 'j.'],
+  [new RegExp(`^(?:forward|fwd|f)\\.?${BUTTON_PATTERN}$`), '6'],
+  [new RegExp(`^(?:back|b)\\.?${BUTTON_PATTERN}$`), '4'],
+];
+
+// Chinese shorthand: "站重拳", "蹲下中脚", "跳轻脚", "前重拳".
+const ZH_STANCE: Record<string, string> = { 站: '5', 站立: '5', 蹲: '2', 蹲下: '2', 跳: 'j.', 跳跃: 'j.', 前: '6', 后: '4' };
+const ZH_STRENGTH: Record<string, string> = { 轻: 'L', 中: 'M', 重: 'H' };
+const ZH_BUTTON: Record<string, string> = { 拳: 'P', 脚: 'K' };
+const ZH_NORMAL_PATTERN = /^(站立?|蹲下?|跳跃?|前|后)([轻中重])([拳脚])$/;
+
+interface MoveNickname {
+  terms: string[];
+  matches: (move: Move, superLevel: ReversalKind | undefined) => boolean;
+}
+
+const isSpecial = (move: Move) => move.category === 'special';
+
+const MOVE_NICKNAMES: MoveNickname[] = [
+  { terms: ['dp', 'srk', 'shoryu', 'shoryuken', '升龙'], matches: move => isSpecial(move) && /^623/.test(move.input) },
+  { terms: ['fireball', 'hadoken', 'projectile', '波动', '飞行道具'], matches: move => isSpecial(move) && isProjectileMove(move) },
+  { terms: ['tatsu', 'hurricane', '旋风'], matches: move => isSpecial(move) && /^(?:j\.)?214[LMH]?K/.test(move.input) },
+  { terms: ['super', 'sa', '超必', '超必杀'], matches: move => move.category === 'super' },
+  { terms: ['sa1'], matches: (_move, level) => level === 'sa1' },
+  { terms: ['sa2'], matches: (_move, level) => level === 'sa2' },
+  { terms: ['sa3', 'ca'], matches: (_move, level) => level === 'sa3' },
+  { terms: ['throw', '投', '普通投'], matches: move => move.category === 'throw' && /^[46]?LPLK$/.test(move.input) },
+  { terms: ['di', 'driveimpact', 'impact', '迸放', '斗气迸放'], matches: move => move.input === 'HPHK' },
+  { terms: ['parry', 'driveparry', '招架'], matches: move => move.input === 'MPMK' },
+  { terms: ['sweep', '扫腿'], matches: move => move.input === '2HK' },
+];
+
+// Pinyin initials through the zh collation order: each letter starts at the first syllable with that initial.
+const PINYIN_BOUNDARIES = '阿八嚓哒妸发旮哈讥咔垃妈拏噢妑七呥扨它穵夕丫帀';
+const PINYIN_LETTERS = 'abcdefghjklmnopqrstwxyz';
+const HAN_PATTERN = /[一-鿿]/;
+
+let pinyinCollator: Intl.Collator | null | undefined;
+
+function getPinyinCollator(): Intl.Collator | null {
+  if (pinyinCollator === undefined) {
+    pinyinCollator = Intl.Collator.supportedLocalesOf(['zh-CN']).length > 0 ? new Intl.Collator('zh-CN') : null;
+  }
+  return pinyinCollator;
+}
+
+function getPinyinInitial(char: string): string {
+  const collator = getPinyinCollator();
+  if (!HAN_PATTERN.test(char) || !collator) return char.toLowerCase();
+  let initial = '';
+  for (let i = 0; i < PINYIN_BOUNDARIES.length; i++) {
+    if (collator.compare(char, PINYIN_BOUNDARIES[i]!) < 0) break;
+    initial = PINYIN_LETTERS[i]!;
+  }
+  return initial;
+}
+
+/** "蹲下中脚" → "dxzj"; non-Chinese characters are kept lowercased. */
+export function getPinyinInitials(text: string): string {
+  return [...text].map(getPinyinInitial).join('').replace(/\s/g, '');
+}
+
+/** Input without case, spaces or dots, so "j.HP" and "jhp" compare equal. */
+export function normalizeMoveInput(input: string): string {
+  return input.toUpperCase().replace(/[\s.]/g, '');
+}
+
+/** Numpad input a query spells out ("cr.MK", "c.mk", "蹲中脚" → "2MK"), or null for other queries. */
+export function toNumpadInput(query: string): string | null {
+  const compact = query.trim().toLowerCase().replace(/\s+/g, '');
+  for (const [pattern, prefix] of STANCE_PREFIXES) {
+    const match = compact.match(pattern);
+    if (match) return prefix + match[1]!.toUpperCase();
+  }
+  const zh = compact.match(ZH_NORMAL_PATTERN);
+  if (zh) return ZH_STANCE[zh[1]!]! + ZH_STRENGTH[zh[2]!]! + ZH_BUTTON[zh[3]!]!;
+  return null;
+}
+
+function isSubsequence(needle: string, haystack: string): boolean {
+  let index = 0;
+  for (const char of haystack) {
+    if (char === needle[index]) index++;
+    if (index === needle.length) return true;
+  }
+  return false;
+}
+
+function rankMove(move: Move, query: string, superLevel: ReversalKind | undefined): number {
+  const lower = query.toLowerCase();
+  const compact = lower.replace(/\s+/g, '');
+  const input = normalizeMoveInput(move.input);
+  const queryInput = normalizeMoveInput(toNumpadInput(query) ?? query);
+  const names = [move.name, move.nameZh, move.nameJa].filter((name): name is string => !!name).map(name => name.toLowerCase());
+
+  if (input === queryInput) return MATCH_RANK.exactInput;
+  if (names.includes(lower)) return MATCH_RANK.exactName;
+  if (MOVE_NICKNAMES.some(nickname => nickname.terms.includes(compact) && nickname.matches(move, superLevel))) {
+    return MATCH_RANK.nickname;
+  }
+  if (input.startsWith(queryInput)) return MATCH_RANK.inputPrefix;
+  if (names.some(name => name.startsWith(lower))) return MATCH_RANK.namePrefix;
+  if (input.includes(queryInput) || names.some(name => name.includes(lower))) return MATCH_RANK.substring;
+  if (/^[a-z]+$/.test(compact) && move.nameZh && getPinyinInitials(move.nameZh).includes(compact)) {
+    return MATCH_RANK.pinyinInitials;
+  }
+  // Chinese queries may skip characters: "蹲中脚" in "蹲下中脚".
+  if (HAN_PATTERN.test(compact) && names.some(name => isSubsequence(compact, name))) {
+    return MATCH_RANK.subsequence;
+  }
+  return 0;
+}
+
+/**
+ * Moves matching a picker query, best match first (data order within the same rank).
+ * An empty query returns the first `limit` moves unchanged.
+ */
+export function searchMoves<T extends Move>(moves: T[], query: string, limit = Infinity): T[] {
+  const trimmed = query.trim();
+  if (!trimmed) return moves.slice(0, limit);
+
+  const superLevels = getSuperLevels(moves);
+  return moves
+    .map((move, index) => ({ move, index, rank: rankMove(move, trimmed, superLevels.get(move)) }))
+    .filter(entry => entry.rank > 0)
+    .sort((a, b) => b.rank - a.rank || a.index - b.index)
+    .slice(0, limit)
+    .map(entry => entry.move);
+}
@@ -0,0 +1,339 @@
+import type { CharacterStats, Move } from '../../types';
+import { calculateDriveRushAttackTiming, getDriveRushMoveStartup } from '../driveRush';
+import { buildOkiResultKeyBase, getUniqueOkiResultKey } from '../okiResultKey';
+import { isSafeBaitTotalFrames } from '../wakeupDriveReversal';
+import { getOkiPrefixKey, matchesComboChain } from './comboChain';
+import {
+  calculateMeatyAdvantage,
+  getActiveDisplayInfo,
+  getDriveRushAdvantageBonus,
+  getDriveRushFollowUpMoves,
+  getMeatyOverlap,
+  getOkiCandidateMoves,
+  OKI_RESULT_LIMIT,
+} from './meaty';
+import { getFillerFrameInfo, getThrowFillerMoves } from './throwLoop';
+import type { OkiTiming } from './timing';
+import type {
+  BurstPressureResult,
+  ComboAction,
+  DriveRushOkiResult,
+  FrameTrapResult,
+  OkiPrefixPart,
+  SafeBaitResult,
+} from './types';
+
+export const BURST_STARTUP_FRAMES = 26;
+export const BURST_ACTIVE_FRAMES = 2;
+
+export type AltPrefixOption = {
+  parts: OkiPrefixPart[];
+  frames: number;
+};
+
+export function getAltPrefixes(stats: Pick<CharacterStats, 'forwardDash'>): AltPrefixOption[] {
+  return [
+    { parts: [], frames: 0 },
+    { parts: [{ kind: 'dash', count: 1 }], frames: stats.forwardDash },
+    { parts: [{ kind: 'dash', count: 2 }], frames: stats.forwardDash * 2 },
+  ];
+}
+
+export type AltOkiParams = {
+  moves: Move[];
+  stats: Pick<CharacterStats, 'forwardDash'>;
+  timing: OkiTiming;
+  extraDelayFrames: number;
+  comboChain?: ComboAction[];
+  limit?: number;
+};
+
+function normalizeExtraDelay(value: number): number {
+  return Math.max(0, Math.trunc(value || 0));
+}
+
+export type BurstPressureTarget = {
+  firstActiveFrame: number;
+  lastActiveFrame: number;
+  requiredDelay: number;
+};
+
+// pressureOffset = 1 means Drive Impact's first active frame lands on the wakeup frame.
+export function getBurstPressureTarget(
+  timing: Pick<OkiTiming, 'opponentWakeupFrame'>,
+  pressureOffset: number,
+): BurstPressureTarget {
+  const normalizedOffset = Math.max(1, Math.trunc(pressureOffset || 1));
+  const firstActiveFrame = timing.opponentWakeupFrame + normalizedOffset - 1;
+  return {
+    firstActiveFrame,
+    lastActiveFrame: firstActiveFrame + BURST_ACTIVE_FRAMES - 1,
+    requiredDelay: firstActiveFrame - BURST_STARTUP_FRAMES,
+  };
+}
+
+export function generateBurstPressureResults(params: AltOkiParams & { pressureOffset: number }): BurstPressureResult[] {
+  const { timing } = params;
+  const target = getBurstPressureTarget(timing, params.pressureOffset);
+  if (timing.knockdownAdvantage <= 0) return [];
+  if (target.requiredDelay < 0) return [];
+
+  const results: BurstPressureResult[] = [];
+  const targetDelay = target.requiredDelay;
+  const extraDelay = normalizeExtraDelay(params.extraDelayFrames);
+  const fillerMoves = getThrowFillerMoves(params.moves);
+
+  for (const prefix of getAltPrefixes(params.stats)) {
+    const baseDelay = prefix.frames;
+    const directDelay = baseDelay + extraDelay;
+    if (directDelay === targetDelay) {
+      const firstActive = directDelay + BURST_STARTUP_FRAMES;
+      results.push({
+        key: `${getOkiPrefixKey(prefix.parts)}|direct|${prefix.frames}`,
+        prefix: prefix.parts,
+        prefixFrames: prefix.frames,
+        fillerFrames: 0,
+        baseDelay,
+        extraDelayFrames: extraDelay,
+        delay: directDelay,
+        firstActive,
+        lastActive: firstActive + BURST_ACTIVE_FRAMES - 1,
+        wakeupOffset: firstActive - timing.opponentWakeupFrame + 1,
+      });
+    }
+
+    for (const move of fillerMoves) {
+      const filler = getFillerFrameInfo(move);
+      if (filler.fillerFrames <= 0) continue;
+      const baseDelay = prefix.frames + filler.fillerFrames;
+      const delay = baseDelay + extraDelay;
+      if (delay !== targetDelay) continue;
+
+      const firstActive = delay + BURST_STARTUP_FRAMES;
+      results.push({
+        key: `${getOkiPrefixKey(prefix.parts)}|${prefix.frames}|${move.name}|${move.input}|${filler.fillerFrames}`,
+        prefix: prefix.parts,
+        prefixFrames: prefix.frames,
+        filler: move,
+        ...filler,
+        baseDelay,
+        extraDelayFrames: extraDelay,
+        delay,
+        firstActive,
+        lastActive: firstActive + BURST_ACTIVE_FRAMES - 1,
+        wakeupOffset: firstActive - timing.opponentWakeupFrame + 1,
+      });
+    }
+  }
+
+  return results
+    .filter(result => matchesComboChain({ prefix: result.prefix, move: result.filler }, params.comboChain))
+    .sort((a, b) => a.delay - b.delay || a.prefixFrames - b.prefixFrames)
+    .slice(0, params.limit ?? OKI_RESULT_LIMIT);
+}
+
+// Filler sequences that leave the attacker exactly at the target frame advantage on wakeup.
+export function generateFrameTrapResults(params: AltOkiParams & { targetAdvantage: number }): FrameTrapResult[] {
+  const { timing } = params;
+  if (timing.knockdownAdvantage <= 0) return [];
+
+  const targetAdv = Math.trunc(params.targetAdvantage || 0);
+  const results: FrameTrapResult[] = [];
+  const extraDelay = normalizeExtraDelay(params.extraDelayFrames);
+  const fillerMoves = getThrowFillerMoves(params.moves);
+
+  for (const prefix of getAltPrefixes(params.stats)) {
+    const baseTotal = prefix.frames;
+    const directTotal = baseTotal + extraDelay;
+    const directAdv = timing.knockdownAdvantage - directTotal;
+    if (directAdv === targetAdv) {
+      results.push({
+        key: `${getOkiPrefixKey(prefix.parts)}|direct|${prefix.frames}`,
+        prefix: prefix.parts,
+        prefixFrames: prefix.frames,
+        fillerFrames: 0,
+        baseTotalFrames: baseTotal,
+        extraDelayFrames: extraDelay,
+        totalFrames: directTotal,
+        resultingAdvantage: directAdv,
+        deltaToTarget: directAdv - targetAdv,
+      });
+    }
+
+    for (const move of fillerMoves) {
+      const filler = getFillerFrameInfo(move);
+      if (filler.fillerFrames <= 0) continue;
+      const baseTotalFrames = prefix.frames + filler.fillerFrames;
+      const totalFrames = baseTotalFrames + extraDelay;
+      const resultingAdvantage = timing.knockdownAdvantage - totalFrames;
+      if (resultingAdvantage !== targetAdv) continue;
+
+      results.push({
+        key: `${getOkiPrefixKey(prefix.parts)}|${prefix.frames}|${move.name}|${move.input}|${filler.fillerFrames}`,
+        prefix: prefix.parts,
+        prefixFrames: prefix.frames,
+        filler: move,
+        ...filler,
+        baseTotalFrames,
+        extraDelayFrames: extraDelay,
+        totalFrames,
+        resultingAdvantage,
+        deltaToTarget: resultingAdvantage - targetAdv,
+      });
+    }
+  }
+
+  return results
+    .filter(result => matchesComboChain({ prefix: result.prefix, move: result.filler }, params.comboChain))
+    .sort((a, b) => a.totalFrames - b.totalFrames || a.prefixFrames - b.prefixFrames)
+    .slice(0, params.limit ?? OKI_RESULT_LIMIT);
+}
+
+// Filler sequences that finish recovering before the defender's reversal becomes active.
+export function generateSafeBaitResults(params: AltOkiParams): SafeBaitResult[] {
+  const { timing } = params;
+  if (timing.knockdownAdvantage <= 0) return [];
+
+  const results: SafeBaitResult[] = [];
+  const extraDelay = normalizeExtraDelay(params.extraDelayFrames);
+  const strictLimitFrame = timing.safeBaitStrictLimitFrame;
+  const baitLimitFrame = timing.safeBaitMaxTotalFrame;
+  const fillerMoves = getThrowFillerMoves(params.moves);
+
+  const pushResult = (result: Omit<SafeBaitResult, 'strictLimitFrame' | 'baitLimitFrame' | 'safetyMargin'>) => {
+    if (!isSafeBaitTotalFrames({
+      totalFrames: result.totalFrames,
+      opponentWakeupFrame: timing.opponentWakeupFrame,
+      opponentMoveStartup: timing.opponentReversalStartup,
+    })) {
+      return;
+    }
+
+    results.push({
+      ...result,
+      strictLimitFrame,
+      baitLimitFrame,
+      safetyMargin: baitLimitFrame - result.totalFrames,
+    });
+  };
+
+  for (const prefix of getAltPrefixes(params.stats)) {
+    pushResult({
+      key: `${getOkiPrefixKey(prefix.parts)}|direct|${prefix.frames}`,
+      prefix: prefix.parts,
+      prefixFrames: prefix.frames,
+      fillerFrames: 0,
+      baseTotalFrames: prefix.frames,
+      extraDelayFrames: extraDelay,
+      totalFrames: prefix.frames + extraDelay,
+    });
+
+    for (const move of fillerMoves) {
+      const filler = getFillerFrameInfo(move);
+      if (filler.fillerFrames <= 0) continue;
+      const baseTotalFrames = prefix.frames + filler.fillerFrames;
+
+      pushResult({
+        key: `${getOkiPrefixKey(prefix.parts)}|${prefix.frames}|${move.name}|${move.input}|${filler.fillerFrames}`,
+        prefix: prefix.parts,
+        prefixFrames: prefix.frames,
+        filler: move,
+        ...filler,
+        baseTotalFrames,
+        extraDelayFrames: extraDelay,
+        totalFrames: baseTotalFrames + extraDelay,
+      });
+    }
+  }
+
+  return results
+    .filter(result => matchesComboChain({ prefix: result.prefix, move: result.filler }, params.comboChain))
+    .sort((a, b) => a.safetyMargin - b.safetyMargin || b.totalFrames - a.totalFrames || a.prefixFrames - b.prefixFrames)
+    .slice(0, params.limit ?? OKI_RESULT_LIMIT);
+}
+
+// Drive Rush started after a short prefix, with the follow-up button timed as a meaty.
+export function generateDriveRushOkiResults(params: AltOkiParams): DriveRushOkiResult[] {
+  const { timing } = params;
+  if (timing.knockdownAdvantage <= 0) return [];
+
+  const results: DriveRushOkiResult[] = [];
+  const keyCounts = new Map<string, number>();
+  const extraDelay = normalizeExtraDelay(params.extraDelayFrames);
+  const oppWindowStart = timing.opponentWakeupFrame;
+  const followUpMoves = getDriveRushFollowUpMoves(getOkiCandidateMoves(params.moves));
+
+  for (const prefix of getAltPrefixes(params.stats)) {
+    for (const move of followUpMoves) {
+      const startup = getDriveRushMoveStartup(move) ?? 0;
+      if (startup <= 0) continue;
+
+      const activeInfo = getActiveDisplayInfo(move);
+      const driveRushStartDelay = prefix.frames + extraDelay;
+      const driveRushTiming = calculateDriveRushAttackTiming({
+        driveRushStartFrame: driveRushStartDelay,
+        moveStartup: startup,
+        activeStartOffset: activeInfo.activeDisplayStartOffset,
+        activeLength: activeInfo.activeDisplayLength,
+      });
+      const firstActive = driveRushTiming.firstActiveFrame;
+      const lastActive = driveRushTiming.lastActiveFrame;
+
+      const { isSuccessMatch, isTradeMatch, toleranceFrames } = getMeatyOverlap(timing, firstActive, lastActive);
+      if (!isSuccessMatch && !isTradeMatch) continue;
+
+      const meatyStartFrame = driveRushTiming.fastestHitFrame + activeInfo.meatyStartOffset;
+      const effectiveHitFrame = Math.max(meatyStartFrame, oppWindowStart);
+      const canApplyMeaty = !move.noMeaty;
+      const meatyBonus = canApplyMeaty ? (effectiveHitFrame - meatyStartFrame) : 0;
+      const driveRushAdvantageBonus = getDriveRushAdvantageBonus(move);
+
+      const baseKey = buildOkiResultKeyBase({
+        prefixName: `${getOkiPrefixKey(prefix.parts)}|DR`,
+        prefixFrames: driveRushStartDelay,
+        moveName: move.name,
+        moveInput: move.input,
+        ourActiveStart: firstActive,
+        ourActiveEnd: lastActive,
+      });
+      const key = getUniqueOkiResultKey(baseKey, keyCounts);
+
+      results.push({
+        key,
+        prefix: prefix.parts,
+        prefixFrames: prefix.frames,
+        extraDelayFrames: extraDelay,
+        driveRushStartDelay,
+        attackStartFrame: driveRushTiming.attackStartFrame,
+        move,
+        startup,
+        fastestHitFrame: driveRushTiming.fastestHitFrame,
+        firstActive,
+        lastActive,
+        wakeupOffset: firstActive - timing.opponentWakeupFrame + 1,
+        toleranceFrames,
+        coversOpponent: isSuccessMatch,
+        isTrade: isTradeMatch,
+        ...activeInfo,
+        meatyStartFrame,
+        meatyBonus,
+        effectiveHitFrame,
+        driveRushAdvantageBonus,
+        ...calculateMeatyAdvantage({
+          move,
+          meatyBonus,
+          isSuccessMatch,
+          extraAdvantage: driveRushAdvantageBonus,
+        }),
+      });
+    }
+  }
+
+  return results
+    .filter(result => matchesComboChain({ prefix: result.prefix, move: result.move, driveRush: true }, params.comboChain))
+    .sort((a, b) => {
+      if (a.coversOpponent !== b.coversOpponent) return a.coversOpponent ? -1 : 1;
+      return a.firstActive - b.firstActive || a.startup - b.startup;
+    })
+    .slice(0, params.limit ?? OKI_RESULT_LIMIT);
+}
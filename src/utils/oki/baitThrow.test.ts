@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { Move } from '../../types';
+import { calculateBaitThrow } from './baitThrow';
+
+const buildMove = (overrides: Partial<Move>): Move => ({
+  name: 'Stand HP',
+  input: '5HP',
+  damage: '800',
+  startup: '10',
+  active: '3',
+  recovery: '20',
+  onBlock: '-3',
+  onHit: '+1',
+  category: 'normal',
+  ...overrides,
+});
+
+describe('calculateBaitThrow', () => {
+  it('beats a normal throw with neutral jump pre-jump frames', () => {
+    const result = calculateBaitThrow({
+      initiator: buildMove({}),
+      isDriveRushCancel: false,
+      baitAction: 'jump',
+      customStartup: 5,
+      customWhiffRecovery: 30,
+    });
+
+    expect(result.F_bait_start).toBe(4);
+    expect(result.F_grab_active).toBe(5);
+    expect(result.isSafe).toBe(true);
+    expect(result.safetyReason.key).toBe('oki.bait.jump.preJump');
+    expect(result.punishAdvantage).toBe(-14);
+  });
+
+  it('is not safe when the attacker recovers after the throw connects', () => {
+    const result = calculateBaitThrow({
+      initiator: buildMove({ onBlock: '-6' }),
+      isDriveRushCancel: false,
+      baitAction: 'backdash',
+      stats: { backDash: 23 },
+      customStartup: 5,
+      customWhiffRecovery: 30,
+    });
+
+    expect(result.F_bait_start).toBe(7);
+    expect(result.isSafe).toBe(false);
+  });
+
+  it('uses the defender command grab when provided', () => {
+    const result = calculateBaitThrow({
+      initiator: buildMove({}),
+      isDriveRushCancel: true,
+      baitAction: 'backdash',
+      stats: { backDash: 23 },
+      defenderMove: buildMove({ name: 'Command Grab', input: '63214P', startup: '5', active: '2', recovery: '45', category: 'throw' }),
+      customStartup: 5,
+      customWhiffRecovery: 30,
+    });
+
+    // Drive Rush cancel: 11 - blockstun (3 + 20 - 3).
+    expect(result.F_bait_start).toBe(-8);
+    expect(result.grabName).toBe('Command Grab');
+    expect(result.grabTotal).toBe(51);
+    expect(result.isSafe).toBe(true);
+  });
+});
@@ -0,0 +1,141 @@
+import type { LocalizedMessage, LocalizedText } from '../../i18n';
+import type { CharacterStats, Move } from '../../types';
+import { PARRY_DRIVE_RUSH_ATTACK_CANCEL_FRAME } from '../driveRush';
+import { getMoveFrames } from '../frameValue';
+import { calculateMoveStats } from '../gapCalculator';
+import { defaultMoveNameFormatter } from './comboChain';
+import { getMoveTotalFrames } from './frames';
+import type { BaitThrowResult, MoveNameFormatter } from './types';
+
+export const EMPTY_JUMP_TOTAL_FRAMES = 45;
+export const JUMP_PRE_JUMP_FRAMES = 4;
+export const BACKDASH_THROW_INVUL_FRAMES = 17;
+export const DEFAULT_BACKDASH_FRAMES = 23;
+
+export type BaitAction = 'jump' | 'backdash';
+
+/**
+ * Blockstring bait (e.g. 5HP → neutral jump / backdash) against the defender's
+ * throw or invincible command grab once their blockstun ends.
+ */
+export function calculateBaitThrow(params: {
+  initiator: Move;
+  isDriveRushCancel: boolean;
+  baitAction: BaitAction;
+  stats?: Pick<CharacterStats, 'backDash'>;
+  // When omitted, the custom startup / whiff recovery below describe a normal throw.
+  defenderMove?: Move | null;
+  customStartup: number;
+  customWhiffRecovery: number;
+  formatMoveName?: MoveNameFormatter;
+}): BaitThrowResult {
+  const move1 = params.initiator;
+  const formatMoveName = params.formatMoveName ?? defaultMoveNameFormatter;
+
+  const stats1 = calculateMoveStats(move1);
+  const blockstun1 = stats1.blockstun;
+  const onBlock1 = getMoveFrames(move1).onBlock.leading ?? 0;
+  const isDRC = params.isDriveRushCancel;
+
+  // Defender action info
+  let grabName: LocalizedText = { key: 'oki.bait.defaultThrow' };
+  let grabInput = 'LP+LK';
+  let grabStartup = 5;
+  let grabRecovery = 50;
+  let grabTotal = 53;
+
+  if (params.defenderMove) {
+    const move2 = params.defenderMove;
+    grabName = formatMoveName(move2);
+    grabInput = move2.input;
+    grabStartup = parseInt(move2.startup) || 5;
+
+    const totalFrames = getMoveTotalFrames(move2);
+    grabTotal = totalFrames > 0 ? totalFrames : (grabStartup + 50);
+    grabRecovery = grabTotal - grabStartup;
+  } else {
+    grabStartup = params.customStartup;
+    grabRecovery = params.customWhiffRecovery;
+    grabTotal = grabStartup + grabRecovery;
+  }
+
+  const baitAction = params.baitAction;
+  const baitName: LocalizedMessage = { key: `oki.bait.action.${baitAction}` };
+  let baitDuration = EMPTY_JUMP_TOTAL_FRAMES;
+  if (baitAction === 'backdash') {
+    baitDuration = params.stats ? params.stats.backDash : DEFAULT_BACKDASH_FRAMES;
+  }
+
+  // Calculations relative to opponent recovery at Frame 0:
+  // - If direct (no DRC): defender recovers on Blockstun1. Attacker recovers on Blockstun1 - OnBlock1.
+  //   Relative start frame of bait action is: (Blockstun1 - OnBlock1) - Blockstun1 = -OnBlock1.
+  // - If DRC: attacker starts jump on Frame 11 of the run. Defender recovers on Blockstun1.
+  //   Relative start frame of bait action is: 11 - Blockstun1.
+  const relativeBaitStart = isDRC ? (PARRY_DRIVE_RUSH_ATTACK_CANCEL_FRAME - blockstun1) : -onBlock1;
+
+  // 1-based index where 1 is the defender's first recovery frame.
+  // Grab active frame is Frame `grabStartup` (since startup 5 means it hits on 5th frame).
+  const F_opp_act = 1;
+  const F_grab_active = grabStartup;
+  const F_bait_start = relativeBaitStart + 1;
+
+  let isSafe = false;
+  let safetyReason: LocalizedMessage;
+
+  if (baitAction === 'jump') {
+    const F_airborne = F_bait_start + JUMP_PRE_JUMP_FRAMES; // pre-jump is 4 frames (F_bait_start to F_bait_start+3)
+    isSafe = F_grab_active >= F_bait_start;
+    if (isSafe) {
+      if (F_grab_active >= F_airborne) {
+        safetyReason = { key: 'oki.bait.jump.airborne', params: { grabActive: F_grab_active, airborne: F_airborne } };
+      } else {
+        safetyReason = {
+          key: 'oki.bait.jump.preJump',
+          params: { grabActive: F_grab_active, start: F_bait_start, end: F_airborne - 1 },
+        };
+      }
+    } else {
+      safetyReason = { key: 'oki.bait.jump.tooLate', params: { baitStart: F_bait_start, grabActive: F_grab_active } };
+    }
+  } else {
+    const F_invul_end = F_bait_start + BACKDASH_THROW_INVUL_FRAMES - 1;
+    isSafe = F_grab_active >= F_bait_start && F_grab_active <= F_invul_end;
+    if (isSafe) {
+      safetyReason = {
+        key: 'oki.bait.backdash.safe',
+        params: { grabActive: F_grab_active, start: F_bait_start, end: F_invul_end },
+      };
+    } else if (F_grab_active < F_bait_start) {
+      safetyReason = { key: 'oki.bait.backdash.tooLate' };
+    } else {
+      safetyReason = { key: 'oki.bait.backdash.tooEarly', params: { grabActive: F_grab_active } };
+    }
+  }
+
+  // Punish frame advantage calculation
+  const F_attacker_recover = F_bait_start + baitDuration;
+  const F_defender_recover = F_opp_act + grabTotal - 1;
+  const punishAdvantage = F_defender_recover - F_attacker_recover;
+
+  return {
+    move1,
+    isDRC,
+    blockstun1,
+    onBlock1,
+    grabName,
+    grabInput,
+    grabStartup,
+    grabRecovery,
+    grabTotal,
+    baitName,
+    baitDuration,
+    F_bait_start,
+    F_opp_act,
+    F_grab_active,
+    isSafe,
+    safetyReason,
+    F_attacker_recover,
+    F_defender_recover,
+    punishAdvantage,
+  };
+}
@@ -0,0 +1,100 @@
+import type { LocalizedText } from '../../i18n';
+import type { Move } from '../../types';
+import type { ComboAction, MoveNameFormatter, OkiPrefixPart } from './types';
+
+export const defaultMoveNameFormatter: MoveNameFormatter = move => move.name;
+
+export function getComboActionDisplayName(
+  action: ComboAction,
+  formatMoveName: MoveNameFormatter = defaultMoveNameFormatter,
+): LocalizedText {
+  switch (action.type) {
+    case 'driveRush':
+      return action.move
+        ? { key: 'oki.prefix.driveRushMove', params: { move: formatMoveName(action.move) } }
+        : { key: 'oki.prefix.driveRush' };
+    case 'move':
+      return action.move ? formatMoveName(action.move) : '';
+    case 'emptyJump':
+      return { key: 'oki.prefix.emptyJump' };
+    case 'jumpAction':
+      return { key: 'oki.prefix.jumpAction' };
+    case 'dash':
+      return { key: 'oki.prefix.dash' };
+  }
+}
+
+export function getOkiPrefixPartLabel(
+  part: OkiPrefixPart,
+  formatMoveName: MoveNameFormatter = defaultMoveNameFormatter,
+): LocalizedText {
+  switch (part.kind) {
+    case 'dash':
+      return part.count > 1 ? { key: 'oki.prefix.dashRepeat', params: { count: part.count } } : { key: 'oki.prefix.dash' };
+    case 'move':
+      return formatMoveName(part.move);
+    case 'chainCancel':
+      return { key: 'oki.prefix.chainCancel', params: { input: part.move.input, count: part.steps } };
+    case 'driveRush':
+      return { key: 'oki.prefix.driveRush' };
+  }
+}
+
+// Stable text id of a prefix for result keys, independent of the UI language.
+export function getOkiPrefixKey(parts: OkiPrefixPart[]): string {
+  return parts.map(part => {
+    switch (part.kind) {
+      case 'dash':
+        return part.count > 1 ? `dash×${part.count}` : 'dash';
+      case 'move':
+        return part.move.name;
+      case 'chainCancel':
+        return `${part.move.input}×${part.steps}`;
+      case 'driveRush':
+        return 'DR';
+    }
+  }).join(' + ');
+}
+
+export function hasDashPrefix(parts: OkiPrefixPart[]): boolean {
+  return parts.some(part => part.kind === 'dash');
+}
+
+// What a result is built from, for the combo chain filter.
+export type ComboChainTarget = {
+  prefix: OkiPrefixPart[];
+  // Meaty button or filler
+  move?: Move;
+  // The button comes out of a Drive Rush
+  driveRush?: boolean;
+};
+
+function isSameMove(a: Move, b: Move): boolean {
+  return a.name === b.name && a.input === b.input;
+}
+
+// A result matches the combo chain when it contains every chained action.
+export function matchesComboChain(target: ComboChainTarget, comboChain: ComboAction[] | undefined): boolean {
+  if (!comboChain || comboChain.length === 0) return true;
+  const moves = [
+    ...target.prefix.flatMap(part => (part.kind === 'move' || part.kind === 'chainCancel' ? [part.move] : [])),
+    ...(target.move ? [target.move] : []),
+  ];
+  const usesDriveRush = !!target.driveRush || target.prefix.some(part => part.kind === 'driveRush');
+
+  return comboChain.every(action => {
+    switch (action.type) {
+      case 'dash':
+        return hasDashPrefix(target.prefix);
+      case 'driveRush':
+        return action.move
+          ? !!target.driveRush && !!target.move && isSameMove(target.move, action.move)
+          : usesDriveRush;
+      case 'move':
+        return !!action.move && moves.some(move => isSameMove(move, action.move!));
+      default:
+        // No generated setup starts with a jump.
+        return false;
+    }
+  });
+}
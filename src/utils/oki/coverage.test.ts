@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { translate } from '../../i18n';
+import type { ReversalEntry } from '../../types';
+import { buildWakeupCoverage } from './coverage';
+import { createOkiTiming } from './timing';
+
+const odShoryuken: ReversalEntry = {
+  kind: 'odDp',
+  moveInput: '623PP',
+  moveName: 'Shoryuken',
+  startup: 6,
+  invincible: { start: 1, end: 6 },
+  invincibleSource: 'estimated',
+};
+const superArt: ReversalEntry = { ...odShoryuken, kind: 'sa1', moveInput: '236236P', moveName: 'Shinku Hadoken', startup: 12 };
+const screwPiledriver: ReversalEntry = {
+  kind: 'commandGrab',
+  moveInput: '360+LP',
+  moveName: 'Screw Piledriver',
+  startup: 5,
+  invincible: null,
+  invincibleSource: null,
+};
+
+// Knockdown +40: wakeup on 41, 4F jab active on 44.
+const timing = createOkiTiming({ knockdownAdvantage: 40, opponentReversalStartup: 4 });
+
+function outcomes(cells: ReturnType<typeof buildWakeupCoverage>) {
+  return Object.fromEntries(cells.map(cell => [cell.option, cell.outcome]));
+}
+
+describe('buildWakeupCoverage', () => {
+  it('beats strikes, throws and jumps with a plus meaty on the first wakeup frame', () => {
+    const cells = buildWakeupCoverage({
+      result: { ourActiveStart: 41, ourActiveEnd: 43, recoverFrame: 51, calculatedOnBlock: 2 },
+      timing,
+      reversals: [odShoryuken],
+    });
+
+    expect(outcomes(cells)).toEqual({
+      block: 'wins',
+      jab: 'wins',
+      throwTech: 'wins',
+      backdash: 'wins',
+      neutralJump: 'wins',
+      driveReversal: 'wins',
+      reversal: 'loses',
+      driveImpact: 'resets',
+    });
+    const label = cells.find(cell => cell.option === 'reversal')!.label;
+    expect(translate('zh-CN', label.key, label.params)).toBe('OD 升龙 623PP');
+    expect(translate('en', label.key, label.params)).toBe('OD DP 623PP');
+  });
+
+  it('trades with a jab on its first active frame but loses the same frame to a throw', () => {
+    const result = { ourActiveStart: 44, ourActiveEnd: 46, recoverFrame: 54, calculatedOnBlock: -5 };
+    const cells = outcomes(buildWakeupCoverage({ result, timing }));
+
+    expect(cells.jab).toBe('trades');
+    expect(cells.throwTech).toBe('wins');
+    expect(outcomes(buildWakeupCoverage({ result, timing, throwStartup: 4 })).throwTech).toBe('loses');
+    expect(cells.block).toBe('loses');
+    expect(cells.backdash).toBe('resets');
+    expect(cells.neutralJump).toBe('wins');
+    expect(cells.reversal).toBeUndefined();
+  });
+
+  it('resets when the setup recovers before the wakeup options come out', () => {
+    const cells = outcomes(buildWakeupCoverage({
+      result: { ourActiveStart: 30, ourActiveEnd: 32, recoverFrame: 38, calculatedOnBlock: -2 },
+      timing,
+      reversals: [superArt],
+    }));
+
+    expect(cells.block).toBe('resets');
+    expect(cells.jab).toBe('resets');
+    expect(cells.throwTech).toBe('resets');
+    expect(cells.reversal).toBe('wins');
+    expect(cells.driveImpact).toBe('wins');
+  });
+
+  it('adds one cell per catalog reversal; command grabs only lose to a meaty that hits first', () => {
+    const reversals = [screwPiledriver, odShoryuken];
+    const meaty = buildWakeupCoverage({
+      result: { ourActiveStart: 41, ourActiveEnd: 43, recoverFrame: 51, calculatedOnBlock: 2 },
+      timing,
+      reversals,
+    }).filter(cell => cell.option === 'reversal');
+    const early = buildWakeupCoverage({
+      result: { ourActiveStart: 30, ourActiveEnd: 32, recoverFrame: 38, calculatedOnBlock: -2 },
+      timing,
+      reversals,
+    }).filter(cell => cell.option === 'reversal');
+
+    expect(meaty.map(cell => [cell.reversal?.moveInput, cell.outcome])).toEqual([['360+LP', 'wins'], ['623PP', 'loses']]);
+    expect(early.map(cell => [cell.reversal?.moveInput, cell.outcome])).toEqual([['360+LP', 'loses'], ['623PP', 'wins']]);
+  });
+
+  it('beats a reversal whose invincibility ends before it becomes active', () => {
+    // Invincible 1-4, active on 9: frames 45-48 after a +40 knockdown can be hit.
+    const shortInvuln: ReversalEntry = { ...superArt, kind: 'sa2', startup: 9, invincible: { start: 1, end: 4 }, invincibleSource: 'frameData' };
+    const cells = outcomes(buildWakeupCoverage({
+      result: { ourActiveStart: 45, ourActiveEnd: 47, recoverFrame: 60, calculatedOnBlock: -8 },
+      timing,
+      reversals: [shortInvuln],
+    }));
+
+    expect(cells.reversal).toBe('wins');
+  });
+});
@@ -0,0 +1,231 @@
+import type { LocalizedMessage } from '../../i18n';
+import type { CharacterStats, ReversalEntry } from '../../types';
+import { REVERSAL_KIND_LABELS } from '../reversals';
+import { canBlockWakeupDriveReversal } from '../wakeupDriveReversal';
+import { BURST_STARTUP_FRAMES } from './altOki';
+import { DEFAULT_BACKDASH_FRAMES, EMPTY_JUMP_TOTAL_FRAMES, JUMP_PRE_JUMP_FRAMES } from './baitThrow';
+import { getMeatyOverlap } from './meaty';
+import { createOkiTiming, type OkiTiming } from './timing';
+import type { ExtendedOkiResult } from './types';
+
+// How one meaty setup fares against each wakeup option, from the attacker's side:
+// wins = the setup beats the option, loses = the option beats the setup,
+// trades = both hit, resets = nobody gets a reward and neutral starts over.
+
+export type WakeupOption =
+  | 'block'
+  | 'jab'
+  | 'throwTech'
+  | 'backdash'
+  | 'neutralJump'
+  | 'driveReversal'
+  | 'reversal'
+  | 'driveImpact';
+
+export type CoverageOutcome = 'wins' | 'loses' | 'trades' | 'resets';
+
+export interface WakeupCoverageCell {
+  option: WakeupOption;
+  label: LocalizedMessage;
+  outcome: CoverageOutcome;
+  detail: LocalizedMessage;
+  // Catalog entry the cell was evaluated with (option 'reversal').
+  reversal?: ReversalEntry;
+}
+
+export const WAKEUP_JAB_STARTUP = 4;
+
+// Frame disadvantage a 4F jab punishes on block.
+const PUNISHABLE_ON_BLOCK = -WAKEUP_JAB_STARTUP;
+
+type CoverageResult = Pick<ExtendedOkiResult, 'ourActiveStart' | 'ourActiveEnd' | 'recoverFrame' | 'calculatedOnBlock'>;
+
+type CoverageTiming = Pick<OkiTiming, 'knockdownAdvantage' | 'opponentWakeupFrame' | 'wakeupDriveReversalImpactFrame'>;
+
+// Non-invincible wakeup button: the meaty has to land before its first active frame.
+function evaluateWakeupButton(
+  result: CoverageResult,
+  timing: CoverageTiming,
+  startup: number,
+  beatsStrikes: boolean,
+): { outcome: CoverageOutcome; firstActive: number } {
+  const optionTiming = createOkiTiming({ knockdownAdvantage: timing.knockdownAdvantage, opponentReversalStartup: startup });
+  const overlap = getMeatyOverlap(optionTiming, result.ourActiveStart, result.ourActiveEnd);
+  const firstActive = optionTiming.opponentFirstActiveFrame;
+
+  if (overlap.isSuccessMatch) return { outcome: 'wins', firstActive };
+  // Throws beat strikes on the same frame; buttons trade.
+  if (overlap.isTradeMatch && !beatsStrikes) return { outcome: 'trades', firstActive };
+  if (result.recoverFrame > firstActive || overlap.isTradeMatch) return { outcome: 'loses', firstActive };
+  return { outcome: 'resets', firstActive };
+}
+
+function evaluateBlock(result: CoverageResult): Omit<WakeupCoverageCell, 'option' | 'label'> {
+  const onBlock = result.calculatedOnBlock;
+  if (typeof onBlock !== 'number') {
+    return { outcome: 'resets', detail: { key: 'oki.coverage.block.unknown', params: { onBlock: onBlock ?? '-' } } };
+  }
+  const text = `${onBlock > 0 ? '+' : ''}${onBlock}`;
+  if (onBlock >= 0) return { outcome: 'wins', detail: { key: 'oki.coverage.block.plus', params: { onBlock: text } } };
+  if (onBlock <= PUNISHABLE_ON_BLOCK) {
+    return {
+      outcome: 'loses',
+      detail: { key: 'oki.coverage.block.punishable', params: { onBlock: text, startup: WAKEUP_JAB_STARTUP } },
+    };
+  }
+  return { outcome: 'resets', detail: { key: 'oki.coverage.block.minus', params: { onBlock: text } } };
+}
+
+// Invincible reversals go through the meaty, so the setup has to recover in time to block.
+// Command grabs are not invincible but cannot be blocked: only a meaty that hits first beats them.
+function evaluateReversal(
+  result: CoverageResult,
+  timing: CoverageTiming,
+  reversal: ReversalEntry,
+): Omit<WakeupCoverageCell, 'option' | 'label'> {
+  const firstActive = timing.knockdownAdvantage + reversal.startup;
+  if (reversal.invincible === null) {
+    const grab = evaluateWakeupButton(result, timing, reversal.startup, true);
+    return {
+      outcome: grab.outcome === 'wins' ? 'wins' : 'loses',
+      detail: {
+        key: grab.outcome === 'wins' ? 'oki.coverage.grab.beaten' : 'oki.coverage.grab.loses',
+        params: { startup: reversal.startup, firstActive },
+      },
+    };
+  }
+  // Invincibility that runs out before the first active frame leaves a window a meaty can hit.
+  const exposedStart = timing.knockdownAdvantage + reversal.invincible.end + 1;
+  if (exposedStart < firstActive && result.ourActiveStart < firstActive && result.ourActiveEnd >= exposedStart) {
+    return {
+      outcome: 'wins',
+      detail: {
+        key: 'oki.coverage.reversal.exposed',
+        params: {
+          start: reversal.invincible.start,
+          end: reversal.invincible.end,
+          exposedStart,
+          exposedEnd: firstActive - 1,
+        },
+      },
+    };
+  }
+  const blocked = result.recoverFrame <= firstActive;
+  return {
+    outcome: blocked ? 'wins' : 'loses',
+    detail: {
+      key: blocked ? 'oki.coverage.reversal.blocked' : 'oki.coverage.reversal.hit',
+      params: { startup: reversal.startup, firstActive, recover: result.recoverFrame },
+    },
+  };
+}
+
+/**
+ * Coverage matrix of one meaty result: block, 4F jab, throw, backdash, neutral jump,
+ * wakeup Drive Reversal, each reversal of the defender's catalog and Drive Impact.
+ */
+export function buildWakeupCoverage(params: {
+  result: CoverageResult;
+  timing: CoverageTiming;
+  reversals?: ReversalEntry[];
+  defenderStats?: Pick<CharacterStats, 'backDash'>;
+  throwStartup?: number;
+}): WakeupCoverageCell[] {
+  const { result, timing } = params;
+  const wakeup = timing.opponentWakeupFrame;
+  const cells: WakeupCoverageCell[] = [];
+
+  cells.push({ option: 'block', label: { key: 'oki.coverage.option.block' }, ...evaluateBlock(result) });
+
+  const jab = evaluateWakeupButton(result, timing, WAKEUP_JAB_STARTUP, false);
+  cells.push({
+    option: 'jab',
+    label: { key: 'oki.coverage.option.jab', params: { startup: WAKEUP_JAB_STARTUP } },
+    outcome: jab.outcome,
+    detail: {
+      key: 'oki.coverage.jab',
+      params: {
+        firstActive: jab.firstActive,
+        activeStart: result.ourActiveStart,
+        activeEnd: result.ourActiveEnd,
+        recover: result.recoverFrame,
+      },
+    },
+  });
+
+  const throwStartup = Math.max(1, params.throwStartup ?? 5);
+  const throwTech = evaluateWakeupButton(result, timing, throwStartup, true);
+  cells.push({
+    option: 'throwTech',
+    label: { key: 'oki.coverage.option.throwTech' },
+    outcome: throwTech.outcome,
+    detail: { key: 'oki.coverage.throwTech', params: { firstActive: throwTech.firstActive } },
+  });
+
+  // Backdash is only throw-invulnerable: a meaty already out on the first wakeup frame hits it.
+  const backdashEnd = wakeup + (params.defenderStats?.backDash ?? DEFAULT_BACKDASH_FRAMES) - 1;
+  cells.push({
+    option: 'backdash',
+    label: { key: 'oki.coverage.option.backdash' },
+    outcome: result.ourActiveStart <= wakeup ? 'wins' : 'resets',
+    detail: result.ourActiveStart <= wakeup
+      ? { key: 'oki.coverage.backdash.hit', params: { wakeup } }
+      : { key: 'oki.coverage.backdash.escaped', params: { backdashEnd, recover: result.recoverFrame } },
+  });
+
+  const preJumpEnd = wakeup + JUMP_PRE_JUMP_FRAMES - 1;
+  const jumpLanding = wakeup + EMPTY_JUMP_TOTAL_FRAMES - 1;
+  let jumpOutcome: CoverageOutcome = 'resets';
+  if (result.ourActiveStart <= preJumpEnd) jumpOutcome = 'wins';
+  else if (result.recoverFrame > jumpLanding) jumpOutcome = 'loses';
+  cells.push({
+    option: 'neutralJump',
+    label: { key: 'oki.coverage.option.neutralJump' },
+    outcome: jumpOutcome,
+    detail: jumpOutcome === 'wins'
+      ? { key: 'oki.coverage.jump.hit', params: { start: wakeup, end: preJumpEnd } }
+      : { key: 'oki.coverage.jump.escaped', params: { landing: jumpLanding, recover: result.recoverFrame } },
+  });
+
+  const driveReversalSafe = canBlockWakeupDriveReversal({ recoverFrame: result.recoverFrame, opponentWakeupFrame: wakeup });
+  cells.push({
+    option: 'driveReversal',
+    label: { key: 'oki.coverage.option.driveReversal' },
+    outcome: driveReversalSafe ? 'wins' : 'loses',
+    detail: {
+      key: driveReversalSafe ? 'oki.coverage.driveReversal.safe' : 'oki.coverage.driveReversal.hit',
+      params: { recover: result.recoverFrame, impact: timing.wakeupDriveReversalImpactFrame },
+    },
+  });
+
+  for (const reversal of params.reversals ?? []) {
+    cells.push({
+      option: 'reversal',
+      label: {
+        key: 'oki.coverage.option.reversal',
+        params: { kind: { key: REVERSAL_KIND_LABELS[reversal.kind] }, input: reversal.moveInput },
+      },
+      ...evaluateReversal(result, timing, reversal),
+      reversal,
+    });
+  }
+
+  // Drive Impact armors the meaty; recovering early enough allows a counter Drive Impact.
+  const impactFirstActive = timing.knockdownAdvantage + BURST_STARTUP_FRAMES;
+  let impactOutcome: CoverageOutcome = 'loses';
+  if (result.recoverFrame + BURST_STARTUP_FRAMES - 1 <= impactFirstActive) impactOutcome = 'wins';
+  else if (result.recoverFrame <= impactFirstActive) impactOutcome = 'resets';
+  cells.push({
+    option: 'driveImpact',
+    label: { key: 'oki.coverage.option.driveImpact' },
+    outcome: impactOutcome,
+    detail: {
+      key: impactOutcome === 'wins'
+        ? 'oki.coverage.driveImpact.counter'
+        : impactOutcome === 'resets' ? 'oki.coverage.driveImpact.blocked' : 'oki.coverage.driveImpact.hit',
+      params: { recover: result.recoverFrame, impact: impactFirstActive },
+    },
+  });
+
+  return cells;
+}
@@ -0,0 +1,104 @@
+import type { Move } from '../../types';
+import { calculateMoveTotalFrames } from '../frameTotals';
+import { getMoveFrames, getWhiffRecoveryFrames, parseFrameCell } from '../frameValue';
+import type { ActiveSegmentInfo } from './types';
+
+// Whole frame cell as a frame count: "2,3" → 5, "5(5)3" → 13, "10+2" → 12, "2x3" → 6.
+export function evaluateFrameString(val: string | number | undefined): number {
+  return parseFrameCell(val).sum ?? 0;
+}
+
+export function parseActiveSegments(active: string | number | undefined): ActiveSegmentInfo {
+  const parsed = parseFrameCell(active);
+  if (parsed.empty) {
+    return {
+      segments: [1],
+      gaps: [],
+      totalActive: 1,
+      totalWindow: 1,
+      lastSegmentLength: 1,
+      lastSegmentStartOffset: 0,
+    };
+  }
+
+  // Parenthesized numbers in an active cell are the gaps between hits: "2(3)4".
+  const tokens = parsed.segments;
+  const segments = tokens.filter(t => !t.parenthesized).map(t => t.value);
+  const gaps = tokens.filter(t => t.parenthesized).map(t => t.value);
+  let totalActive = parsed.total ?? segments.reduce((sum, n) => sum + n, 0);
+  if (totalActive <= 0) totalActive = 1;
+
+  const totalWindow = parsed.sum !== null && parsed.sum > 0 ? parsed.sum : totalActive;
+
+  const lastSegmentLength = segments.length > 0 ? (segments[segments.length - 1] ?? 1) : totalActive;
+  let lastSegmentStartOffset = 0;
+  if (segments.length > 0) {
+    let seenSegments = 0;
+    for (const token of tokens) {
+      if (!token.parenthesized) {
+        seenSegments += 1;
+        if (seenSegments === segments.length) break;
+      }
+      lastSegmentStartOffset += token.value;
+    }
+  }
+
+  return {
+    segments,
+    gaps,
+    totalActive,
+    totalWindow,
+    lastSegmentLength: Math.max(1, lastSegmentLength),
+    lastSegmentStartOffset,
+  };
+}
+
+// Parse total active frames (hit frames only, excludes gaps)
+export function parseTotalActiveFrames(active: string | undefined): number {
+  const info = parseActiveSegments(active);
+  return info.totalActive > 0 ? info.totalActive : 1;
+}
+
+// Parse active window length (includes gaps, for total duration)
+export function parseActiveWindowFrames(active: string | undefined): number {
+  const info = parseActiveSegments(active);
+  return info.totalWindow > 0 ? info.totalWindow : 1;
+}
+
+// "13(15)": the parenthesized value is the whiff recovery, which is what frame kills use.
+export function parseTotalRecoveryFrames(recovery: string | undefined): number {
+  return getWhiffRecoveryFrames(parseFrameCell(recovery)) ?? 0;
+}
+
+export function getMoveTotalFrames(move: Move): number {
+  return calculateMoveTotalFrames(move) ?? 0;
+}
+
+export function parseFrameAdvantage(adv: string): number | null {
+  return parseFrameCell(adv).leading;
+}
+
+// Helper to parse knockdown advantage from move
+export function parseKnockdownAdvantage(move: Move | null | undefined): number {
+  if (!move) return 0;
+
+  // Priority 0: Exact advantage defined on knockdown object
+  if (move.knockdown?.advantage) return move.knockdown.advantage;
+
+  // Priority 1: "KD +40" / "HKD +30" in the onHit cell, then "Crumple +N"
+  const onHit = getMoveFrames(move).onHit;
+  if (onHit.knockdown?.advantage) return onHit.knockdown.advantage;
+  const crumple = onHit.text.match(/Crumple[^0-9]*(\d+)/i);
+  return crumple ? parseInt(crumple[1]!, 10) : 0;
+}
+
+export function isComboSequenceMove(move: Move): boolean {
+  const input = move.input || '';
+  const name = move.name || '';
+  return input.includes('~') || name.includes('~');
+}
+
+export function isChainCancelableMove(move: Move): boolean {
+  if (!move.cancels) return false;
+  return move.cancels.some(c => c.toUpperCase() === 'CHAIN' || c.toUpperCase() === 'CHN');
+}
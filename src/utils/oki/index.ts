@@ -0,0 +1,13 @@
+export * from './types';
+export * from './frames';
+export * from './timing';
+export * from './comboChain';
+export * from './meaty';
+export * from './throwLoop';
+export * from './altOki';
+export * from './baitThrow';
+export * from './timeline';
+export * from './profile';
+export * from './coverage';
+export * from './safeJump';
+export * from './timelineImage';
@@ -0,0 +1,197 @@
+import { describe, expect, it } from 'vitest';
+import type { Move } from '../../types';
+import type { ComboAction } from './types';
+import { getOkiPrefixKey, hasDashPrefix } from './comboChain';
+import { buildMeatyPrefixes, filterOkiResults, generateMeatyOkiResults } from './meaty';
+import { createOkiTiming } from './timing';
+
+const buildMove = (overrides: Partial<Move>): Move => ({
+  name: 'Stand LP',
+  input: '5LP',
+  damage: '300',
+  startup: '4',
+  active: '3',
+  recovery: '7',
+  onBlock: '-1',
+  onHit: '+4',
+  category: 'normal',
+  ...overrides,
+});
+
+const standLP = buildMove({});
+const standHP = buildMove({
+  name: 'Stand HP',
+  input: '5HP',
+  startup: '10',
+  active: '3',
+  recovery: '20',
+  onBlock: '-3',
+  onHit: '+1',
+});
+const stats = { forwardDash: 19 };
+
+describe('createOkiTiming', () => {
+  it('derives wakeup and reversal landmarks from knockdown advantage', () => {
+    const timing = createOkiTiming({ knockdownAdvantage: 42, opponentReversalStartup: 4 });
+
+    expect(timing.opponentWakeupFrame).toBe(43);
+    expect(timing.opponentFirstActiveFrame).toBe(46);
+    expect(timing.opponentPreActiveEnd).toBe(45);
+    expect(timing.hasPreActiveWindow).toBe(true);
+    expect(timing.wakeupDriveReversalImpactFrame).toBe(60);
+    expect(timing.safeBaitMaxTotalFrame).toBe(46);
+  });
+
+  it('clamps the reversal startup to at least 1 frame', () => {
+    const timing = createOkiTiming({ knockdownAdvantage: 30, opponentReversalStartup: 0 });
+
+    expect(timing.opponentReversalStartup).toBe(1);
+    expect(timing.hasPreActiveWindow).toBe(false);
+  });
+});
+
+describe('buildMeatyPrefixes', () => {
+  it('adds dash, frame kill and chain cancel prefixes shorter than the knockdown', () => {
+    const prefixes = buildMeatyPrefixes({
+      candidates: [buildMove({ cancels: ['Chn', 'Sp'] }), standHP],
+      forwardDash: 19,
+      knockdownAdvantage: 42,
+    });
+    const byName = new Map(prefixes.map(prefix => [getOkiPrefixKey(prefix.parts), prefix]));
+
+    expect(byName.get('dash×2')?.frames).toBe(38);
+    expect(byName.get('dash + Stand LP')?.frames).toBe(32);
+    expect(byName.get('Stand HP')?.frames).toBe(32);
+    expect(byName.has('dash + Stand HP')).toBe(false);
+
+    // 5LP total 13 + chain offset (3 active + 7 recovery - 1) per extra step.
+    expect(byName.get('5LP×2')?.frames).toBe(22);
+    expect(byName.get('5LP×3')?.chainCancel?.stepFrames).toEqual([13, 9, 9]);
+  });
+});
+
+describe('generateMeatyOkiResults', () => {
+  const timing = createOkiTiming({ knockdownAdvantage: 42, opponentReversalStartup: 4 });
+
+  it('applies meaty bonus and counter hit advantage for covered wakeups', () => {
+    const results = generateMeatyOkiResults({
+      attackerId: 'ryu',
+      moves: [standLP, standHP],
+      stats,
+      timing,
+    });
+    const result = results.find(r => getOkiPrefixKey(r.prefix) === 'dash×2' && r.move.input === '5LP');
+
+    expect(result).toBeDefined();
+    expect(result?.ourActiveStart).toBe(42);
+    expect(result?.ourActiveEnd).toBe(44);
+    expect(result?.coversOpponent).toBe(true);
+    expect(result?.toleranceFrames).toBe(3);
+    expect(result?.meatyBonus).toBe(1);
+    expect(result?.calculatedOnBlock).toBe(0);
+    expect(result?.calculatedOnHit).toBe(7);
+  });
+
+  it('tags meaty buttons that whiff after dashing when spacing data is known', () => {
+    const generate = (range: number) => generateMeatyOkiResults({
+      attackerId: 'ryu',
+      moves: [buildMove({ range })],
+      stats: { forwardDash: 19, forwardDashDistance: 1 },
+      timing,
+      knockdownDistance: 2.5,
+    }).find(r => getOkiPrefixKey(r.prefix) === 'dash×2');
+
+    expect(generate(0.4)?.spacing).toEqual({ distance: 0.5, range: 0.4, reaches: false });
+    expect(generate(0.4)?.tags).toContain('oki.tag.dashWhiff');
+    expect(generate(0.8)?.tags).not.toContain('oki.tag.dashWhiff');
+  });
+
+  it('reports trades with the defender move when only the reversal frame is reached', () => {
+    const defenderMove = buildMove({ name: 'Dragon Punch', raw: { hitstun: 30 } });
+    const standMP = buildMove({ name: 'Stand MP', input: '5MP', startup: '8', raw: { hitstun: 14 } });
+    const results = generateMeatyOkiResults({
+      attackerId: 'ken',
+      moves: [standMP],
+      stats,
+      timing,
+      defenderMove,
+    });
+    // 38F double dash + 8F startup lands exactly on the reversal's first active frame.
+    const trade = results.find(r => getOkiPrefixKey(r.prefix) === 'dash×2' && r.move.input === '5MP');
+
+    expect(trade?.isTrade).toBe(true);
+    expect(trade?.coversOpponent).toBe(false);
+    expect(trade?.tradeAdvantage).toBe(-16);
+    expect(trade?.tradeDetail).toBe('-16');
+  });
+
+  it('adds drive rush follow-ups using the frame-11 cancel point', () => {
+    const chainLP = buildMove({ cancels: ['Chn'] });
+    const results = generateMeatyOkiResults({
+      attackerId: 'ryu',
+      moves: [chainLP, standHP],
+      stats,
+      timing,
+    });
+    const driveRush = results.find(r => r.isDriveRush && getOkiPrefixKey(r.prefix) === '5LP×2 + DR' && r.move.input === '5HP');
+
+    // 22F chain prefix + 11F drive rush cancel + 10F startup.
+    expect(driveRush?.ourActiveStart).toBe(43);
+    expect(driveRush?.meatyBonus).toBe(0);
+    expect(driveRush?.calculatedOnBlock).toBe(1);
+    expect(driveRush?.calculatedOnHit).toBe(7);
+
+    // Chain cancel prefixes are never paired with another chain-cancelable button.
+    expect(results.some(r => !r.isDriveRush && r.isChainCancel && r.move.input === '5LP')).toBe(false);
+  });
+});
+
+describe('filterOkiResults', () => {
+  const timing = createOkiTiming({ knockdownAdvantage: 42, opponentReversalStartup: 4 });
+  const results = generateMeatyOkiResults({
+    attackerId: 'ryu',
+    moves: [standLP, standHP],
+    stats,
+    timing,
+  });
+
+  it('drops excluded moves for the selected character only', () => {
+    const filtered = filterOkiResults(results, {
+      characterId: 'ryu',
+      excludedMoves: [
+        { id: '1', characterId: 'ryu', moveName: 'Stand HP', moveInput: '5HP' },
+        { id: '2', characterId: 'ken', moveName: 'Stand LP', moveInput: '5LP' },
+      ],
+    });
+
+    expect(filtered.length).toBeGreaterThan(0);
+    expect(filtered.every(r => r.move.input !== '5HP')).toBe(true);
+  });
+
+  it('moves preferred results to the top', () => {
+    const filtered = filterOkiResults(results, {
+      characterId: 'ryu',
+      preferredMoves: [{ id: '1', characterId: 'ryu', moveName: 'Dash', moveInput: 'dash' }],
+      sortKey: 'startup',
+      sortOrder: 'asc',
+    });
+
+    expect(filtered[0]?.isPreferred).toBe(true);
+    expect(hasDashPrefix(filtered[0]!.prefix)).toBe(true);
+  });
+
+  it('filters on the kind of each chained action', () => {
+    const byChain = (comboChain: ComboAction[]) =>
+      filterOkiResults(results, { characterId: 'ryu', comboChain, limit: 500 });
+
+    const dashed = byChain([{ type: 'dash', frames: 19 }]);
+    expect(dashed.length).toBeGreaterThan(0);
+    expect(dashed.every(r => hasDashPrefix(r.prefix))).toBe(true);
+
+    const withHP = byChain([{ type: 'move', frames: 10, move: standHP }]);
+    expect(withHP.length).toBeGreaterThan(0);
+    expect(withHP.every(r => r.move.input === '5HP' || r.prefix.some(part => part.kind === 'move' && part.move.input === '5HP'))).toBe(true);
+
+    expect(byChain([{ type: 'emptyJump', frames: 45 }])).toEqual([]);
+  });
+});
@@ -0,0 +1,716 @@
+import type { CharacterStats, Move } from '../../types';
+import {
+  calculateDriveRushAttackTiming,
+  DRIVE_RUSH_EFFECTIVE_STARTUP_OFFSET,
+  DRIVE_RUSH_FRAME_ADVANTAGE_BONUS,
+  getDriveRushMoveStartup,
+  isDriveRushFollowUpMove,
+  PARRY_DRIVE_RUSH_ATTACK_CANCEL_FRAME,
+} from '../driveRush';
+import { isAirborneMove } from '../moveFilters';
+import { buildOkiResultKeyBase, getUniqueOkiResultKey } from '../okiResultKey';
+import { getMeatySpacing } from '../spacing';
+import { calculateProjectileOkiContact, isProjectileOkiMove } from '../projectileOki';
+import { calculateTradeAdvantage, getEffectiveHitstun, parseHitstun } from '../trade';
+import { defaultMoveNameFormatter, getOkiPrefixKey, hasDashPrefix, matchesComboChain } from './comboChain';
+import {
+  getMoveTotalFrames,
+  isChainCancelableMove,
+  isComboSequenceMove,
+  parseActiveSegments,
+  parseActiveWindowFrames,
+  parseFrameAdvantage,
+  parseTotalActiveFrames,
+  parseTotalRecoveryFrames,
+} from './frames';
+import { getBodyTotalRecoveryTiming, getMoveRecoveryTiming, type OkiTiming } from './timing';
+import type {
+  ComboAction,
+  ExcludedMove,
+  ExtendedOkiResult,
+  MoveNameFormatter,
+  OkiPrefix,
+  OkiPrefixPart,
+  OkiSortKey,
+  PreferredMove,
+  SortOrder,
+} from './types';
+
+export const OKI_RESULT_LIMIT = 50;
+
+// Grounded attacker moves that can be used as the meaty button (or frame kill).
+export function getOkiCandidateMoves(moves: Move[]): Move[] {
+  return moves.filter((m: Move) => {
+    if (isAirborneMove(m)) return false;
+    const startup = parseInt(m.startup) || 0;
+    return startup > 0 && startup <= 50;
+  });
+}
+
+export function getDriveRushFollowUpMoves(candidates: Move[]): Move[] {
+  return candidates.filter((move) => {
+    if (isComboSequenceMove(move)) return false;
+    return isDriveRushFollowUpMove(move);
+  });
+}
+
+export function isDriveRushAdvantageMove(move: Move): boolean {
+  return move.category === 'normal' || move.category === 'unique';
+}
+
+export function getDriveRushAdvantageBonus(move: Move): number {
+  return isDriveRushAdvantageMove(move) ? DRIVE_RUSH_FRAME_ADVANTAGE_BONUS : 0;
+}
+
+export type ActiveDisplayInfo = {
+  activeDisplayStartOffset: number;
+  activeDisplayLength: number;
+  activeHasGap: boolean;
+  activeHasMultipleSegments: boolean;
+  activeHitTotal: number;
+  meatyStartOffset: number;
+  meatyLength: number;
+};
+
+// Display/overlap window:
+// - If there is a gap, only show the last segment as the effective window.
+// - If no gap (e.g. "2,3"), treat as continuous 5F window.
+export function getActiveDisplayInfo(move: Move): ActiveDisplayInfo {
+  const activeInfo = parseActiveSegments(move.active);
+  const activeHasGap = activeInfo.gaps.length > 0;
+  const activeHasMultipleSegments = activeInfo.segments.length > 1;
+  const activeHitTotal = parseTotalActiveFrames(move.active);
+
+  return {
+    activeDisplayStartOffset: activeHasGap ? activeInfo.lastSegmentStartOffset : 0,
+    activeDisplayLength: activeHasGap ? activeInfo.lastSegmentLength : activeHitTotal,
+    activeHasGap,
+    activeHasMultipleSegments,
+    activeHitTotal,
+    meatyStartOffset: activeHasMultipleSegments ? activeInfo.lastSegmentStartOffset : 0,
+    meatyLength: activeHasMultipleSegments ? activeInfo.lastSegmentLength : activeHitTotal,
+  };
+}
+
+export type MeatyOverlap = {
+  isSuccessMatch: boolean;
+  isTradeMatch: boolean;
+  toleranceFrames?: number;
+};
+
+// Success: our active window overlaps opponent's vulnerable startup window.
+// Trade: we only reach the reversal's first active frame.
+export function getMeatyOverlap(
+  timing: Pick<OkiTiming, 'opponentWakeupFrame' | 'opponentFirstActiveFrame' | 'opponentPreActiveEnd' | 'hasPreActiveWindow'>,
+  ourStart: number,
+  ourEnd: number,
+): MeatyOverlap {
+  const oppWindowStart = timing.opponentWakeupFrame;
+  const oppWindowEnd = timing.opponentPreActiveEnd;
+  const oppFirst = timing.opponentFirstActiveFrame;
+
+  const overlapsPreActive =
+    timing.hasPreActiveWindow && ourEnd >= oppWindowStart && ourStart <= oppWindowEnd;
+  const overlapsOppFirst = ourStart <= oppFirst && ourEnd >= oppFirst;
+
+  const isSuccessMatch = overlapsPreActive;
+  const isTradeMatch = overlapsOppFirst && !overlapsPreActive;
+  return {
+    isSuccessMatch,
+    isTradeMatch,
+    toleranceFrames: isSuccessMatch ? Math.max(0, oppWindowEnd - ourStart) : undefined,
+  };
+}
+
+// "Successful pressure is basically Counter Hit": +2 on hit when the meaty covers the wakeup.
+export function calculateMeatyAdvantage(params: {
+  move: Move;
+  meatyBonus: number;
+  isSuccessMatch: boolean;
+  extraAdvantage?: number;
+  guardAdvantageOverride?: number;
+}): { calculatedOnBlock: number | string | undefined; calculatedOnHit: number | string | undefined } {
+  const { move, meatyBonus, isSuccessMatch } = params;
+  const extraAdvantage = params.extraAdvantage ?? 0;
+
+  let calculatedOnBlock: number | string | undefined;
+  let calculatedOnHit: number | string | undefined;
+
+  const baseBlock = parseFrameAdvantage(move.onBlock);
+  if (params.guardAdvantageOverride !== undefined) {
+    calculatedOnBlock = params.guardAdvantageOverride;
+  } else if (baseBlock !== null) {
+    calculatedOnBlock = baseBlock + extraAdvantage + meatyBonus;
+  } else {
+    calculatedOnBlock = move.onBlock;
+  }
+
+  const baseHit = parseFrameAdvantage(move.onHit);
+  if (baseHit !== null) {
+    const chBonus = isSuccessMatch ? 2 : 0;
+    calculatedOnHit = baseHit + extraAdvantage + meatyBonus + chBonus;
+  } else {
+    calculatedOnHit = move.onHit;
+  }
+
+  return { calculatedOnBlock, calculatedOnHit };
+}
+
+export type OkiTradeCalculation = {
+  tradeAdvantage?: number;
+  tradeDetail?: string;
+  tradeExplanation: string;
+};
+
+export function calculateOkiTrade(params: {
+  move: Move;
+  defenderMove?: Move | null;
+  labelPrefix?: string;
+  formatMoveName?: MoveNameFormatter;
+}): OkiTradeCalculation {
+  const { move, defenderMove } = params;
+  const formatMoveName = params.formatMoveName ?? defaultMoveNameFormatter;
+
+  if (!defenderMove || !move.raw || !defenderMove.raw) {
+    // No tradeDetail: the view asks for a defender move.
+    return { tradeExplanation: '' };
+  }
+
+  const adv = calculateTradeAdvantage(move.raw, defenderMove.raw);
+  const effA = getEffectiveHitstun(move.raw);
+  const effB = getEffectiveHitstun(defenderMove.raw);
+
+  const labelA = effA.type === 'blockstun' ? `(Blockstun ${parseHitstun(move.raw.blockstun)} + 2CH)` : `(Hitstun ${parseHitstun(move.raw.hitstun)} + 2CH)`;
+  const labelB = effB.type === 'blockstun' ? `(Blockstun ${parseHitstun(defenderMove.raw.blockstun)} + 2CH)` : `(Hitstun ${parseHitstun(defenderMove.raw.hitstun)} + 2CH)`;
+
+  return {
+    tradeAdvantage: adv,
+    tradeDetail: `${adv > 0 ? '+' : ''}${adv}`,
+    tradeExplanation: `${params.labelPrefix ?? ''}${formatMoveName(move)} ${labelA} - ${formatMoveName(defenderMove)} ${labelB} = ${adv}`,
+  };
+}
+
+/**
+ * Frame-kill prefixes tried before the meaty button: nothing, dashes, single whiffed moves
+ * (optionally after a dash) and 2-3 step chain cancels.
+ */
+export function buildMeatyPrefixes(params: {
+  candidates: Move[];
+  forwardDash: number;
+  knockdownAdvantage: number;
+}): OkiPrefix[] {
+  const { candidates, forwardDash, knockdownAdvantage } = params;
+
+  const validFrameKills = candidates.filter(m => {
+    if (m.category === 'super' || m.category === 'throw') return false;
+    if (isComboSequenceMove(m)) return false;
+    const total = getMoveTotalFrames(m);
+    // Heuristic: Frame kill should be faster than the knockdown advantage
+    // Also exclude moves that are too long (e.g. taunts)
+    return total > 0 && total < knockdownAdvantage && total < 60;
+  });
+
+  // Default prefixes (Dashes)
+  const prefixes: OkiPrefix[] = [
+    { parts: [], frames: 0, isCorner: false },
+    { parts: [{ kind: 'dash', count: 1 }], frames: forwardDash, isCorner: false, dashes: 1 },
+    { parts: [{ kind: 'dash', count: 2 }], frames: forwardDash * 2, isCorner: false, dashes: 2 },
+  ];
+
+  // Add Frame Kill Moves (Single Move)
+  for (const kill of validFrameKills) {
+    const total = getMoveTotalFrames(kill);
+    prefixes.push({
+      parts: [{ kind: 'move', move: kill }],
+      frames: total,
+      input: kill.input,
+      isCorner: true
+    });
+
+    // Add Dash + Move (Common setup)
+    const dashTotal = forwardDash + total;
+    if (dashTotal < knockdownAdvantage) {
+      prefixes.push({
+        parts: [{ kind: 'dash', count: 1 }, { kind: 'move', move: kill }],
+        frames: dashTotal,
+        input: kill.input,
+        isCorner: true,
+        dashes: 1,
+      });
+    }
+  }
+
+  // --- Chain Cancel Prefixes ---
+  // Chain Cancel requires ≥2 chained moves (e.g. 5LP → 5LP).
+  // Frame accounting:
+  //   First move: totalFrames = startup + active - 1 + recovery
+  //   Each additional step: chainOffset = active + recovery - 1  (LP moves)
+  //                            chainOffset = active + recovery      (LK moves, no -1)
+  //
+  // Ryu examples:
+  //   5LP (total=13, offset=3+6=9):    ×2=22  ×3=31
+  //   2LP (total=14, offset=2+8=10):   ×2=24  ×3=34
+  //   2LK (total=16, offset=2+10=12):  ×2=28  ×3=40  (LK uses full recovery)
+  const chainCancelMoves = candidates.filter(isChainCancelableMove);
+
+  for (const chainMove of chainCancelMoves) {
+    const tf = getMoveTotalFrames(chainMove);
+    const active = parseActiveWindowFrames(chainMove.active);
+    const recovery = parseTotalRecoveryFrames(chainMove.recovery);
+    // LK moves use full recovery in chain cancel (no -1 truncation)
+    const isLK = (chainMove.input || '').toUpperCase().includes('LK');
+    const chainOffset = active + Math.max(0, isLK ? recovery : recovery - 1);
+    if (tf <= 0 || chainOffset <= 0) continue;
+
+    for (let steps = 2; steps <= 3; steps++) {
+      const prefixFrames = tf + (steps - 1) * chainOffset;
+      if (prefixFrames >= knockdownAdvantage) continue;
+      const chainCancelPart: OkiPrefixPart = { kind: 'chainCancel', move: chainMove, steps };
+      const chainCancel = {
+        steps,
+        offset: chainOffset,
+        moveTotalFrames: tf,
+        moveInputs: Array(steps).fill(chainMove.input) as string[],
+        stepFrames: [tf, ...Array(steps - 1).fill(chainOffset)] as number[],
+        sequence: `${chainMove.input}×${steps}`,
+      };
+
+      prefixes.push({
+        parts: [chainCancelPart],
+        frames: prefixFrames,
+        input: chainMove.input,
+        isCorner: false,
+        chainCancel,
+      });
+
+      const dashTotal = forwardDash + prefixFrames;
+      if (dashTotal < knockdownAdvantage) {
+        prefixes.push({
+          parts: [{ kind: 'dash', count: 1 }, chainCancelPart],
+          frames: dashTotal,
+          input: chainMove.input,
+          isCorner: false,
+          dashes: 1,
+          chainCancel,
+        });
+      }
+    }
+  }
+
+  return prefixes;
+}
+
+export type MeatyOkiParams = {
+  attackerId: string;
+  moves: Move[];
+  stats: Pick<CharacterStats, 'forwardDash' | 'forwardDashDistance'>;
+  timing: OkiTiming;
+  // Distance at wakeup after the knockdown; enables the "whiffs after dash" check.
+  knockdownDistance?: number;
+  defenderMove?: Move | null;
+  formatMoveName?: MoveNameFormatter;
+};
+
+// Distance when the projectile is thrown; undefined falls back to the corner calibration.
+function getProjectileThrowDistance(params: MeatyOkiParams, prefix: OkiPrefix): number | undefined {
+  if (params.knockdownDistance === undefined) return undefined;
+  const dashes = prefix.dashes ?? 0;
+  if (dashes > 0 && params.stats.forwardDashDistance === undefined) return undefined;
+  return Math.max(0, params.knockdownDistance - dashes * (params.stats.forwardDashDistance ?? 0));
+}
+
+/**
+ * Every prefix + meaty button (and prefix + Drive Rush + button) combination whose active
+ * frames cover the defender's wakeup before their reversal, or trade with it.
+ */
+export function generateMeatyOkiResults(params: MeatyOkiParams): ExtendedOkiResult[] {
+  const { attackerId, stats, timing, defenderMove } = params;
+  const formatMoveName = params.formatMoveName ?? defaultMoveNameFormatter;
+  if (timing.knockdownAdvantage <= 0) return [];
+
+  const results: ExtendedOkiResult[] = [];
+  const keyCounts = new Map<string, number>();
+  const oppWindowStart = timing.opponentWakeupFrame;
+  const candidates = getOkiCandidateMoves(params.moves);
+  const driveRushFollowUpMoves = getDriveRushFollowUpMoves(candidates);
+  const prefixes = buildMeatyPrefixes({
+    candidates,
+    forwardDash: stats.forwardDash,
+    knockdownAdvantage: timing.knockdownAdvantage,
+  });
+
+  for (const prefix of prefixes) {
+    for (const move of candidates) {
+      if (isComboSequenceMove(move)) continue;
+      // After a chain cancel prefix, skip chain-cancelable oki moves.
+      // Chain cancel prefixes already represent the optimal frame-kill sequence;
+      // pairing them with another chain-cancelable move would double-count startup
+      // (e.g. 2LP×2 + 2LP should just be 2LP×3 which is already a prefix).
+      if (prefix.chainCancel && isChainCancelableMove(move)) continue;
+      const startup = parseInt(move.startup) || 0;
+      if (startup <= 0) continue;
+      const activeInfo = getActiveDisplayInfo(move);
+
+      const normalOurStart = prefix.frames + startup + activeInfo.activeDisplayStartOffset;
+      const normalOurEnd = normalOurStart + activeInfo.activeDisplayLength - 1;
+      const isProjectile = isProjectileOkiMove(attackerId, move);
+      const projectileOkiCandidate = isProjectile
+        ? calculateProjectileOkiContact({
+          characterId: attackerId,
+          move,
+          blockFrameFromInput: oppWindowStart - prefix.frames,
+          distance: getProjectileThrowDistance(params, prefix),
+        })
+        : null;
+      const projectileOki = projectileOkiCandidate && projectileOkiCandidate.contactDelayAfterStartup >= 0
+        ? projectileOkiCandidate
+        : null;
+      if (isProjectile && !projectileOki) continue;
+      const ourStart = projectileOki ? oppWindowStart : normalOurStart;
+      const ourEnd = projectileOki ? oppWindowStart : normalOurEnd;
+
+      const { isSuccessMatch, isTradeMatch, toleranceFrames } = getMeatyOverlap(timing, ourStart, ourEnd);
+      if (!isSuccessMatch && !isTradeMatch) continue;
+
+      // Calculate Meaty Bonus
+      const meatyStartFrame = projectileOki
+        ? prefix.frames + projectileOki.startup
+        : prefix.frames + startup + activeInfo.meatyStartOffset;
+      const effectiveHitFrame = projectileOki
+        ? oppWindowStart
+        : Math.max(meatyStartFrame, oppWindowStart);
+      const canApplyMeaty = !move.noMeaty;
+      const meatyBonus = projectileOki
+        ? projectileOki.contactDelayAfterStartup
+        : canApplyMeaty ? (effectiveHitFrame - meatyStartFrame) : 0;
+
+      const advantage = calculateMeatyAdvantage({
+        move,
+        meatyBonus,
+        isSuccessMatch,
+        guardAdvantageOverride: projectileOki?.guardAdvantage,
+      });
+      const trade = isTradeMatch
+        ? calculateOkiTrade({ move, defenderMove, formatMoveName })
+        : { tradeExplanation: '' };
+
+      const recoveryTiming = projectileOki
+        ? getBodyTotalRecoveryTiming(timing, prefix.frames, projectileOki.totalFrames)
+        : getMoveRecoveryTiming(timing, prefix.frames, move, startup);
+      const baseKey = buildOkiResultKeyBase({
+        prefixName: getOkiPrefixKey(prefix.parts),
+        prefixFrames: prefix.frames,
+        prefixInput: prefix.input,
+        moveName: move.name,
+        moveInput: move.input,
+        ourActiveStart: ourStart,
+        ourActiveEnd: ourEnd
+      });
+      const key = getUniqueOkiResultKey(baseKey, keyCounts);
+      // Projectiles travel, so only buttons get the range check.
+      const spacing = projectileOki ? null : getMeatySpacing({
+        move,
+        knockdownDistance: params.knockdownDistance,
+        dashes: prefix.dashes ?? 0,
+        dashDistance: stats.forwardDashDistance,
+      });
+
+      results.push({
+        key,
+        move,
+        prefix: prefix.parts,
+        prefixInput: prefix.input,
+        prefixFrames: prefix.frames,
+        ourActiveStart: ourStart,
+        ourActiveEnd: ourEnd,
+        ...activeInfo,
+        meatyStartFrame,
+        activeWindowFrames: recoveryTiming.activeWindowFrames,
+        recoveryFrames: recoveryTiming.recoveryFrames,
+        recoverFrame: recoveryTiming.recoverFrame,
+        safeAgainstWakeupDriveReversal: recoveryTiming.safeAgainstWakeupDriveReversal,
+        driveReversalSafetyMargin: recoveryTiming.driveReversalSafetyMargin,
+        toleranceFrames,
+        coversOpponent: isSuccessMatch,
+        isTrade: isTradeMatch,
+        ...advantage,
+        meatyBonus,
+        effectiveHitFrame,
+        projectileOki: projectileOki ?? undefined,
+        spacing: spacing ?? undefined,
+        ...trade,
+        tags: [
+          ...(prefix.isCorner || (projectileOki && params.knockdownDistance === undefined) ? ['oki.tag.corner' as const] : []),
+          ...(projectileOki ? ['oki.tag.projectile' as const] : []),
+          ...(projectileOki?.estimated ? ['oki.tag.projectileEstimate' as const] : []),
+          ...(spacing && !spacing.reaches ? [prefix.dashes ? 'oki.tag.dashWhiff' as const : 'oki.tag.outOfRange' as const] : []),
+        ],
+        isChainCancel: !!prefix.chainCancel,
+        chainCancelSequence: prefix.chainCancel?.sequence,
+        chainCancelOffset: prefix.chainCancel?.offset,
+        chainCancelSteps: prefix.chainCancel?.steps,
+        chainCancelMoveTotalFrames: prefix.chainCancel?.moveTotalFrames,
+        chainCancelMoveInputs: prefix.chainCancel?.moveInputs,
+        chainCancelStepFrames: prefix.chainCancel?.stepFrames,
+      });
+    }
+
+    for (const move of driveRushFollowUpMoves) {
+      const startup = getDriveRushMoveStartup(move) ?? 0;
+      if (startup <= 0) continue;
+
+      const activeInfo = getActiveDisplayInfo(move);
+      const driveRushTiming = calculateDriveRushAttackTiming({
+        driveRushStartFrame: prefix.frames,
+        moveStartup: startup,
+        activeStartOffset: activeInfo.activeDisplayStartOffset,
+        activeLength: activeInfo.activeDisplayLength,
+      });
+      const ourStart = driveRushTiming.firstActiveFrame;
+      const ourEnd = driveRushTiming.lastActiveFrame;
+
+      const { isSuccessMatch, isTradeMatch, toleranceFrames } = getMeatyOverlap(timing, ourStart, ourEnd);
+      if (!isSuccessMatch && !isTradeMatch) continue;
+
+      const meatyStartFrame = driveRushTiming.fastestHitFrame + activeInfo.meatyStartOffset;
+      const effectiveHitFrame = Math.max(meatyStartFrame, oppWindowStart);
+      const canApplyMeaty = !move.noMeaty;
+      const meatyBonus = canApplyMeaty ? (effectiveHitFrame - meatyStartFrame) : 0;
+      const driveRushAdvantageBonus = getDriveRushAdvantageBonus(move);
+
+      const advantage = calculateMeatyAdvantage({
+        move,
+        meatyBonus,
+        isSuccessMatch,
+        extraAdvantage: driveRushAdvantageBonus,
+      });
+      const trade = isTradeMatch
+        ? calculateOkiTrade({ move, defenderMove, labelPrefix: 'DR ', formatMoveName })
+        : { tradeExplanation: '' };
+
+      const driveRushPrefix: OkiPrefixPart[] = [...prefix.parts, { kind: 'driveRush' }];
+      const driveRushPrefixInput = prefix.input ? `${prefix.input} + DR` : 'DR';
+      const effectivePrefixFrames = prefix.frames + DRIVE_RUSH_EFFECTIVE_STARTUP_OFFSET;
+      const recoveryTiming = getMoveRecoveryTiming(timing, effectivePrefixFrames, move, startup);
+      const baseKey = buildOkiResultKeyBase({
+        prefixName: getOkiPrefixKey(driveRushPrefix),
+        prefixFrames: effectivePrefixFrames,
+        prefixInput: driveRushPrefixInput,
+        moveName: move.name,
+        moveInput: move.input,
+        ourActiveStart: ourStart,
+        ourActiveEnd: ourEnd
+      });
+      const key = getUniqueOkiResultKey(baseKey, keyCounts);
+
+      results.push({
+        key,
+        move,
+        prefix: driveRushPrefix,
+        prefixInput: driveRushPrefixInput,
+        prefixFrames: effectivePrefixFrames,
+        ourActiveStart: ourStart,
+        ourActiveEnd: ourEnd,
+        ...activeInfo,
+        meatyStartFrame,
+        activeWindowFrames: recoveryTiming.activeWindowFrames,
+        recoveryFrames: recoveryTiming.recoveryFrames,
+        recoverFrame: recoveryTiming.recoverFrame,
+        safeAgainstWakeupDriveReversal: recoveryTiming.safeAgainstWakeupDriveReversal,
+        driveReversalSafetyMargin: recoveryTiming.driveReversalSafetyMargin,
+        toleranceFrames,
+        coversOpponent: isSuccessMatch,
+        isTrade: isTradeMatch,
+        ...advantage,
+        meatyBonus,
+        effectiveHitFrame,
+        ...trade,
+        tags: prefix.isCorner ? ['oki.tag.corner'] : [],
+        isDriveRush: true,
+        driveRushStartFrame: prefix.frames,
+        driveRushAttackStartFrame: driveRushTiming.attackStartFrame,
+        driveRushFastestHitFrame: driveRushTiming.fastestHitFrame,
+        driveRushAdvantageBonus,
+        sourcePrefix: prefix.parts,
+        sourcePrefixFrames: prefix.frames,
+      });
+    }
+  }
+
+  return results;
+}
+
+function getPrefixMoves(prefix: OkiPrefixPart[]): Move[] {
+  return prefix.flatMap(part => (part.kind === 'move' || part.kind === 'chainCancel' ? [part.move] : []));
+}
+
+// Search text of a prefix: move names in every language plus the dash aliases.
+function getPrefixSearchFields(prefix: OkiPrefixPart[], formatMoveName: MoveNameFormatter): (string | undefined)[] {
+  return [
+    ...(hasDashPrefix(prefix) ? ['dash', '前冲'] : []),
+    ...getPrefixMoves(prefix).flatMap(move => [move.name, move.nameZh, move.nameJa, formatMoveName(move)]),
+  ];
+}
+
+function isDriveRushPreference(name: string, input: string): boolean {
+  return name.includes('绿冲') || input.includes('绿冲') || input.toLowerCase() === 'dr';
+}
+
+function isDashPreference(name: string, input: string): boolean {
+  return name.includes('前冲') || input.includes('前冲') || input.toLowerCase() === 'dash';
+}
+
+export function isExcludedOkiResult(result: ExtendedOkiResult, exclusions: ExcludedMove[]): boolean {
+  const moveName = result.move.name || '';
+  const moveInput = result.move.input || '';
+  return exclusions.some(exc => {
+    if (exc.moveName === moveName || exc.moveInput === moveInput) {
+      return true;
+    }
+    if (isDriveRushPreference(exc.moveName, exc.moveInput) && result.isDriveRush) {
+      return true;
+    }
+    if (isDashPreference(exc.moveName, exc.moveInput) && hasDashPrefix(result.prefix)) {
+      return true;
+    }
+    return false;
+  });
+}
+
+export function isPreferredOkiResult(result: ExtendedOkiResult, preferences: PreferredMove[]): boolean {
+  return preferences.some(pref => {
+    const prefInputLower = pref.moveInput.toLowerCase();
+    const prefNameLower = pref.moveName.toLowerCase();
+
+    if (isDriveRushPreference(prefNameLower, prefInputLower) && result.isDriveRush) {
+      return true;
+    }
+
+    if (isDashPreference(prefNameLower, prefInputLower) && hasDashPrefix(result.prefix)) {
+      return true;
+    }
+
+    // Check final move input or name
+    if (result.move.input.toLowerCase() === prefInputLower || result.move.name.toLowerCase() === prefNameLower) {
+      return true;
+    }
+    // Check prefix input (contains the input, e.g. "2MK")
+    if (result.prefixInput && result.prefixInput.toLowerCase().includes(prefInputLower)) {
+      return true;
+    }
+    // Check moves whiffed in the prefix
+    if (getPrefixMoves(result.prefix).some(move => move.name.toLowerCase() === prefNameLower)) {
+      return true;
+    }
+    return false;
+  });
+}
+
+function getOkiSortValue(result: ExtendedOkiResult, sortKey: OkiSortKey): number {
+  switch (sortKey) {
+    case 'block':
+      return typeof result.calculatedOnBlock === 'number' ? result.calculatedOnBlock : -999;
+    case 'hit':
+      return typeof result.calculatedOnHit === 'number' ? result.calculatedOnHit : -999;
+    case 'trade':
+      return result.tradeAdvantage ?? -999;
+    case 'startup':
+      return result.ourActiveStart;
+    case 'tolerance':
+      return result.toleranceFrames ?? -999;
+  }
+}
+
+export type OkiResultFilterParams = {
+  characterId: string;
+  comboChain?: ComboAction[];
+  excludedMoves?: ExcludedMove[];
+  preferredMoves?: PreferredMove[];
+  onlyShowPreferred?: boolean;
+  searchQuery?: string;
+  sortKey?: OkiSortKey;
+  sortOrder?: SortOrder;
+  limit?: number;
+  formatMoveName?: MoveNameFormatter;
+};
+
+/**
+ * Applies the combo-chain filter, per-character exclusions/preferences and the search query,
+ * then sorts (preferred first unless filtering by preference) and truncates.
+ */
+export function filterOkiResults(results: ExtendedOkiResult[], params: OkiResultFilterParams): ExtendedOkiResult[] {
+  const formatMoveName = params.formatMoveName ?? defaultMoveNameFormatter;
+  const sortKey = params.sortKey ?? 'block';
+  const sortOrder = params.sortOrder ?? 'desc';
+  const onlyShowPreferred = params.onlyShowPreferred ?? false;
+  let filtered = results;
+
+  if (params.comboChain && params.comboChain.length > 0) {
+    filtered = filtered.filter(result => matchesComboChain(
+      { prefix: result.prefix, move: result.move, driveRush: result.isDriveRush },
+      params.comboChain,
+    ));
+  }
+
+  // Exclude moves based on user preferences (personal preference: skip certain last-hit moves)
+  const excludesForChar = (params.excludedMoves ?? []).filter(m => m.characterId === params.characterId);
+  if (excludesForChar.length > 0) {
+    filtered = filtered.filter(result => !isExcludedOkiResult(result, excludesForChar));
+  }
+
+  // Determine if each result contains any preferred moves
+  const preferredForChar = (params.preferredMoves ?? []).filter(m => m.characterId === params.characterId);
+  let resultsWithPref = filtered.map(result => ({
+    ...result,
+    isPreferred: preferredForChar.length > 0 && isPreferredOkiResult(result, preferredForChar),
+  }));
+
+  // If onlyShowPreferred is checked, filter to only keep those containing preferred moves
+  if (preferredForChar.length > 0 && onlyShowPreferred) {
+    resultsWithPref = resultsWithPref.filter(r => r.isPreferred);
+  }
+
+  if (params.searchQuery) {
+    const queryLower = params.searchQuery.trim().toLowerCase();
+    resultsWithPref = resultsWithPref.filter(result => {
+      const fields = [
+        ...getPrefixSearchFields(result.prefix, formatMoveName),
+        result.prefixInput,
+        result.move.name,
+        result.move.nameZh,
+        result.move.input,
+        formatMoveName(result.move),
+        ...(result.isDriveRush ? [
+          `+绿冲(${PARRY_DRIVE_RUSH_ATTACK_CANCEL_FRAME}f)`,
+          `+绿冲`,
+          `绿冲(${PARRY_DRIVE_RUSH_ATTACK_CANCEL_FRAME}f)`,
+          `绿冲`,
+          `+dr`,
+          `dr`
+        ] : [])
+      ].filter((val): val is string => typeof val === 'string' && val.length > 0);
+
+      return fields.some(field => field.toLowerCase().includes(queryLower));
+    });
+  }
+
+  const sorted = [...resultsWithPref].sort((a, b) => {
+    // 1. Prioritize preferred moves to the top if not strictly filtering
+    if (preferredForChar.length > 0 && !onlyShowPreferred) {
+      if (a.isPreferred !== b.isPreferred) {
+        return a.isPreferred ? -1 : 1;
+      }
+    }
+
+    // 2. Secondary sort based on sortKey
+    const valA = getOkiSortValue(a, sortKey);
+    const valB = getOkiSortValue(b, sortKey);
+    if (valA !== valB) {
+      return sortOrder === 'desc' ? valB - valA : valA - valB;
+    }
+
+    return a.ourActiveStart - b.ourActiveStart;
+  });
+
+  return sorted.slice(0, params.limit ?? OKI_RESULT_LIMIT);
+}
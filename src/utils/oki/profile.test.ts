@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildOkiProfile,
+  getOkiProfileMoveLists,
+  mergeOkiProfile,
+  OKI_PROFILE_VERSION,
+  parseOkiProfile,
+  type OkiMoveLists,
+} from './profile';
+
+const lists: OkiMoveLists = {
+  customMoves: [
+    { id: '1', characterId: 'ryu', name: '2HK(punish)', input: '2HK(punish)', frames: 47 },
+    { id: '2', characterId: 'mai', name: '214HP~236LK', input: '214HP~236LK', frames: 30 },
+  ],
+  excludedMoves: [{ id: '3', characterId: 'ryu', moveName: 'Stand HK', moveInput: '5HK', note: '不能打蹲防' }],
+  preferredMoves: [{ id: '4', characterId: 'ryu', moveName: 'Crouch MK', moveInput: '2MK' }],
+};
+
+describe('buildOkiProfile', () => {
+  it('groups the lists by character and round-trips through parse', () => {
+    const profile = buildOkiProfile(lists, { exportedAt: '2026-01-01T00:00:00.000Z' });
+
+    expect(profile.version).toBe(OKI_PROFILE_VERSION);
+    expect(Object.keys(profile.characters)).toEqual(['ryu', 'mai']);
+    expect(profile.characters.ryu?.excludedMoves).toEqual([
+      { id: '3', moveName: 'Stand HK', moveInput: '5HK', note: '不能打蹲防' },
+    ]);
+
+    const parsed = parseOkiProfile(JSON.stringify(profile));
+    expect(parsed.error).toBeUndefined();
+    expect(getOkiProfileMoveLists(parsed.profile!)).toEqual({
+      customMoves: [lists.customMoves[0], lists.customMoves[1]],
+      excludedMoves: lists.excludedMoves,
+      preferredMoves: lists.preferredMoves,
+    });
+  });
+
+  it('exports only the requested characters', () => {
+    const profile = buildOkiProfile(lists, { characterIds: ['mai'] });
+
+    expect(Object.keys(profile.characters)).toEqual(['mai']);
+  });
+});
+
+describe('parseOkiProfile', () => {
+  it('rejects other files and newer versions', () => {
+    expect(parseOkiProfile('not json').error).toBeTruthy();
+    expect(parseOkiProfile('[]').error).toBeTruthy();
+    expect(parseOkiProfile(JSON.stringify({
+      format: 'sf6frame-oki-profile',
+      version: OKI_PROFILE_VERSION + 1,
+      characters: {},
+    })).profile).toBeNull();
+  });
+
+  it('skips entries missing required fields', () => {
+    const parsed = parseOkiProfile(JSON.stringify({
+      format: 'sf6frame-oki-profile',
+      version: 1,
+      characters: {
+        ken: {
+          customMoves: [{ id: 'a', name: 'kk+214k', input: 'kk+214k', frames: 43 }, { id: 'b', name: 'no frames' }],
+          excludedMoves: [{ id: 'c', moveName: '5HK' }],
+        },
+      },
+    }));
+
+    expect(parsed.dropped).toBe(2);
+    expect(parsed.profile?.characters.ken).toEqual({
+      customMoves: [{ id: 'a', name: 'kk+214k', input: 'kk+214k', frames: 43 }],
+      excludedMoves: [],
+      preferredMoves: [],
+    });
+  });
+});
+
+describe('mergeOkiProfile', () => {
+  const incoming = buildOkiProfile({
+    customMoves: [
+      { id: '1', characterId: 'ryu', name: '2HK(punish)', input: '2HK(punish)', frames: 46 },
+      { id: '2', characterId: 'ken', name: '5mp+5hp', input: 'kk+214k', frames: 43 },
+    ],
+    excludedMoves: [{ id: '9', characterId: 'ryu', moveName: 'Stand HK', moveInput: '5HK', note: '不能打蹲防' }],
+    preferredMoves: [],
+  });
+
+  it('adds new moves, skips identical ones and keeps local values on conflict', () => {
+    const result = mergeOkiProfile(lists, incoming);
+
+    expect(result).toMatchObject({ added: 1, updated: 0, unchanged: 1 });
+    expect(result.conflicts).toEqual([
+      { list: 'customMoves', characterId: 'ryu', label: '2HK(punish)', local: '47F', imported: '46F' },
+    ]);
+    expect(result.lists.customMoves.map(move => [move.id, move.characterId, move.frames])).toEqual([
+      ['1', 'ryu', 47],
+      ['2', 'mai', 30],
+      // id 2 is already taken locally by Mai's move
+      ['2-2', 'ken', 43],
+    ]);
+  });
+
+  it('takes the imported value on conflict when asked, keeping the local id', () => {
+    const result = mergeOkiProfile(lists, incoming, 'useImported');
+
+    expect(result.updated).toBe(1);
+    expect(result.lists.customMoves[0]).toEqual({ ...lists.customMoves[0], frames: 46 });
+  });
+});
@@ -0,0 +1,288 @@
+import type { LocalizedMessage } from '../../i18n';
+import type { CustomMove, ExcludedMove, PreferredMove } from './types';
+
+// Shareable pack of the user's oki move lists ("setup pack"), grouped by attacker character.
+export const OKI_PROFILE_FORMAT = 'sf6frame-oki-profile';
+// Bump when the file layout changes, and add a migration from the previous version.
+export const OKI_PROFILE_VERSION = 1;
+
+export const OKI_MOVE_STORAGE_KEYS = {
+  customMoves: 'sf6_oki_custom_moves',
+  excludedMoves: 'sf6_oki_excluded_moves',
+  preferredMoves: 'sf6_oki_preferred_moves',
+} as const;
+
+export type OkiMoveLists = {
+  customMoves: CustomMove[];
+  excludedMoves: ExcludedMove[];
+  preferredMoves: PreferredMove[];
+};
+
+export type OkiMoveListKey = keyof OkiMoveLists;
+
+// Entries inside a profile drop `characterId`; the group they sit in carries it.
+export type OkiProfileCharacter = {
+  customMoves: Omit<CustomMove, 'characterId'>[];
+  excludedMoves: Omit<ExcludedMove, 'characterId'>[];
+  preferredMoves: Omit<PreferredMove, 'characterId'>[];
+};
+
+export type OkiProfile = {
+  format: typeof OKI_PROFILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  characters: Record<string, OkiProfileCharacter>;
+};
+
+export type OkiProfileParseResult = {
+  profile: OkiProfile | null;
+  // Entries skipped because they were missing required fields.
+  dropped: number;
+  error?: LocalizedMessage;
+};
+
+// Which side wins when the same move is in both lists with different frames or note.
+export type OkiProfileConflictStrategy = 'keepLocal' | 'useImported';
+
+export type OkiProfileConflict = {
+  list: OkiMoveListKey;
+  characterId: string;
+  label: string;
+  local: string;
+  imported: string;
+};
+
+export type OkiProfileMergeResult = {
+  lists: OkiMoveLists;
+  added: number;
+  updated: number;
+  unchanged: number;
+  conflicts: OkiProfileConflict[];
+};
+
+type RawProfile = Record<string, unknown>;
+
+// Migrations keyed by the version they upgrade from: MIGRATIONS[1] turns a v1 file into v2.
+const OKI_PROFILE_MIGRATIONS: Record<number, (profile: RawProfile) => RawProfile> = {};
+
+type OkiListEntry = CustomMove | ExcludedMove | PreferredMove;
+
+function isCustomMove(entry: OkiListEntry): entry is CustomMove {
+  return 'frames' in entry;
+}
+
+// Same move for the same character: custom knockdowns by name + input, the others by move.
+function getEntryKey(entry: OkiListEntry): string {
+  return isCustomMove(entry)
+    ? `${entry.characterId}|${entry.name}|${entry.input}`
+    : `${entry.characterId}|${entry.moveName}|${entry.moveInput}`;
+}
+
+function getEntryLabel(entry: OkiListEntry): string {
+  return isCustomMove(entry) ? entry.name : entry.moveInput || entry.moveName;
+}
+
+function getEntryValue(entry: OkiListEntry): string {
+  return isCustomMove(entry) ? `${entry.frames}F` : entry.note ?? '';
+}
+
+function stripCharacterId<T extends { characterId: string }>(entry: T): Omit<T, 'characterId'> {
+  const { characterId: _characterId, ...rest } = entry;
+  return rest;
+}
+
+export function buildOkiProfile(
+  lists: OkiMoveLists,
+  options: { characterIds?: string[]; exportedAt?: string } = {},
+): OkiProfile {
+  const characters: Record<string, OkiProfileCharacter> = {};
+  const include = (characterId: string) => !options.characterIds || options.characterIds.includes(characterId);
+  const group = (characterId: string) => (
+    characters[characterId] ??= { customMoves: [], excludedMoves: [], preferredMoves: [] }
+  );
+
+  for (const move of lists.customMoves) {
+    if (include(move.characterId)) group(move.characterId).customMoves.push(stripCharacterId(move));
+  }
+  for (const move of lists.excludedMoves) {
+    if (include(move.characterId)) group(move.characterId).excludedMoves.push(stripCharacterId(move));
+  }
+  for (const move of lists.preferredMoves) {
+    if (include(move.characterId)) group(move.characterId).preferredMoves.push(stripCharacterId(move));
+  }
+
+  return {
+    format: OKI_PROFILE_FORMAT,
+    version: OKI_PROFILE_VERSION,
+    exportedAt: options.exportedAt ?? new Date().toISOString(),
+    characters,
+  };
+}
+
+/** Flattens a profile back into the three localStorage lists. */
+export function getOkiProfileMoveLists(profile: OkiProfile): OkiMoveLists {
+  const lists: OkiMoveLists = { customMoves: [], excludedMoves: [], preferredMoves: [] };
+  for (const [characterId, group] of Object.entries(profile.characters)) {
+    lists.customMoves.push(...group.customMoves.map(move => ({ ...move, characterId })));
+    lists.excludedMoves.push(...group.excludedMoves.map(move => ({ ...move, characterId })));
+    lists.preferredMoves.push(...group.preferredMoves.map(move => ({ ...move, characterId })));
+  }
+  return lists;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function readString(entry: Record<string, unknown>, key: string): string | undefined {
+  const value = entry[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function readEntries<T>(value: unknown, read: (entry: Record<string, unknown>) => T | null) {
+  const entries: T[] = [];
+  let dropped = 0;
+  for (const raw of Array.isArray(value) ? value : []) {
+    const entry = isRecord(raw) ? read(raw) : null;
+    if (entry) entries.push(entry);
+    else dropped++;
+  }
+  return { entries, dropped };
+}
+
+function readCustomMove(entry: Record<string, unknown>): Omit<CustomMove, 'characterId'> | null {
+  const id = readString(entry, 'id');
+  const name = readString(entry, 'name');
+  const frames = entry.frames;
+  if (!id || !name || typeof frames !== 'number' || !Number.isFinite(frames) || frames <= 0) return null;
+  return { id, name, input: readString(entry, 'input') ?? '', frames };
+}
+
+function readMovePreference(entry: Record<string, unknown>): Omit<ExcludedMove, 'characterId'> | null {
+  const id = readString(entry, 'id');
+  const moveName = readString(entry, 'moveName');
+  const moveInput = readString(entry, 'moveInput');
+  if (!id || !moveName || !moveInput) return null;
+  const note = readString(entry, 'note');
+  return { id, moveName, moveInput, ...(note ? { note } : {}) };
+}
+
+/** Reads a profile file, upgrading older versions. Entries missing required fields are skipped. */
+export function parseOkiProfile(text: string): OkiProfileParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { profile: null, dropped: 0, error: { key: 'oki.profile.error.invalidJson' } };
+  }
+
+  if (!isRecord(raw) || raw.format !== OKI_PROFILE_FORMAT) {
+    return { profile: null, dropped: 0, error: { key: 'oki.profile.error.notProfile' } };
+  }
+
+  let version = typeof raw.version === 'number' ? raw.version : 1;
+  if (version > OKI_PROFILE_VERSION) {
+    return {
+      profile: null,
+      dropped: 0,
+      error: { key: 'oki.profile.error.newerVersion', params: { version, supported: OKI_PROFILE_VERSION } },
+    };
+  }
+  let migrated: RawProfile = raw;
+  while (version < OKI_PROFILE_VERSION) {
+    const migrate = OKI_PROFILE_MIGRATIONS[version];
+    if (migrate) migrated = migrate(migrated);
+    version++;
+  }
+
+  const characters: Record<string, OkiProfileCharacter> = {};
+  let dropped = 0;
+  for (const [characterId, group] of Object.entries(isRecord(migrated.characters) ? migrated.characters : {})) {
+    if (!isRecord(group)) continue;
+    const customMoves = readEntries(group.customMoves, readCustomMove);
+    const excludedMoves = readEntries(group.excludedMoves, readMovePreference);
+    const preferredMoves = readEntries(group.preferredMoves, readMovePreference);
+    dropped += customMoves.dropped + excludedMoves.dropped + preferredMoves.dropped;
+    characters[characterId] = {
+      customMoves: customMoves.entries,
+      excludedMoves: excludedMoves.entries,
+      preferredMoves: preferredMoves.entries,
+    };
+  }
+
+  return {
+    profile: {
+      format: OKI_PROFILE_FORMAT,
+      version: OKI_PROFILE_VERSION,
+      exportedAt: readString(migrated, 'exportedAt') ?? '',
+      characters,
+    },
+    dropped,
+  };
+}
+
+function mergeList<T extends OkiListEntry>(
+  list: OkiMoveListKey,
+  local: T[],
+  imported: T[],
+  strategy: OkiProfileConflictStrategy,
+  result: Omit<OkiProfileMergeResult, 'lists'>,
+): T[] {
+  const merged = [...local];
+  const usedIds = new Set(local.map(entry => entry.id));
+
+  for (const entry of imported) {
+    const index = merged.findIndex(existing => getEntryKey(existing) === getEntryKey(entry));
+    const existing = merged[index];
+
+    if (!existing) {
+      // Keep the exported id unless it is already taken by a different local entry.
+      let id = entry.id;
+      for (let n = 2; usedIds.has(id); n++) id = `${entry.id}-${n}`;
+      usedIds.add(id);
+      merged.push({ ...entry, id });
+      result.added++;
+      continue;
+    }
+
+    if (getEntryValue(existing) === getEntryValue(entry)) {
+      result.unchanged++;
+      continue;
+    }
+
+    result.conflicts.push({
+      list,
+      characterId: entry.characterId,
+      label: getEntryLabel(entry),
+      local: getEntryValue(existing),
+      imported: getEntryValue(entry),
+    });
+    if (strategy === 'useImported') {
+      merged[index] = { ...entry, id: existing.id };
+      result.updated++;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Merges an imported profile into the local lists. New moves are appended; a move already in
+ * the local list with different frames or note is a conflict resolved by `strategy`.
+ */
+export function mergeOkiProfile(
+  local: OkiMoveLists,
+  profile: OkiProfile,
+  strategy: OkiProfileConflictStrategy = 'keepLocal',
+): OkiProfileMergeResult {
+  const imported = getOkiProfileMoveLists(profile);
+  const result: Omit<OkiProfileMergeResult, 'lists'> = { added: 0, updated: 0, unchanged: 0, conflicts: [] };
+
+  const lists: OkiMoveLists = {
+    customMoves: mergeList('customMoves', local.customMoves, imported.customMoves, strategy, result),
+    excludedMoves: mergeList('excludedMoves', local.excludedMoves, imported.excludedMoves, strategy, result),
+    preferredMoves: mergeList('preferredMoves', local.preferredMoves, imported.preferredMoves, strategy, result),
+  };
+
+  return { lists, ...result };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { Move } from '../../types';
+import { buildSafeJumpTable, calculateSafeJumpTiming } from './safeJump';
+
+const buildMove = (overrides: Partial<Move>): Move => ({
+  name: 'Jump HP',
+  input: 'j.HP',
+  damage: '800',
+  startup: '9',
+  active: '6',
+  recovery: '3 land',
+  onBlock: '+4(+11)',
+  onHit: '+8(+15)',
+  category: 'normal',
+  ...overrides,
+});
+
+describe('calculateSafeJumpTiming', () => {
+  // Knockdown +44 with a 45F jump: jumping at once lands on 43, one frame before the wakeup hit is possible.
+  const knockdownAdvantage = 44;
+
+  it('finds the delay that hits on wakeup and still blocks the reversal', () => {
+    expect(calculateSafeJumpTiming({ knockdownAdvantage, reversalStartup: 5, landingRecovery: 3 })).toEqual({
+      reversalStartup: 5,
+      status: 'delay',
+      delayMin: 3,
+      delayMax: 3,
+      landingFrame: 46,
+      recoverFrame: 49,
+      reversalFirstActive: 49,
+      stuffsReversalOnFrame: null,
+    });
+    expect(calculateSafeJumpTiming({ knockdownAdvantage, reversalStartup: 7, landingRecovery: 3 })).toMatchObject({
+      status: 'delay',
+      delayMin: 3,
+      delayMax: 5,
+    });
+  });
+
+  it('reports reversals no timing covers and setups that leave too little time to jump', () => {
+    expect(calculateSafeJumpTiming({ knockdownAdvantage, reversalStartup: 4, landingRecovery: 3 }).status).toBe('unsafe');
+    expect(calculateSafeJumpTiming({ knockdownAdvantage, reversalStartup: 8, landingRecovery: 3, setupFrames: 19 }).status).toBe('late');
+    expect(calculateSafeJumpTiming({ knockdownAdvantage: 41, reversalStartup: 6, landingRecovery: 3 }).status).toBe('safe');
+  });
+
+  it('hits reversals whose invincibility does not cover air attacks yet', () => {
+    const antiAirLate = { invuln: [{ start: 1, end: 2, types: ['air' as const] }] };
+    const fullyInvincible = { invuln: [{ start: 1, end: 6, types: ['full' as const] }] };
+
+    expect(calculateSafeJumpTiming({
+      knockdownAdvantage, reversalStartup: 6, landingRecovery: 3, reversalMove: antiAirLate,
+    }).stuffsReversalOnFrame).toBe(3);
+    expect(calculateSafeJumpTiming({
+      knockdownAdvantage, reversalStartup: 6, landingRecovery: 3, reversalMove: fullyInvincible,
+    }).stuffsReversalOnFrame).toBeNull();
+  });
+});
+
+describe('buildSafeJumpTable', () => {
+  it('lists jump attacks by landing recovery and skips grounded moves', () => {
+    const rows = buildSafeJumpTable({
+      moves: [
+        buildMove({ input: 'j.214K', startup: '11', recovery: '16 land', category: 'special' }),
+        buildMove({ input: '5LP', startup: '4', recovery: '7' }),
+        buildMove({}),
+      ],
+      knockdownAdvantage: 44,
+      reversalStartups: [5],
+    });
+
+    expect(rows.map(row => [row.move.input, row.landingRecovery, row.timings[0]!.status])).toEqual([
+      ['j.HP', 3, 'delay'],
+      ['j.214K', 16, 'unsafe'],
+    ]);
+    expect(rows[0]!.latestPressAirFrame).toBe(30);
+  });
+});
@@ -0,0 +1,141 @@
+import type { Move } from '../../types';
+import { getMoveFrames } from '../frameValue';
+import { isJumpMove } from '../moveFilters';
+import { isJumpInInvulnerableAt } from '../moveProperties';
+import { EMPTY_JUMP_TOTAL_FRAMES, JUMP_PRE_JUMP_FRAMES } from './baitThrow';
+
+// Safe jump: a jump-in that hits as late as possible on the wakeup frame, while the landing
+// recovery ends before the defender's invincible reversal becomes active, so it can be blocked.
+// Frames are counted from the knockdown like createOkiTiming; the jump starts after `setupFrames`.
+
+export const JUMP_LANDING_FRAMES = 3;
+export const DEFAULT_JUMP_AIR_FRAMES = EMPTY_JUMP_TOTAL_FRAMES - JUMP_PRE_JUMP_FRAMES - JUMP_LANDING_FRAMES;
+export const SAFE_JUMP_REFERENCE_STARTUPS = [3, 4, 5];
+
+// safe: jumping right after the setup works; delay: wait delayMin~delayMax frames first;
+// unsafe: landing recovery is too long to both hit on wakeup and block; late: the setup takes too long.
+export type SafeJumpStatus = 'safe' | 'delay' | 'unsafe' | 'late';
+
+export interface SafeJumpTiming {
+  reversalStartup: number;
+  status: SafeJumpStatus;
+  // Frames to wait between the end of the setup and the jump; null without a working timing
+  delayMin: number | null;
+  delayMax: number | null;
+  landingFrame: number | null; // First landing frame with delayMin
+  recoverFrame: number | null;
+  reversalFirstActive: number;
+  // Frame of the reversal a jump-in can hit while its invincibility does not cover air attacks
+  stuffsReversalOnFrame: number | null;
+}
+
+export interface SafeJumpRow {
+  move: Move;
+  startup: number;
+  landingRecovery: number;
+  // Latest airborne frame to press the attack so it is still active on the last airborne frame
+  latestPressAirFrame: number;
+  timings: SafeJumpTiming[];
+}
+
+/** Landing recovery of a jump attack ("3 land" → 3); blank cells fall back to the empty jump landing. */
+export function getJumpLandingRecovery(move: Move): number {
+  return getMoveFrames(move).recovery.first ?? JUMP_LANDING_FRAMES;
+}
+
+function findStuffFrame(params: {
+  knockdownAdvantage: number;
+  reversalStartup: number;
+  firstLanding: number;
+  reversalMove?: Pick<Move, 'invuln'> | null;
+}): number | null {
+  const { knockdownAdvantage, reversalStartup, firstLanding, reversalMove } = params;
+  if (!reversalMove?.invuln) return null;
+  // Landing on L means the jump-in connects on L - 1, reversal frame L - 1 - knockdownAdvantage.
+  for (let landing = firstLanding; landing <= knockdownAdvantage + reversalStartup; landing++) {
+    const reversalFrame = landing - 1 - knockdownAdvantage;
+    if (reversalFrame >= 1 && !isJumpInInvulnerableAt(reversalMove, reversalFrame)) return reversalFrame;
+  }
+  return null;
+}
+
+export function calculateSafeJumpTiming(params: {
+  knockdownAdvantage: number;
+  reversalStartup: number;
+  landingRecovery: number;
+  setupFrames?: number;
+  jumpAirFrames?: number;
+  reversalMove?: Pick<Move, 'invuln'> | null;
+}): SafeJumpTiming {
+  const { knockdownAdvantage, reversalStartup, landingRecovery } = params;
+  const airFrames = params.jumpAirFrames ?? DEFAULT_JUMP_AIR_FRAMES;
+  const reversalFirstActive = knockdownAdvantage + reversalStartup;
+
+  // Hitting on the wakeup frame needs an airborne frame on or after it; blocking needs landing recovery over.
+  const minLanding = knockdownAdvantage + 2;
+  const maxLanding = reversalFirstActive - landingRecovery;
+  const earliestLanding = (params.setupFrames ?? 0) + 1 + JUMP_PRE_JUMP_FRAMES + airFrames;
+  const firstLanding = Math.max(minLanding, earliestLanding);
+  const stuffsReversalOnFrame = findStuffFrame({ ...params, firstLanding });
+  const base = { reversalStartup, reversalFirstActive, stuffsReversalOnFrame };
+
+  if (maxLanding < minLanding || maxLanding < earliestLanding) {
+    return {
+      ...base,
+      status: maxLanding < minLanding ? 'unsafe' : 'late',
+      delayMin: null,
+      delayMax: null,
+      landingFrame: null,
+      recoverFrame: null,
+    };
+  }
+
+  const delayMin = firstLanding - earliestLanding;
+  return {
+    ...base,
+    status: delayMin === 0 ? 'safe' : 'delay',
+    delayMin,
+    delayMax: maxLanding - earliestLanding,
+    landingFrame: firstLanding,
+    recoverFrame: firstLanding + landingRecovery,
+  };
+}
+
+/** Every jump attack of the attacker against each reversal startup (reference 3F/4F/5F plus the defender's). */
+export function buildSafeJumpTable(params: {
+  moves: Move[];
+  knockdownAdvantage: number;
+  reversalStartups: number[];
+  setupFrames?: number;
+  jumpAirFrames?: number;
+  // Move of the defender's own reversal, matched to its startup in reversalStartups
+  reversalMove?: Move | null;
+}): SafeJumpRow[] {
+  const airFrames = params.jumpAirFrames ?? DEFAULT_JUMP_AIR_FRAMES;
+  const reversalMoveStartup = params.reversalMove ? getMoveFrames(params.reversalMove).startup.first : null;
+  const rows: SafeJumpRow[] = [];
+
+  for (const move of params.moves) {
+    if (!isJumpMove(move) || move.input.includes('~') || move.category === 'throw') continue;
+    const startup = getMoveFrames(move).startup.first;
+    if (startup === null || startup <= 0 || startup > airFrames) continue;
+
+    const landingRecovery = getJumpLandingRecovery(move);
+    rows.push({
+      move,
+      startup,
+      landingRecovery,
+      latestPressAirFrame: airFrames - startup + 1,
+      timings: params.reversalStartups.map(reversalStartup => calculateSafeJumpTiming({
+        knockdownAdvantage: params.knockdownAdvantage,
+        reversalStartup,
+        landingRecovery,
+        setupFrames: params.setupFrames,
+        jumpAirFrames: airFrames,
+        reversalMove: reversalStartup === reversalMoveStartup ? params.reversalMove : null,
+      })),
+    });
+  }
+
+  return rows.sort((a, b) => a.landingRecovery - b.landingRecovery || a.startup - b.startup);
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { Move } from '../../types';
+import { calculateThrowWindow, filterThrowResults, generateThrowResults } from './throwLoop';
+
+const buildMove = (overrides: Partial<Move>): Move => ({
+  name: 'Stand LP',
+  input: '5LP',
+  damage: '300',
+  startup: '4',
+  active: '3',
+  recovery: '7',
+  onBlock: '-1',
+  onHit: '+4',
+  category: 'normal',
+  ...overrides,
+});
+
+describe('calculateThrowWindow', () => {
+  it('keeps the throw between wakeup throw invul and the abare active frame', () => {
+    const window = calculateThrowWindow({
+      knockdownAdvantage: 38,
+      throwStartup: 5,
+      throwActive: 3,
+      wakeupThrowInvul: 1,
+      opponentAbareStartup: 4,
+    });
+
+    expect(window.earliestThrowableFrame).toBe(40);
+    expect(window.latestThrowableFrame).toBe(41);
+    expect(window.delayMin).toBe(33);
+    expect(window.delayMax).toBe(36);
+    expect(window.firstActiveMin).toBe(38);
+    expect(window.firstActiveMax).toBe(41);
+  });
+
+  it('collapses the window to the earliest frame when the opponent does not press', () => {
+    const window = calculateThrowWindow({
+      knockdownAdvantage: 38,
+      throwStartup: 5,
+      throwActive: 3,
+      wakeupThrowInvul: 1,
+      opponentAbareStartup: 0,
+    });
+
+    expect(window.latestThrowableFrame).toBe(40);
+    expect(window.delayMax).toBe(35);
+  });
+});
+
+describe('generateThrowResults', () => {
+  const window = calculateThrowWindow({
+    knockdownAdvantage: 38,
+    throwStartup: 5,
+    throwActive: 3,
+    wakeupThrowInvul: 1,
+    opponentAbareStartup: 4,
+  });
+  const moves = [
+    buildMove({}),
+    buildMove({ name: 'Crouch MK', input: '2MK', startup: '8', active: '3', recovery: '7' }),
+    buildMove({ name: 'Throw', input: 'LPLK', startup: '5', category: 'throw' }),
+  ];
+
+  it('finds dash + filler delays that fit the throw window', () => {
+    const results = generateThrowResults({
+      moves,
+      stats: { forwardDash: 19 },
+      knockdownAdvantage: 38,
+      window,
+      extraDelayFrames: 0,
+    });
+
+    expect(results.map(r => r.key)).toEqual(['dash|19|Crouch MK|2MK|17']);
+    expect(results[0]?.firstActive).toBe(41);
+    expect(results[0]?.toleranceFrames).toBe(0);
+  });
+
+  it('adds the manual extra delay on top of the filler frames', () => {
+    const results = generateThrowResults({
+      moves,
+      stats: { forwardDash: 19 },
+      knockdownAdvantage: 38,
+      window,
+      extraDelayFrames: 1,
+    });
+    const sorted = filterThrowResults(results, { sortKey: 'toleranceFrames', sortOrder: 'desc' });
+
+    expect(sorted.map(r => r.filler?.name)).toEqual(['Stand LP']);
+    expect(sorted[0]?.delay).toBe(33);
+    expect(sorted[0]?.toleranceFrames).toBe(3);
+  });
+});
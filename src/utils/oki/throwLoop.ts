@@ -0,0 +1,192 @@
+import type { CharacterStats, Move } from '../../types';
+import { isAirborneMove } from '../moveFilters';
+import { getOkiPrefixKey, matchesComboChain } from './comboChain';
+import { getMoveTotalFrames, parseActiveWindowFrames, parseTotalRecoveryFrames } from './frames';
+import { OKI_RESULT_LIMIT } from './meaty';
+import type { ComboAction, OkiPrefixPart, SortOrder, ThrowComboResult, ThrowSortKey } from './types';
+
+export type ThrowWindow = {
+  throwStartup: number;
+  throwActive: number;
+  earliestThrowableFrame: number;
+  latestThrowableFrame: number;
+  delayMin: number;
+  delayMinClamped: number;
+  delayMax: number;
+  firstActiveMin: number;
+  firstActiveMax: number;
+};
+
+/**
+ * Throw loop window after a knockdown.
+ *
+ * 最早可投帧 = 击倒帧 + 起身投无敌帧 + 1
+ * 例：38帧击倒，1帧投保护 → 第39帧是起身第1帧(投保护)，第40帧才可被投
+ *
+ * 最晚可投帧 = 击倒帧 + 对方抢招发生 - 1 (不早于最早可投帧)
+ * 例：KD 38, 4F 抢招在 42F 生效，所以 40F、41F 都是安全的投掷帧。
+ * 若对方抢招为 0 (原地不动/防御)，则窗口仅为最早可投帧。
+ */
+export function calculateThrowWindow(params: {
+  knockdownAdvantage: number;
+  throwStartup: number;
+  throwActive: number;
+  wakeupThrowInvul: number;
+  opponentAbareStartup: number;
+}): ThrowWindow {
+  const throwStartup = Math.max(1, params.throwStartup || 1);
+  const throwActive = Math.max(1, params.throwActive || 1);
+  const throwInvul = Math.max(0, params.wakeupThrowInvul || 0);
+  const abare = Math.max(0, params.opponentAbareStartup || 0);
+
+  const earliestThrowableFrame = params.knockdownAdvantage + throwInvul + 1;
+  // We must hit before the abare becomes active, but still respect the wakeup invul.
+  const latestThrowableFrame = abare <= 0
+    ? earliestThrowableFrame
+    : Math.max(earliestThrowableFrame, params.knockdownAdvantage + abare - 1);
+
+  // Max delay (late meaty): press at F - startup so the first active frame lands on the latest frame.
+  const delayMax = latestThrowableFrame - throwStartup;
+  // Min delay (early meaty): the last active frame still reaches the earliest throwable frame.
+  const delayMin = earliestThrowableFrame - throwActive + 1 - throwStartup;
+
+  return {
+    throwStartup,
+    throwActive,
+    earliestThrowableFrame,
+    latestThrowableFrame,
+    delayMin,
+    delayMinClamped: Math.max(0, delayMin),
+    delayMax,
+    firstActiveMin: earliestThrowableFrame - (throwActive - 1),
+    firstActiveMax: latestThrowableFrame,
+  };
+}
+
+// Throw filler moves (exclude throws, keep reasonable total frames)
+export function getThrowFillerMoves(moves: Move[]): Move[] {
+  return moves.filter((m: Move) => {
+    if (m.category === 'throw') return false;
+    if (isAirborneMove(m)) return false;
+    const startup = parseInt(m.startup) || 0;
+    if (startup <= 0) return false;
+    const totalFrames = getMoveTotalFrames(m);
+    return totalFrames > 0 && totalFrames <= 90;
+  });
+}
+
+export type FillerFrameInfo = {
+  fillerFrames: number;
+  fillerStartup: number;
+  fillerActive: number;
+  fillerRecovery: number;
+};
+
+export function getFillerFrameInfo(move: Move): FillerFrameInfo {
+  return {
+    fillerStartup: parseInt(move.startup) || 0,
+    fillerActive: parseActiveWindowFrames(move.active),
+    fillerRecovery: parseTotalRecoveryFrames(move.recovery),
+    // Use helper for correct total (handles raw.total and startup-1 logic)
+    fillerFrames: getMoveTotalFrames(move),
+  };
+}
+
+export function generateThrowResults(params: {
+  moves: Move[];
+  stats: Pick<CharacterStats, 'forwardDash'>;
+  knockdownAdvantage: number;
+  window: ThrowWindow;
+  extraDelayFrames: number;
+}): ThrowComboResult[] {
+  const { stats, window } = params;
+  if (params.knockdownAdvantage <= 0) return [];
+  if (window.delayMax < 0) return [];
+
+  const prefixes: { parts: OkiPrefixPart[]; frames: number }[] = [
+    { parts: [], frames: 0 },
+    { parts: [{ kind: 'dash', count: 1 }], frames: stats.forwardDash },
+    { parts: [{ kind: 'dash', count: 2 }], frames: stats.forwardDash * 2 },
+  ];
+
+  const results: ThrowComboResult[] = [];
+  const minDelay = window.delayMinClamped;
+  const maxDelay = window.delayMax;
+  const throwStart = window.throwStartup;
+  const extraDelay = Math.max(0, Math.trunc(params.extraDelayFrames || 0));
+  const fillerMoves = getThrowFillerMoves(params.moves);
+
+  for (const prefix of prefixes) {
+    const prefixKey = getOkiPrefixKey(prefix.parts);
+    const baseDelay = prefix.frames;
+    const actualDelay = baseDelay + extraDelay;
+    if (actualDelay >= minDelay && actualDelay <= maxDelay) {
+      results.push({
+        key: `${prefixKey}|direct|${prefix.frames}`,
+        prefix: prefix.parts,
+        prefixFrames: prefix.frames,
+        fillerFrames: 0,
+        baseDelay,
+        extraDelayFrames: extraDelay,
+        delay: actualDelay,
+        firstActive: actualDelay + throwStart,
+        toleranceFrames: Math.max(0, maxDelay - actualDelay),
+      });
+    }
+
+    for (const move of fillerMoves) {
+      const filler = getFillerFrameInfo(move);
+      const baseDelay = prefix.frames + filler.fillerFrames;
+      const delay = baseDelay + extraDelay;
+
+      if (delay < minDelay || delay > maxDelay) continue;
+
+      results.push({
+        key: `${prefixKey}|${prefix.frames}|${move.name}|${move.input}|${filler.fillerFrames}`,
+        prefix: prefix.parts,
+        prefixFrames: prefix.frames,
+        filler: move,
+        ...filler,
+        baseDelay,
+        extraDelayFrames: extraDelay,
+        delay,
+        firstActive: delay + throwStart,
+        toleranceFrames: Math.max(0, maxDelay - delay),
+      });
+    }
+  }
+
+  return results;
+}
+
+function getThrowSortValue(result: ThrowComboResult, sortKey: ThrowSortKey): number {
+  if (sortKey === 'delay') return result.delay;
+  if (sortKey === 'firstActive') return result.firstActive;
+  return result.toleranceFrames;
+}
+
+export function filterThrowResults(results: ThrowComboResult[], params: {
+  comboChain?: ComboAction[];
+  sortKey?: ThrowSortKey;
+  sortOrder?: SortOrder;
+  limit?: number;
+}): ThrowComboResult[] {
+  const sortKey = params.sortKey ?? 'delay';
+  const sortOrder = params.sortOrder ?? 'asc';
+  const filtered = results.filter(result => {
+    return matchesComboChain({ prefix: result.prefix, move: result.filler }, params.comboChain);
+  });
+
+  const sorted = [...filtered].sort((a, b) => {
+    const valA = getThrowSortValue(a, sortKey);
+    const valB = getThrowSortValue(b, sortKey);
+    if (valA !== valB) {
+      return sortOrder === 'desc' ? valB - valA : valA - valB;
+    }
+
+    // Secondary sort: Delay asc for stability
+    return a.delay - b.delay;
+  });
+
+  return sorted.slice(0, params.limit ?? OKI_RESULT_LIMIT);
+}
@@ -0,0 +1,257 @@
+import { parseActiveWindowFrames } from './frames';
+import type { ExtendedOkiResult, ThrowComboResult, TimelineFrame } from './types';
+
+export const THROW_TIMELINE_RECOVERY_FRAMES = 20;
+
+// Attacker Timeline
+export function generateTimelineFrames(
+  result: ExtendedOkiResult,
+  oppWakeupFrame: number,
+  oppReversalFrame: number
+): TimelineFrame[] {
+  const frames: TimelineFrame[] = [];
+
+  const prefixFrames = result.prefixFrames;
+  const startup = parseInt(result.move.startup) || 0;
+  const active = parseActiveWindowFrames(result.move.active);
+
+  // Prefix + Startup + Active + Recovery (rows are aligned by CSS width, not padded here)
+  const total = Math.max(result.recoverFrame, result.effectiveHitFrame ?? result.ourActiveEnd);
+
+  const activeStart = result.projectileOki
+    ? result.effectiveHitFrame ?? result.ourActiveStart
+    : prefixFrames + startup;
+  const activeEnd = result.projectileOki
+    ? activeStart
+    : prefixFrames + startup + active - 1;
+
+  for (let i = 1; i <= total; i++) {
+    const globalFrame = i;
+
+    let type: TimelineFrame['type'];
+
+    if (result.projectileOki && i === activeStart) {
+      type = 'active';
+    } else if (i <= prefixFrames) {
+      type = 'prefix';
+    } else if (i > result.recoverFrame) {
+      type = 'neutral';
+    } else if (i < activeStart) {
+      type = 'startup';
+    } else if (i <= activeEnd) {
+      type = 'active';
+    } else {
+      type = 'recovery';
+    }
+
+    // Markers (kept for reference, primarily on Defender/Interaction row)
+    const isWakeup = (globalFrame === oppWakeupFrame);
+    const isReversal = (globalFrame === oppReversalFrame);
+    const isVulnerable = (globalFrame >= oppWakeupFrame && globalFrame < oppReversalFrame);
+
+    let isHit = false;
+    if (type === 'active') {
+      if (result.effectiveHitFrame && globalFrame === result.effectiveHitFrame) {
+        isHit = true;
+      }
+    }
+
+    let label: number | undefined;
+    // Show label for: 1, Prefix End, Startup End, Active End, Total
+    if (i === 1) label = i;
+    else if (i === prefixFrames && prefixFrames > 0) label = i;
+    else if (i === activeStart && i !== 1) label = i;
+    else if (i === activeEnd) label = i;
+    else if (i === total) label = i;
+    else if (isHit) label = i;
+
+    frames.push({
+      index: i,
+      globalFrame,
+      type,
+      isWakeup,
+      isReversal,
+      isVulnerable,
+      isHit,
+      label
+    });
+  }
+
+  return frames;
+}
+
+// Defender Timeline
+export function generateDefenderFrames(
+  result: ExtendedOkiResult,
+  oppWakeupFrame: number,
+  mode: 'hit' | 'block'
+): TimelineFrame[] {
+  const frames: TimelineFrame[] = [];
+
+  const attackerEnd = result.recoverFrame;
+
+  const advantage = mode === 'hit'
+    ? (typeof result.calculatedOnHit === 'number' ? result.calculatedOnHit : 0)
+    : (typeof result.calculatedOnBlock === 'number' ? result.calculatedOnBlock : 0);
+
+  // Defender becomes free at: AttackerEnd + Advantage
+  // Note: If advantage is negative, defender is free BEFORE attacker.
+  // If advantage is positive, defender is free AFTER attacker.
+  const defenderFreeFrame = attackerEnd + advantage + 1;
+
+  // Max Frame to render: at least up to AttackerEnd, or DefenderFreeFrame if later.
+  const totalRender = Math.max(attackerEnd, defenderFreeFrame - 1, oppWakeupFrame + 10);
+
+  const impactFrame = result.effectiveHitFrame || 9999;
+
+  for (let i = 1; i <= totalRender; i++) {
+    const globalFrame = i;
+    let type: TimelineFrame['type'] = 'neutral';
+
+    if (i < oppWakeupFrame) {
+      type = 'down';
+    } else if (i < impactFrame) {
+      type = 'vulnerable';
+    } else if (i < defenderFreeFrame) {
+      // Stun state
+      type = mode === 'hit' ? 'hitstun' : 'blockstun';
+    } else {
+      type = 'neutral';
+    }
+
+    const isWakeup = (globalFrame === oppWakeupFrame);
+    const isHit = (globalFrame === impactFrame);
+
+    let label: number | undefined;
+    if (isWakeup || isHit || i === defenderFreeFrame - 1) label = i;
+
+    frames.push({
+      index: i,
+      globalFrame,
+      type,
+      isWakeup,
+      isReversal: false,
+      isVulnerable: false,
+      isHit,
+      label
+    });
+  }
+
+  return frames;
+}
+
+// Throw Timeline Generators
+export function generateThrowTimelineFrames(
+  result: Pick<ThrowComboResult, 'prefixFrames' | 'fillerStartup' | 'fillerActive' | 'fillerFrames' | 'firstActive'>,
+  oppWakeupFrame: number,
+  throwStartup: number,
+  throwActive: number
+): TimelineFrame[] {
+  const frames: TimelineFrame[] = [];
+
+  const prefixFrames = result.prefixFrames;
+
+  const fillerStartup = result.fillerStartup || 0;
+  const fillerActive = result.fillerActive || 0;
+  // Use the pre-calculated total frames which (correctly) includes raw.total overrides.
+  // fillerTotal = (startup - 1) + active + recovery, so the blocks below add up to it.
+  const fillerTotal = result.fillerFrames || 0;
+
+  // Calculate Filler Key Frames (Global)
+  const fillerActiveStart = prefixFrames + fillerStartup;
+  const fillerActiveEnd = fillerActiveStart + fillerActive - 1;
+  const fillerEndFrame = prefixFrames + fillerTotal;
+
+  // Throw start frame relative to start of sequence
+  const throwStartFrame = prefixFrames + fillerTotal + 1;
+  const throwActiveStart = throwStartFrame + throwStartup - 1;
+  const throwActiveEnd = throwActiveStart + throwActive - 1;
+  const total = throwActiveEnd + THROW_TIMELINE_RECOVERY_FRAMES;
+
+  for (let i = 1; i <= total; i++) {
+    const globalFrame = i;
+    let type: TimelineFrame['type'];
+
+    if (i <= prefixFrames) {
+      type = 'prefix';
+    } else if (i <= fillerEndFrame) {
+      if (i < fillerActiveStart) type = 'startup';
+      else if (i <= fillerActiveEnd) type = 'active';
+      else type = 'recovery';
+    } else {
+      if (i < throwActiveStart) type = 'startup';
+      else if (i <= throwActiveEnd) type = 'active';
+      else type = 'recovery';
+    }
+
+    const isWakeup = (globalFrame === oppWakeupFrame);
+    // result.firstActive should match throwActiveStart exactly if calculations align.
+    const isThrowConnect = (globalFrame === result.firstActive);
+
+    let label: number | undefined;
+    if (i === 1) label = i;
+    else if (i === prefixFrames && prefixFrames > 0) label = i;
+    else if (isThrowConnect) label = i;
+
+    frames.push({
+      index: i,
+      globalFrame,
+      type,
+      isWakeup,
+      isReversal: false,
+      isVulnerable: false,
+      isHit: isThrowConnect,
+      label
+    });
+  }
+
+  return frames;
+}
+
+export function generateThrowDefenderFrames(
+  oppWakeupFrame: number,
+  throwFirstActive: number
+): TimelineFrame[] {
+  const frames: TimelineFrame[] = [];
+
+  // Render enough to show throw connect + some aftermath
+  const total = Math.max(oppWakeupFrame + 20, throwFirstActive + 10);
+
+  for (let i = 1; i <= total; i++) {
+    let type: TimelineFrame['type'] = 'neutral';
+
+    if (i < oppWakeupFrame) {
+      type = 'down';
+    } else {
+      // SF6: 1F throw invuln on wakeup, so the wakeup frame itself is not throwable.
+      if (i === oppWakeupFrame) {
+        type = 'recovery';
+      } else {
+        type = 'vulnerable'; // Throwable
+      }
+
+      if (i >= throwFirstActive) {
+        type = 'hitstun'; // Thrown!
+      }
+    }
+
+    const isWakeup = (i === oppWakeupFrame);
+    const isHit = (i === throwFirstActive);
+
+    let label: number | undefined;
+    if (isWakeup || isHit) label = i;
+
+    frames.push({
+      index: i,
+      globalFrame: i,
+      type,
+      isWakeup,
+      isReversal: false,
+      isVulnerable: false,
+      isHit,
+      label
+    });
+  }
+
+  return frames;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { generateThrowDefenderFrames, generateThrowTimelineFrames } from './timeline';
+import { buildTimelineSvg, TIMELINE_IMAGE_COLORS, type TimelineImage } from './timelineImage';
+
+// Knockdown +20, wakeup on 21, direct throw (5F startup, 3F active) delayed so it is active on 22.
+const attacker = generateThrowTimelineFrames(
+  { prefixFrames: 16, fillerFrames: 0, firstActive: 22 },
+  21,
+  5,
+  3,
+);
+const defender = generateThrowDefenderFrames(21, 22);
+
+const buildImage = (overrides: Partial<TimelineImage> = {}): TimelineImage => ({
+  title: 'Ryu vs Ken',
+  subtitle: 'Throw loop',
+  rows: [
+    { label: 'Attacker', frames: attacker },
+    { label: 'Opponent', frames: defender },
+  ],
+  legend: [
+    { type: 'active', label: 'Active' },
+    { type: 'down', label: 'Knockdown' },
+  ],
+  knockdown: { frame: 20, label: 'Knockdown +20F' },
+  wakeup: { frame: 21, label: 'Wakeup 21F' },
+  reversal: { frame: 25, label: 'Reversal 25F' },
+  hitLabel: 'Throw connects',
+  ...overrides,
+});
+
+describe('buildTimelineSvg', () => {
+  it('draws one cell per frame and sizes the image to the longest row', () => {
+    const { svg, width, height } = buildTimelineSvg(buildImage());
+    const cells = svg.match(/<rect x="[\d.]+" y="[\d.]+" width="10" height="18" fill=/g) ?? [];
+
+    expect(cells).toHaveLength(attacker.length + defender.length);
+    expect(width).toBeGreaterThan(Math.max(attacker.length, defender.length) * 11);
+    expect(height).toBeGreaterThan(0);
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(svg).toContain(`fill="${TIMELINE_IMAGE_COLORS.down}"`);
+  });
+
+  it('labels the knockdown, wakeup, reversal and hit markers', () => {
+    const { svg } = buildTimelineSvg(buildImage());
+
+    for (const label of ['Knockdown +20F', 'Wakeup 21F', 'Reversal 25F', 'Throw connects']) {
+      expect(svg).toContain(`>${label}</text>`);
+    }
+    // Hit outline on the throw's first active frame in both rows
+    expect(svg.match(/fill="none" stroke="#ffffff"/g)).toHaveLength(2);
+  });
+
+  it('escapes text and skips markers outside the timeline', () => {
+    const { svg } = buildTimelineSvg(buildImage({
+      title: 'Dee Jay <DJ> & Ken',
+      reversal: { frame: 999, label: 'Reversal 999F' },
+    }));
+
+    expect(svg).toContain('Dee Jay &lt;DJ&gt; &amp; Ken');
+    // The reversal stays in the legend but gets no line across the rows
+    expect(svg.match(/stroke="#f87171"/g)).toHaveLength(1);
+    expect(svg.match(/stroke="#4ade80"/g)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,177 @@
+import type { TimelineFrame } from './types';
+
+// Standalone SVG of the frame-by-frame timelines, so a setup can be shared as an image.
+// Texts are passed in already translated; the view also turns the SVG into a PNG.
+
+export type TimelineFrameType = TimelineFrame['type'];
+
+export interface TimelineImageRow {
+  label: string;
+  frames: TimelineFrame[];
+}
+
+export interface TimelineImageMarker {
+  frame: number;
+  label: string;
+}
+
+export interface TimelineImage {
+  title: string;
+  subtitle?: string;
+  rows: TimelineImageRow[];
+  legend: { type: TimelineFrameType; label: string }[];
+  // Spans frames 1..frame, i.e. the knockdown advantage before the opponent wakes up
+  knockdown?: TimelineImageMarker;
+  wakeup?: TimelineImageMarker;
+  reversal?: TimelineImageMarker;
+  // Legend text of the marker drawn over frames with isHit
+  hitLabel: string;
+}
+
+export interface TimelineSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+// Solid versions of the timeline colors used on the page
+export const TIMELINE_IMAGE_COLORS: Record<TimelineFrameType, string> = {
+  prefix: '#374151',
+  startup: '#9ca3af',
+  active: '#dc2626',
+  recovery: '#2563eb',
+  down: '#000000',
+  vulnerable: '#1f4d3a',
+  hitstun: '#ca8a04',
+  blockstun: '#9333ea',
+  neutral: '#27272a',
+};
+
+const BACKGROUND = '#111827';
+const TEXT = '#e5e7eb';
+const MUTED = '#9ca3af';
+const WAKEUP_COLOR = '#4ade80';
+const REVERSAL_COLOR = '#f87171';
+const KNOCKDOWN_COLOR = '#a1a1aa';
+const HIT_COLOR = '#ffffff';
+
+const PADDING = 16;
+const CELL_WIDTH = 10;
+const CELL_GAP = 1;
+const CELL_HEIGHT = 18;
+const FRAME_NUMBER_HEIGHT = 14;
+const ROW_SPACING = 10;
+const MARKER_LINE_HEIGHT = 14;
+const LEGEND_LINE_HEIGHT = 18;
+const FONT = 'font-family="system-ui, -apple-system, \'Segoe UI\', sans-serif"';
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Rough width at 11px; CJK and kana are about twice as wide as Latin letters.
+function estimateTextWidth(text: string, fontSize = 11): number {
+  let units = 0;
+  for (const char of text) units += char.codePointAt(0)! >= 0x2e80 ? 1.1 : 0.6;
+  return Math.ceil(units * fontSize);
+}
+
+function frameX(labelWidth: number, frame: number): number {
+  return PADDING + labelWidth + (frame - 1) * (CELL_WIDTH + CELL_GAP);
+}
+
+export function buildTimelineSvg(image: TimelineImage): TimelineSvg {
+  const frameCount = Math.max(1, ...image.rows.map(row => row.frames.length));
+  const labelWidth = Math.max(80, ...image.rows.map(row => estimateTextWidth(row.label))) + 12;
+  const timelineWidth = frameCount * (CELL_WIDTH + CELL_GAP);
+  const width = Math.max(PADDING * 2 + labelWidth + timelineWidth, 360);
+  const parts: string[] = [];
+
+  let y = PADDING + 16;
+  parts.push(`<text x="${PADDING}" y="${y}" fill="${TEXT}" font-size="16" font-weight="600">${escapeXml(image.title)}</text>`);
+  if (image.subtitle) {
+    y += 18;
+    parts.push(`<text x="${PADDING}" y="${y}" fill="${MUTED}" font-size="11">${escapeXml(image.subtitle)}</text>`);
+  }
+  y += 12;
+
+  // One header line per marker so close frames (wakeup 39F, reversal 42F) do not overlap.
+  const markerLines = [image.knockdown, image.wakeup, image.reversal].filter(Boolean).length;
+  const markerTop = y;
+  y += markerLines * MARKER_LINE_HEIGHT + 4;
+  const rowsTop = y;
+  const rowsBottom = rowsTop + image.rows.length * (CELL_HEIGHT + FRAME_NUMBER_HEIGHT + ROW_SPACING) - ROW_SPACING;
+
+  let markerY = markerTop;
+  if (image.knockdown) {
+    markerY += MARKER_LINE_HEIGHT;
+    const end = Math.min(image.knockdown.frame, frameCount);
+    const x1 = frameX(labelWidth, 1);
+    const x2 = frameX(labelWidth, end) + CELL_WIDTH;
+    parts.push(`<path d="M${x1} ${markerY - 4}v4H${x2}v-4" fill="none" stroke="${KNOCKDOWN_COLOR}"/>`);
+    parts.push(`<text x="${x1 + 2}" y="${markerY - 6}" fill="${KNOCKDOWN_COLOR}" font-size="10">${escapeXml(image.knockdown.label)}</text>`);
+  }
+  for (const [marker, color] of [[image.wakeup, WAKEUP_COLOR], [image.reversal, REVERSAL_COLOR]] as const) {
+    if (!marker) continue;
+    markerY += MARKER_LINE_HEIGHT;
+    if (marker.frame < 1 || marker.frame > frameCount) continue;
+    const x = frameX(labelWidth, marker.frame);
+    parts.push(`<line x1="${x}" y1="${markerY - 10}" x2="${x}" y2="${rowsBottom}" stroke="${color}" stroke-dasharray="3 2"/>`);
+    parts.push(`<text x="${x + 3}" y="${markerY - 2}" fill="${color}" font-size="10">${escapeXml(marker.label)}</text>`);
+  }
+
+  for (const row of image.rows) {
+    parts.push(`<text x="${PADDING}" y="${y + CELL_HEIGHT - 5}" fill="${TEXT}" font-size="11">${escapeXml(row.label)}</text>`);
+    for (const frame of row.frames) {
+      const x = frameX(labelWidth, frame.index);
+      parts.push(`<rect x="${x}" y="${y}" width="${CELL_WIDTH}" height="${CELL_HEIGHT}" fill="${TIMELINE_IMAGE_COLORS[frame.type]}"/>`);
+      if (frame.isHit) {
+        parts.push(`<rect x="${x + 0.5}" y="${y + 0.5}" width="${CELL_WIDTH - 1}" height="${CELL_HEIGHT - 1}" fill="none" stroke="${HIT_COLOR}"/>`);
+        parts.push(`<path d="M${x} ${y - 5}h${CELL_WIDTH}l-${CELL_WIDTH / 2} 5z" fill="${HIT_COLOR}"/>`);
+      }
+      if (frame.label !== undefined) {
+        parts.push(`<text x="${x + CELL_WIDTH / 2}" y="${y + CELL_HEIGHT + 11}" fill="${MUTED}" font-size="9" text-anchor="middle">${frame.label}</text>`);
+      }
+    }
+    y += CELL_HEIGHT + FRAME_NUMBER_HEIGHT + ROW_SPACING;
+  }
+
+  // Legend wraps to the image width: frame colors first, then the markers.
+  const legendItems: { swatch: string; label: string }[] = [
+    ...image.legend.map(item => ({
+      swatch: `<rect width="10" height="10" fill="${TIMELINE_IMAGE_COLORS[item.type]}" stroke="#52525b"/>`,
+      label: item.label,
+    })),
+    { swatch: `<path d="M0 2h10l-5 6z" fill="${HIT_COLOR}"/>`, label: image.hitLabel },
+    ...[[image.wakeup, WAKEUP_COLOR], [image.reversal, REVERSAL_COLOR]]
+      .filter((entry): entry is [TimelineImageMarker, string] => !!entry[0])
+      .map(([marker, color]) => ({
+        swatch: `<line x1="5" y1="0" x2="5" y2="10" stroke="${color}" stroke-dasharray="3 2"/>`,
+        label: marker.label,
+      })),
+  ];
+  let legendX = PADDING;
+  y += 4;
+  for (const item of legendItems) {
+    const itemWidth = 14 + estimateTextWidth(item.label) + 14;
+    if (legendX > PADDING && legendX + itemWidth > width - PADDING) {
+      legendX = PADDING;
+      y += LEGEND_LINE_HEIGHT;
+    }
+    parts.push(`<g transform="translate(${legendX} ${y})">${item.swatch}<text x="14" y="9" fill="${TEXT}" font-size="11">${escapeXml(item.label)}</text></g>`);
+    legendX += itemWidth;
+  }
+  const height = y + LEGEND_LINE_HEIGHT + PADDING - 4;
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ${FONT}>`,
+    `<rect width="${width}" height="${height}" fill="${BACKGROUND}"/>`,
+    ...parts,
+    '</svg>',
+  ].join('\n');
+  return { svg, width, height };
+}
@@ -0,0 +1,110 @@
+import type { Move } from '../../types';
+import {
+  canBlockWakeupDriveReversal,
+  getActionRecoverFrame,
+  getSafeBaitLimitFrame,
+  getWakeupDriveReversalImpactFrame,
+  WAKEUP_DRIVE_REVERSAL,
+} from '../wakeupDriveReversal';
+import { parseActiveWindowFrames, parseTotalRecoveryFrames } from './frames';
+import type { MoveRecoveryTiming } from './types';
+
+export type OkiTiming = {
+  knockdownAdvantage: number;
+  opponentReversalStartup: number;
+  // First vulnerable frame after knockdown invul
+  opponentWakeupFrame: number;
+  // First active (damage) frame of the reversal
+  opponentFirstActiveFrame: number;
+  opponentPreActiveEnd: number;
+  hasPreActiveWindow: boolean;
+  wakeupDriveReversalImpactFrame: number;
+  wakeupDriveReversalInvulStartFrame: number;
+  wakeupDriveReversalInvulEndFrame: number;
+  safeBaitStrictLimitFrame: number;
+  safeBaitMaxTotalFrame: number;
+};
+
+export function normalizeReversalStartup(value: number | undefined): number {
+  return Math.max(1, Math.trunc(value || 1));
+}
+
+/**
+ * Frame landmarks of the defender's wakeup, all counted from the knockdown (frame 1 = first
+ * frame after the knockdown move connects).
+ */
+export function createOkiTiming(params: {
+  knockdownAdvantage: number;
+  opponentReversalStartup: number;
+}): OkiTiming {
+  const knockdownAdvantage = params.knockdownAdvantage;
+  const opponentReversalStartup = normalizeReversalStartup(params.opponentReversalStartup);
+  const opponentWakeupFrame = knockdownAdvantage + 1;
+  const opponentFirstActiveFrame = knockdownAdvantage + opponentReversalStartup;
+  const opponentPreActiveEnd = opponentFirstActiveFrame - 1;
+
+  return {
+    knockdownAdvantage,
+    opponentReversalStartup,
+    opponentWakeupFrame,
+    opponentFirstActiveFrame,
+    opponentPreActiveEnd,
+    hasPreActiveWindow: opponentPreActiveEnd >= opponentWakeupFrame,
+    wakeupDriveReversalImpactFrame: getWakeupDriveReversalImpactFrame(opponentWakeupFrame),
+    wakeupDriveReversalInvulStartFrame: opponentWakeupFrame + WAKEUP_DRIVE_REVERSAL.invincibleStartOffset,
+    wakeupDriveReversalInvulEndFrame: opponentWakeupFrame + WAKEUP_DRIVE_REVERSAL.invincibleEndOffset,
+    safeBaitStrictLimitFrame: opponentWakeupFrame + opponentReversalStartup,
+    safeBaitMaxTotalFrame: getSafeBaitLimitFrame({
+      opponentWakeupFrame,
+      opponentMoveStartup: opponentReversalStartup,
+    }),
+  };
+}
+
+export function getMoveRecoveryTiming(
+  timing: Pick<OkiTiming, 'opponentWakeupFrame' | 'wakeupDriveReversalImpactFrame'>,
+  actionStartFrame: number,
+  move: Move,
+  startup: number,
+): MoveRecoveryTiming {
+  const activeWindowFrames = parseActiveWindowFrames(move.active);
+  const recoveryFrames = parseTotalRecoveryFrames(move.recovery);
+  const recoverFrame = getActionRecoverFrame({
+    actionStartFrame,
+    startup,
+    active: activeWindowFrames,
+    recovery: recoveryFrames,
+  });
+  const safeAgainstWakeupDriveReversal = canBlockWakeupDriveReversal({
+    recoverFrame,
+    opponentWakeupFrame: timing.opponentWakeupFrame,
+  });
+
+  return {
+    activeWindowFrames,
+    recoveryFrames,
+    recoverFrame,
+    safeAgainstWakeupDriveReversal,
+    driveReversalSafetyMargin: timing.wakeupDriveReversalImpactFrame - recoverFrame,
+  };
+}
+
+export function getBodyTotalRecoveryTiming(
+  timing: Pick<OkiTiming, 'opponentWakeupFrame' | 'wakeupDriveReversalImpactFrame'>,
+  actionStartFrame: number,
+  totalFrames: number,
+): MoveRecoveryTiming {
+  const recoverFrame = actionStartFrame + totalFrames;
+  const safeAgainstWakeupDriveReversal = canBlockWakeupDriveReversal({
+    recoverFrame,
+    opponentWakeupFrame: timing.opponentWakeupFrame,
+  });
+
+  return {
+    activeWindowFrames: 0,
+    recoveryFrames: totalFrames,
+    recoverFrame,
+    safeAgainstWakeupDriveReversal,
+    driveReversalSafetyMargin: timing.wakeupDriveReversalImpactFrame - recoverFrame,
+  };
+}
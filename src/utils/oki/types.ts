@@ -0,0 +1,273 @@
+import type { LocalizedMessage, LocalizedText, MessageKey } from '../../i18n';
+import type { Move } from '../../types';
+import type { ProjectileOkiGuardCalculation } from '../projectileOki';
+import type { MeatySpacing } from '../spacing';
+
+export type MoveNameFormatter = (move: Pick<Move, 'name' | 'nameZh'>) => string;
+
+// Custom knockdown preset saved by the user (e.g. labbed combo enders).
+export interface CustomMove {
+  id: string; // unique timestamp
+  characterId: string;
+  name: string;
+  input: string;
+  frames: number;
+}
+
+// Last-hit move excluded from oki routing (personal preference).
+export interface ExcludedMove {
+  id: string;       // unique ID
+  characterId: string;
+  moveName: string; // move name (matches result.move.name)
+  moveInput: string; // move input (matches result.move.input)
+  note?: string;    // optional user note (e.g., "不能打蹲防")
+}
+
+// Move prioritized/filtered in oki routing (personal preference).
+export interface PreferredMove {
+  id: string;       // unique ID
+  characterId: string;
+  moveName: string; // move name
+  moveInput: string; // move input (e.g., "2MK")
+  note?: string;    // optional user note
+}
+
+// Combo chain - list of actions used as a prefix filter
+export interface ComboAction {
+  type: 'dash' | 'emptyJump' | 'jumpAction' | 'move' | 'driveRush';
+  frames: number;
+  active?: number;  // Only for moves
+  move?: Move;
+}
+
+// One step of the setup before the meaty button or filler; the view renders it in the current locale.
+export type OkiPrefixPart =
+  | { kind: 'dash'; count: number }
+  | { kind: 'move'; move: Move }
+  | { kind: 'chainCancel'; move: Move; steps: number }
+  | { kind: 'driveRush' };
+
+export type OkiPrefix = {
+  parts: OkiPrefixPart[];
+  frames: number;
+  input?: string;
+  isCorner?: boolean;
+  // Forward dashes in the prefix, for the spacing check.
+  dashes?: number;
+  chainCancel?: {
+    steps: number;
+    offset: number;
+    moveTotalFrames: number;
+    moveInputs: string[];
+    stepFrames: number[];
+    sequence: string;
+  };
+};
+
+export type ActiveSegmentInfo = {
+  segments: number[];
+  gaps: number[];
+  totalActive: number; // sum of active segments only
+  totalWindow: number; // active segments + gaps (window length)
+  lastSegmentLength: number;
+  lastSegmentStartOffset: number; // offset from first active frame
+};
+
+export type MoveRecoveryTiming = {
+  activeWindowFrames: number;
+  recoveryFrames: number;
+  recoverFrame: number;
+  safeAgainstWakeupDriveReversal: boolean;
+  driveReversalSafetyMargin: number;
+};
+
+// Extended Oki Result for auto list
+export interface ExtendedOkiResult {
+  key: string;
+  move: Move;
+  prefix: OkiPrefixPart[];
+  prefixInput?: string;
+  prefixFrames: number;
+  ourActiveStart: number;
+  ourActiveEnd: number;
+  activeDisplayStartOffset?: number;
+  activeDisplayLength?: number;
+  activeHasGap?: boolean;
+  activeHasMultipleSegments?: boolean;
+  activeHitTotal?: number;
+  meatyStartFrame?: number;
+  meatyStartOffset?: number;
+  meatyLength?: number;
+  activeWindowFrames: number;
+  recoveryFrames: number;
+  recoverFrame: number;
+  safeAgainstWakeupDriveReversal: boolean;
+  driveReversalSafetyMargin: number;
+  toleranceFrames?: number;
+  coversOpponent: boolean;
+  isTrade: boolean;
+  calculatedOnBlock?: number | string;
+  calculatedOnHit?: number | string;
+  meatyBonus?: number;
+  effectiveHitFrame?: number;
+  projectileOki?: ProjectileOkiGuardCalculation;
+  // Only when the button's range and the knockdown distance are known.
+  spacing?: MeatySpacing;
+  tradeAdvantage?: number;
+  tradeDetail?: string;
+  tradeExplanation?: string;
+  tags?: MessageKey[]; // e.g. 'oki.tag.corner'
+  isDriveRush?: boolean;
+  driveRushStartFrame?: number;
+  driveRushAttackStartFrame?: number;
+  driveRushFastestHitFrame?: number;
+  driveRushAdvantageBonus?: number;
+  sourcePrefix?: OkiPrefixPart[];
+  sourcePrefixFrames?: number;
+  // Chain Cancel
+  isChainCancel?: boolean;
+  chainCancelSequence?: string; // e.g. "2LP×2" or "2LP→5LP"
+  chainCancelOffset?: number;   // first additional step offset (for same-move display)
+  chainCancelSteps?: number;    // number of chained moves used as frame kill
+  chainCancelMoveTotalFrames?: number; // first move total frames (for formula display)
+  chainCancelMoveInputs?: string[];    // sequence of move inputs e.g. ["2LP","5LP","2LP"]
+  chainCancelStepFrames?: number[];    // per-step frame contributions [totalFirst, ...offsets]
+  isPreferred?: boolean;
+}
+
+export type OkiSortKey = 'block' | 'hit' | 'trade' | 'startup' | 'tolerance';
+export type SortOrder = 'asc' | 'desc';
+
+export interface ThrowComboResult {
+  key: string;
+  prefix: OkiPrefixPart[];
+  prefixFrames: number;
+  // Undefined when nothing is whiffed before the throw (or burst / next action)
+  filler?: Move;
+  fillerFrames: number;
+  fillerStartup?: number;
+  fillerActive?: number;
+  fillerRecovery?: number;
+  baseDelay: number;
+  extraDelayFrames: number;
+  delay: number;
+  firstActive: number;
+  toleranceFrames: number;
+}
+
+export type ThrowSortKey = 'delay' | 'firstActive' | 'tolerance';
+
+export interface BurstPressureResult {
+  key: string;
+  prefix: OkiPrefixPart[];
+  prefixFrames: number;
+  filler?: Move;
+  fillerFrames: number;
+  fillerStartup?: number;
+  fillerActive?: number;
+  fillerRecovery?: number;
+  baseDelay: number;
+  extraDelayFrames: number;
+  delay: number;
+  firstActive: number;
+  lastActive: number;
+  wakeupOffset: number;
+}
+
+export interface FrameTrapResult {
+  key: string;
+  prefix: OkiPrefixPart[];
+  prefixFrames: number;
+  filler?: Move;
+  fillerFrames: number;
+  fillerStartup?: number;
+  fillerActive?: number;
+  fillerRecovery?: number;
+  baseTotalFrames: number;
+  extraDelayFrames: number;
+  totalFrames: number;
+  resultingAdvantage: number;
+  deltaToTarget: number;
+}
+
+export interface SafeBaitResult {
+  key: string;
+  prefix: OkiPrefixPart[];
+  prefixFrames: number;
+  filler?: Move;
+  fillerFrames: number;
+  fillerStartup?: number;
+  fillerActive?: number;
+  fillerRecovery?: number;
+  baseTotalFrames: number;
+  extraDelayFrames: number;
+  totalFrames: number;
+  strictLimitFrame: number;
+  baitLimitFrame: number;
+  safetyMargin: number;
+}
+
+export interface DriveRushOkiResult {
+  key: string;
+  prefix: OkiPrefixPart[];
+  prefixFrames: number;
+  extraDelayFrames: number;
+  driveRushStartDelay: number;
+  attackStartFrame: number;
+  move: Move;
+  startup: number;
+  fastestHitFrame: number;
+  firstActive: number;
+  lastActive: number;
+  wakeupOffset: number;
+  toleranceFrames?: number;
+  coversOpponent: boolean;
+  isTrade: boolean;
+  activeDisplayStartOffset: number;
+  activeDisplayLength: number;
+  activeHasGap: boolean;
+  activeHasMultipleSegments: boolean;
+  activeHitTotal: number;
+  meatyStartFrame: number;
+  meatyStartOffset: number;
+  meatyLength: number;
+  meatyBonus: number;
+  effectiveHitFrame: number;
+  driveRushAdvantageBonus: number;
+  calculatedOnBlock?: number | string;
+  calculatedOnHit?: number | string;
+}
+
+export interface BaitThrowResult {
+  move1: Move;
+  isDRC: boolean;
+  blockstun1: number;
+  onBlock1: number;
+  // Move name, or the generic throw when no defender move is selected.
+  grabName: LocalizedText;
+  grabInput: string;
+  grabStartup: number;
+  grabRecovery: number;
+  grabTotal: number;
+  baitName: LocalizedMessage;
+  baitDuration: number;
+  F_bait_start: number;
+  F_opp_act: number;
+  F_grab_active: number;
+  isSafe: boolean;
+  safetyReason: LocalizedMessage;
+  F_attacker_recover: number;
+  F_defender_recover: number;
+  punishAdvantage: number;
+}
+
+export interface TimelineFrame {
+  index: number;
+  globalFrame: number;
+  type: 'prefix' | 'startup' | 'active' | 'recovery' | 'down' | 'vulnerable' | 'hitstun' | 'blockstun' | 'neutral';
+  isWakeup: boolean;
+  isReversal: boolean;
+  isVulnerable: boolean;
+  isHit?: boolean;
+  label?: number;
+}
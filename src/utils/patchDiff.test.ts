@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { SnapshotMove } from '../types';
+import { CURRENT_SNAPSHOT_ID, diffSnapshotMoves, getPreviousSnapshotId } from './patchDiff';
+
+const buildMove = (input: string, overrides: Partial<SnapshotMove> = {}): SnapshotMove => ({
+  name: input,
+  input,
+  damage: '500',
+  startup: '5',
+  onBlock: '-2',
+  onHit: '+3',
+  ...overrides,
+});
+
+describe('diffSnapshotMoves', () => {
+  it('reports changed fields, added and removed moves', () => {
+    const before = [
+      buildMove('5LP'),
+      buildMove('2MK', { cancels: ['Special', 'Super'] }),
+      buildMove('6HP'),
+    ];
+    const after = [
+      buildMove('5LP'),
+      buildMove('2MK', { startup: '8', onBlock: '-3', cancels: ['Special', 'Super', 'Drive Rush'] }),
+      buildMove('236HK', { knockdown: { type: 'hard', advantage: 30 } }),
+    ];
+
+    expect(diffSnapshotMoves(before, after)).toEqual([
+      {
+        status: 'changed',
+        input: '2MK',
+        before: before[1],
+        after: after[1],
+        changes: [
+          { field: 'startup', before: '5', after: '8' },
+          { field: 'onBlock', before: '-2', after: '-3' },
+          { field: 'cancels', before: 'Special, Super', after: 'Special, Super, Drive Rush' },
+        ],
+      },
+      { status: 'added', input: '236HK', after: after[2], changes: [] },
+      { status: 'removed', input: '6HP', before: before[2], changes: [] },
+    ]);
+  });
+
+  it('pairs rows sharing an input by name, then by order', () => {
+    const before = [
+      buildMove('236K', { name: 'Tatsu (LK)', knockdown: { type: 'soft', advantage: 20 } }),
+      buildMove('236K', { name: 'Tatsu (HK)' }),
+    ];
+    const after = [
+      buildMove('236K', { name: 'Tatsumaki (HK)' }),
+      buildMove('236K', { name: 'Tatsu (LK)', knockdown: { type: 'hard', advantage: 24 } }),
+    ];
+
+    const diffs = diffSnapshotMoves(before, after);
+    expect(diffs.map(diff => [diff.before?.name, diff.after?.name, diff.changes])).toEqual([
+      ['Tatsu (LK)', 'Tatsu (LK)', [{ field: 'knockdown', before: 'soft +20', after: 'hard +24' }]],
+    ]);
+  });
+});
+
+describe('getPreviousSnapshotId', () => {
+  const snapshots = [
+    { id: 's3.1', label: 'Season 3.1', date: '2026-06-03' },
+    { id: 's3.0', label: 'Season 3.0', date: '2026-03-19' },
+  ];
+
+  it('compares a patch with the one before it, and current data with the latest patch', () => {
+    expect(getPreviousSnapshotId(snapshots, 's3.1')).toBe('s3.0');
+    expect(getPreviousSnapshotId(snapshots, 's3.0')).toBeNull();
+    expect(getPreviousSnapshotId(snapshots, CURRENT_SNAPSHOT_ID)).toBe('s3.1');
+  });
+});
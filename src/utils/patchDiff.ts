@@ -0,0 +1,119 @@
+import type { FrameDataSnapshotInfo, KnockdownData, Move, SnapshotMove } from '../types';
+
+// Id of the live data in src/data/characters, usable as either side of a diff.
+export const CURRENT_SNAPSHOT_ID = 'current';
+
+export type PatchDiffField = 'startup' | 'onBlock' | 'onHit' | 'damage' | 'cancels' | 'knockdown';
+
+export const PATCH_DIFF_FIELDS: PatchDiffField[] = ['startup', 'onBlock', 'onHit', 'damage', 'cancels', 'knockdown'];
+
+export type PatchFieldChange = {
+  field: PatchDiffField;
+  before: string;
+  after: string;
+};
+
+export type MoveDiffStatus = 'added' | 'removed' | 'changed';
+
+export type MoveDiff = {
+  status: MoveDiffStatus;
+  input: string;
+  before?: SnapshotMove;
+  after?: SnapshotMove;
+  changes: PatchFieldChange[];
+};
+
+export function toSnapshotMove(move: Move): SnapshotMove {
+  return {
+    name: move.name,
+    ...(move.nameZh ? { nameZh: move.nameZh } : {}),
+    ...(move.nameJa ? { nameJa: move.nameJa } : {}),
+    input: move.input,
+    damage: move.damage,
+    startup: move.startup,
+    onBlock: move.onBlock,
+    onHit: move.onHit,
+    ...(move.cancels?.length ? { cancels: move.cancels } : {}),
+    ...(move.knockdown ? { knockdown: move.knockdown } : {}),
+  };
+}
+
+function formatKnockdown(knockdown: KnockdownData | undefined): string {
+  if (!knockdown || knockdown.type === 'none') return '';
+  const parts = [`${knockdown.type} +${knockdown.advantage}`];
+  if (knockdown.backRiseAdvantage !== undefined) parts.push(`后翻 +${knockdown.backRiseAdvantage}`);
+  for (const alt of knockdown.alternativeAdvantages ?? []) parts.push(`${alt.condition} +${alt.advantage}`);
+  return parts.join(' / ');
+}
+
+export function formatPatchField(move: SnapshotMove, field: PatchDiffField): string {
+  if (field === 'cancels') return (move.cancels ?? []).join(', ');
+  if (field === 'knockdown') return formatKnockdown(move.knockdown);
+  return String(move[field] ?? '').trim();
+}
+
+function diffFields(before: SnapshotMove, after: SnapshotMove): PatchFieldChange[] {
+  return PATCH_DIFF_FIELDS.flatMap(field => {
+    const beforeValue = formatPatchField(before, field);
+    const afterValue = formatPatchField(after, field);
+    return beforeValue === afterValue ? [] : [{ field, before: beforeValue, after: afterValue }];
+  });
+}
+
+// Pairs the rows of one input across the two snapshots: same name first, then in list order
+// (renamed moves keep their input).
+function pairMoves(before: SnapshotMove[], after: SnapshotMove[]) {
+  const pairs: [SnapshotMove | undefined, SnapshotMove | undefined][] = [];
+  const unmatchedAfter = [...after];
+  const unmatchedBefore: SnapshotMove[] = [];
+
+  for (const move of before) {
+    const index = unmatchedAfter.findIndex(candidate => candidate.name === move.name);
+    if (index >= 0) pairs.push([move, unmatchedAfter.splice(index, 1)[0]]);
+    else unmatchedBefore.push(move);
+  }
+  const count = Math.max(unmatchedBefore.length, unmatchedAfter.length);
+  for (let i = 0; i < count; i++) pairs.push([unmatchedBefore[i], unmatchedAfter[i]]);
+
+  return pairs;
+}
+
+function groupByInput(moves: SnapshotMove[]): Map<string, SnapshotMove[]> {
+  const groups = new Map<string, SnapshotMove[]>();
+  for (const move of moves) {
+    const group = groups.get(move.input);
+    if (group) group.push(move);
+    else groups.set(move.input, [move]);
+  }
+  return groups;
+}
+
+/** Move-by-move differences between two snapshots of one character, in the newer move order. */
+export function diffSnapshotMoves(before: SnapshotMove[], after: SnapshotMove[]): MoveDiff[] {
+  const beforeGroups = groupByInput(before);
+  const afterGroups = groupByInput(after);
+  const inputs = [...new Set([...after.map(move => move.input), ...before.map(move => move.input)])];
+
+  const diffs: MoveDiff[] = [];
+  for (const input of inputs) {
+    for (const [oldMove, newMove] of pairMoves(beforeGroups.get(input) ?? [], afterGroups.get(input) ?? [])) {
+      if (!oldMove) {
+        diffs.push({ status: 'added', input, after: newMove, changes: [] });
+      } else if (!newMove) {
+        diffs.push({ status: 'removed', input, before: oldMove, changes: [] });
+      } else {
+        const changes = diffFields(oldMove, newMove);
+        if (changes.length > 0) diffs.push({ status: 'changed', input, before: oldMove, after: newMove, changes });
+      }
+    }
+  }
+  return diffs;
+}
+
+// Snapshot a patch is compared against by default: the one before it by date.
+export function getPreviousSnapshotId(snapshots: FrameDataSnapshotInfo[], id: string): string | null {
+  const sorted = [...snapshots].sort((a, b) => a.date.localeCompare(b.date));
+  if (id === CURRENT_SNAPSHOT_ID) return sorted[sorted.length - 1]?.id ?? null;
+  const index = sorted.findIndex(snapshot => snapshot.id === id);
+  return index > 0 ? sorted[index - 1]!.id : null;
+}
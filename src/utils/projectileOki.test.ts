@@ -1,11 +1,11 @@
 import { describe, expect, it } from 'vitest';
 import type { Move } from '../types';
 import {
-  calculateRyuHadokenCornerOkiGuardAdvantage,
-  calculateRyuHadokenOkiGuardAdvantage,
-  getRyuHadokenCornerOkiContactWindow,
-  getRyuHadokenOkiData,
-  isRyuHadokenOkiMove,
+  calculateProjectileOkiContact,
+  calculateProjectileOkiGuardAdvantage,
+  getProjectileContactWindow,
+  getProjectileOkiData,
+  isProjectileOkiMove,
 } from './projectileOki';
 
 const buildMove = (overrides: Partial<Move>): Move => ({
@@ -22,19 +22,21 @@ const buildMove = (overrides: Partial<Move>): Move => ({
 });
 
 describe('projectileOki', () => {
-  it('only enables the Ryu Hadoken variants used by oki routing', () => {
-    expect(isRyuHadokenOkiMove('ryu', buildMove({ input: '236LP' }))).toBe(true);
-    expect(isRyuHadokenOkiMove('ryu', buildMove({ input: '236MP' }))).toBe(true);
-    expect(isRyuHadokenOkiMove('ryu', buildMove({ input: '236HP' }))).toBe(true);
-    expect(isRyuHadokenOkiMove('ryu', buildMove({ input: '236PP' }))).toBe(true);
-    expect(isRyuHadokenOkiMove('ken', buildMove({ input: '236LP' }))).toBe(false);
-    expect(isRyuHadokenOkiMove('ryu', buildMove({ input: '236236P' }))).toBe(false);
+  it('enables projectiles that have a travel profile', () => {
+    expect(isProjectileOkiMove('ryu', buildMove({ input: '236LP' }))).toBe(true);
+    expect(isProjectileOkiMove('ryu', buildMove({ input: '236MP' }))).toBe(true);
+    expect(isProjectileOkiMove('ryu', buildMove({ input: '236HP' }))).toBe(true);
+    expect(isProjectileOkiMove('ryu', buildMove({ input: '236PP' }))).toBe(true);
+    expect(isProjectileOkiMove('ken', buildMove({ input: '236LP' }))).toBe(true);
+    expect(isProjectileOkiMove('guile', buildMove({ input: '6LP' }))).toBe(true);
+    expect(isProjectileOkiMove('ryu', buildMove({ input: '236236P' }))).toBe(false);
+    expect(isProjectileOkiMove('zangief', buildMove({ input: '236LP' }))).toBe(false);
   });
 
   it('derives normal Hadoken blockstun from point blank frame data', () => {
-    const lp = getRyuHadokenOkiData('ryu', buildMove({ input: '236LP', startup: '16', recovery: '31', onBlock: '-5' }));
-    const mp = getRyuHadokenOkiData('ryu', buildMove({ input: '236MP', startup: '14', recovery: '33', onBlock: '-7' }));
-    const hp = getRyuHadokenOkiData('ryu', buildMove({ input: '236HP', startup: '12', recovery: '35', onBlock: '-9' }));
+    const lp = getProjectileOkiData('ryu', buildMove({ input: '236LP', startup: '16', recovery: '31', onBlock: '-5' }));
+    const mp = getProjectileOkiData('ryu', buildMove({ input: '236MP', startup: '14', recovery: '33', onBlock: '-7' }));
+    const hp = getProjectileOkiData('ryu', buildMove({ input: '236HP', startup: '12', recovery: '35', onBlock: '-9' }));
 
     expect(lp).toMatchObject({ totalFrames: 47, blockstun: 26 });
     expect(mp).toMatchObject({ totalFrames: 47, blockstun: 26 });
@@ -44,15 +46,15 @@ describe('projectileOki', () => {
   it('calculates normal Hadoken guard advantage from input-to-block frame', () => {
     const move = buildMove({ input: '236LP', startup: '16', recovery: '31', onBlock: '-5' });
 
-    expect(calculateRyuHadokenOkiGuardAdvantage({ characterId: 'ryu', move, blockFrameFromInput: 16 })).toMatchObject({
+    expect(calculateProjectileOkiGuardAdvantage({ characterId: 'ryu', move, blockFrameFromInput: 16 })).toMatchObject({
       guardAdvantage: -5,
       contactDelayAfterStartup: 0,
     });
-    expect(calculateRyuHadokenOkiGuardAdvantage({ characterId: 'ryu', move, blockFrameFromInput: 24 })).toMatchObject({
+    expect(calculateProjectileOkiGuardAdvantage({ characterId: 'ryu', move, blockFrameFromInput: 24 })).toMatchObject({
       guardAdvantage: 3,
       contactDelayAfterStartup: 8,
     });
-    expect(calculateRyuHadokenOkiGuardAdvantage({ characterId: 'ryu', move, blockFrameFromInput: 25 })).toMatchObject({
+    expect(calculateProjectileOkiGuardAdvantage({ characterId: 'ryu', move, blockFrameFromInput: 25 })).toMatchObject({
       guardAdvantage: 4,
       contactDelayAfterStartup: 9,
     });
@@ -61,37 +63,73 @@ describe('projectileOki', () => {
   it('derives OD Hadoken guard advantage from local point blank data', () => {
     const move = buildMove({ input: '236PP', startup: '12', recovery: '28', onBlock: '-1' });
 
-    expect(getRyuHadokenOkiData('ryu', move)).toMatchObject({
+    expect(getProjectileOkiData('ryu', move)).toMatchObject({
       totalFrames: 40,
       blockstun: 27,
     });
-    expect(calculateRyuHadokenOkiGuardAdvantage({ characterId: 'ryu', move, blockFrameFromInput: 12 })).toMatchObject({
+    expect(calculateProjectileOkiGuardAdvantage({ characterId: 'ryu', move, blockFrameFromInput: 12 })).toMatchObject({
       guardAdvantage: -1,
       contactDelayAfterStartup: 0,
     });
-    expect(calculateRyuHadokenOkiGuardAdvantage({ characterId: 'ryu', move, blockFrameFromInput: 22 })).toMatchObject({
+    expect(calculateProjectileOkiGuardAdvantage({ characterId: 'ryu', move, blockFrameFromInput: 22 })).toMatchObject({
       guardAdvantage: 9,
       contactDelayAfterStartup: 10,
     });
   });
 
-  it('only auto-routes lab-backed corner LP Hadoken contact frames', () => {
+  it('keeps the labbed corner LP Hadoken contact frames', () => {
     const lp = buildMove({ input: '236LP', startup: '16', recovery: '31', onBlock: '-5' });
-    const mp = buildMove({ input: '236MP', startup: '14', recovery: '33', onBlock: '-7' });
 
-    expect(getRyuHadokenCornerOkiContactWindow('ryu', lp)).toEqual({
+    expect(getProjectileContactWindow({ characterId: 'ryu', move: lp })).toEqual({
       minBlockFrameFromInput: 21,
       maxBlockFrameFromInput: 25,
     });
-    expect(getRyuHadokenCornerOkiContactWindow('ryu', mp)).toBeNull();
 
-    expect(calculateRyuHadokenCornerOkiGuardAdvantage({ characterId: 'ryu', move: lp, blockFrameFromInput: 20 })).toBeNull();
-    expect(calculateRyuHadokenCornerOkiGuardAdvantage({ characterId: 'ryu', move: lp, blockFrameFromInput: 21 })).toMatchObject({
+    expect(calculateProjectileOkiContact({ characterId: 'ryu', move: lp, blockFrameFromInput: 20 })).toBeNull();
+    expect(calculateProjectileOkiContact({ characterId: 'ryu', move: lp, blockFrameFromInput: 21 })).toMatchObject({
       guardAdvantage: 0,
+      distance: 1,
     });
-    expect(calculateRyuHadokenCornerOkiGuardAdvantage({ characterId: 'ryu', move: lp, blockFrameFromInput: 25 })).toMatchObject({
+    expect(calculateProjectileOkiContact({ characterId: 'ryu', move: lp, blockFrameFromInput: 25 })).toMatchObject({
       guardAdvantage: 4,
     });
-    expect(calculateRyuHadokenCornerOkiGuardAdvantage({ characterId: 'ryu', move: lp, blockFrameFromInput: 26 })).toBeNull();
+    expect(calculateProjectileOkiContact({ characterId: 'ryu', move: lp, blockFrameFromInput: 26 })).toBeNull();
+  });
+
+  it('flags contact from profiles that are not labbed yet', () => {
+    const lp = buildMove({ input: '236LP', startup: '16', recovery: '31', onBlock: '-5' });
+
+    expect(calculateProjectileOkiContact({ characterId: 'ryu', move: lp, blockFrameFromInput: 21 })?.estimated).toBeUndefined();
+    expect(calculateProjectileOkiContact({ characterId: 'ken', move: lp, blockFrameFromInput: 21 })).toMatchObject({
+      estimated: true,
+    });
+  });
+
+  it('moves the contact window with distance and projectile speed', () => {
+    const lp = buildMove({ input: '236LP', startup: '16', recovery: '31', onBlock: '-5' });
+    const hp = buildMove({ input: '236HP', startup: '12', recovery: '35', onBlock: '-9' });
+
+    // Midscreen: 2.55 units away, 20 more frames of travel at 0.1 units/frame.
+    expect(getProjectileContactWindow({ characterId: 'ryu', move: lp, distance: 2.55 })).toEqual({
+      minBlockFrameFromInput: 36,
+      maxBlockFrameFromInput: 41,
+    });
+    expect(getProjectileContactWindow({ characterId: 'ryu', move: hp, distance: 2.55 })).toEqual({
+      minBlockFrameFromInput: 26,
+      maxBlockFrameFromInput: 28,
+    });
+  });
+
+  it('drops projectiles that vanish before reaching the defender', () => {
+    const sandBlast = buildMove({ name: 'Sand Blast', input: '236LP', startup: '14', recovery: '33', onBlock: '-8' });
+
+    expect(getProjectileContactWindow({ characterId: 'luke', move: sandBlast, distance: 1.5 })).not.toBeNull();
+    expect(getProjectileContactWindow({ characterId: 'luke', move: sandBlast, distance: 3.5 })).toBeNull();
+  });
+
+  it('uses the listed active frames for projectiles with a strike hitbox', () => {
+    const stribog = buildMove({ name: 'Stribog', input: '236LP', startup: '16', active: '3,3', recovery: '28', onBlock: '-10' });
+
+    expect(getProjectileOkiData('jp', stribog)).toMatchObject({ totalFrames: 49, blockstun: 23 });
   });
 });
@@ -1,20 +1,32 @@
+import { PROJECTILE_PROFILES } from '../data/projectiles';
 import type { Move } from '../types';
-import { parseRecoveryTotalFrames, parseStartupFirstActiveFrame } from './frameTotals';
+import { calculateMoveTotalFrames } from './frameTotals';
+import { getMoveFrameValue, getWhiffRecoveryFrames } from './frameValue';
+
+// Distance between the characters on a corner knockdown, used when the knockdown has no
+// distance data. Ryu's labbed corner LP Hadoken (block at input+21F to input+25F) is the
+// calibration point for this value and the profile defaults.
+export const CORNER_OKI_DISTANCE = 1;
+
+export type ProjectileProfile = {
+  // Units travelled per frame once the projectile is out.
+  speed: number;
+  // Distance in front of the thrower where the projectile appears on its first active frame.
+  spawnOffset: number;
+  // Projectile length plus the defender's hurtbox width: how far it travels while touching them.
+  overlap: number;
+  // Projectiles that vanish before fullscreen (e.g. Luke's Sand Blast).
+  maxTravel?: number;
+  // Scaled from the calibration point rather than labbed.
+  estimated?: boolean;
+};
 
-const RYU_HADOKEN_INPUTS = new Set(['236LP', '236MP', '236HP', '236PP']);
-const RYU_HADOKEN_CORNER_OKI_CONTACT_WINDOWS: Partial<Record<string, {
+export type ProjectileContactWindow = {
   minBlockFrameFromInput: number;
   maxBlockFrameFromInput: number;
-}>> = {
-  // Labbed corner LP Hadoken setups place the block around input+21F to input+25F.
-  // Faster versions need separate travel-window calibration before entering auto routing.
-  '236LP': {
-    minBlockFrameFromInput: 21,
-    maxBlockFrameFromInput: 25,
-  },
 };
 
-export type RyuHadokenOkiData = {
+export type ProjectileOkiData = {
   startup: number;
   recovery: number;
   totalFrames: number;
@@ -22,47 +34,50 @@ export type RyuHadokenOkiData = {
   blockstun: number;
 };
 
-export type RyuHadokenOkiGuardCalculation = RyuHadokenOkiData & {
+export type ProjectileOkiGuardCalculation = ProjectileOkiData & {
   blockFrameFromInput: number;
   guardAdvantage: number;
   contactDelayAfterStartup: number;
-  contactWindow?: {
-    minBlockFrameFromInput: number;
-    maxBlockFrameFromInput: number;
-  };
+  contactWindow?: ProjectileContactWindow;
+  // Distance the contact window was computed for.
+  distance?: number;
+  // The travel profile is an estimate, so the contact frames may be off.
+  estimated?: boolean;
 };
 
 function normalizeInput(input: string | undefined): string {
   return (input ?? '').replace(/\s+/g, '').toUpperCase();
 }
 
-function parseNumericFrameAdvantage(value: string | number | undefined): number | null {
-  if (value === undefined || value === null) return null;
-  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
-
-  const match = value.trim().match(/^[+-]?\d+/);
-  return match?.[0] ? parseInt(match[0], 10) : null;
+export function getProjectileProfile(
+  characterId: string | undefined,
+  move: Pick<Move, 'input'>,
+): ProjectileProfile | null {
+  if (!characterId) return null;
+  return PROJECTILE_PROFILES[characterId]?.[normalizeInput(move.input)] ?? null;
 }
 
-export function isRyuHadokenOkiMove(characterId: string | undefined, move: Pick<Move, 'input'>): boolean {
-  return characterId === 'ryu' && RYU_HADOKEN_INPUTS.has(normalizeInput(move.input));
+export function isProjectileOkiMove(characterId: string | undefined, move: Pick<Move, 'input'>): boolean {
+  return getProjectileProfile(characterId, move) !== null;
 }
 
-export function getRyuHadokenOkiData(
+export function getProjectileOkiData(
   characterId: string | undefined,
-  move: Pick<Move, 'input' | 'startup' | 'recovery' | 'onBlock'>,
-): RyuHadokenOkiData | null {
-  if (!isRyuHadokenOkiMove(characterId, move)) return null;
+  move: Pick<Move, 'input' | 'startup' | 'active' | 'recovery' | 'onBlock' | 'raw' | 'frames'>,
+): ProjectileOkiData | null {
+  if (!isProjectileOkiMove(characterId, move)) return null;
 
-  const startup = parseStartupFirstActiveFrame(move.startup);
-  const recovery = parseRecoveryTotalFrames(move.recovery);
-  const pointBlankOnBlock = parseNumericFrameAdvantage(move.onBlock);
+  const startup = getMoveFrameValue(move, 'startup').first;
+  const recovery = getWhiffRecoveryFrames(getMoveFrameValue(move, 'recovery'));
+  const pointBlankOnBlock = getMoveFrameValue(move, 'onBlock').leading;
 
   if (startup === null || recovery === null || pointBlankOnBlock === null) return null;
 
-  // Projectile rows do not have a conventional active duration in the local data.
-  // Ryu's Hadoken table expresses body total as startup + recovery: LP/MP/HP = 47F, OD = 40F.
-  const totalFrames = startup + recovery;
+  // Most projectile rows have no active duration ("-"); their body total is startup + recovery
+  // (Ryu's Hadoken: LP/MP/HP = 47F, OD = 40F). Rows with a strike hitbox list it like a normal.
+  const totalFrames = move.active.trim() === '-' || !move.active.trim()
+    ? startup + recovery
+    : calculateMoveTotalFrames(move) ?? startup + recovery;
   const blockstun = totalFrames + pointBlankOnBlock - startup;
 
   return {
@@ -74,20 +89,41 @@ export function getRyuHadokenOkiData(
   };
 }
 
-export function getRyuHadokenCornerOkiContactWindow(
-  characterId: string | undefined,
-  move: Pick<Move, 'input'>,
-): { minBlockFrameFromInput: number; maxBlockFrameFromInput: number } | null {
-  if (!isRyuHadokenOkiMove(characterId, move)) return null;
-  return RYU_HADOKEN_CORNER_OKI_CONTACT_WINDOWS[normalizeInput(move.input)] ?? null;
+// Travel frames with float noise trimmed, so 0.45 / 0.1 stays 4.5 rather than 4.4999….
+function getTravelFrames(distance: number, speed: number): number {
+  return Math.round((distance / speed) * 1e6) / 1e6;
+}
+
+/**
+ * Frames (from input) during which the projectile touches a defender standing `distance`
+ * units away. Null when the projectile vanishes before reaching them.
+ */
+export function getProjectileContactWindow(params: {
+  characterId: string | undefined;
+  move: Pick<Move, 'input' | 'startup' | 'frames'>;
+  distance?: number;
+}): ProjectileContactWindow | null {
+  const profile = getProjectileProfile(params.characterId, params.move);
+  const startup = getMoveFrameValue(params.move, 'startup').first;
+  if (!profile || startup === null) return null;
+
+  const travel = Math.max(0, (params.distance ?? CORNER_OKI_DISTANCE) - profile.spawnOffset);
+  if (profile.maxTravel !== undefined && travel > profile.maxTravel) return null;
+
+  // Contact lasts until the projectile has passed the defender or vanished.
+  const lastTravel = Math.min(travel + profile.overlap, profile.maxTravel ?? Infinity);
+  return {
+    minBlockFrameFromInput: startup + Math.ceil(getTravelFrames(travel, profile.speed)),
+    maxBlockFrameFromInput: startup + Math.floor(getTravelFrames(lastTravel, profile.speed)),
+  };
 }
 
-export function calculateRyuHadokenOkiGuardAdvantage(params: {
+export function calculateProjectileOkiGuardAdvantage(params: {
   characterId: string | undefined;
-  move: Pick<Move, 'input' | 'startup' | 'recovery' | 'onBlock'>;
+  move: Pick<Move, 'input' | 'startup' | 'active' | 'recovery' | 'onBlock' | 'raw'>;
   blockFrameFromInput: number;
-}): RyuHadokenOkiGuardCalculation | null {
-  const data = getRyuHadokenOkiData(params.characterId, params.move);
+}): ProjectileOkiGuardCalculation | null {
+  const data = getProjectileOkiData(params.characterId, params.move);
   if (!data) return null;
 
   const blockFrameFromInput = Math.trunc(params.blockFrameFromInput);
@@ -101,15 +137,18 @@ export function calculateRyuHadokenOkiGuardAdvantage(params: {
   };
 }
 
-export function calculateRyuHadokenCornerOkiGuardAdvantage(params: {
+// Guard advantage when the defender blocks on the given frame, if the projectile is touching
+// them then at that distance (corner distance by default).
+export function calculateProjectileOkiContact(params: {
   characterId: string | undefined;
-  move: Pick<Move, 'input' | 'startup' | 'recovery' | 'onBlock'>;
+  move: Pick<Move, 'input' | 'startup' | 'active' | 'recovery' | 'onBlock' | 'raw'>;
   blockFrameFromInput: number;
-}): RyuHadokenOkiGuardCalculation | null {
-  const contactWindow = getRyuHadokenCornerOkiContactWindow(params.characterId, params.move);
+  distance?: number;
+}): ProjectileOkiGuardCalculation | null {
+  const contactWindow = getProjectileContactWindow(params);
   if (!contactWindow) return null;
 
-  const calculation = calculateRyuHadokenOkiGuardAdvantage(params);
+  const calculation = calculateProjectileOkiGuardAdvantage(params);
   if (!calculation) return null;
 
   if (
@@ -122,5 +161,7 @@ export function calculateRyuHadokenCornerOkiGuardAdvantage(params: {
   return {
     ...calculation,
     contactWindow,
+    distance: params.distance ?? CORNER_OKI_DISTANCE,
+    ...(getProjectileProfile(params.characterId, params.move)?.estimated ? { estimated: true } : {}),
   };
 }
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { Combo, Move } from '../types';
+import { findPunishOptions } from './punishFinder';
+
+const buildMove = (input: string, overrides: Partial<Move> = {}): Move => ({
+  name: input,
+  input,
+  damage: '500',
+  startup: '5',
+  active: '3',
+  recovery: '10',
+  onBlock: '-2',
+  onHit: '+3',
+  category: 'normal',
+  ...overrides,
+});
+
+const moves: Move[] = [
+  buildMove('5LP', { damage: '300', startup: '4' }),
+  buildMove('5MP', { damage: '600', startup: '6' }),
+  buildMove('5HP', { damage: '800', startup: '10' }),
+  buildMove('5MP~MP', { damage: '400', startup: '4' }),
+  buildMove('j.HP', { damage: '800', startup: '3' }),
+  buildMove('LPLK', { damage: '1200 (2040)', category: 'throw' }),
+  buildMove('MPMK', { name: 'Drive Parry', damage: '-', startup: '1', category: 'throw' }),
+  buildMove('214HP', { damage: '1000', startup: '12', category: 'special' }),
+];
+
+const combos: Combo[] = [
+  { combo: '5LP, 5MP > 214HP', section: 'BnB' },
+  { combo: 'PC 5MP/5LP, 5HP > 214HP', section: 'Punish' },
+  { combo: 'DR 5HP > 214HP', section: 'Drive Rush' },
+];
+
+describe('findPunishOptions', () => {
+  it('lists grounded moves with startup within the block disadvantage', () => {
+    const options = findPunishOptions({ onBlock: -6, moves });
+
+    expect(options.map(option => option.move.input).sort()).toEqual(['5LP', '5MP', 'LPLK']);
+    expect(options.find(option => option.move.input === '5LP')?.margin).toBe(2);
+  });
+
+  it('returns nothing for moves that are safe on block', () => {
+    expect(findPunishOptions({ onBlock: 0, moves })).toEqual([]);
+  });
+
+  it('groups combos by starter and sorts by punish counter damage', () => {
+    const options = findPunishOptions({ onBlock: -6, moves, combos });
+    const standMP = options.find(option => option.move.input === '5MP');
+    const standLP = options.find(option => option.move.input === '5LP');
+
+    // PC 5MP (720) + 5HP (800) + 214HP at 80%.
+    expect(standMP?.combos.map(entry => entry.damage.total)).toEqual([2320]);
+    expect(standLP?.combos.map(entry => entry.combo.section)).toEqual(['Punish', 'BnB']);
+    expect(options[0]?.move.input).toBe('5MP');
+    expect(options.some(option => option.combos.some(entry => entry.combo.section === 'Drive Rush'))).toBe(false);
+  });
+
+  it('uses the punish counter throw bonus', () => {
+    const throwOption = findPunishOptions({ onBlock: -6, moves }).find(option => option.move.input === 'LPLK');
+
+    expect(throwOption?.moveDamage).toBe(2040);
+  });
+});
@@ -0,0 +1,126 @@
+import type { Combo, Move } from '../types';
+import { calculateComboDamage, type ComboDamageResult } from './comboDamage';
+import {
+  flattenComboNotation,
+  parseComboNotation,
+  type ComboNotationFlatStep,
+  type ComboNotationSequence,
+} from './comboNotation';
+import { getMoveFrames } from './frameValue';
+import { isDriveRushCancelMove } from './gapCalculator';
+import { isDriveReversalMove, isParryDriveRushMove } from './meterResources';
+import { isAirborneMove } from './moveFilters';
+import { getPunishMaxDistance } from './spacing';
+
+export interface PunishCombo {
+  combo: Combo;
+  // Damage of the first route, always calculated as a Punish Counter.
+  damage: ComboDamageResult;
+}
+
+export interface PunishOption {
+  move: Move;
+  startup: number;
+  // Frames to spare: |onBlock| - startup.
+  margin: number;
+  // Furthest distance the blocked move can be punished from; null without spacing data.
+  maxDistance: number | null;
+  // Punish Counter damage of the button on its own.
+  moveDamage: number;
+  combos: PunishCombo[];
+  expectedDamage: number;
+}
+
+const PUNISH_STARTER_STEP: ComboNotationFlatStep = {
+  separator: 'link',
+  node: { kind: 'starter', text: 'PC', hitState: 'pc' },
+};
+
+// Buttons that can start a punish from a neutral stance after blocking.
+export function isPunishCandidate(move: Move): boolean {
+  if (move.input.includes('~')) return false;
+  if (isAirborneMove(move)) return false;
+  if (isDriveRushCancelMove(move) || isParryDriveRushMove(move) || isDriveReversalMove(move)) return false;
+  return move.name.toLowerCase() !== 'drive parry';
+}
+
+// Replaces any CH / PC prefix with a Punish Counter starter.
+function asPunishCounter(steps: ComboNotationFlatStep[]): ComboNotationFlatStep[] {
+  return [PUNISH_STARTER_STEP, ...steps.filter(step => step.node.kind !== 'starter')];
+}
+
+function getFirstMove(steps: ComboNotationFlatStep[]): Move | null {
+  for (const { node } of steps) {
+    if (node.kind === 'move') return node.move;
+    if (node.kind === 'driveRush' || node.kind === 'jump' || node.kind === 'dash') return null;
+  }
+  return null;
+}
+
+// One route per starter option, so "PC 5HP/2HP > 214HP" is listed under both buttons.
+function getStarterRoutes(sequence: ComboNotationSequence): ComboNotationFlatStep[][] {
+  const first = sequence.find(step => step.node.kind !== 'starter');
+  const count = first?.node.kind === 'alternatives' ? first.node.options.length : 1;
+  return Array.from({ length: count }, (_, index) => {
+    let picked = false;
+    return flattenComboNotation(sequence, () => {
+      if (picked) return 0;
+      picked = true;
+      return index;
+    });
+  });
+}
+
+/**
+ * Lists every move that is fast enough to punish a move with the given on-block value,
+ * with the combos that start from it, sorted by expected damage. Pushback is only
+ * reported (maxDistance) when the blocked move and the punisher have spacing data.
+ */
+export function findPunishOptions(params: {
+  onBlock: number;
+  moves: Move[];
+  combos?: Combo[];
+  blockedMove?: Move | null;
+}): PunishOption[] {
+  const window = -params.onBlock;
+  if (window <= 0) return [];
+
+  const combosByStarter = new Map<Move, PunishCombo[]>();
+  for (const combo of params.combos ?? []) {
+    for (const steps of getStarterRoutes(parseComboNotation(combo.combo, params.moves).sequence)) {
+      const starter = getFirstMove(steps);
+      if (!starter) continue;
+      const list = combosByStarter.get(starter) ?? [];
+      if (list.some(entry => entry.combo === combo)) continue;
+      list.push({ combo, damage: calculateComboDamage(asPunishCounter(steps), params.moves) });
+      combosByStarter.set(starter, list);
+    }
+  }
+
+  const options: PunishOption[] = [];
+  for (const move of params.moves) {
+    if (!isPunishCandidate(move)) continue;
+    const startup = getMoveFrames(move).startup.first;
+    if (startup === null || startup <= 0 || startup > window) continue;
+
+    const moveDamage = calculateComboDamage(
+      asPunishCounter([{ separator: 'link', node: { kind: 'move', text: move.input, move } }]),
+      params.moves,
+    ).total;
+    const combos = (combosByStarter.get(move) ?? [])
+      .slice()
+      .sort((a, b) => b.damage.total - a.damage.total);
+
+    options.push({
+      move,
+      startup,
+      margin: window - startup,
+      maxDistance: params.blockedMove ? getPunishMaxDistance(params.blockedMove, move) : null,
+      moveDamage,
+      combos,
+      expectedDamage: Math.max(moveDamage, ...combos.map(combo => combo.damage.total)),
+    });
+  }
+
+  return options.sort((a, b) => b.expectedDamage - a.expectedDamage || a.startup - b.startup);
+}
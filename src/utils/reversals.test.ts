@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { Move } from '../types';
+import { buildReversalCatalog, getFastestInvincibleStartup, getSuperLevels, parseInvincibleFrames } from './reversals';
+
+const buildMove = (input: string, overrides: Partial<Move> = {}): Move => ({
+  name: input,
+  input,
+  damage: '1000',
+  startup: '6',
+  active: '10',
+  recovery: '30',
+  onBlock: '-30',
+  onHit: 'KD +30',
+  category: 'special',
+  ...overrides,
+});
+
+describe('getSuperLevels', () => {
+  it('numbers supers by distinct motion and button, skipping air and follow-up versions', () => {
+    const sa1 = buildMove('236236P', { category: 'super' });
+    const air = buildMove('j.236236P', { category: 'super' });
+    const sa2 = buildMove('214214P', { category: 'super' });
+    const held = buildMove('214214P (Hold Lv.2)', { category: 'super' });
+    const followUp = buildMove('214214P~PP', { category: 'super' });
+    const sa3 = buildMove('236236K', { category: 'super' });
+
+    const levels = getSuperLevels([sa1, air, sa2, held, followUp, sa3]);
+    expect([levels.get(sa1), levels.get(sa2), levels.get(held), levels.get(sa3)]).toEqual(['sa1', 'sa2', 'sa2', 'sa3']);
+    expect(levels.has(air)).toBe(false);
+    expect(levels.has(followUp)).toBe(false);
+  });
+});
+
+describe('parseInvincibleFrames', () => {
+  it('reads full invincibility ranges but not partial ones', () => {
+    expect(parseInvincibleFrames('fully invincible 1-9f; launches', 7)).toEqual({ start: 1, end: 9 });
+    expect(parseInvincibleFrames('only the first 5 active frames are invincible', 9)).toEqual({ start: 1, end: 13 });
+    expect(parseInvincibleFrames('lower body projectile invuln 1-20f', 7)).toBeNull();
+  });
+});
+
+describe('buildReversalCatalog', () => {
+  it('keeps the fastest OD reversal, supers with invincibility and fast command grabs', () => {
+    const catalog = buildReversalCatalog([
+      buildMove('623LP', { startup: '5' }),
+      buildMove('623PP', { startup: '6' }),
+      buildMove('623PP (Windclad)', { startup: '4' }),
+      buildMove('360+LP', { startup: '5', onBlock: '-', onHit: '-' }),
+      buildMove('236236P', { category: 'super', startup: '7' }),
+      buildMove('214214P', { category: 'super', startup: '1', active: '-' }),
+      buildMove('236236K', { category: 'super', startup: '10', notes: 'No invincibility' }),
+    ]);
+
+    expect(catalog.map(entry => [entry.kind, entry.moveInput, entry.startup])).toEqual([
+      ['commandGrab', '360+LP', 5],
+      ['odDp', '623PP', 6],
+      ['sa1', '236236P', 7],
+    ]);
+    expect(catalog[0]!.invincible).toBeNull();
+    expect(catalog[1]!.invincible).toEqual({ start: 1, end: 6 });
+    expect(catalog[1]!.invincibleSource).toBe('estimated');
+    expect(getFastestInvincibleStartup(catalog)).toBe(6);
+  });
+});
@@ -0,0 +1,140 @@
+import type { MessageKey } from '../i18n';
+import type { FrameData, FrameRange, Move, ReversalData, ReversalEntry, ReversalKind } from '../types';
+import { getMoveFrames } from './frameValue';
+import { getReversalInvulnRange } from './moveProperties';
+
+// Invincible wakeup options of a character, derived from frame data by
+// scripts/build-reversals.ts into src/data/reversals/<id>.json.
+
+export const REVERSAL_KIND_LABELS: Record<ReversalKind, MessageKey> = {
+  odDp: 'reversal.kind.odDp',
+  sa1: 'reversal.kind.sa1',
+  sa2: 'reversal.kind.sa2',
+  sa3: 'reversal.kind.sa3',
+  commandGrab: 'reversal.kind.commandGrab',
+};
+
+const SUPER_LEVELS: ReversalKind[] = ['sa1', 'sa2', 'sa3'];
+
+// OD DP-style reversals slower than this are anti-airs or pressure tools (OD Seismic Hammer, OD Phalanx).
+const MAX_OD_REVERSAL_STARTUP = 15;
+const MAX_COMMAND_GRAB_STARTUP = 10;
+// 1F supers are power-up / stance activations (Solid Puncher, Feng Shui Engine), not wakeup attacks.
+const MIN_REVERSAL_STARTUP = 3;
+
+const NOT_INVINCIBLE_PATTERN = /no invincib|cannot be used as an invincible reversal/i;
+
+// "236236K (0 Stock)" -> motion "236236", button family "K"; follow-ups, holds and stance inputs do not match.
+function parseCommand(input: string): { motion: string; family: 'P' | 'K' } | null {
+  const match = input.replace(/\s*\([^)]*\)/g, '').trim().match(/^(\d{2,})\+?((?:[LMH]?[PK])+)$/);
+  if (!match) return null;
+  return { motion: match[1]!, family: match[2]!.includes('P') ? 'P' : 'K' };
+}
+
+function isGroundedStandalone(move: Move): boolean {
+  return !move.input.startsWith('j.') && !move.input.includes('~');
+}
+
+// "(Windclad)", "(Hold Lv.2)", "(1 Stock)": versions that need a resource or a hold first.
+function isConditionalVersion(move: Move): boolean {
+  return /\(/.test(move.input);
+}
+
+/** Super Art level per grounded super: distinct motion + button families in data order (SA1, SA2, SA3). */
+export function getSuperLevels(moves: Move[]): Map<Move, ReversalKind> {
+  const levels = new Map<Move, ReversalKind>();
+  const commands: string[] = [];
+  for (const move of moves) {
+    if (move.category !== 'super' || !isGroundedStandalone(move)) continue;
+    const command = parseCommand(move.input);
+    if (!command) continue;
+    const key = `${command.motion}${command.family}`;
+    if (!commands.includes(key)) commands.push(key);
+    const level = SUPER_LEVELS[commands.indexOf(key)];
+    if (level) levels.set(move, level);
+  }
+  return levels;
+}
+
+function isOdReversal(move: Move, startup: number): boolean {
+  if (move.category !== 'special' || !isGroundedStandalone(move)) return false;
+  return /^(?:623|8)(?:PP|KK)$/.test(move.input) && startup <= MAX_OD_REVERSAL_STARTUP;
+}
+
+function isCommandGrab(move: Move, startup: number): boolean {
+  if (move.category !== 'special' || !isGroundedStandalone(move)) return false;
+  if (!/360|720|63214/.test(move.input)) return false;
+  return getMoveFrames(move).onBlock.empty && startup <= MAX_COMMAND_GRAB_STARTUP;
+}
+
+/** Invincible frames stated in the notes ("fully invincible 1-9f", "only the first 5 active frames are invincible"). */
+export function parseInvincibleFrames(notes: string | undefined, startup: number): FrameRange | null {
+  if (!notes) return null;
+  for (const clause of notes.split(';')) {
+    if (/projectile|anti-air|air invuln|lower body|hurtbox|on hit/i.test(clause)) continue;
+    const range = clause.match(/(?:invincib\w*|invuln\w*)[^\d;]*\b1\s*-\s*(\d+)f?/i)
+      ?? clause.match(/\b1\s*-\s*(\d+)f?\s*(?:full(?:y)?\s*)?(?:strike\/throw\s*)?(?:invincib|invuln)/i);
+    if (range) return { start: 1, end: parseInt(range[1]!, 10) };
+    const activeFrames = clause.match(/first (\d+) active frames are invincible/i);
+    if (activeFrames) return { start: 1, end: startup + parseInt(activeFrames[1]!, 10) - 1 };
+  }
+  return null;
+}
+
+function buildReversalEntry(move: Move, kind: ReversalKind, startup: number): ReversalEntry {
+  if (kind === 'commandGrab') {
+    return { kind, moveInput: move.input, moveName: move.name, startup, invincible: null, invincibleSource: null };
+  }
+  const entry = { kind, moveInput: move.input, moveName: move.name, startup };
+  const invuln = getReversalInvulnRange(move);
+  if (invuln) {
+    return {
+      ...entry,
+      invincible: { start: invuln.start, end: invuln.end },
+      invincibleSource: 'frameData',
+    };
+  }
+  const fromNotes = parseInvincibleFrames(move.notes, startup);
+  return {
+    ...entry,
+    invincible: fromNotes ?? { start: 1, end: startup },
+    invincibleSource: fromNotes ? 'notes' : 'estimated',
+  };
+}
+
+/** Fastest move of each reversal kind, ordered by startup. */
+export function buildReversalCatalog(moves: Move[]): ReversalEntry[] {
+  const superLevels = getSuperLevels(moves);
+  const byKind = new Map<ReversalKind, ReversalEntry>();
+
+  for (const move of moves) {
+    const startup = getMoveFrames(move).startup.first;
+    if (startup === null || startup < MIN_REVERSAL_STARTUP) continue;
+    if (isConditionalVersion(move) || NOT_INVINCIBLE_PATTERN.test(move.notes ?? '')) continue;
+
+    let kind: ReversalKind | undefined = superLevels.get(move);
+    if (!kind && isOdReversal(move, startup)) kind = 'odDp';
+    if (!kind && isCommandGrab(move, startup)) kind = 'commandGrab';
+    if (!kind) continue;
+
+    const current = byKind.get(kind);
+    if (!current || startup < current.startup) byKind.set(kind, buildReversalEntry(move, kind, startup));
+  }
+
+  return [...byKind.values()].sort((a, b) => a.startup - b.startup);
+}
+
+export function buildReversalData(frameData: FrameData): ReversalData {
+  return {
+    characterId: frameData.character.id,
+    source: 'generated',
+    lastUpdated: frameData.lastUpdated,
+    reversals: buildReversalCatalog(frameData.moves),
+  };
+}
+
+/** Startup of the fastest strike/throw invincible reversal; command grabs are not invincible. */
+export function getFastestInvincibleStartup(reversals: ReversalEntry[]): number | null {
+  const startups = reversals.filter(entry => entry.invincible !== null).map(entry => entry.startup);
+  return startups.length > 0 ? Math.min(...startups) : null;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { ROSTER } from '../data/roster';
+import {
+  findAmbiguousRosterKeys,
+  findRosterEntry,
+  findRosterEntryBySource,
+  getWikiUrl,
+  SF6_CHARACTERS,
+} from './roster';
+
+describe('roster registry', () => {
+  it('has unique ids and lookup keys', () => {
+    expect(new Set(ROSTER.map(entry => entry.id)).size).toBe(ROSTER.length);
+    expect(findAmbiguousRosterKeys()).toEqual([]);
+    expect(SF6_CHARACTERS.map(character => character.id)).toEqual(ROSTER.map(entry => entry.id));
+  });
+
+  it('resolves ids, localized names and aliases', () => {
+    expect(findRosterEntry('Gief')?.id).toBe('zangief');
+    expect(findRosterEntry('bison')?.id).toBe('mbison');
+    expect(findRosterEntry('E. Honda')?.id).toBe('honda');
+    expect(findRosterEntry('春丽')?.id).toBe('chun-li');
+    expect(findRosterEntry('ベガ')?.id).toBe('mbison');
+    expect(findRosterEntry('nobody')).toBeNull();
+  });
+
+  it('derives source names from the English name unless overridden', () => {
+    expect(findRosterEntryBySource('fat', 'Dee Jay')?.id).toBe('dee-jay');
+    expect(getWikiUrl(findRosterEntry('dee-jay')!)).toBe('https://wiki.supercombo.gg/w/Street_Fighter_6/Dee_Jay');
+    expect(getWikiUrl(findRosterEntry('viper')!)).toBe('https://wiki.supercombo.gg/w/Street_Fighter_6/C.Viper');
+  });
+});
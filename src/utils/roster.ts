@@ -0,0 +1,63 @@
+import { ROSTER } from '../data/roster';
+import type { Character, RosterEntry } from '../types';
+
+export type RosterSource = 'fat' | 'supercombo';
+
+const SUPERCOMBO_BASE_URL = 'https://wiki.supercombo.gg/w/Street_Fighter_6/';
+
+/** Lookup key that ignores case, spaces and punctuation: "E. Honda" and "ehonda" match. */
+export function normalizeRosterName(text: string): string {
+  return text.toLowerCase().replace(/[\s._\-'"]/g, '');
+}
+
+/** Name of the character in an external source; defaults to the English name. */
+export function getSourceName(entry: RosterEntry, source: RosterSource): string {
+  const name = entry.sources?.[source];
+  if (name) return name;
+  return source === 'supercombo' ? entry.names.en.replace(/ /g, '_') : entry.names.en;
+}
+
+export function getWikiUrl(entry: RosterEntry): string {
+  return SUPERCOMBO_BASE_URL + getSourceName(entry, 'supercombo');
+}
+
+export function toCharacter(entry: RosterEntry): Character {
+  return { id: entry.id, name: entry.names.en, nameJp: entry.names.ja, wikiUrl: getWikiUrl(entry) };
+}
+
+export const SF6_CHARACTERS: Character[] = ROSTER.map(toCharacter);
+
+export function getRosterEntry(id: string, roster: RosterEntry[] = ROSTER): RosterEntry | null {
+  return roster.find(entry => entry.id === id) ?? null;
+}
+
+function getLookupKeys(entry: RosterEntry): string[] {
+  return [entry.id, ...Object.values(entry.names), ...entry.aliases].map(normalizeRosterName);
+}
+
+/** Resolves an id, a display name in any locale or an alias ("Gief", "Bison", "Honda"). */
+export function findRosterEntry(query: string, roster: RosterEntry[] = ROSTER): RosterEntry | null {
+  const key = normalizeRosterName(query);
+  if (!key) return null;
+  return roster.find(entry => getLookupKeys(entry).includes(key)) ?? null;
+}
+
+export function findRosterEntryBySource(
+  source: RosterSource,
+  name: string,
+  roster: RosterEntry[] = ROSTER,
+): RosterEntry | null {
+  return roster.find(entry => getSourceName(entry, source) === name) ?? null;
+}
+
+/** Lookup keys claimed by more than one character; the registry test keeps this empty. */
+export function findAmbiguousRosterKeys(roster: RosterEntry[] = ROSTER): string[] {
+  const owners = new Map<string, Set<string>>();
+  for (const entry of roster) {
+    for (const key of getLookupKeys(entry)) {
+      if (!owners.has(key)) owners.set(key, new Set());
+      owners.get(key)!.add(entry.id);
+    }
+  }
+  return [...owners].filter(([, ids]) => ids.size > 1).map(([key]) => key);
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { FrameData, Move } from '../types';
+import { buildRosterRows, filterRosterRows, normalizeMoveSlot, sortRosterRows } from './rosterCompare';
+
+const buildMove = (input: string, overrides: Partial<Move> = {}): Move => ({
+  name: input,
+  input,
+  damage: '500',
+  startup: '5',
+  active: '3',
+  recovery: '10',
+  onBlock: '-2',
+  onHit: '+3',
+  category: 'normal',
+  ...overrides,
+});
+
+const buildFrameData = (id: string, moves: Move[]): FrameData => ({
+  character: { id, name: id },
+  stats: { health: 10000, forwardDash: 19, backDash: 23 },
+  moves,
+  lastUpdated: '2026-01-01',
+});
+
+const roster = [
+  buildFrameData('ryu', [buildMove('2MK', { startup: '8', onBlock: '-6', cancels: ['Special', 'Super'] })]),
+  buildFrameData('ken', [buildMove('2MK', { startup: '8', onBlock: '-3', cancels: ['Sp*', 'Drive Rush'] })]),
+  buildFrameData('cammy', [buildMove('cr.MK', { startup: '7', onBlock: '-7', onHit: 'KD +30', recovery: '17(19)' })]),
+  buildFrameData('guile', [buildMove('5LP', { startup: '4', onBlock: '+2' })]),
+];
+
+describe('normalizeMoveSlot', () => {
+  it('maps common notations to the data inputs', () => {
+    expect(normalizeMoveSlot('cr.MK')).toBe('2MK');
+    expect(normalizeMoveSlot('st. lp')).toBe('5LP');
+    expect(normalizeMoveSlot('J.hp')).toBe('j.HP');
+  });
+});
+
+describe('buildRosterRows', () => {
+  it('parses the frame cells of every character with the slot', () => {
+    const rows = buildRosterRows(roster, '2mk');
+
+    expect(rows.map(row => [row.characterId, row.startup, row.onBlock, row.onHit, row.total])).toEqual([
+      ['ryu', 8, -6, 3, 20],
+      ['ken', 8, -3, 3, 20],
+      // Knockdown text has no hit advantage; total uses the whiff recovery.
+      ['cammy', 7, -7, null, 28],
+    ]);
+    expect(rows[1]?.cancels).toEqual(['Special', 'Drive Rush']);
+  });
+});
+
+describe('filterRosterRows / sortRosterRows', () => {
+  it('filters by thresholds and cancel tags', () => {
+    const rows = buildRosterRows(roster, '2MK');
+
+    expect(filterRosterRows(rows, { minOnBlock: -6 }).map(row => row.characterId)).toEqual(['ryu', 'ken']);
+    expect(filterRosterRows(rows, { cancelTags: ['Special'] }).map(row => row.characterId)).toEqual(['ryu', 'ken']);
+    expect(filterRosterRows(rows, { minOnHit: 0 }).map(row => row.characterId)).toEqual(['ryu', 'ken']);
+    expect(filterRosterRows(rows, { maxStartup: 7 }).map(row => row.characterId)).toEqual(['cammy']);
+  });
+
+  it('sorts with missing values last and ties by character', () => {
+    const rows = buildRosterRows(roster, '2MK');
+
+    expect(sortRosterRows(rows, 'startup', 'asc').map(row => row.characterId)).toEqual(['cammy', 'ken', 'ryu']);
+    expect(sortRosterRows(rows, 'onHit', 'desc').map(row => row.characterId)).toEqual(['ken', 'ryu', 'cammy']);
+  });
+});
@@ -0,0 +1,100 @@
+import type { FrameData, Move } from '../types';
+import { calculateMoveTotalFrames } from './frameTotals';
+import { getMoveFrames } from './frameValue';
+
+// Normals every character has, in the order the compare page lists them.
+export const NORMAL_SLOTS = [
+  '5LP', '5MP', '5HP', '5LK', '5MK', '5HK',
+  '2LP', '2MP', '2HP', '2LK', '2MK', '2HK',
+  'j.LP', 'j.MP', 'j.HP', 'j.LK', 'j.MK', 'j.HK',
+];
+
+// Cancel tags worth filtering on; other tags in the data are character-specific.
+export const COMPARE_CANCEL_TAGS = ['Chain', 'Target Combo', 'Special', 'Super', 'SA2', 'SA3', 'Drive Rush'];
+
+export type RosterSortKey = 'startup' | 'onBlock' | 'onHit' | 'total';
+
+export type RosterMoveRow = {
+  characterId: string;
+  characterName: string;
+  move: Move;
+  startup: number | null;
+  onBlock: number | null;
+  onHit: number | null;
+  total: number | null;
+  cancels: string[];
+};
+
+export type RosterFilter = {
+  maxStartup?: number;
+  minOnBlock?: number;
+  minOnHit?: number;
+  // Every listed tag must be among the move's cancels.
+  cancelTags?: string[];
+};
+
+/** Input in the data's numpad form, so "cr.MK" / "st. lp" / "2mk" all become slot names. */
+export function normalizeMoveSlot(input: string): string {
+  const compact = input.replace(/\s+/g, '');
+  const numpad = compact
+    .replace(/^(?:cr|c)\./i, '2')
+    .replace(/^(?:st|s)\./i, '5');
+  const jump = numpad.match(/^j\.(.*)$/i);
+  return jump ? `j.${jump[1]!.toUpperCase()}` : numpad.toUpperCase();
+}
+
+// Short forms some scraped rows use for the same tags.
+const CANCEL_TAG_ALIASES: Record<string, string> = {
+  Sp: 'Special',
+  Chn: 'Chain',
+  SA: 'Super',
+  DR: 'Drive Rush',
+};
+
+// "Sp*" / "SA3*" mark conditional cancels; they still count for the tag.
+function normalizeCancelTag(tag: string): string {
+  const trimmed = tag.replace(/\*+$/, '').trim();
+  return CANCEL_TAG_ALIASES[trimmed] ?? trimmed;
+}
+
+export function buildRosterMoveRow(frameData: FrameData, move: Move): RosterMoveRow {
+  const frames = getMoveFrames(move);
+  return {
+    characterId: frameData.character.id,
+    characterName: frameData.character.name,
+    move,
+    startup: frames.startup.first,
+    onBlock: frames.onBlock.leading,
+    onHit: frames.onHit.leading,
+    total: calculateMoveTotalFrames(move),
+    cancels: (move.cancels ?? []).map(normalizeCancelTag),
+  };
+}
+
+/** One row per move in the given slot, for every character that has it. */
+export function buildRosterRows(roster: FrameData[], slot: string): RosterMoveRow[] {
+  const target = normalizeMoveSlot(slot);
+  return roster.flatMap(frameData => frameData.moves
+    .filter(move => normalizeMoveSlot(move.input) === target)
+    .map(move => buildRosterMoveRow(frameData, move)));
+}
+
+export function filterRosterRows(rows: RosterMoveRow[], filter: RosterFilter): RosterMoveRow[] {
+  return rows.filter(row => {
+    if (filter.maxStartup !== undefined && (row.startup === null || row.startup > filter.maxStartup)) return false;
+    if (filter.minOnBlock !== undefined && (row.onBlock === null || row.onBlock < filter.minOnBlock)) return false;
+    if (filter.minOnHit !== undefined && (row.onHit === null || row.onHit < filter.minOnHit)) return false;
+    return (filter.cancelTags ?? []).every(tag => row.cancels.includes(tag));
+  });
+}
+
+// Rows without a value for the key sort last either way.
+export function sortRosterRows(rows: RosterMoveRow[], key: RosterSortKey, order: 'asc' | 'desc'): RosterMoveRow[] {
+  const direction = order === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const av = a[key];
+    const bv = b[key];
+    if (av === null || bv === null) return av === bv ? 0 : av === null ? 1 : -1;
+    return (av - bv) * direction || a.characterName.localeCompare(b.characterName);
+  });
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { Move } from '../types';
+import {
+  getFollowUpMaxDistance,
+  getMeatySpacing,
+  getMovePushback,
+  getMoveRange,
+  getPunishMaxDistance,
+  hasSpacingData,
+} from './spacing';
+
+const buildMove = (input: string, overrides: Partial<Move> = {}): Move => ({
+  name: input,
+  input,
+  damage: '500',
+  startup: '5',
+  active: '3',
+  recovery: '10',
+  onBlock: '-2',
+  onHit: '+3',
+  category: 'normal',
+  ...overrides,
+});
+
+describe('spacing data', () => {
+  it('reports whether a character has any spacing data', () => {
+    expect(hasSpacingData([buildMove('5LP'), buildMove('5MP')])).toBe(false);
+    expect(hasSpacingData([buildMove('5LP'), buildMove('5MK', { range: 1.5 })])).toBe(true);
+  });
+
+  it('reads range and pushback from the move fields only', () => {
+    const move = buildMove('5MK', { range: 1.5, pushback: { block: 0.8 } });
+
+    expect(getMoveRange(move)).toBe(1.5);
+    expect(getMovePushback(move, 'block')).toBe(0.8);
+    expect(getMovePushback(move, 'hit')).toBeNull();
+    expect(getMoveRange(buildMove('5LP', { raw: { total: 17 } }))).toBeNull();
+  });
+});
+
+describe('distance limits', () => {
+  const sweep = buildMove('2HK', { pushback: { block: 1.1, hit: 0.4 } });
+  const standMK = buildMove('5MK', { range: 1.5 });
+
+  it('subtracts the blocked move pushback from the punisher range', () => {
+    expect(getPunishMaxDistance(sweep, standMK)).toBeCloseTo(0.4);
+    expect(getPunishMaxDistance(sweep, buildMove('5LP', { range: 0.9 }))).toBeCloseTo(-0.2);
+    expect(getPunishMaxDistance(sweep, buildMove('5HP'))).toBeNull();
+  });
+
+  it('uses hit pushback for links after a hit', () => {
+    expect(getFollowUpMaxDistance(sweep, standMK, 'hit')).toBeCloseTo(1.1);
+  });
+
+  it('checks whether a meaty reaches after forward dashes', () => {
+    expect(getMeatySpacing({ move: standMK, knockdownDistance: 3, dashes: 1, dashDistance: 1 })).toEqual({
+      distance: 2,
+      range: 1.5,
+      reaches: false,
+    });
+    expect(getMeatySpacing({ move: standMK, knockdownDistance: 3, dashes: 2, dashDistance: 1 })?.reaches).toBe(true);
+    expect(getMeatySpacing({ move: standMK, knockdownDistance: 3, dashes: 1, dashDistance: undefined })).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import type { Move, MovePushback } from '../types';
+
+// All distances are in the game's position units. No scraper fills `range`, `pushback`,
+// `knockdown.distance` or `stats.forwardDashDistance` yet; they are entered by hand
+// (see src/data/README.md), and every check below is skipped while they are missing.
+
+export type PushbackType = keyof MovePushback;
+
+export type MeatySpacing = {
+  // Distance between the characters when the meaty button comes out.
+  distance: number;
+  range: number;
+  reaches: boolean;
+};
+
+// Whether any move has range or pushback; the spacing UI stays hidden until it does.
+export function hasSpacingData(moves: Move[]): boolean {
+  return moves.some(move => move.range !== undefined || move.pushback !== undefined);
+}
+
+export function getMoveRange(move: Move): number | null {
+  return move.range ?? null;
+}
+
+export function getMovePushback(move: Move, type: PushbackType): number | null {
+  return move.pushback?.[type] ?? null;
+}
+
+/**
+ * Furthest distance move1 can connect from and still leave move2 in range after pushback.
+ * Null when either move has no spacing data; negative when move2 never reaches.
+ */
+export function getFollowUpMaxDistance(move1: Move, move2: Move, type: PushbackType): number | null {
+  const pushback = getMovePushback(move1, type);
+  const range = getMoveRange(move2);
+  if (pushback === null || range === null) return null;
+  return range - pushback;
+}
+
+// Furthest distance a blocked move can be punished from by the given button.
+export function getPunishMaxDistance(blockedMove: Move, punisher: Move): number | null {
+  return getFollowUpMaxDistance(blockedMove, punisher, 'block');
+}
+
+// Whether a meaty button reaches a waking opponent after the given number of forward dashes.
+export function getMeatySpacing(params: {
+  move: Move;
+  knockdownDistance: number | undefined;
+  dashes: number;
+  dashDistance: number | undefined;
+}): MeatySpacing | null {
+  const range = getMoveRange(params.move);
+  if (range === null || params.knockdownDistance === undefined) return null;
+  if (params.dashes > 0 && params.dashDistance === undefined) return null;
+
+  const distance = Math.max(0, params.knockdownDistance - params.dashes * (params.dashDistance ?? 0));
+  return { distance, range, reaches: range >= distance };
+}
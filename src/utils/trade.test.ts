@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import type { Move } from '../types';
+import { calculateTradeAdvantage, getTradeInterruptions } from './trade';
+
+const mockMove = (overrides: Partial<Move>): Move => ({
+    name: 'Test Move',
+    input: '5MP',
+    damage: '800',
+    startup: '6',
+    active: '3',
+    recovery: '15',
+    onBlock: '-2',
+    onHit: '4',
+    category: 'normal',
+    ...overrides,
+});
+
+describe('calculateTradeAdvantage', () => {
+    it('compares counter-hit hitstun, falling back to blockstun', () => {
+        expect(calculateTradeAdvantage({ hitstun: 18 }, { hitstun: '15*17' })).toBe(3);
+        expect(calculateTradeAdvantage({ blockstun: 20 }, { hitstun: 22 })).toBe(-2);
+    });
+});
+
+describe('getTradeInterruptions', () => {
+    it('lets an invincible or armored move go through instead of trading', () => {
+        const jab = mockMove({ input: '5LP', startup: '4' });
+        const shoryuken = mockMove({ input: '623PP', startup: '6', invuln: [{ start: 1, end: 8, types: ['full'] }] });
+        const armored = mockMove({ input: '236HP', startup: '12', armor: [{ start: 3, end: 11, hits: 1 }] });
+
+        expect(getTradeInterruptions(shoryuken, jab)).toEqual([{ side: 'A', reason: 'invuln', frame: 4 }]);
+        expect(getTradeInterruptions(jab, armored)).toEqual([{ side: 'B', reason: 'armor', frame: 4 }]);
+        expect(getTradeInterruptions(jab, mockMove({}))).toEqual([]);
+    });
+});
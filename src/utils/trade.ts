@@ -10,6 +10,10 @@
  * CH Hitstun = Base Hitstun + 2.
  */
 
+import type { Move } from '../types';
+import { getMoveFrames } from './frameValue';
+import { hasArmorAt, isStrikeInvulnerableAt } from './moveProperties';
+
 // Minimal interface for what we need from the raw FAT move data
 export interface FATMoveMinimal {
     hitstun?: string | number;
@@ -81,3 +85,27 @@ export function calculateTradeAdvantage(moveA_Raw: FATMoveMinimal, moveB_Raw: FA
 
     return effectiveHitstunA - effectiveHitstunB;
 }
+
+export interface TradeInterruption {
+    side: 'A' | 'B';
+    reason: 'invuln' | 'armor';
+    frame: number; // Frame of the protected move when the other move becomes active
+}
+
+/**
+ * Whether either move goes through the other instead of trading, with both pressed on the same frame:
+ * a move that is strike invincible or armored when the other one becomes active wins outright.
+ */
+export function getTradeInterruptions(moveA: Move, moveB: Move): TradeInterruption[] {
+    const sides: [TradeInterruption['side'], Move, Move][] = [['A', moveA, moveB], ['B', moveB, moveA]];
+    const interruptions: TradeInterruption[] = [];
+
+    for (const [side, move, other] of sides) {
+        const frame = getMoveFrames(other).startup.first;
+        if (frame === null) continue;
+        if (isStrikeInvulnerableAt(move, frame)) interruptions.push({ side, reason: 'invuln', frame });
+        else if (hasArmorAt(move, frame)) interruptions.push({ side, reason: 'armor', frame });
+    }
+
+    return interruptions;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  URL_STATE_VERSION,
+  decodeUrlState,
+  encodeUrlState,
+  migrateUrlQuery,
+  urlField,
+  type UrlStateSchema,
+} from './urlState';
+
+type ExampleState = {
+  char: string;
+  mode: 'link' | 'cancel';
+  dr: boolean;
+  cancel: number;
+  chain: string[];
+};
+
+const schema: UrlStateSchema<ExampleState> = {
+  char: urlField.string,
+  mode: urlField.oneOf(['link', 'cancel'] as const),
+  dr: urlField.boolean,
+  cancel: urlField.number,
+  chain: urlField.list,
+};
+
+describe('encodeUrlState', () => {
+  it('writes the version and skips empty and default values', () => {
+    const query = encodeUrlState(
+      { char: 'ryu', mode: 'link', dr: true, cancel: undefined, chain: [], note: '' },
+      { mode: 'link' },
+    );
+
+    expect(query).toEqual({ v: String(URL_STATE_VERSION), char: 'ryu', dr: '1' });
+  });
+});
+
+describe('decodeUrlState', () => {
+  it('round-trips an encoded state', () => {
+    const state: ExampleState = { char: 'ken', mode: 'cancel', dr: false, cancel: 3, chain: ['dash', 'dr:5MP', '2LP'] };
+    const query = encodeUrlState(state) as Record<string, string>;
+
+    expect(decodeUrlState(query, schema)).toEqual(state);
+  });
+
+  it('drops values that fail to decode and keys outside the schema', () => {
+    const state = decodeUrlState({ char: 'ryu', mode: 'drive', dr: 'yes', cancel: 'abc', other: '1' }, schema);
+
+    expect(state).toEqual({ char: 'ryu' });
+  });
+
+  it('reads the first value of repeated keys', () => {
+    expect(decodeUrlState({ char: ['guile', 'ryu'] }, schema)).toEqual({ char: 'guile' });
+  });
+});
+
+describe('migrateUrlQuery', () => {
+  const migrations = {
+    // v1 → v2: "drive" was renamed to "dr"
+    1: ({ drive, ...rest }: Record<string, string>) => (drive === undefined ? rest : { ...rest, dr: drive }),
+  };
+
+  it('upgrades unversioned links as version 1', () => {
+    expect(migrateUrlQuery({ char: 'ryu', drive: '1' }, migrations, 2)).toEqual({ char: 'ryu', dr: '1' });
+    expect(decodeUrlState({ drive: '1' }, schema, migrations, 2)).toEqual({ dr: true });
+  });
+
+  it('leaves links already at the target version alone', () => {
+    expect(migrateUrlQuery({ v: '2', drive: '1' }, migrations, 2)).toEqual({ v: '2', drive: '1' });
+  });
+});
@@ -0,0 +1,101 @@
+import type { LocationQuery, LocationQueryRaw } from 'vue-router';
+
+// Bump when a field is renamed or changes meaning, and add a migration from the previous version.
+export const URL_STATE_VERSION = 1;
+export const URL_STATE_VERSION_KEY = 'v';
+
+export type UrlStateValue = string | number | boolean | string[] | null | undefined;
+export type UrlFieldDecoder<T> = (raw: string) => T | undefined;
+export type UrlStateSchema<T> = { [K in keyof T]-?: UrlFieldDecoder<NonNullable<T[K]>> };
+export type UrlQueryMigration = (query: Record<string, string>) => Record<string, string>;
+
+const LIST_SEPARATOR = ',';
+
+// Migrations keyed by the version they upgrade from: MIGRATIONS[1] turns a v1 query into v2.
+export const URL_STATE_MIGRATIONS: Record<number, UrlQueryMigration> = {};
+
+export const urlField = {
+  string: ((raw: string) => raw || undefined) as UrlFieldDecoder<string>,
+  number: ((raw: string) => {
+    const value = Number(raw);
+    return raw !== '' && Number.isFinite(value) ? value : undefined;
+  }) as UrlFieldDecoder<number>,
+  boolean: ((raw: string) => {
+    if (raw === '1') return true;
+    if (raw === '0') return false;
+    return undefined;
+  }) as UrlFieldDecoder<boolean>,
+  oneOf<T extends string>(values: readonly T[]): UrlFieldDecoder<T> {
+    return raw => (values as readonly string[]).includes(raw) ? raw as T : undefined;
+  },
+  list: ((raw: string) => raw.split(LIST_SEPARATOR).filter(Boolean)) as UrlFieldDecoder<string[]>,
+};
+
+function encodeValue(value: UrlStateValue): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(LIST_SEPARATOR) : null;
+  return String(value);
+}
+
+/**
+ * Query for a calculator state. Empty values, and values equal to the view default when one is
+ * given, are left out so links stay short.
+ */
+export function encodeUrlState(
+  state: Record<string, UrlStateValue>,
+  defaults: Record<string, UrlStateValue> = {},
+): LocationQueryRaw {
+  const query: Record<string, string> = { [URL_STATE_VERSION_KEY]: String(URL_STATE_VERSION) };
+  for (const [key, value] of Object.entries(state)) {
+    const encoded = encodeValue(value);
+    if (encoded !== null && encoded !== encodeValue(defaults[key])) query[key] = encoded;
+  }
+  return query;
+}
+
+function flattenQuery(query: LocationQuery): Record<string, string> {
+  const flat: Record<string, string> = {};
+  for (const [key, value] of Object.entries(query)) {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (typeof first === 'string') flat[key] = first;
+  }
+  return flat;
+}
+
+// Links without a version predate versioning; they use the v1 field names.
+export function migrateUrlQuery(
+  query: LocationQuery,
+  migrations: Record<number, UrlQueryMigration> = URL_STATE_MIGRATIONS,
+  targetVersion = URL_STATE_VERSION,
+): Record<string, string> {
+  let flat = flattenQuery(query);
+  let version = parseInt(flat[URL_STATE_VERSION_KEY] ?? '', 10) || 1;
+  while (version < targetVersion) {
+    const migrate = migrations[version];
+    if (migrate) flat = migrate(flat);
+    version++;
+  }
+  return flat;
+}
+
+/**
+ * Reads the fields of a schema from the route query. Unknown keys and values that fail to
+ * decode are dropped, so a stale or hand-edited link falls back to the view defaults.
+ */
+export function decodeUrlState<T>(
+  query: LocationQuery,
+  schema: UrlStateSchema<T>,
+  migrations?: Record<number, UrlQueryMigration>,
+  targetVersion?: number,
+): Partial<T> {
+  const flat = migrateUrlQuery(query, migrations, targetVersion);
+  const state: Partial<T> = {};
+  for (const key of Object.keys(schema) as (keyof T & string)[]) {
+    const raw = flat[key];
+    if (raw === undefined) continue;
+    const value = schema[key](raw);
+    if (value !== undefined) state[key] = value as T[typeof key];
+  }
+  return state;
+}